@@ -70,7 +70,7 @@ const AddCollateralModal: React.FC<AddCollateralModalProps> = ({
       }
 
       // Add collateral
-      await userAPI.addCollateralToLoan(parseFloat(collateralAmount));
+      await userAPI.addCollateralToLoan(loanStatus!.loanId, parseFloat(collateralAmount));
       
       // Update balance
       await updateBalance();
@@ -107,8 +107,8 @@ const AddCollateralModal: React.FC<AddCollateralModalProps> = ({
     const currentBtc = loanStatus.collateralAmount / 100000000;
     const newTotalBtc = currentBtc + additionalBtc;
     
-    // Calculate new max borrowable (60% LTV)
-    const newMaxBorrowable = Math.floor((newTotalBtc * loanStatus.currentBtcPrice * 60) / 100);
+    // Calculate new max borrowable at the loan's LTV ratio
+    const newMaxBorrowable = Math.floor((newTotalBtc * loanStatus.currentBtcPrice * loanStatus.ltvRatio) / 100);
     const newAvailableCapacity = newMaxBorrowable - loanStatus.borrowedAmount;
     
     // Calculate new LTV
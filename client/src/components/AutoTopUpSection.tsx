@@ -0,0 +1,127 @@
+import React, { useState, useEffect } from 'react';
+import { ShieldPlus } from 'lucide-react';
+import { userAPI } from '../services/api';
+import { LoanStatus } from '../types';
+import { formatBitcoin } from '../utils/formatters';
+
+interface AutoTopUpSectionProps {
+  loanStatus: LoanStatus;
+  onUpdated: () => void;
+}
+
+// Suggested trigger halfway between the loan's LTV ratio and its liquidation LTV
+const defaultTrigger = (loanStatus: LoanStatus): string =>
+  (Math.round((loanStatus.ltvRatio + loanStatus.liquidationLtv) / 2 * 2) / 2).toString();
+
+const AutoTopUpSection: React.FC<AutoTopUpSectionProps> = ({ loanStatus, onUpdated }) => {
+  const [triggerLtv, setTriggerLtv] = useState('');
+  const [availableBtc, setAvailableBtc] = useState<number | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    setTriggerLtv(loanStatus.autoTopUpTriggerLtv?.toString() || defaultTrigger(loanStatus));
+    setError('');
+  }, [loanStatus.loanId, loanStatus.autoTopUpTriggerLtv]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  useEffect(() => {
+    fetchAvailableBalance();
+  }, [loanStatus.loanId]);
+
+  const fetchAvailableBalance = async () => {
+    try {
+      const dashboardResponse = await userAPI.getDashboard();
+      setAvailableBtc(dashboardResponse.data.data?.balances.btc || 0);
+    } catch (error) {
+      console.error('Error fetching available balance:', error);
+    }
+  };
+
+  const save = async (enabled: boolean) => {
+    setIsSaving(true);
+    setError('');
+    try {
+      await userAPI.setAutoTopUp(loanStatus.loanId, enabled, enabled ? parseFloat(triggerLtv) : undefined);
+      onUpdated();
+    } catch (error: any) {
+      setError(error.response?.data?.message || 'Failed to update auto top-up');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const triggerChanged = loanStatus.autoTopUpEnabled && parseFloat(triggerLtv) !== loanStatus.autoTopUpTriggerLtv;
+
+  return (
+    <div className="bg-gradient-to-br from-zinc-950 to-zinc-900 border border-zinc-800 rounded-xl p-4">
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center gap-2">
+          <ShieldPlus className="w-5 h-5 text-white" />
+          <h3 className="text-lg font-semibold">Auto Top-Up</h3>
+        </div>
+        <span className={`text-xs px-2 py-1 rounded-full ${loanStatus.autoTopUpEnabled ? 'bg-green-900/50 text-green-300' : 'bg-zinc-800 text-zinc-400'}`}>
+          {loanStatus.autoTopUpEnabled ? 'On' : 'Off'}
+        </span>
+      </div>
+
+      <p className="text-zinc-400 text-sm mb-3">
+        When this loan reaches the trigger LTV, available BTC is moved into collateral to bring it back to {loanStatus.ltvRatio}% before any liquidation.
+      </p>
+
+      <div className="flex items-end gap-2">
+        <div className="flex-1">
+          <label className="block text-zinc-400 text-xs mb-1">Trigger LTV (%)</label>
+          <input
+            type="number"
+            inputMode="decimal"
+            value={triggerLtv}
+            onChange={(e) => setTriggerLtv(e.target.value)}
+            min={loanStatus.ltvRatio}
+            max={loanStatus.liquidationLtv}
+            step="0.5"
+            className="w-full bg-zinc-800 border border-zinc-700 rounded-lg py-2 px-3 text-white placeholder-zinc-400 focus:outline-none focus:border-white text-sm"
+          />
+        </div>
+        {loanStatus.autoTopUpEnabled ? (
+          <>
+            {triggerChanged && (
+              <button
+                onClick={() => save(true)}
+                disabled={isSaving || !triggerLtv}
+                className="bg-white text-black hover:bg-zinc-200 disabled:opacity-50 py-2 px-3 rounded-lg transition-colors font-medium text-sm"
+              >
+                Save
+              </button>
+            )}
+            <button
+              onClick={() => save(false)}
+              disabled={isSaving}
+              className="bg-zinc-800 hover:bg-zinc-700 disabled:opacity-50 text-white py-2 px-3 rounded-lg transition-colors text-sm"
+            >
+              Turn Off
+            </button>
+          </>
+        ) : (
+          <button
+            onClick={() => save(true)}
+            disabled={isSaving || !triggerLtv}
+            className="bg-white text-black hover:bg-zinc-200 disabled:opacity-50 py-2 px-3 rounded-lg transition-colors font-medium text-sm"
+          >
+            Turn On
+          </button>
+        )}
+      </div>
+
+      <p className="text-zinc-500 text-xs mt-2">
+        Between {loanStatus.ltvRatio}% and {loanStatus.liquidationLtv}%
+        {availableBtc !== null ? ` · ₿${formatBitcoin(availableBtc)} available` : ''}
+      </p>
+
+      {error && (
+        <p className="text-red-400 text-xs mt-2">{error}</p>
+      )}
+    </div>
+  );
+};
+
+export default AutoTopUpSection;
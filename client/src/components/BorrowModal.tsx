@@ -5,7 +5,7 @@ import { LoanStatus } from '../types';
 import { useBalance } from '../contexts/BalanceContext';
 import PinConfirmationModal from './PinConfirmationModal';
 import { useBodyScrollLock } from '../hooks/useBodyScrollLock';
-import { formatCurrencyInr } from '../utils/formatters';
+import { formatCurrencyInr, getLoanRiskStatus } from '../utils/formatters';
 
 interface BorrowModalProps {
   isOpen: boolean;
@@ -43,14 +43,16 @@ const BorrowModal: React.FC<BorrowModalProps> = ({
   };
 
   const getRiskColor = (ltv: number) => {
-    if (ltv >= 90) return 'text-red-400';
-    if (ltv >= 85) return 'text-yellow-400';
+    const risk = getLoanRiskStatus(ltv, loanStatus?.liquidationLtv || 90);
+    if (risk === 'LIQUIDATE') return 'text-red-400';
+    if (risk === 'WARNING') return 'text-yellow-400';
     return 'text-green-400';
   };
 
   const getRiskText = (ltv: number) => {
-    if (ltv >= 90) return 'HIGH RISK';
-    if (ltv >= 85) return 'MEDIUM RISK';
+    const risk = getLoanRiskStatus(ltv, loanStatus?.liquidationLtv || 90);
+    if (risk === 'LIQUIDATE') return 'HIGH RISK';
+    if (risk === 'WARNING') return 'MEDIUM RISK';
     return 'LOW RISK';
   };
 
@@ -87,7 +89,7 @@ const BorrowModal: React.FC<BorrowModalProps> = ({
       setLoading(true);
       
       // Borrow funds
-      await userAPI.borrowFunds(parseFloat(amount));
+      await userAPI.borrowFunds(loanStatus!.loanId, parseFloat(amount));
       
       // Update balance
       await updateBalance();
@@ -161,6 +163,13 @@ const BorrowModal: React.FC<BorrowModalProps> = ({
               </p>
             </div>
           </div>
+          <div className="border-t border-zinc-700 mt-3 pt-3 text-xs text-zinc-400">
+            <p>
+              <span className="text-white font-medium">{loanStatus.productName || 'Loan'} #{loanStatus.loanId}</span>
+              {' '}· {loanStatus.interestRate}% APR · up to {loanStatus.ltvRatio}% LTV · liquidation at {loanStatus.liquidationLtv}%
+            </p>
+            <p>Interest is charged for at least {loanStatus.minInterestDays} days</p>
+          </div>
         </div>
 
         {/* Amount Input */}
@@ -255,13 +264,13 @@ const BorrowModal: React.FC<BorrowModalProps> = ({
         {/* Info Box */}
         <div className="bg-zinc-800/30 border border-zinc-700 rounded-lg p-3 mb-6">
           <div className="flex items-start gap-2">
-            {amount && parseFloat(amount) > 0 && calculateNewLtv() >= 85 ? (
+            {amount && parseFloat(amount) > 0 && getLoanRiskStatus(calculateNewLtv(), loanStatus.liquidationLtv) !== 'SAFE' ? (
               <AlertTriangle className="w-4 h-4 text-yellow-400 mt-0.5 flex-shrink-0" />
             ) : (
               <Info className="w-4 h-4 text-zinc-400 mt-0.5 flex-shrink-0" />
             )}
             <div className="text-zinc-300 text-xs">
-              {amount && parseFloat(amount) > 0 && calculateNewLtv() >= 85 ? (
+              {amount && parseFloat(amount) > 0 && getLoanRiskStatus(calculateNewLtv(), loanStatus.liquidationLtv) !== 'SAFE' ? (
                 <p><strong className="text-yellow-400">High Risk:</strong> LTV near liquidation threshold. Consider borrowing less.</p>
               ) : (
                 <p>Borrowed funds added to ₹ balance. Interest accrues daily at {loanStatus.interestRate}% APR.</p>
@@ -0,0 +1,56 @@
+import React from 'react';
+import { DcaPlan } from '../types';
+import { formatCurrencyInr, formatBtc, formatDate } from '../utils/formatters';
+
+interface DcaGoalProgressProps {
+  plan: DcaPlan;
+}
+
+const ProgressBar: React.FC<{ label: string; current: string; target: string; percent: number }> = ({ label, current, target, percent }) => (
+  <div>
+    <div className="flex items-center justify-between text-xs mb-1">
+      <span className="text-zinc-400">{label}</span>
+      <span className="text-white">{current} of {target}</span>
+    </div>
+    <div className="h-1.5 bg-zinc-800 rounded-full overflow-hidden">
+      <div className="h-full bg-white rounded-full" style={{ width: `${Math.min(percent, 100)}%` }} />
+    </div>
+  </div>
+);
+
+// Budget, goal and end date of a DCA plan; renders nothing when the plan has none
+const DcaGoalProgress: React.FC<DcaGoalProgressProps> = ({ plan }) => {
+  const isBuy = plan.plan_type === 'DCA_BUY';
+  const formatSpent = (amount: number) => (isBuy ? formatCurrencyInr(amount) : formatBtc(amount));
+  const formatAcquired = (amount: number) => (isBuy ? formatBtc(amount) : formatCurrencyInr(amount));
+
+  if (plan.budget_limit === null && plan.goal_amount === null && !plan.end_date) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-2">
+      {plan.budget_limit !== null && (
+        <ProgressBar
+          label={isBuy ? 'Budget spent' : 'Budget sold'}
+          current={formatSpent(plan.total_spent || 0)}
+          target={formatSpent(plan.budget_limit)}
+          percent={((plan.total_spent || 0) / plan.budget_limit) * 100}
+        />
+      )}
+      {plan.goal_amount !== null && (
+        <ProgressBar
+          label={isBuy ? 'BTC goal' : 'Proceeds goal'}
+          current={formatAcquired(plan.total_acquired || 0)}
+          target={formatAcquired(plan.goal_amount)}
+          percent={((plan.total_acquired || 0) / plan.goal_amount) * 100}
+        />
+      )}
+      {plan.end_date && (
+        <p className="text-zinc-400 text-xs">Ends {formatDate(plan.end_date)}</p>
+      )}
+    </div>
+  );
+};
+
+export default DcaGoalProgress;
@@ -0,0 +1,239 @@
+import React, { useState, useEffect } from 'react';
+import { Edit3 } from 'lucide-react';
+import { userAPI } from '../services/api';
+import { DcaPlan, DcaPlanChange, DcaFrequency, DcaSchedule } from '../types';
+import DcaScheduleBuilder from './DcaScheduleBuilder';
+import { formatCurrencyInr, formatBtc, formatDcaSchedule, formatTimeAgo } from '../utils/formatters';
+
+interface DcaPlanEditorProps {
+  plan: DcaPlan;
+  onUpdated: () => void;
+}
+
+const FREQUENCIES: DcaFrequency[] = ['HOURLY', 'DAILY', 'WEEKLY', 'MONTHLY', 'CUSTOM'];
+
+const inputClass = 'w-full bg-zinc-800 border border-zinc-700 rounded-lg py-2 px-3 text-white placeholder-zinc-400 focus:outline-none focus:border-white text-sm';
+
+const DcaPlanEditor: React.FC<DcaPlanEditorProps> = ({ plan, onUpdated }) => {
+  const isBuy = plan.plan_type === 'DCA_BUY';
+  const [isOpen, setIsOpen] = useState(false);
+  const [amount, setAmount] = useState('');
+  const [frequency, setFrequency] = useState<DcaFrequency>(plan.frequency);
+  const [schedule, setSchedule] = useState<DcaSchedule | undefined>(undefined);
+  const [isEditingSchedule, setIsEditingSchedule] = useState(false);
+  const [maxPrice, setMaxPrice] = useState('');
+  const [minPrice, setMinPrice] = useState('');
+  const [remaining, setRemaining] = useState('');
+  const [changes, setChanges] = useState<DcaPlanChange[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    setIsOpen(false);
+    setError('');
+    userAPI.getDcaPlanChanges(plan.id)
+      .then(response => setChanges(response.data.data || []))
+      .catch(() => setChanges([]));
+  }, [plan.id]);
+
+  const handleOpen = () => {
+    setAmount(plan.amount_per_execution.toString());
+    setFrequency(plan.frequency);
+    setSchedule(undefined);
+    setIsEditingSchedule(false);
+    setMaxPrice(plan.max_price ? plan.max_price.toString() : '');
+    setMinPrice(plan.min_price ? plan.min_price.toString() : '');
+    setRemaining(plan.remaining_executions !== null ? plan.remaining_executions.toString() : '');
+    setError('');
+    setIsOpen(true);
+  };
+
+  // A custom plan keeps its rule unless the user opens the builder
+  const showScheduleBuilder = frequency === 'CUSTOM' && (plan.frequency !== 'CUSTOM' || isEditingSchedule);
+
+  // Only send what changed; cleared price limits and remaining executions are sent as null
+  const buildChanges = () => {
+    const parsedAmount = parseFloat(amount);
+    const parsedMax = maxPrice ? parseInt(maxPrice) : null;
+    const parsedMin = minPrice ? parseInt(minPrice) : null;
+    const parsedRemaining = remaining ? parseInt(remaining) : null;
+
+    return {
+      amountPerExecution: parsedAmount !== plan.amount_per_execution ? (isBuy ? Math.round(parsedAmount) : parsedAmount) : undefined,
+      frequency: frequency !== plan.frequency ? frequency : undefined,
+      schedule: showScheduleBuilder ? schedule : undefined,
+      maxPrice: parsedMax !== plan.max_price ? parsedMax : undefined,
+      minPrice: parsedMin !== plan.min_price ? parsedMin : undefined,
+      remainingExecutions: parsedRemaining !== plan.remaining_executions ? parsedRemaining : undefined
+    };
+  };
+
+  const hasChanges = () => Object.values(buildChanges()).some(value => value !== undefined);
+
+  const handleSave = async () => {
+    if (!(parseFloat(amount) > 0)) {
+      setError('Amount per execution must be greater than 0');
+      return;
+    }
+
+    setIsSaving(true);
+    setError('');
+    try {
+      await userAPI.updateDcaPlan(plan.id, buildChanges());
+      onUpdated();
+    } catch (error: any) {
+      setError(error.response?.data?.message || 'Failed to update DCA plan');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const formatAmount = (value: number) => (isBuy ? formatCurrencyInr(value) : formatBtc(value));
+
+  const formatFrequency = (value: DcaFrequency, rule: DcaSchedule | null) =>
+    (value === 'CUSTOM' && rule ? formatDcaSchedule(rule) : value);
+
+  // Human-readable summary of one logged edit
+  const describeChange = (change: DcaPlanChange): string => {
+    const parts: string[] = [];
+    if (change.old_amount_per_execution !== change.new_amount_per_execution) {
+      parts.push(`Amount ${formatAmount(change.old_amount_per_execution)} → ${formatAmount(change.new_amount_per_execution)}`);
+    }
+    if (change.old_frequency !== change.new_frequency || JSON.stringify(change.old_schedule) !== JSON.stringify(change.new_schedule)) {
+      parts.push(`${formatFrequency(change.old_frequency, change.old_schedule)} → ${formatFrequency(change.new_frequency, change.new_schedule)}`);
+    }
+    if (change.old_max_price !== change.new_max_price) {
+      parts.push(`Max ${change.old_max_price ? formatCurrencyInr(change.old_max_price) : 'none'} → ${change.new_max_price ? formatCurrencyInr(change.new_max_price) : 'none'}`);
+    }
+    if (change.old_min_price !== change.new_min_price) {
+      parts.push(`Min ${change.old_min_price ? formatCurrencyInr(change.old_min_price) : 'none'} → ${change.new_min_price ? formatCurrencyInr(change.new_min_price) : 'none'}`);
+    }
+    if (change.old_remaining_executions !== change.new_remaining_executions) {
+      parts.push(`Remaining ${change.old_remaining_executions ?? 'unlimited'} → ${change.new_remaining_executions ?? 'unlimited'}`);
+    }
+    return parts.join(' · ');
+  };
+
+  return (
+    <div className="bg-zinc-800/50 rounded-lg p-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <Edit3 className="w-4 h-4 text-white" />
+          <p className="text-white font-medium text-sm">Edit Plan</p>
+        </div>
+        {!isOpen && (
+          <button
+            onClick={handleOpen}
+            className="text-xs px-3 py-1 rounded-lg bg-zinc-800 text-zinc-300 hover:bg-zinc-700 transition-colors"
+          >
+            Edit
+          </button>
+        )}
+      </div>
+
+      {isOpen && (
+        <div className="space-y-3 mt-3">
+          <div>
+            <label className="block text-zinc-400 text-xs mb-1">
+              {plan.strategy && plan.strategy !== 'FIXED' ? 'Base amount' : 'Amount per execution'} ({isBuy ? '₹' : '₿'})
+            </label>
+            <input
+              type="number"
+              inputMode="decimal"
+              min="0"
+              step={isBuy ? '1' : '0.00000001'}
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              className={inputClass}
+            />
+          </div>
+
+          <div>
+            <label className="block text-zinc-400 text-xs mb-1">Frequency</label>
+            <div className="grid grid-cols-5 gap-1">
+              {FREQUENCIES.map(option => (
+                <button
+                  key={option}
+                  onClick={() => setFrequency(option)}
+                  className={`py-1.5 rounded-lg text-xs transition-colors ${frequency === option ? 'bg-white text-black font-medium' : 'bg-zinc-800 text-zinc-300 hover:bg-zinc-700'}`}
+                >
+                  {option === 'CUSTOM' ? 'Custom' : option.charAt(0) + option.slice(1).toLowerCase()}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {frequency === 'CUSTOM' && plan.frequency === 'CUSTOM' && !isEditingSchedule && plan.schedule && (
+            <div className="flex items-center justify-between text-xs">
+              <span className="text-zinc-300">{formatDcaSchedule(plan.schedule)}</span>
+              <button onClick={() => setIsEditingSchedule(true)} className="text-zinc-400 hover:text-white transition-colors">
+                Change schedule
+              </button>
+            </div>
+          )}
+
+          {showScheduleBuilder && <DcaScheduleBuilder onChange={setSchedule} />}
+
+          <div className="grid grid-cols-3 gap-2">
+            <div>
+              <label className="block text-zinc-400 text-xs mb-1">Max price (₹)</label>
+              <input type="number" inputMode="numeric" min="1" step="1" value={maxPrice} onChange={(e) => setMaxPrice(e.target.value)} className={inputClass} placeholder="None" />
+            </div>
+            <div>
+              <label className="block text-zinc-400 text-xs mb-1">Min price (₹)</label>
+              <input type="number" inputMode="numeric" min="1" step="1" value={minPrice} onChange={(e) => setMinPrice(e.target.value)} className={inputClass} placeholder="None" />
+            </div>
+            <div>
+              <label className="block text-zinc-400 text-xs mb-1">Remaining</label>
+              <input type="number" inputMode="numeric" min="1" step="1" value={remaining} onChange={(e) => setRemaining(e.target.value)} className={inputClass} placeholder="Unlimited" />
+            </div>
+          </div>
+
+          {plan.strategy === 'VALUE_AVERAGING' && parseFloat(amount) !== plan.amount_per_execution && (
+            <p className="text-zinc-500 text-xs">The value averaging target growth and maximum scale with the base amount.</p>
+          )}
+
+          {plan.status === 'ACTIVE' && frequency !== plan.frequency && (
+            <p className="text-zinc-500 text-xs">The next run moves to one new period from now{frequency === 'CUSTOM' ? ' (the schedule\'s next run)' : ''}.</p>
+          )}
+
+          <div className="flex gap-2">
+            <button
+              onClick={() => setIsOpen(false)}
+              className="flex-1 bg-zinc-800 hover:bg-zinc-700 text-white py-2 px-3 rounded-lg transition-colors text-sm"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={isSaving || !hasChanges()}
+              className="flex-1 bg-white text-black hover:bg-zinc-200 disabled:opacity-50 py-2 px-3 rounded-lg transition-colors font-medium text-sm"
+            >
+              {isSaving ? 'Saving...' : 'Save Changes'}
+            </button>
+          </div>
+
+          {error && (
+            <p className="text-red-400 text-xs">{error}</p>
+          )}
+        </div>
+      )}
+
+      {changes.length > 0 && (
+        <div className="mt-3">
+          <p className="text-zinc-400 text-xs mb-2">Change History</p>
+          <div className="space-y-1">
+            {changes.map(change => (
+              <div key={change.id} className="text-xs">
+                <p className="text-zinc-300">{describeChange(change)}</p>
+                <p className="text-zinc-500">{formatTimeAgo(change.created_at)}</p>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DcaPlanEditor;
@@ -12,7 +12,10 @@ import {
 } from 'lucide-react';
 import { userAPI } from '../services/api';
 import { DcaPlan } from '../types';
-import { formatCurrency, formatTimeAgo, formatCurrencyInr } from '../utils/formatters';
+import { formatCurrency, formatTimeAgo, formatCurrencyInr, formatDcaStrategy, formatDcaCatchUpPolicy, formatDcaSchedule } from '../utils/formatters';
+import DcaStrategyPanel from './DcaStrategyPanel';
+import DcaGoalProgress from './DcaGoalProgress';
+import DcaPlanEditor from './DcaPlanEditor';
 
 interface DcaPlansSectionProps {
   onUpdate?: () => void;
@@ -117,6 +120,13 @@ const DcaPlansSection = forwardRef<DcaPlansSectionRef, DcaPlansSectionProps>(({
     }
   };
 
+  const handlePlanUpdated = async () => {
+    await fetchDcaPlans();
+    onUpdate?.();
+    setShowDetailsModal(false);
+    setSelectedPlan(null);
+  };
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'ACTIVE':
@@ -242,7 +252,7 @@ const DcaPlansSection = forwardRef<DcaPlansSectionRef, DcaPlansSectionProps>(({
                     <div>
                       <div className="flex items-center gap-2">
                         <p className="font-medium text-white text-sm">
-                          {plan.plan_type === 'DCA_BUY' ? 'DCA Buy' : 'DCA Sell'} - {plan.frequency}
+                          {plan.plan_type === 'DCA_BUY' ? 'DCA Buy' : 'DCA Sell'} - {plan.frequency === 'CUSTOM' && plan.schedule ? formatDcaSchedule(plan.schedule) : plan.frequency}
                         </p>
                         <span className={`px-1.5 py-0.5 text-xs border rounded flex items-center gap-1 ${getStatusColor(plan.status)}`}>
                           {getStatusIcon(plan.status)}
@@ -251,6 +261,7 @@ const DcaPlansSection = forwardRef<DcaPlansSectionRef, DcaPlansSectionProps>(({
                       </div>
                       <p className="text-zinc-400 text-xs">
                         Created {formatTimeAgo(plan.created_at)}
+                        {plan.strategy && plan.strategy !== 'FIXED' && ` · ${formatDcaStrategy(plan.strategy)}`}
                       </p>
                     </div>
                   </div>
@@ -258,7 +269,7 @@ const DcaPlansSection = forwardRef<DcaPlansSectionRef, DcaPlansSectionProps>(({
 
                 <div className="grid grid-cols-2 gap-4 text-sm">
                   <div>
-                    <p className="text-zinc-400">Amount per execution</p>
+                    <p className="text-zinc-400">{plan.strategy && plan.strategy !== 'FIXED' ? 'Base amount' : 'Amount per execution'}</p>
                     <p className="font-bold text-white">
                       {plan.plan_type === 'DCA_BUY' 
                         ? formatCurrencyInr(plan.amount_per_execution)
@@ -298,6 +309,10 @@ const DcaPlansSection = forwardRef<DcaPlansSectionRef, DcaPlansSectionProps>(({
                     </div>
                   )}
                 </div>
+
+                <div className="mt-3">
+                  <DcaGoalProgress plan={plan} />
+                </div>
               </div>
             ))}
           </div>
@@ -313,7 +328,7 @@ const DcaPlansSection = forwardRef<DcaPlansSectionRef, DcaPlansSectionProps>(({
       {/* Modal for managing selected DCA plan */}
       {showDetailsModal && selectedPlan && (
         <div className="fixed inset-0 bg-black/80 backdrop-blur-sm flex items-center justify-center z-50 p-4">
-          <div className="bg-gradient-to-br from-zinc-950 to-zinc-900 border border-zinc-800 rounded-xl w-full max-w-md max-h-[90vh] overflow-hidden">
+          <div className="bg-gradient-to-br from-zinc-950 to-zinc-900 border border-zinc-800 rounded-xl w-full max-w-md max-h-[90vh] overflow-y-auto">
             {/* Header */}
             <div className="flex items-center justify-between p-6 border-b border-zinc-800">
               <div className="flex items-center gap-3">
@@ -344,7 +359,7 @@ const DcaPlansSection = forwardRef<DcaPlansSectionRef, DcaPlansSectionProps>(({
                 {/* Frequency */}
                 <div className="bg-zinc-800/50 rounded-lg p-3">
                   <p className="text-zinc-400 text-xs mb-1">Frequency</p>
-                  <p className="text-white font-medium text-sm">{selectedPlan.frequency}</p>
+                  <p className="text-white font-medium text-sm">{selectedPlan.frequency === 'CUSTOM' && selectedPlan.schedule ? formatDcaSchedule(selectedPlan.schedule) : selectedPlan.frequency}</p>
                 </div>
                 
                 {/* Amount per Execution */}
@@ -377,28 +392,41 @@ const DcaPlansSection = forwardRef<DcaPlansSectionRef, DcaPlansSectionProps>(({
                 </div>
               </div>
 
-              {/* Optional Details */}
-              {(selectedPlan.remaining_executions !== null || selectedPlan.max_price || selectedPlan.min_price) && (
-                <div className="bg-zinc-800/50 rounded-lg p-4">
-                  <div className="space-y-2 text-sm">
-                    {selectedPlan.remaining_executions !== null && (
-                      <div>
-                        <span className="text-zinc-400">Progress: </span>
-                        <span className="text-white">{selectedPlan.remaining_executions} of {selectedPlan.total_executions} remaining</span>
-                      </div>
-                    )}
-                    {(selectedPlan.max_price || selectedPlan.min_price) && (
-                      <div>
-                        <span className="text-zinc-400">Price Limits: </span>
-                        <span className="text-white">
-                          {selectedPlan.max_price && `Max ${formatCurrencyInr(selectedPlan.max_price)}`}
-                          {selectedPlan.max_price && selectedPlan.min_price && ', '}
-                          {selectedPlan.min_price && `Min ${formatCurrencyInr(selectedPlan.min_price)}`}
-                        </span>
-                      </div>
-                    )}
+              {/* Plan Settings */}
+              <div className="bg-zinc-800/50 rounded-lg p-4">
+                <div className="space-y-2 text-sm">
+                  {selectedPlan.remaining_executions !== null && (
+                    <div>
+                      <span className="text-zinc-400">Progress: </span>
+                      <span className="text-white">{selectedPlan.remaining_executions} of {selectedPlan.total_executions} remaining</span>
+                    </div>
+                  )}
+                  <div>
+                    <span className="text-zinc-400">Missed executions: </span>
+                    <span className="text-white">{formatDcaCatchUpPolicy(selectedPlan.catch_up_policy || 'ONCE')}</span>
                   </div>
+                  {(selectedPlan.max_price || selectedPlan.min_price) && (
+                    <div>
+                      <span className="text-zinc-400">Price Limits: </span>
+                      <span className="text-white">
+                        {selectedPlan.max_price && `Max ${formatCurrencyInr(selectedPlan.max_price)}`}
+                        {selectedPlan.max_price && selectedPlan.min_price && ', '}
+                        {selectedPlan.min_price && `Min ${formatCurrencyInr(selectedPlan.min_price)}`}
+                      </span>
+                    </div>
+                  )}
                 </div>
+                {(selectedPlan.budget_limit !== null || selectedPlan.goal_amount !== null || selectedPlan.end_date) && (
+                  <div className="mt-3">
+                    <DcaGoalProgress plan={selectedPlan} />
+                  </div>
+                )}
+              </div>
+
+              <DcaPlanEditor plan={selectedPlan} onUpdated={handlePlanUpdated} />
+
+              {selectedPlan.plan_type === 'DCA_BUY' && (
+                <DcaStrategyPanel plan={selectedPlan} onUpdated={handlePlanUpdated} />
               )}
 
               {/* Action Buttons */}
@@ -0,0 +1,110 @@
+import React, { useState, useEffect } from 'react';
+import { DcaSchedule } from '../types';
+import { formatDcaSchedule } from '../utils/formatters';
+
+interface DcaScheduleBuilderProps {
+  onChange: (schedule: DcaSchedule) => void;
+}
+
+type ScheduleType = DcaSchedule['type'];
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const MONTH_DAYS = Array.from({ length: 31 }, (_, i) => i + 1);
+
+const toggle = (values: number[], value: number): number[] =>
+  values.includes(value) ? values.filter(v => v !== value) : [...values, value].sort((a, b) => a - b);
+
+const DcaScheduleBuilder: React.FC<DcaScheduleBuilderProps> = ({ onChange }) => {
+  const [type, setType] = useState<ScheduleType>('WEEKDAYS');
+  const [weekdays, setWeekdays] = useState<number[]>([1]);
+  const [monthDays, setMonthDays] = useState<number[]>([1]);
+  const [time, setTime] = useState('09:00');
+  const [expression, setExpression] = useState('0 9 * * 1-5');
+
+  const schedule: DcaSchedule = type === 'WEEKDAYS'
+    ? { type, weekdays, time }
+    : type === 'MONTH_DAYS'
+    ? { type, monthDays, time }
+    : { type, expression };
+
+  useEffect(() => {
+    onChange(schedule);
+  }, [type, weekdays, monthDays, time, expression]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  const dayButtonClass = (selected: boolean) =>
+    `py-1.5 rounded-md text-xs font-medium transition-colors ${selected ? 'bg-white text-black' : 'bg-zinc-800 text-zinc-400 hover:text-white'}`;
+
+  return (
+    <div className="bg-zinc-800/50 border border-zinc-800 rounded-lg p-4 space-y-3">
+      <div className="grid grid-cols-3 bg-zinc-800 rounded-lg p-1 gap-1">
+        {([['WEEKDAYS', 'Weekdays'], ['MONTH_DAYS', 'Month Days'], ['CRON', 'Cron']] as [ScheduleType, string][]).map(([value, label]) => (
+          <button
+            key={value}
+            onClick={() => setType(value)}
+            className={`py-1.5 px-2 rounded-md text-xs font-medium transition-colors ${
+              type === value ? 'bg-white text-black' : 'text-zinc-400 hover:text-white'
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {type === 'WEEKDAYS' && (
+        <div className="grid grid-cols-7 gap-1">
+          {WEEKDAYS.map((name, day) => (
+            <button key={name} onClick={() => setWeekdays(toggle(weekdays, day))} className={dayButtonClass(weekdays.includes(day))}>
+              {name}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {type === 'MONTH_DAYS' && (
+        <div className="grid grid-cols-8 gap-1">
+          {MONTH_DAYS.map(day => (
+            <button key={day} onClick={() => setMonthDays(toggle(monthDays, day))} className={dayButtonClass(monthDays.includes(day))}>
+              {day}
+            </button>
+          ))}
+          <button onClick={() => setMonthDays(toggle(monthDays, -1))} className={dayButtonClass(monthDays.includes(-1))}>
+            Last
+          </button>
+        </div>
+      )}
+
+      {type === 'CRON' ? (
+        <div>
+          <input
+            type="text"
+            value={expression}
+            onChange={(e) => setExpression(e.target.value)}
+            className="w-full bg-zinc-800 border border-zinc-700 rounded-lg py-2 px-3 text-white placeholder-zinc-400 focus:outline-none focus:border-white text-sm font-mono"
+            placeholder="minute hour day-of-month month day-of-week"
+          />
+          <p className="text-zinc-500 text-xs mt-1">
+            minute hour day-of-month month day-of-week · supports *, lists, ranges, steps and L (last day) · at most hourly
+          </p>
+        </div>
+      ) : (
+        <div className="flex items-center gap-2">
+          <label className="text-zinc-400 text-xs">Time (IST)</label>
+          <input
+            type="time"
+            value={time}
+            onChange={(e) => setTime(e.target.value)}
+            className="bg-zinc-800 border border-zinc-700 rounded-lg py-1.5 px-3 text-white focus:outline-none focus:border-white text-sm"
+          />
+        </div>
+      )}
+
+      {type === 'MONTH_DAYS' && monthDays.some(day => day > 28) && (
+        <p className="text-zinc-500 text-xs">Days past the end of a shorter month run on its last day.</p>
+      )}
+
+      <p className="text-zinc-300 text-xs">{formatDcaSchedule(schedule)}</p>
+    </div>
+  );
+};
+
+export default DcaScheduleBuilder;
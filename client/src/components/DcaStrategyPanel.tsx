@@ -0,0 +1,181 @@
+import React, { useState, useEffect } from 'react';
+import { Sliders } from 'lucide-react';
+import { userAPI } from '../services/api';
+import { DcaPlan, DcaStrategyType, DcaStrategyInput, DcaStrategyPreview } from '../types';
+import { formatCurrencyInr, formatDcaStrategy } from '../utils/formatters';
+
+interface DcaStrategyPanelProps {
+  plan: DcaPlan;
+  onUpdated: () => void;
+}
+
+const STRATEGY_TYPES: DcaStrategyType[] = ['FIXED', 'VALUE_AVERAGING', 'DIP_MULTIPLIER'];
+const MOVING_AVERAGE_DAYS = [7, 30, 90, 365] as const;
+
+const inputClass = 'w-full bg-zinc-800 border border-zinc-700 rounded-lg py-2 px-3 text-white placeholder-zinc-400 focus:outline-none focus:border-white text-sm';
+
+const DcaStrategyPanel: React.FC<DcaStrategyPanelProps> = ({ plan, onUpdated }) => {
+  const [type, setType] = useState<DcaStrategyType>(plan.strategy || 'FIXED');
+  const [targetGrowth, setTargetGrowth] = useState('');
+  const [maxAmount, setMaxAmount] = useState('');
+  const [dipPct, setDipPct] = useState('');
+  const [dipMultiplier, setDipMultiplier] = useState('');
+  const [maDays, setMaDays] = useState<typeof MOVING_AVERAGE_DAYS[number]>(30);
+  const [preview, setPreview] = useState<DcaStrategyPreview | null>(null);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    setType(plan.strategy || 'FIXED');
+    setTargetGrowth((plan.va_target_growth ?? plan.amount_per_execution).toString());
+    setMaxAmount((plan.va_max_amount ?? plan.amount_per_execution * 2).toString());
+    setDipPct((plan.dip_threshold_pct ?? 10).toString());
+    setDipMultiplier((plan.dip_multiplier ?? 2).toString());
+    setMaDays((plan.dip_ma_days as typeof MOVING_AVERAGE_DAYS[number]) ?? 30);
+    setPreview(null);
+    setError('');
+  }, [plan.id]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  const buildInput = (): DcaStrategyInput => {
+    if (type === 'VALUE_AVERAGING') {
+      return { type, targetGrowth: parseInt(targetGrowth), maxAmount: parseInt(maxAmount) };
+    }
+    if (type === 'DIP_MULTIPLIER') {
+      return { type, dipPct: parseFloat(dipPct), dipMultiplier: parseFloat(dipMultiplier), maDays };
+    }
+    return { type };
+  };
+
+  const handlePreview = async () => {
+    setIsPreviewing(true);
+    setError('');
+    try {
+      const response = await userAPI.previewDcaStrategy(plan.id, buildInput());
+      setPreview(response.data.data || null);
+    } catch (error: any) {
+      setPreview(null);
+      setError(error.response?.data?.message || 'Failed to preview strategy');
+    } finally {
+      setIsPreviewing(false);
+    }
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError('');
+    try {
+      await userAPI.setDcaStrategy(plan.id, buildInput());
+      onUpdated();
+    } catch (error: any) {
+      setError(error.response?.data?.message || 'Failed to update strategy');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const describePreview = (result: DcaStrategyPreview): string => {
+    const { inputs } = result;
+    if (inputs.strategy === 'VALUE_AVERAGING') {
+      return `Target ${formatCurrencyInr(inputs.targetValue || 0)} for execution ${inputs.execution}, plan holdings worth ${formatCurrencyInr(inputs.currentValue || 0)}`;
+    }
+    if (inputs.strategy === 'DIP_MULTIPLIER') {
+      if (inputs.movingAverage == null) {
+        return `No ${inputs.maDays}-day price history yet, so the base amount applies`;
+      }
+      return `Price is ${inputs.belowAveragePct}% below the ${inputs.maDays}-day average of ${formatCurrencyInr(inputs.movingAverage)}; ${inputs.applied}x applies`;
+    }
+    return 'Same amount every execution';
+  };
+
+  return (
+    <div className="bg-zinc-800/50 rounded-lg p-4">
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center gap-2">
+          <Sliders className="w-4 h-4 text-white" />
+          <p className="text-white font-medium text-sm">Strategy</p>
+        </div>
+        <span className="text-xs px-2 py-1 rounded-full bg-zinc-800 text-zinc-300">
+          {formatDcaStrategy(plan.strategy || 'FIXED')}
+        </span>
+      </div>
+
+      <div className="grid grid-cols-3 gap-2 mb-3">
+        {STRATEGY_TYPES.map(option => (
+          <button
+            key={option}
+            onClick={() => { setType(option); setPreview(null); }}
+            className={`py-2 px-2 rounded-lg text-xs transition-colors ${type === option ? 'bg-white text-black font-medium' : 'bg-zinc-800 text-zinc-300 hover:bg-zinc-700'}`}
+          >
+            {formatDcaStrategy(option)}
+          </button>
+        ))}
+      </div>
+
+      {type === 'VALUE_AVERAGING' && (
+        <div className="grid grid-cols-2 gap-2 mb-3">
+          <div>
+            <label className="block text-zinc-400 text-xs mb-1">Target growth (₹ per execution)</label>
+            <input type="number" inputMode="numeric" min="1" step="1" value={targetGrowth} onChange={(e) => { setTargetGrowth(e.target.value); setPreview(null); }} className={inputClass} />
+          </div>
+          <div>
+            <label className="block text-zinc-400 text-xs mb-1">Max per execution (₹)</label>
+            <input type="number" inputMode="numeric" min="1" step="1" value={maxAmount} onChange={(e) => { setMaxAmount(e.target.value); setPreview(null); }} className={inputClass} />
+          </div>
+        </div>
+      )}
+
+      {type === 'DIP_MULTIPLIER' && (
+        <div className="grid grid-cols-3 gap-2 mb-3">
+          <div>
+            <label className="block text-zinc-400 text-xs mb-1">Dip (%)</label>
+            <input type="number" inputMode="decimal" min="0.1" max="99" step="0.5" value={dipPct} onChange={(e) => { setDipPct(e.target.value); setPreview(null); }} className={inputClass} />
+          </div>
+          <div>
+            <label className="block text-zinc-400 text-xs mb-1">Multiplier</label>
+            <input type="number" inputMode="decimal" min="1.1" max="10" step="0.1" value={dipMultiplier} onChange={(e) => { setDipMultiplier(e.target.value); setPreview(null); }} className={inputClass} />
+          </div>
+          <div>
+            <label className="block text-zinc-400 text-xs mb-1">Average</label>
+            <select value={maDays} onChange={(e) => { setMaDays(Number(e.target.value) as typeof MOVING_AVERAGE_DAYS[number]); setPreview(null); }} className={inputClass}>
+              {MOVING_AVERAGE_DAYS.map(days => (
+                <option key={days} value={days}>{days} days</option>
+              ))}
+            </select>
+          </div>
+        </div>
+      )}
+
+      {preview && (
+        <div className="bg-zinc-900/60 border border-zinc-700 rounded-lg p-3 mb-3">
+          <p className="text-zinc-400 text-xs">Next execution would spend</p>
+          <p className="text-white font-bold">{formatCurrencyInr(preview.amount)}</p>
+          <p className="text-zinc-500 text-xs mt-1">{describePreview(preview)}</p>
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        <button
+          onClick={handlePreview}
+          disabled={isPreviewing}
+          className="flex-1 bg-zinc-800 hover:bg-zinc-700 disabled:opacity-50 text-white py-2 px-3 rounded-lg transition-colors text-sm"
+        >
+          {isPreviewing ? 'Previewing...' : 'Preview'}
+        </button>
+        <button
+          onClick={handleSave}
+          disabled={isSaving}
+          className="flex-1 bg-white text-black hover:bg-zinc-200 disabled:opacity-50 py-2 px-3 rounded-lg transition-colors font-medium text-sm"
+        >
+          {isSaving ? 'Saving...' : 'Save Strategy'}
+        </button>
+      </div>
+
+      {error && (
+        <p className="text-red-400 text-xs mt-2">{error}</p>
+      )}
+    </div>
+  );
+};
+
+export default DcaStrategyPanel;
@@ -1,8 +1,9 @@
 import React, { useState, useEffect } from 'react';
 import { X, Wallet, Bitcoin, Calculator, Info } from 'lucide-react';
-import { userAPI, adminAPI } from '../services/api';
+import { userAPI } from '../services/api';
 import { useBalance } from '../contexts/BalanceContext';
-import { formatBitcoin, formatInr } from '../utils/formatters';
+import { LoanProduct } from '../types';
+import { formatBitcoin, formatInr, formatCompounding } from '../utils/formatters';
 import PinConfirmationModal from './PinConfirmationModal';
 import { useBodyScrollLock } from '../hooks/useBodyScrollLock';
 
@@ -20,7 +21,8 @@ const DepositCollateralModal: React.FC<DepositCollateralModalProps> = ({
   const [amount, setAmount] = useState('');
   const [btcSellRate, setBtcSellRate] = useState(0);
   const [availableBtc, setAvailableBtc] = useState(0);
-  const [interestRate, setInterestRate] = useState(15);
+  const [products, setProducts] = useState<LoanProduct[]>([]);
+  const [productId, setProductId] = useState<number | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
   const [isPinModalOpen, setIsPinModalOpen] = useState(false);
@@ -32,36 +34,44 @@ const DepositCollateralModal: React.FC<DepositCollateralModalProps> = ({
     if (isOpen) {
       fetchData();
     }
-  }, [isOpen]);
+  }, [isOpen]); // eslint-disable-line react-hooks/exhaustive-deps
 
   const fetchData = async () => {
     try {
-      const [dashboardResponse, pricesResponse, settingsResponse] = await Promise.all([
+      const [dashboardResponse, pricesResponse, productsResponse] = await Promise.all([
         userAPI.getDashboard(),
         userAPI.getPrices(),
-        adminAPI.getSettings()
+        userAPI.getLoanProducts()
       ]);
       
       setAvailableBtc(dashboardResponse.data.data?.balances.btc || 0);
       setBtcSellRate(pricesResponse.data.data?.sell_rate || 0);
-      setInterestRate(settingsResponse.data.data?.loan_interest_rate || 15);
+
+      const availableProducts = productsResponse.data.data || [];
+      setProducts(availableProducts);
+      if (!availableProducts.some(product => product.id === productId)) {
+        setProductId(availableProducts[0]?.id ?? null);
+      }
     } catch (error) {
       console.error('Error fetching data:', error);
-      // Fallback to default interest rate if settings fetch fails
-      setInterestRate(15);
+      setError('Unable to load loan products');
     }
   };
 
+  const selectedProduct = products.find(product => product.id === productId) || null;
+  const ltvRatio = selectedProduct?.max_ltv || 0;
+
   const calculateMaxBorrowable = () => {
     if (!amount || !btcSellRate) return 0;
     const btcAmount = parseFloat(amount);
     const collateralValue = btcAmount * btcSellRate;
-    return Math.floor(collateralValue * 0.6); // 60% LTV
+    return Math.floor(collateralValue * ltvRatio / 100);
   };
 
   const calculateLiquidationPrice = () => {
-    if (!btcSellRate) return 0;
-    return Math.floor(btcSellRate * (60 / 90)); // 90% LTV triggers liquidation
+    if (!btcSellRate || !selectedProduct) return 0;
+    // Price at which borrowing the full amount reaches the product's liquidation LTV
+    return Math.floor(btcSellRate * (ltvRatio / selectedProduct.liquidation_ltv));
   };
 
   const handleDeposit = () => {
@@ -76,6 +86,11 @@ const DepositCollateralModal: React.FC<DepositCollateralModalProps> = ({
       return;
     }
 
+    if (!selectedProduct) {
+      setError('Please choose a loan product');
+      return;
+    }
+
     setError('');
     setIsPinModalOpen(true);
   };
@@ -95,7 +110,7 @@ const DepositCollateralModal: React.FC<DepositCollateralModalProps> = ({
       const satoshiAmount = Math.floor(parseFloat(amount) * 100000000);
       
       // Deposit collateral
-      await userAPI.depositCollateral(satoshiAmount);
+      await userAPI.depositCollateral(satoshiAmount, selectedProduct?.id);
       
       // Update balance
       await updateBalance();
@@ -135,7 +150,7 @@ const DepositCollateralModal: React.FC<DepositCollateralModalProps> = ({
             <div>
               <h2 className="text-xl font-bold">Deposit Collateral</h2>
               <p className="text-sm text-zinc-400">
-                Lock Bitcoin to create loan facility
+                Lock Bitcoin to open a new loan
               </p>
             </div>
           </div>
@@ -215,6 +230,36 @@ const DepositCollateralModal: React.FC<DepositCollateralModalProps> = ({
           </div>
         </div>
 
+        {/* Product Selection */}
+        <div className="mb-6">
+          <label className="block text-sm font-medium mb-2">
+            Loan Product
+          </label>
+          <div className="space-y-2">
+            {products.map(product => (
+              <button
+                key={product.id}
+                onClick={() => setProductId(product.id)}
+                className={`w-full text-left px-3 py-2 rounded-lg border transition-colors ${
+                  productId === product.id ? 'border-white bg-zinc-800' : 'border-zinc-800 bg-zinc-900 hover:bg-zinc-800'
+                }`}
+              >
+                <div className="flex justify-between text-sm">
+                  <span className="font-medium text-white">{product.name}</span>
+                  <span className="text-zinc-300">{product.interest_rate}% APR · {formatCompounding(product.compounding)}</span>
+                </div>
+                <p className="text-zinc-500 text-xs">
+                  Up to {product.max_ltv}% LTV · liquidation at {product.liquidation_ltv}% · {product.min_interest_days}-day minimum interest
+                  {product.term_days ? ` · ${product.term_days}-day term` : ' · open-ended'}
+                </p>
+              </button>
+            ))}
+            {products.length === 0 && (
+              <p className="text-zinc-500 text-sm">No loan products are available right now</p>
+            )}
+          </div>
+        </div>
+
         {/* Loan Terms Preview */}
         {amount && parseFloat(amount) > 0 && (
           <div className="bg-zinc-800/50 border border-zinc-700 rounded-lg p-4 mb-6">
@@ -231,14 +276,14 @@ const DepositCollateralModal: React.FC<DepositCollateralModalProps> = ({
                 </span>
               </div>
               <div className="flex justify-between">
-                <span className="text-zinc-400">Max Borrowable (60% LTV):</span>
+                <span className="text-zinc-400">Max Borrowable ({ltvRatio}% LTV):</span>
                 <span className="text-white">
                   {formatInr(calculateMaxBorrowable())}
                 </span>
               </div>
               <div className="flex justify-between">
                 <span className="text-zinc-400">Interest Rate:</span>
-                <span className="text-white">{interestRate}% APR</span>
+                <span className="text-white">{selectedProduct?.interest_rate}% APR</span>
               </div>
               <div className="flex justify-between">
                 <span className="text-zinc-400">Liquidation Price:</span>
@@ -256,7 +301,7 @@ const DepositCollateralModal: React.FC<DepositCollateralModalProps> = ({
             <Info className="w-4 h-4 text-blue-400 mt-0.5 flex-shrink-0" />
             <div className="text-blue-200 text-sm">
               <p className="mb-1">
-                Your Bitcoin will be locked as collateral. You can borrow up to 60% of its value.
+                Your Bitcoin will be locked as collateral. You can borrow up to {ltvRatio}% of its value.
               </p>
               <p>
                 Liquidation occurs if Bitcoin price drops below the liquidation threshold.
@@ -280,7 +325,8 @@ const DepositCollateralModal: React.FC<DepositCollateralModalProps> = ({
               !amount || 
               parseFloat(amount) <= 0 || 
               loading || 
-              parseFloat(amount) > availableBtc
+              parseFloat(amount) > availableBtc ||
+              !selectedProduct
             }
             className="flex-1 font-medium px-4 py-2 rounded-lg transition-all duration-200 flex items-center justify-center gap-2 bg-white text-black hover:bg-zinc-200 disabled:opacity-50 disabled:cursor-not-allowed"
           >
@@ -0,0 +1,103 @@
+import React, { useState, useEffect } from 'react';
+import { ShieldCheck, RefreshCw } from 'lucide-react';
+import { adminAPI } from '../services/api';
+import { InsuranceFund } from '../types';
+import { formatInr, formatTimeAgo } from '../utils/formatters';
+
+const InsuranceFundSection: React.FC = () => {
+  const [fund, setFund] = useState<InsuranceFund | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    fetchFund();
+  }, []);
+
+  const fetchFund = async () => {
+    setIsLoading(true);
+    try {
+      const response = await adminAPI.getInsuranceFund();
+      setFund(response.data.data || null);
+      setError('');
+    } catch (error: any) {
+      console.error('Error fetching insurance fund:', error);
+      setError(error.response?.data?.message || 'Failed to fetch insurance fund');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="bg-gradient-to-br from-zinc-950 to-zinc-900 border border-zinc-800 rounded-xl p-4">
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center gap-2">
+          <ShieldCheck className="w-5 h-5 text-white" />
+          <h2 className="text-lg font-semibold">Insurance Fund</h2>
+        </div>
+        <button
+          onClick={fetchFund}
+          disabled={isLoading}
+          className="bg-zinc-800 hover:bg-zinc-700 disabled:opacity-50 text-white py-2 px-3 rounded-lg transition-colors flex items-center gap-2 text-sm"
+        >
+          <RefreshCw className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} />
+          Refresh
+        </button>
+      </div>
+
+      {error && (
+        <div className="bg-red-900/20 border border-red-800 rounded-lg p-3 mb-4 text-red-300 text-sm">
+          {error}
+        </div>
+      )}
+
+      {fund && (
+        <>
+          <div className="grid grid-cols-3 gap-3 mb-4">
+            <div className="bg-zinc-800/50 rounded-lg p-3">
+              <p className="text-zinc-400 text-xs">Balance</p>
+              <p className={`font-medium ${fund.balance < 0 ? 'text-red-400' : 'text-white'}`}>{formatInr(fund.balance)}</p>
+            </div>
+            <div className="bg-zinc-800/50 rounded-lg p-3">
+              <p className="text-zinc-400 text-xs">Penalties Collected</p>
+              <p className="text-green-400 font-medium">{formatInr(fund.penalties_collected)}</p>
+            </div>
+            <div className="bg-zinc-800/50 rounded-lg p-3">
+              <p className="text-zinc-400 text-xs">Bad Debt Absorbed</p>
+              <p className="text-red-400 font-medium">{formatInr(fund.bad_debt_absorbed)}</p>
+            </div>
+          </div>
+
+          <div className="space-y-3">
+            {fund.entries.map(entry => (
+              <div key={entry.id} className="bg-zinc-800/50 rounded-lg p-4 flex items-center justify-between">
+                <div>
+                  <p className="text-white font-medium">
+                    {entry.entry_type === 'PENALTY' ? 'Liquidation Penalty' : 'Bad Debt'}
+                    {entry.loan_id && ` · Loan #${entry.loan_id}`}
+                    {entry.user_name && ` · ${entry.user_name}`}
+                  </p>
+                  <p className="text-zinc-400 text-xs mt-1">
+                    {entry.notes ? `${entry.notes} · ` : ''}{formatTimeAgo(entry.created_at)} · balance {formatInr(entry.balance_after)}
+                  </p>
+                </div>
+                <p className={`font-medium text-sm ${entry.amount < 0 ? 'text-red-400' : 'text-green-400'}`}>
+                  {entry.amount < 0 ? '-' : '+'}{formatInr(Math.abs(entry.amount))}
+                </p>
+              </div>
+            ))}
+
+            {fund.entries.length === 0 && (
+              <p className="text-zinc-400 text-sm text-center py-4">No penalties or bad debt yet</p>
+            )}
+          </div>
+        </>
+      )}
+
+      <p className="text-zinc-500 text-xs mt-4">
+        Liquidations pay a {fund ? fund.penalty_bps / 100 : 0}% penalty on the debt they repay into the fund; debt the collateral cannot cover is paid out of it.
+      </p>
+    </div>
+  );
+};
+
+export default InsuranceFundSection;
@@ -0,0 +1,89 @@
+import React, { useState, useEffect } from 'react';
+import { CalendarClock, Play } from 'lucide-react';
+import { adminAPI } from '../services/api';
+import { InterestAccrualGap } from '../types';
+import { formatDate, formatInrPrecise, formatTimeAgo } from '../utils/formatters';
+
+const InterestAccrualGapsSection: React.FC = () => {
+  const [gaps, setGaps] = useState<InterestAccrualGap[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    fetchGaps();
+  }, []);
+
+  const fetchGaps = async () => {
+    try {
+      const response = await adminAPI.getInterestAccrualGaps();
+      setGaps(response.data.data || []);
+    } catch (error: any) {
+      console.error('Error fetching interest accrual gaps:', error);
+      setError(error.response?.data?.message || 'Failed to fetch interest accrual gaps');
+    }
+  };
+
+  const runAccrual = async () => {
+    setIsRunning(true);
+    setError('');
+    try {
+      await adminAPI.triggerInterestAccrual();
+      await fetchGaps();
+    } catch (error: any) {
+      setError(error.response?.data?.message || 'Failed to run interest accrual');
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  return (
+    <div className="bg-gradient-to-br from-zinc-950 to-zinc-900 border border-zinc-800 rounded-xl p-4">
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center gap-2">
+          <CalendarClock className="w-5 h-5 text-white" />
+          <h2 className="text-lg font-semibold">Interest Accrual Gaps</h2>
+        </div>
+        <button
+          onClick={runAccrual}
+          disabled={isRunning}
+          className="bg-zinc-800 hover:bg-zinc-700 disabled:opacity-50 text-white py-2 px-3 rounded-lg transition-colors flex items-center gap-2 text-sm"
+        >
+          <Play className="w-4 h-4" />
+          {isRunning ? 'Running...' : 'Run Accrual'}
+        </button>
+      </div>
+
+      {error && (
+        <div className="bg-red-900/20 border border-red-800 rounded-lg p-3 mb-4 text-red-300 text-sm">
+          {error}
+        </div>
+      )}
+
+      <div className="space-y-3">
+        {gaps.map(gap => (
+          <div key={gap.id} className="bg-zinc-800/50 rounded-lg p-4 flex items-center justify-between">
+            <div>
+              <p className="text-white font-medium">
+                Loan #{gap.loan_id} · {gap.user_name}
+              </p>
+              <p className="text-zinc-400 text-xs mt-1">
+                {gap.days === 1 ? formatDate(gap.from_date) : `${formatDate(gap.from_date)} – ${formatDate(gap.to_date)}`} · {gap.days} day{gap.days === 1 ? '' : 's'} back-filled {formatTimeAgo(gap.created_at)}
+              </p>
+            </div>
+            <p className="text-white font-medium text-sm">{formatInrPrecise(gap.interest_accrued)}</p>
+          </div>
+        ))}
+
+        {gaps.length === 0 && (
+          <p className="text-zinc-400 text-sm text-center py-4">No missed accrual days</p>
+        )}
+      </div>
+
+      <p className="text-zinc-500 text-xs mt-4">
+        Interest accrues once per IST day. Days missed while the accrual job was not running are charged on its next run and listed here.
+      </p>
+    </div>
+  );
+};
+
+export default InterestAccrualGapsSection;
@@ -4,6 +4,7 @@ import { Home, History, Settings, Users, BarChart3, Bitcoin, PieChart, User, Wal
 import { useBalance } from '../contexts/BalanceContext';
 import { userAPI } from '../services/api';
 import { formatBitcoin, formatCurrencyInr } from '../utils/formatters';
+import MarketHaltBanner from './MarketHaltBanner';
 
 interface LayoutProps {
   children: React.ReactNode;
@@ -118,6 +119,7 @@ const Layout: React.FC<LayoutProps> = ({ children, isAdmin = false }) => {
       {/* Main Content */}
       <main className={`px-4 py-6 ${location.pathname === '/profile' ? 'pb-6' : 'pb-20'}`}>
         <div className="max-w-md mx-auto">
+          {!isAdmin && <MarketHaltBanner />}
           {children}
         </div>
       </main>
@@ -0,0 +1,260 @@
+import React, { useState, useEffect } from 'react';
+import { Landmark, Plus, Pencil, Save, X } from 'lucide-react';
+import { adminAPI } from '../services/api';
+import { LoanProduct, LoanProductInput, LoanCompounding } from '../types';
+import { formatCompounding } from '../utils/formatters';
+
+interface ProductForm {
+  name: string;
+  description: string;
+  max_ltv: string;
+  liquidation_ltv: string;
+  interest_rate: string;
+  compounding: LoanCompounding;
+  min_interest_days: string;
+  term_days: string;
+}
+
+const EMPTY_FORM: ProductForm = {
+  name: '',
+  description: '',
+  max_ltv: '60',
+  liquidation_ltv: '90',
+  interest_rate: '15',
+  compounding: 'SIMPLE',
+  min_interest_days: '30',
+  term_days: ''
+};
+
+const COMPOUNDING_OPTIONS: LoanCompounding[] = ['SIMPLE', 'DAILY', 'MONTHLY'];
+
+const inputClass = 'w-full bg-zinc-800 border border-zinc-700 rounded-lg py-2 px-3 text-white placeholder-zinc-400 focus:outline-none focus:border-white text-sm';
+
+const LoanProductsSection: React.FC = () => {
+  const [products, setProducts] = useState<LoanProduct[]>([]);
+  const [editingId, setEditingId] = useState<number | 'new' | null>(null);
+  const [form, setForm] = useState<ProductForm>(EMPTY_FORM);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    fetchProducts();
+  }, []);
+
+  const fetchProducts = async () => {
+    try {
+      const response = await adminAPI.getLoanProducts();
+      setProducts(response.data.data || []);
+    } catch (error: any) {
+      console.error('Error fetching loan products:', error);
+      setError(error.response?.data?.message || 'Failed to fetch loan products');
+    }
+  };
+
+  const startCreate = () => {
+    setForm(EMPTY_FORM);
+    setEditingId('new');
+    setError('');
+  };
+
+  const startEdit = (product: LoanProduct) => {
+    setForm({
+      name: product.name,
+      description: product.description || '',
+      max_ltv: product.max_ltv.toString(),
+      liquidation_ltv: product.liquidation_ltv.toString(),
+      interest_rate: product.interest_rate.toString(),
+      compounding: product.compounding,
+      min_interest_days: product.min_interest_days.toString(),
+      term_days: product.term_days?.toString() || ''
+    });
+    setEditingId(product.id);
+    setError('');
+  };
+
+  const cancelEdit = () => {
+    setEditingId(null);
+    setError('');
+  };
+
+  const buildInput = (): LoanProductInput => ({
+    name: form.name.trim(),
+    description: form.description.trim() || null,
+    max_ltv: parseFloat(form.max_ltv),
+    liquidation_ltv: parseFloat(form.liquidation_ltv),
+    interest_rate: parseFloat(form.interest_rate),
+    compounding: form.compounding,
+    min_interest_days: parseInt(form.min_interest_days, 10),
+    term_days: form.term_days ? parseInt(form.term_days, 10) : null
+  });
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError('');
+    try {
+      if (editingId === 'new') {
+        await adminAPI.createLoanProduct(buildInput());
+      } else if (editingId !== null) {
+        await adminAPI.updateLoanProduct(editingId, buildInput());
+      }
+      setEditingId(null);
+      await fetchProducts();
+    } catch (error: any) {
+      setError(error.response?.data?.message || 'Failed to save loan product');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const toggleActive = async (product: LoanProduct) => {
+    setError('');
+    try {
+      await adminAPI.updateLoanProduct(product.id, { is_active: !product.is_active });
+      await fetchProducts();
+    } catch (error: any) {
+      setError(error.response?.data?.message || 'Failed to update loan product');
+    }
+  };
+
+  const updateField = (field: keyof ProductForm) => (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    setForm({ ...form, [field]: e.target.value });
+  };
+
+  const renderForm = () => (
+    <div className="bg-zinc-800/50 rounded-lg p-4 space-y-3">
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <label className="block text-zinc-400 text-xs mb-1">Name</label>
+          <input value={form.name} onChange={updateField('name')} placeholder="Standard" className={inputClass} />
+        </div>
+        <div>
+          <label className="block text-zinc-400 text-xs mb-1">Description</label>
+          <input value={form.description} onChange={updateField('description')} placeholder="Optional" className={inputClass} />
+        </div>
+        <div>
+          <label className="block text-zinc-400 text-xs mb-1">Max LTV (%)</label>
+          <input type="number" inputMode="decimal" value={form.max_ltv} onChange={updateField('max_ltv')} step="0.5" className={inputClass} />
+        </div>
+        <div>
+          <label className="block text-zinc-400 text-xs mb-1">Liquidation LTV (%)</label>
+          <input type="number" inputMode="decimal" value={form.liquidation_ltv} onChange={updateField('liquidation_ltv')} step="0.5" className={inputClass} />
+        </div>
+        <div>
+          <label className="block text-zinc-400 text-xs mb-1">Interest Rate (% APR)</label>
+          <input type="number" inputMode="decimal" value={form.interest_rate} onChange={updateField('interest_rate')} step="0.1" className={inputClass} />
+        </div>
+        <div>
+          <label className="block text-zinc-400 text-xs mb-1">Compounding</label>
+          <select value={form.compounding} onChange={updateField('compounding')} className={inputClass}>
+            {COMPOUNDING_OPTIONS.map(option => (
+              <option key={option} value={option}>{formatCompounding(option)}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-zinc-400 text-xs mb-1">Minimum Interest Days</label>
+          <input type="number" inputMode="numeric" value={form.min_interest_days} onChange={updateField('min_interest_days')} step="1" className={inputClass} />
+        </div>
+        <div>
+          <label className="block text-zinc-400 text-xs mb-1">Term (days)</label>
+          <input type="number" inputMode="numeric" value={form.term_days} onChange={updateField('term_days')} placeholder="Open-ended" step="1" className={inputClass} />
+        </div>
+      </div>
+      <div className="flex gap-2">
+        <button
+          onClick={handleSave}
+          disabled={isSaving || !form.name.trim()}
+          className="flex-1 bg-white text-black hover:bg-zinc-200 disabled:opacity-50 disabled:cursor-not-allowed py-2 px-3 rounded-lg transition-colors font-medium flex items-center justify-center gap-2 text-sm"
+        >
+          <Save className="w-4 h-4" />
+          {isSaving ? 'Saving...' : 'Save Product'}
+        </button>
+        <button
+          onClick={cancelEdit}
+          className="bg-zinc-800 hover:bg-zinc-700 text-white py-2 px-3 rounded-lg transition-colors flex items-center gap-2 text-sm"
+        >
+          <X className="w-4 h-4" />
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="bg-gradient-to-br from-zinc-950 to-zinc-900 border border-zinc-800 rounded-xl p-4">
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center gap-2">
+          <Landmark className="w-5 h-5 text-white" />
+          <h2 className="text-lg font-semibold">Loan Products</h2>
+        </div>
+        {editingId === null && (
+          <button
+            onClick={startCreate}
+            className="bg-zinc-800 hover:bg-zinc-700 text-white py-2 px-3 rounded-lg transition-colors flex items-center gap-2 text-sm"
+          >
+            <Plus className="w-4 h-4" />
+            New Product
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="bg-red-900/20 border border-red-800 rounded-lg p-3 mb-4 text-red-300 text-sm">
+          {error}
+        </div>
+      )}
+
+      <div className="space-y-3">
+        {editingId === 'new' && renderForm()}
+
+        {products.map(product => (
+          editingId === product.id ? (
+            <React.Fragment key={product.id}>{renderForm()}</React.Fragment>
+          ) : (
+            <div key={product.id} className={`bg-zinc-800/50 rounded-lg p-4 ${product.is_active ? '' : 'opacity-60'}`}>
+              <div className="flex items-center justify-between">
+                <div>
+                  <p className="text-white font-medium">
+                    {product.name}
+                    {!product.is_active && <span className="text-zinc-500 text-xs ml-2">Inactive</span>}
+                  </p>
+                  <p className="text-zinc-400 text-xs mt-1">
+                    {product.max_ltv}% max LTV · liquidates at {product.liquidation_ltv}% · {product.interest_rate}% APR · {formatCompounding(product.compounding)} · {product.min_interest_days}-day minimum · {product.term_days ? `${product.term_days}-day term` : 'open-ended'}
+                  </p>
+                  {product.description && <p className="text-zinc-500 text-xs mt-1">{product.description}</p>}
+                </div>
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={() => startEdit(product)}
+                    disabled={editingId !== null}
+                    className="bg-zinc-800 hover:bg-zinc-700 disabled:opacity-50 text-white p-2 rounded-lg transition-colors"
+                    title="Edit product"
+                  >
+                    <Pencil className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => toggleActive(product)}
+                    disabled={editingId !== null}
+                    className="bg-zinc-800 hover:bg-zinc-700 disabled:opacity-50 text-white py-2 px-3 rounded-lg transition-colors text-xs"
+                  >
+                    {product.is_active ? 'Deactivate' : 'Activate'}
+                  </button>
+                </div>
+              </div>
+            </div>
+          )
+        ))}
+
+        {products.length === 0 && editingId !== 'new' && (
+          <p className="text-zinc-400 text-sm text-center py-4">No loan products configured</p>
+        )}
+      </div>
+
+      <p className="text-zinc-500 text-xs mt-4">
+        Loans keep the terms they were opened with; changes here only apply to new loans.
+      </p>
+    </div>
+  );
+};
+
+export default LoanProductsSection;
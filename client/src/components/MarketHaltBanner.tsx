@@ -0,0 +1,48 @@
+import React, { useState, useEffect } from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { userAPI } from '../services/api';
+import { MarketStatus } from '../types';
+
+const REASON_TEXT: Record<string, string> = {
+  NO_PRICE: 'Live prices are currently unavailable.',
+  STALE_PRICE: 'Live prices have not updated recently.',
+  PRICE_OUTLIER: 'An unusual price movement is being verified.',
+};
+
+const MarketHaltBanner: React.FC = () => {
+  const [status, setStatus] = useState<MarketStatus | null>(null);
+
+  useEffect(() => {
+    const fetchStatus = async () => {
+      try {
+        const response = await userAPI.getMarketStatus();
+        setStatus(response.data.data || null);
+      } catch (error) {
+        console.error('Error fetching market status:', error);
+      }
+    };
+
+    fetchStatus();
+    const interval = setInterval(fetchStatus, 30000); // Match the price update cycle
+
+    return () => clearInterval(interval);
+  }, []);
+
+  if (!status?.halted) {
+    return null;
+  }
+
+  return (
+    <div className="bg-red-900/20 border border-red-800 rounded-lg p-3 mb-4 flex items-start gap-3">
+      <AlertTriangle className="w-5 h-5 text-red-400 flex-shrink-0 mt-0.5" />
+      <div>
+        <p className="text-red-300 font-medium text-sm">Market halted</p>
+        <p className="text-red-400/80 text-xs mt-1">
+          {(status.reason && REASON_TEXT[status.reason]) || 'Trading is temporarily paused.'} Trades, limit orders, DCA and liquidations resume automatically once a valid price is back.
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default MarketHaltBanner;
@@ -34,7 +34,7 @@ const PartialLiquidationModal: React.FC<PartialLiquidationModalProps> = ({
 
   const getTotalDue = () => {
     if (!loanStatus) return 0;
-    return loanStatus.borrowedAmount + (loanStatus.minimumInterestDue || 0);
+    return loanStatus.totalDue;
   };
 
   const handlePartialLiquidation = () => {
@@ -73,7 +73,7 @@ const PartialLiquidationModal: React.FC<PartialLiquidationModalProps> = ({
       setLoading(true);
 
       // Execute partial liquidation
-      await userAPI.executePartialLiquidation(parseFloat(btcAmount));
+      await userAPI.executePartialLiquidation(loanStatus!.loanId, parseFloat(btcAmount));
 
       setIsPinModalOpen(false);
       onSuccess();
@@ -222,7 +222,7 @@ const PartialLiquidationModal: React.FC<PartialLiquidationModalProps> = ({
               {!btcAmount || parseFloat(btcAmount) === 0 ? (
                 <div>
                   <p className="mb-2">Liquidate part of your collateral to reduce debt and improve your position.</p>
-                  <p><strong>Note:</strong> Total debt includes principal + 30-day minimum interest.</p>
+                  <p><strong>Note:</strong> Total debt includes principal + {loanStatus.minInterestDays}-day minimum interest.</p>
                 </div>
               ) : (
                 <div>
@@ -0,0 +1,227 @@
+import React, { useState, useEffect } from 'react';
+import { AreaChart, Area, XAxis, YAxis, ResponsiveContainer, Tooltip } from 'recharts';
+import { LineChart as LineChartIcon, Activity, Loader2 } from 'lucide-react';
+import { userAPI } from '../services/api';
+import { PortfolioHistory, PortfolioHistoryRange } from '../types';
+import { formatCurrencyInr, formatPercentage } from '../utils/formatters';
+
+interface ChartDataPoint {
+  date: string;
+  label: string;
+  value: number;
+}
+
+const rangeTabs: { key: PortfolioHistoryRange; label: string; name: string }[] = [
+  { key: '7d', label: '1W', name: '1 Week' },
+  { key: '30d', label: '1M', name: '1 Month' },
+  { key: '90d', label: '3M', name: '3 Months' },
+  { key: '365d', label: '1Y', name: '1 Year' },
+  { key: 'all', label: 'All', name: 'All Time' }
+];
+
+const PortfolioHistoryChart: React.FC = () => {
+  const [activeTab, setActiveTab] = useState<PortfolioHistoryRange>('30d');
+  const [history, setHistory] = useState<PortfolioHistory | null>(null);
+  const [chartData, setChartData] = useState<ChartDataPoint[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const fetchHistory = async (range: PortfolioHistoryRange) => {
+    setIsLoading(true);
+    setError('');
+
+    try {
+      const response = await userAPI.getPortfolioHistory(range);
+      const data = response.data.data!;
+      setHistory(data);
+      setChartData(data.points.map(point => ({
+        date: point.date,
+        label: new Date(`${point.date}T00:00:00`).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: range === 'all' || range === '365d' ? 'numeric' : undefined }),
+        value: point.value
+      })));
+    } catch (error: any) {
+      console.error('Error fetching portfolio history:', error);
+      setError('Unable to load portfolio history');
+      setChartData([]);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchHistory(activeTab);
+  }, [activeTab]);
+
+  const formatReturn = (value: number | null | undefined) => {
+    if (value === null || value === undefined || !isFinite(value)) {
+      return 'N/A';
+    }
+    return formatPercentage(value);
+  };
+
+  const getReturnColor = (value: number | null | undefined) => {
+    if (value === null || value === undefined) return 'text-white';
+    return value >= 0 ? 'text-green-400' : 'text-red-400';
+  };
+
+  const CustomTooltip = ({ active, payload, label }: any) => {
+    if (active && payload && payload.length) {
+      return (
+        <div className="bg-zinc-800 border border-zinc-800 rounded-lg p-3 shadow-xl">
+          <p className="text-zinc-400 text-xs mb-1">{label}</p>
+          <p className="text-white font-bold">
+            {formatCurrencyInr(payload[0].value)}
+          </p>
+        </div>
+      );
+    }
+    return null;
+  };
+
+  return (
+    <div className="bg-gradient-to-br from-zinc-950 to-zinc-900 border border-zinc-800 rounded-xl overflow-hidden">
+      {/* Header */}
+      <div className="p-3 border-b border-zinc-800">
+        <div className="flex items-center justify-between mb-2">
+          <div className="flex items-center gap-2">
+            <div className="p-1.5 bg-zinc-700 rounded-lg">
+              <LineChartIcon className="w-4 h-4 text-white" />
+            </div>
+            <div>
+              <h3 className="text-base font-semibold text-white">Portfolio Value</h3>
+              <p className="text-zinc-400 text-xs">
+                {rangeTabs.find(tab => tab.key === activeTab)?.name} performance
+              </p>
+            </div>
+          </div>
+
+          {history && (
+            <div className="text-right">
+              <p className="text-white font-bold text-base">
+                {formatCurrencyInr(history.endValue)}
+              </p>
+              <p className={`text-xs font-medium ${getReturnColor(history.profit)}`}>
+                {history.profit >= 0 ? '+' : ''}{formatCurrencyInr(history.profit)}
+              </p>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Chart Area */}
+      <div className="p-4">
+        <div className="h-64 w-full">
+          {isLoading ? (
+            <div className="h-full flex items-center justify-center">
+              <div className="flex items-center gap-3 text-zinc-400">
+                <Loader2 className="w-5 h-5 animate-spin" />
+                <span className="text-sm">Loading portfolio history...</span>
+              </div>
+            </div>
+          ) : error ? (
+            <div className="h-full flex items-center justify-center">
+              <div className="text-center">
+                <Activity className="w-8 h-8 text-zinc-600 mx-auto mb-2" />
+                <p className="text-zinc-400 text-sm">{error}</p>
+                <button
+                  onClick={() => fetchHistory(activeTab)}
+                  className="mt-2 text-xs text-zinc-500 hover:text-zinc-400 transition-colors"
+                >
+                  Try again
+                </button>
+              </div>
+            </div>
+          ) : chartData.length > 1 ? (
+            <ResponsiveContainer width="100%" height="100%">
+              <AreaChart data={chartData} margin={{ top: 5, right: 5, left: 5, bottom: 5 }}>
+                <defs>
+                  <linearGradient id="portfolioGradient" x1="0" y1="0" x2="0" y2="1">
+                    <stop offset="0%" stopColor="#ffffff" stopOpacity={0.3} />
+                    <stop offset="50%" stopColor="#ffffff" stopOpacity={0.1} />
+                    <stop offset="100%" stopColor="#ffffff" stopOpacity={0} />
+                  </linearGradient>
+                </defs>
+                <XAxis
+                  dataKey="label"
+                  axisLine={false}
+                  tickLine={false}
+                  tick={false}
+                  height={0}
+                />
+                <YAxis
+                  hide
+                  domain={['dataMin', 'dataMax']}
+                />
+                <Tooltip content={<CustomTooltip />} />
+                <Area
+                  type="monotone"
+                  dataKey="value"
+                  stroke="#ffffff"
+                  strokeWidth={2.5}
+                  fill="url(#portfolioGradient)"
+                  dot={false}
+                  activeDot={{
+                    r: 4,
+                    fill: '#ffffff',
+                    stroke: '#000000',
+                    strokeWidth: 2
+                  }}
+                />
+              </AreaChart>
+            </ResponsiveContainer>
+          ) : (
+            <div className="h-full flex items-center justify-center">
+              <div className="text-center">
+                <Activity className="w-8 h-8 text-zinc-600 mx-auto mb-2" />
+                <p className="text-zinc-400 text-sm">Not enough history yet</p>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Return Figures */}
+      {history && (
+        <div className="px-4 pb-4 grid grid-cols-3 gap-2 text-center">
+          <div className="bg-zinc-800/50 rounded-lg p-2">
+            <p className="text-zinc-500 text-xs">Time-Weighted</p>
+            <p className={`text-sm font-bold ${getReturnColor(history.timeWeightedReturn)}`}>
+              {formatReturn(history.timeWeightedReturn)}
+            </p>
+          </div>
+          <div className="bg-zinc-800/50 rounded-lg p-2">
+            <p className="text-zinc-500 text-xs">Money-Weighted</p>
+            <p className={`text-sm font-bold ${getReturnColor(history.moneyWeightedReturn)}`}>
+              {formatReturn(history.moneyWeightedReturn)}
+            </p>
+          </div>
+          <div className="bg-zinc-800/50 rounded-lg p-2">
+            <p className="text-zinc-500 text-xs">Net Deposits</p>
+            <p className="text-sm font-bold text-white">{formatCurrencyInr(history.netFlows)}</p>
+          </div>
+        </div>
+      )}
+
+      {/* Range Tabs */}
+      <div className="p-4 pt-0">
+        <div className="flex bg-zinc-700/50 rounded-lg p-1 gap-1">
+          {rangeTabs.map((tab) => (
+            <button
+              key={tab.key}
+              onClick={() => setActiveTab(tab.key)}
+              className={`flex-1 py-2 px-3 rounded-md text-sm font-medium transition-all duration-200 ${
+                activeTab === tab.key
+                  ? 'bg-white text-black shadow-sm'
+                  : 'text-zinc-400 hover:text-white hover:bg-zinc-600/50'
+              }`}
+            >
+              {tab.label}
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PortfolioHistoryChart;
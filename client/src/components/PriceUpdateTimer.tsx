@@ -1,16 +1,21 @@
 import React, { useState, useEffect } from 'react';
-import { Clock, RefreshCw } from 'lucide-react';
+import { Clock, RefreshCw, Radio } from 'lucide-react';
 
 interface PriceUpdateTimerProps {
   className?: string;
   onUpdate?: () => void; // Callback to trigger actual price update
+  isLive?: boolean; // Prices arrive over the event stream, so polling is paused
 }
 
-const PriceUpdateTimer: React.FC<PriceUpdateTimerProps> = ({ className = '', onUpdate }) => {
+const PriceUpdateTimer: React.FC<PriceUpdateTimerProps> = ({ className = '', onUpdate, isLive = false }) => {
   const [countdown, setCountdown] = useState(30);
   const [isUpdating, setIsUpdating] = useState(false);
 
   useEffect(() => {
+    if (isLive) {
+      return;
+    }
+
     const interval = setInterval(() => {
       setCountdown((prev) => {
         if (prev <= 1) {
@@ -27,7 +32,7 @@ const PriceUpdateTimer: React.FC<PriceUpdateTimerProps> = ({ className = '', onU
     }, 1000);
 
     return () => clearInterval(interval);
-  }, [onUpdate]);
+  }, [onUpdate, isLive]);
 
   const formatTime = (seconds: number) => {
     return `${seconds}s`;
@@ -35,7 +40,12 @@ const PriceUpdateTimer: React.FC<PriceUpdateTimerProps> = ({ className = '', onU
 
   return (
     <div className={`flex items-center gap-1 text-xs ${className}`}>
-      {isUpdating ? (
+      {isLive ? (
+        <>
+          <Radio className="w-3 h-3 text-green-500" />
+          <span>Live</span>
+        </>
+      ) : isUpdating ? (
         <>
           <RefreshCw className="w-3 h-3 animate-spin" />
           <span>Updating...</span>
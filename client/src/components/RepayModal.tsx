@@ -5,7 +5,7 @@ import { LoanStatus } from '../types';
 import { useBalance } from '../contexts/BalanceContext';
 import PinConfirmationModal from './PinConfirmationModal';
 import { useBodyScrollLock } from '../hooks/useBodyScrollLock';
-import { formatCurrencyInr } from '../utils/formatters';
+import { formatCurrencyInr, getLoanRiskStatus } from '../utils/formatters';
 
 interface RepayModalProps {
   isOpen: boolean;
@@ -49,7 +49,7 @@ const RepayModal: React.FC<RepayModalProps> = ({
 
   const getTotalDue = () => {
     if (!loanStatus) return 0;
-    return loanStatus.borrowedAmount + (loanStatus.minimumInterestDue || 0);
+    return loanStatus.totalDue;
   };
 
   const calculateNewLtv = () => {
@@ -61,14 +61,16 @@ const RepayModal: React.FC<RepayModalProps> = ({
   };
 
   const getRiskColor = (ltv: number) => {
-    if (ltv >= 90) return 'text-red-400';
-    if (ltv >= 85) return 'text-yellow-400';
+    const risk = getLoanRiskStatus(ltv, loanStatus?.liquidationLtv || 90);
+    if (risk === 'LIQUIDATE') return 'text-red-400';
+    if (risk === 'WARNING') return 'text-yellow-400';
     return 'text-green-400';
   };
 
   const getRiskText = (ltv: number) => {
-    if (ltv >= 90) return 'HIGH RISK';
-    if (ltv >= 85) return 'MEDIUM RISK';
+    const risk = getLoanRiskStatus(ltv, loanStatus?.liquidationLtv || 90);
+    if (risk === 'LIQUIDATE') return 'HIGH RISK';
+    if (risk === 'WARNING') return 'MEDIUM RISK';
     return 'LOW RISK';
   };
 
@@ -110,7 +112,7 @@ const RepayModal: React.FC<RepayModalProps> = ({
       setLoading(true);
       
       // Repay funds
-      await userAPI.repayFunds(parseFloat(amount));
+      await userAPI.repayFunds(loanStatus!.loanId, parseFloat(amount));
       
       // Update balance
       await updateBalance();
@@ -286,7 +288,7 @@ const RepayModal: React.FC<RepayModalProps> = ({
               {amount && parseFloat(amount) >= getTotalDue() ? (
                 <p><strong>Full repayment</strong> clears all debt. Collateral stays locked for future use.</p>
               ) : (
-                <p>Total due = Principal + 30-day minimum interest. Repayment improves LTV ratio.</p>
+                <p>Total due = Principal + {loanStatus.minInterestDays}-day minimum interest. Repayment improves LTV ratio.</p>
               )}
             </div>
           </div>
@@ -1,9 +1,10 @@
 import React, { useState, useEffect } from 'react';
-import { X, TrendingUp, TrendingDown, Calculator, Zap, Target, Clock, Repeat, Settings, ChevronRight, Bitcoin } from 'lucide-react';
-import { Prices } from '../types';
+import { X, TrendingUp, TrendingDown, Calculator, Zap, Target, Clock, Repeat, Settings, ChevronRight, Bitcoin, Shield } from 'lucide-react';
+import { Prices, StopOrderConfig, LimitOrderConfig, TimeInForce, DcaCatchUpPolicy, DcaFrequency, DcaSchedule } from '../types';
 import { userAPI } from '../services/api';
 import PinConfirmationModal from './PinConfirmationModal';
-import { formatCurrencyInr } from '../utils/formatters';
+import DcaScheduleBuilder from './DcaScheduleBuilder';
+import { formatCurrencyInr, formatDcaCatchUpPolicy } from '../utils/formatters';
 import { useBodyScrollLock } from '../hooks/useBodyScrollLock';
 
 interface TradingModalProps {
@@ -13,11 +14,16 @@ interface TradingModalProps {
   prices: Prices | null;
   userBalance: { inr: number; btc: number };
   onTrade: (amount: number, targetPrice?: number, dcaConfig?: {
-    frequency: 'HOURLY' | 'DAILY' | 'WEEKLY' | 'MONTHLY';
+    frequency: DcaFrequency;
+    schedule?: DcaSchedule;
     totalExecutions?: number;
     maxPrice?: number;
     minPrice?: number;
-  }) => Promise<void>;
+    catchUpPolicy?: DcaCatchUpPolicy;
+    budgetLimit?: number;
+    goalAmount?: number;
+    endDate?: string;
+  }, stopConfig?: StopOrderConfig, limitConfig?: LimitOrderConfig) => Promise<void>;
   isLoading: boolean;
 }
 
@@ -30,17 +36,30 @@ const TradingModal: React.FC<TradingModalProps> = ({
   onTrade,
   isLoading
 }) => {
-  const [orderType, setOrderType] = useState<'market' | 'limit' | 'dca'>('market');
+  const [orderType, setOrderType] = useState<'market' | 'limit' | 'stop' | 'dca'>('market');
+  const [stopMode, setStopMode] = useState<'stop' | 'trailing'>('stop');
+  const [stopPrice, setStopPrice] = useState('');
+  const [ocoEnabled, setOcoEnabled] = useState(false);
+  const [timeInForce, setTimeInForce] = useState<TimeInForce>('GTD');
+  const [gtdExpiry, setGtdExpiry] = useState('');
+  const [pendingLimitConfig, setPendingLimitConfig] = useState<LimitOrderConfig | undefined>(undefined);
+  const [trailPercent, setTrailPercent] = useState('');
+  const [pendingStopConfig, setPendingStopConfig] = useState<StopOrderConfig | undefined>(undefined);
   const [amount, setAmount] = useState('');
   const [targetPrice, setTargetPrice] = useState('');
   const [estimation, setEstimation] = useState<number>(0);
   const [isPinModalOpen, setIsPinModalOpen] = useState(false);
   const [pendingAmount, setPendingAmount] = useState<number>(0);
   const [pendingTargetPrice, setPendingTargetPrice] = useState<number | undefined>(undefined);
-  const [dcaFrequency, setDcaFrequency] = useState<'HOURLY' | 'DAILY' | 'WEEKLY' | 'MONTHLY'>('WEEKLY');
+  const [dcaFrequency, setDcaFrequency] = useState<DcaFrequency>('WEEKLY');
+  const [dcaSchedule, setDcaSchedule] = useState<DcaSchedule | undefined>(undefined);
   const [dcaExecutions, setDcaExecutions] = useState('');
   const [dcaMaxPrice, setDcaMaxPrice] = useState('');
   const [dcaMinPrice, setDcaMinPrice] = useState('');
+  const [dcaCatchUpPolicy, setDcaCatchUpPolicy] = useState<DcaCatchUpPolicy>('ONCE');
+  const [dcaBudget, setDcaBudget] = useState('');
+  const [dcaGoal, setDcaGoal] = useState('');
+  const [dcaEndDate, setDcaEndDate] = useState('');
   const [pendingDcaConfig, setPendingDcaConfig] = useState<any>(undefined);
   const [showDcaSettingsModal, setShowDcaSettingsModal] = useState(false);
 
@@ -53,7 +72,15 @@ const TradingModal: React.FC<TradingModalProps> = ({
 
   useEffect(() => {
     if (amount) {
-      const effectiveRate = orderType === 'limit' && targetPrice ? parseFloat(targetPrice) : rate;
+      let effectiveRate = orderType === 'limit' && targetPrice ? parseFloat(targetPrice) : rate;
+      if (orderType === 'stop') {
+        // Stop orders fill at market once triggered; estimate at the (initial) stop price
+        if (stopMode === 'stop' && stopPrice) {
+          effectiveRate = parseFloat(stopPrice);
+        } else if (stopMode === 'trailing' && trailPercent && rate) {
+          effectiveRate = rate * (isBuy ? 1 + parseFloat(trailPercent) / 100 : 1 - parseFloat(trailPercent) / 100);
+        }
+      }
       
       if (effectiveRate) {
         if (isBuy) {
@@ -71,11 +98,32 @@ const TradingModal: React.FC<TradingModalProps> = ({
     } else {
       setEstimation(0);
     }
-  }, [amount, rate, isBuy, orderType, targetPrice]);
+  }, [amount, rate, isBuy, orderType, targetPrice, stopMode, stopPrice, trailPercent]);
+
+  // A fixed stop must sit on the far side of the market, otherwise it would trigger immediately
+  const isStopPriceValid = () => {
+    const value = parseFloat(stopPrice);
+    if (!value || value <= 0 || !rate) return false;
+    return isBuy ? value > rate : value < rate;
+  };
+
+  const isTrailPercentValid = () => {
+    const value = parseFloat(trailPercent);
+    return !!value && value >= 0.1 && value <= 50;
+  };
+
+  const isStopConfigValid = () => (stopMode === 'stop' ? isStopPriceValid() : isTrailPercentValid());
+
+  // OCO: limit sell take-profit above the market plus a stop-loss below it on the same BTC
+  const isOco = orderType === 'limit' && !isBuy && ocoEnabled;
+
+  const isOcoValid = () => !!rate && parseFloat(targetPrice) > rate && isStopPriceValid();
 
   const handleTrade = () => {
     if (!amount || parseFloat(amount) <= 0) return;
     if (orderType === 'limit' && (!targetPrice || parseFloat(targetPrice) <= 0)) return;
+    if (orderType === 'stop' && !isStopConfigValid()) return;
+    if (isOco && !isOcoValid()) return;
     
     // Store the amount and configuration, then open PIN confirmation
     setPendingAmount(parseFloat(amount));
@@ -84,13 +132,38 @@ const TradingModal: React.FC<TradingModalProps> = ({
     if (orderType === 'dca') {
       setPendingDcaConfig({
         frequency: dcaFrequency,
+        schedule: dcaFrequency === 'CUSTOM' ? dcaSchedule : undefined,
         totalExecutions: dcaExecutions ? parseInt(dcaExecutions) : undefined,
         maxPrice: dcaMaxPrice ? parseFloat(dcaMaxPrice) : undefined,
-        minPrice: dcaMinPrice ? parseFloat(dcaMinPrice) : undefined
+        minPrice: dcaMinPrice ? parseFloat(dcaMinPrice) : undefined,
+        catchUpPolicy: dcaCatchUpPolicy,
+        budgetLimit: dcaBudget ? parseFloat(dcaBudget) : undefined,
+        goalAmount: dcaGoal ? parseFloat(dcaGoal) : undefined,
+        // End of the chosen day in IST
+        endDate: dcaEndDate ? new Date(`${dcaEndDate}T23:59:59+05:30`).toISOString() : undefined
       });
     } else {
       setPendingDcaConfig(undefined);
     }
+
+    if (orderType === 'stop') {
+      setPendingStopConfig(stopMode === 'stop'
+        ? { trailing: false, stopPrice: parseFloat(stopPrice) }
+        : { trailing: true, trailPercent: parseFloat(trailPercent) });
+    } else if (isOco) {
+      setPendingStopConfig({ trailing: false, stopPrice: parseFloat(stopPrice) });
+    } else {
+      setPendingStopConfig(undefined);
+    }
+
+    if (orderType === 'limit') {
+      setPendingLimitConfig({
+        timeInForce,
+        expiresAt: timeInForce === 'GTD' && gtdExpiry ? new Date(gtdExpiry).toISOString() : undefined
+      });
+    } else {
+      setPendingLimitConfig(undefined);
+    }
     
     setIsPinModalOpen(true);
   };
@@ -101,15 +174,25 @@ const TradingModal: React.FC<TradingModalProps> = ({
       const response = await userAPI.verifyPin(pin);
       if (response.data.data?.valid) {
         // PIN is correct, proceed with trade
-        await onTrade(pendingAmount, pendingTargetPrice, pendingDcaConfig);
+        await onTrade(pendingAmount, pendingTargetPrice, pendingDcaConfig, pendingStopConfig, pendingLimitConfig);
         setAmount('');
         setTargetPrice('');
+        setStopPrice('');
+        setTrailPercent('');
+        setOcoEnabled(false);
+        setGtdExpiry('');
         setDcaExecutions('');
         setDcaMaxPrice('');
         setDcaMinPrice('');
+        setDcaCatchUpPolicy('ONCE');
+        setDcaBudget('');
+        setDcaGoal('');
+        setDcaEndDate('');
         setPendingAmount(0);
         setPendingTargetPrice(undefined);
         setPendingDcaConfig(undefined);
+        setPendingStopConfig(undefined);
+        setPendingLimitConfig(undefined);
         setIsPinModalOpen(false);
         onClose();
         return true;
@@ -128,6 +211,8 @@ const TradingModal: React.FC<TradingModalProps> = ({
     setPendingAmount(0);
     setPendingTargetPrice(undefined);
     setPendingDcaConfig(undefined);
+    setPendingStopConfig(undefined);
+    setPendingLimitConfig(undefined);
   };
 
   const getMaxAmount = () => {
@@ -160,6 +245,8 @@ const TradingModal: React.FC<TradingModalProps> = ({
                 )
               ) : orderType === 'limit' ? (
                 <Target className="w-6 h-6 text-white" />
+              ) : orderType === 'stop' ? (
+                <Shield className="w-6 h-6 text-white" />
               ) : (
                 <Repeat className="w-6 h-6 text-white" />
               )}
@@ -169,15 +256,19 @@ const TradingModal: React.FC<TradingModalProps> = ({
                 {orderType === 'market' ? 
                   (isBuy ? 'Buy Bitcoin' : 'Sell Bitcoin') : 
                   orderType === 'limit' ?
-                  (isBuy ? 'Limit Buy Order' : 'Limit Sell Order') :
+                  (isBuy ? 'Limit Buy Order' : isOco ? 'OCO Sell Order' : 'Limit Sell Order') :
+                  orderType === 'stop' ?
+                  (stopMode === 'trailing' ? (isBuy ? 'Trailing Stop Buy' : 'Trailing Stop Sell') : (isBuy ? 'Stop Buy Order' : 'Stop-Loss Order')) :
                   (isBuy ? 'DCA Buy Plan' : 'DCA Sell Plan')
                 }
               </h2>
               <p className="text-sm text-zinc-400">
                 {orderType === 'market' ? 
                   `Market Rate: ${formatCurrencyInr(rate || 0)}/₿` :
-                  orderType === 'limit' ?
+                  orderType === 'limit' || orderType === 'stop' ?
                   `Current: ${formatCurrencyInr(rate || 0)}/₿` :
+                  dcaFrequency === 'CUSTOM' ?
+                  `Scheduled ${isBuy ? 'purchases' : 'sales'}` :
                   `Recurring ${dcaFrequency.toLowerCase()} ${isBuy ? 'purchases' : 'sales'}`
                 }
               </p>
@@ -216,6 +307,17 @@ const TradingModal: React.FC<TradingModalProps> = ({
               <Target className="w-3 h-3" />
               Limit
             </button>
+            <button
+              onClick={() => setOrderType('stop')}
+              className={`flex-1 py-2 px-2 rounded-md text-xs font-medium transition-colors flex items-center justify-center gap-1 ${
+                orderType === 'stop' 
+                  ? 'bg-white text-black' 
+                  : 'text-zinc-400 hover:text-white'
+              }`}
+            >
+              <Shield className="w-3 h-3" />
+              Stop
+            </button>
             <button
               onClick={() => setOrderType('dca')}
               className={`flex-1 py-2 px-2 rounded-md text-xs font-medium transition-colors flex items-center justify-center gap-1 ${
@@ -398,6 +500,204 @@ const TradingModal: React.FC<TradingModalProps> = ({
                 </>
               )}
             </div>
+
+            {/* Time in Force (OCO brackets rest in the book, so only GTC and GTD) */}
+            <div className="mt-4">
+              <label className="block text-sm font-medium mb-2">
+                Time in Force
+              </label>
+              <div className={`grid ${isOco ? 'grid-cols-2' : 'grid-cols-4'} bg-zinc-800 rounded-lg p-1 gap-1`}>
+                {((isOco ? ['GTC', 'GTD'] : ['GTC', 'GTD', 'IOC', 'FOK']) as TimeInForce[]).map((option) => (
+                  <button
+                    key={option}
+                    onClick={() => setTimeInForce(option)}
+                    className={`py-1.5 px-2 rounded-md text-xs font-medium transition-colors ${
+                      timeInForce === option 
+                        ? 'bg-white text-black' 
+                        : 'text-zinc-400 hover:text-white'
+                    }`}
+                  >
+                    {option}
+                  </button>
+                ))}
+              </div>
+              {timeInForce === 'GTD' && (
+                <input
+                  type="datetime-local"
+                  value={gtdExpiry}
+                  onChange={(e) => setGtdExpiry(e.target.value)}
+                  className="input-field w-full mt-3"
+                />
+              )}
+              <p className="text-zinc-500 text-xs mt-2">
+                {timeInForce === 'GTC' ? 'Stays open until filled or cancelled' :
+                 timeInForce === 'GTD' ? `${gtdExpiry ? 'Expires at the chosen date and time' : 'Expires after 24 hours unless you pick a date'}${isOco ? '; the stop-loss stays open' : ''}` :
+                 timeInForce === 'IOC' ? 'Fills what it can immediately, the rest is cancelled' :
+                 'Fills completely immediately or is cancelled'}
+              </p>
+            </div>
+
+            {/* OCO Stop-Loss (Limit Sell Orders Only) */}
+            {!isBuy && (
+              <div className="mt-4">
+                <button
+                  onClick={() => {
+                    if (!ocoEnabled && (timeInForce === 'IOC' || timeInForce === 'FOK')) setTimeInForce('GTC');
+                    setOcoEnabled(!ocoEnabled);
+                  }}
+                  className="flex items-center justify-between w-full text-sm text-zinc-400 hover:text-white transition-colors"
+                >
+                  <span className="flex items-center gap-2">
+                    <Shield className="w-4 h-4" />
+                    Add stop-loss (OCO)
+                  </span>
+                  <span className={`w-8 h-4 rounded-full p-0.5 transition-colors ${ocoEnabled ? 'bg-white' : 'bg-zinc-700'}`}>
+                    <span className={`block w-3 h-3 rounded-full transition-transform ${ocoEnabled ? 'translate-x-4 bg-black' : 'bg-zinc-400'}`} />
+                  </span>
+                </button>
+
+                {ocoEnabled && (
+                  <div className="mt-3">
+                    <label className="block text-sm font-medium mb-2">
+                      Stop Price (₹ per ₿)
+                    </label>
+                    <div className="relative">
+                      <input
+                        type="number"
+                        inputMode="numeric"
+                        pattern="[0-9]*"
+                        value={stopPrice}
+                        onChange={(e) => setStopPrice(e.target.value)}
+                        className="input-field w-full pr-10"
+                        placeholder={rate ? formatCurrencyInr(rate) : "0"}
+                        step="1"
+                        min="1"
+                      />
+                      <div className="absolute right-3 top-1/2 transform -translate-y-1/2 text-zinc-400">
+                        <span className="text-sm font-medium">₹</span>
+                      </div>
+                    </div>
+                    {targetPrice && stopPrice && !isOcoValid() && (
+                      <p className="text-xs text-red-400 mt-2">
+                        Target must be above and stop below the current sell rate
+                      </p>
+                    )}
+                    <p className="text-zinc-500 text-xs mt-2">
+                      Whichever leg fills first cancels the other
+                    </p>
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Stop Configuration (Stop Orders Only) */}
+        {orderType === 'stop' && (
+          <div className="mb-6 space-y-4">
+            <div className="grid grid-cols-2 bg-zinc-800 rounded-lg p-1 gap-1">
+              <button
+                onClick={() => setStopMode('stop')}
+                className={`py-2 px-2 rounded-md text-sm font-medium transition-colors ${
+                  stopMode === 'stop' 
+                    ? 'bg-white text-black' 
+                    : 'text-zinc-400 hover:text-white'
+                }`}
+              >
+                {isBuy ? 'Stop Buy' : 'Stop-Loss'}
+              </button>
+              <button
+                onClick={() => setStopMode('trailing')}
+                className={`py-2 px-2 rounded-md text-sm font-medium transition-colors ${
+                  stopMode === 'trailing' 
+                    ? 'bg-white text-black' 
+                    : 'text-zinc-400 hover:text-white'
+                }`}
+              >
+                Trailing Stop
+              </button>
+            </div>
+
+            {stopMode === 'stop' ? (
+              <div>
+                <label className="block text-sm font-medium mb-2">
+                  Stop Price (₹ per ₿)
+                </label>
+                <div className="relative">
+                  <input
+                    type="number"
+                    inputMode="numeric"
+                    pattern="[0-9]*"
+                    value={stopPrice}
+                    onChange={(e) => setStopPrice(e.target.value)}
+                    className="input-field w-full pr-10"
+                    placeholder={rate ? formatCurrencyInr(rate) : "0"}
+                    step="1"
+                    min="1"
+                  />
+                  <div className="absolute right-3 top-1/2 transform -translate-y-1/2 text-zinc-400">
+                    <span className="text-sm font-medium">₹</span>
+                  </div>
+                </div>
+
+                {/* Quick Stop Buttons: below market for stop-loss, above market for stop buy */}
+                <div className="flex gap-2 mt-3">
+                  {[2, 5, 10, 15].map((percent) => (
+                    <button
+                      key={percent}
+                      onClick={() => setStopPrice((rate! * (isBuy ? 1 + percent / 100 : 1 - percent / 100)).toFixed(0))}
+                      className="flex-1 text-xs bg-zinc-800 hover:bg-zinc-700 px-3 py-2 rounded transition-colors"
+                    >
+                      {isBuy ? '+' : '-'}{percent}%
+                    </button>
+                  ))}
+                </div>
+                {stopPrice && !isStopPriceValid() && (
+                  <p className="text-xs text-red-400 mt-2">
+                    Stop price must be {isBuy ? 'above' : 'below'} the current {isBuy ? 'buy' : 'sell'} rate
+                  </p>
+                )}
+              </div>
+            ) : (
+              <div>
+                <label className="block text-sm font-medium mb-2">
+                  Trail Distance (%)
+                </label>
+                <div className="relative">
+                  <input
+                    type="number"
+                    inputMode="decimal"
+                    value={trailPercent}
+                    onChange={(e) => setTrailPercent(e.target.value)}
+                    className="input-field w-full pr-10"
+                    placeholder="5"
+                    step="0.1"
+                    min="0.1"
+                    max="50"
+                  />
+                  <div className="absolute right-3 top-1/2 transform -translate-y-1/2 text-zinc-400">
+                    <span className="text-sm font-medium">%</span>
+                  </div>
+                </div>
+
+                <div className="flex gap-2 mt-3">
+                  {[1, 2, 5, 10].map((percent) => (
+                    <button
+                      key={percent}
+                      onClick={() => setTrailPercent(percent.toString())}
+                      className="flex-1 text-xs bg-zinc-800 hover:bg-zinc-700 px-3 py-2 rounded transition-colors"
+                    >
+                      {percent}%
+                    </button>
+                  ))}
+                </div>
+                <p className="text-zinc-500 text-xs mt-2">
+                  {isBuy
+                    ? 'The stop follows the price down and buys when it rebounds by this much'
+                    : 'The stop follows the price up and sells when it falls back by this much'}
+                </p>
+              </div>
+            )}
           </div>
         )}
 
@@ -409,7 +709,7 @@ const TradingModal: React.FC<TradingModalProps> = ({
               <label className="block text-sm font-medium mb-2">
                 Purchase Frequency
               </label>
-              <div className="grid grid-cols-4 bg-zinc-800 rounded-lg p-1 gap-1">
+              <div className="grid grid-cols-5 bg-zinc-800 rounded-lg p-1 gap-1">
                 <button
                   onClick={() => setDcaFrequency('HOURLY')}
                   className={`py-2 px-2 rounded-md text-sm font-medium transition-colors ${
@@ -450,8 +750,22 @@ const TradingModal: React.FC<TradingModalProps> = ({
                 >
                   Monthly
                 </button>
+                <button
+                  onClick={() => setDcaFrequency('CUSTOM')}
+                  className={`py-2 px-2 rounded-md text-sm font-medium transition-colors ${
+                    dcaFrequency === 'CUSTOM' 
+                      ? 'bg-white text-black' 
+                      : 'text-zinc-400 hover:text-white'
+                  }`}
+                >
+                  Custom
+                </button>
               </div>
             </div>
+
+            {dcaFrequency === 'CUSTOM' && (
+              <DcaScheduleBuilder onChange={setDcaSchedule} />
+            )}
             
             {/* Optional Settings Button */}
             <button
@@ -463,8 +777,15 @@ const TradingModal: React.FC<TradingModalProps> = ({
                 <div>
                   <p className="text-white font-medium text-sm">Optional Settings</p>
                   <p className="text-zinc-400 text-xs">
-                    {dcaExecutions || dcaMaxPrice || dcaMinPrice ? (
-                      `${dcaExecutions ? `${dcaExecutions} executions` : ''}${dcaExecutions && (dcaMaxPrice || dcaMinPrice) ? ', ' : ''}${dcaMaxPrice ? `Max ${formatCurrencyInr(parseFloat(dcaMaxPrice))}` : ''}${dcaMaxPrice && dcaMinPrice ? ', ' : ''}${dcaMinPrice ? `Min ${formatCurrencyInr(parseFloat(dcaMinPrice))}` : ''}`
+                    {dcaExecutions || dcaMaxPrice || dcaMinPrice || dcaBudget || dcaGoal || dcaEndDate ? (
+                      [
+                        dcaExecutions && `${dcaExecutions} executions`,
+                        dcaMaxPrice && `Max ${formatCurrencyInr(parseFloat(dcaMaxPrice))}`,
+                        dcaMinPrice && `Min ${formatCurrencyInr(parseFloat(dcaMinPrice))}`,
+                        dcaBudget && `Budget ${isBuy ? formatCurrencyInr(parseFloat(dcaBudget)) : `₿${dcaBudget}`}`,
+                        dcaGoal && `Goal ${isBuy ? `₿${dcaGoal}` : formatCurrencyInr(parseFloat(dcaGoal))}`,
+                        dcaEndDate && `Ends ${dcaEndDate}`
+                      ].filter(Boolean).join(', ')
                     ) : (
                       'Set execution limits and price ranges'
                     )}
@@ -490,7 +811,9 @@ const TradingModal: React.FC<TradingModalProps> = ({
                   'You\'ll receive approximately:' : 
                   orderType === 'limit' ?
                   'Estimated when filled:' :
-                  `Per ${dcaFrequency.toLowerCase()} execution:`
+                  orderType === 'stop' ?
+                  'Estimated when triggered:' :
+                  `Per ${dcaFrequency === 'CUSTOM' ? 'scheduled' : dcaFrequency.toLowerCase()} execution:`
                 }
               </span>
             </div>
@@ -537,7 +860,9 @@ const TradingModal: React.FC<TradingModalProps> = ({
               parseFloat(amount) <= 0 || 
               isLoading || 
               (orderType !== 'dca' && parseFloat(amount) > availableBalance) ||
-              (orderType === 'limit' && (!targetPrice || parseFloat(targetPrice) <= 0))
+              (orderType === 'limit' && (!targetPrice || parseFloat(targetPrice) <= 0)) ||
+              (orderType === 'stop' && !isStopConfigValid()) ||
+              (isOco && !isOcoValid())
             }
             className="flex-1 font-medium px-4 py-2 rounded-lg transition-all duration-200 flex items-center justify-center gap-2 bg-white text-black hover:bg-zinc-200 disabled:opacity-50 disabled:cursor-not-allowed"
           >
@@ -549,11 +874,14 @@ const TradingModal: React.FC<TradingModalProps> = ({
             ) : (
               <>
                 {orderType === 'market' ? <Zap className="w-4 h-4" /> : 
-                 orderType === 'limit' ? <Target className="w-4 h-4" /> : <Repeat className="w-4 h-4" />}
+                 orderType === 'limit' ? <Target className="w-4 h-4" /> :
+                 orderType === 'stop' ? <Shield className="w-4 h-4" /> : <Repeat className="w-4 h-4" />}
                 {orderType === 'market' ? 
                   (isBuy ? 'Buy Bitcoin' : 'Sell Bitcoin') :
                   orderType === 'limit' ?
-                  (isBuy ? 'Place Buy Order' : 'Place Sell Order') :
+                  (isBuy ? 'Place Buy Order' : isOco ? 'Place OCO Order' : 'Place Sell Order') :
+                  orderType === 'stop' ?
+                  (stopMode === 'trailing' ? 'Place Trailing Stop' : (isBuy ? 'Place Stop Buy' : 'Place Stop-Loss')) :
                   (isBuy ? 'Start DCA Buy Plan' : 'Start DCA Sell Plan')
                 }
               </>
@@ -567,7 +895,7 @@ const TradingModal: React.FC<TradingModalProps> = ({
         isOpen={isPinModalOpen}
         onClose={handlePinModalClose}
         onConfirm={handlePinConfirm}
-        title={`Confirm ${orderType === 'market' ? (isBuy ? 'Buy' : 'Sell') : orderType === 'limit' ? 'Limit' : 'DCA'} Order`}
+        title={`Confirm ${orderType === 'market' ? (isBuy ? 'Buy' : 'Sell') : orderType === 'limit' ? 'Limit' : orderType === 'stop' ? 'Stop' : 'DCA'} Order`}
         message={(() => {
           const baseText = 'Enter your PIN to confirm ';
           if (orderType === 'market') {
@@ -578,7 +906,20 @@ const TradingModal: React.FC<TradingModalProps> = ({
             const action = isBuy ? 'buy' : 'sell';
             const amount = isBuy ? formatCurrencyInr(pendingAmount) : `${pendingAmount.toFixed(8)} ₿`;
             const price = `${formatCurrencyInr(pendingTargetPrice || 0)}/₿`;
+            if (pendingLimitConfig && pendingLimitConfig.timeInForce !== 'GTD') {
+              return `${baseText}placing a ${pendingLimitConfig.timeInForce} limit ${action} order for ${amount} at ${price}`;
+            }
+            if (pendingStopConfig) {
+              return `${baseText}placing an OCO sell order for ${amount}: take profit at ${price} or stop loss at ${formatCurrencyInr(pendingStopConfig.stopPrice || 0)}/₿`;
+            }
             return `${baseText}placing a limit ${action} order for ${amount} at ${price}`;
+          } else if (orderType === 'stop') {
+            const amount = isBuy ? formatCurrencyInr(pendingAmount) : `${pendingAmount.toFixed(8)} ₿`;
+            if (pendingStopConfig?.trailing) {
+              return `${baseText}placing a ${pendingStopConfig.trailPercent}% trailing stop ${isBuy ? 'buy' : 'sell'} order for ${amount}`;
+            }
+            const price = `${formatCurrencyInr(pendingStopConfig?.stopPrice || 0)}/₿`;
+            return `${baseText}placing a ${isBuy ? 'stop buy' : 'stop-loss'} order for ${amount} triggered at ${price}`;
           } else {
             const action = isBuy ? 'buy' : 'sell';
             const amount = isBuy ? formatCurrencyInr(pendingAmount) : `${pendingAmount.toFixed(8)} ₿`;
@@ -593,7 +934,7 @@ const TradingModal: React.FC<TradingModalProps> = ({
       {/* DCA Settings Modal */}
       {showDcaSettingsModal && (
         <div className="fixed inset-0 bg-black/80 backdrop-blur-sm flex items-center justify-center z-[60] p-4" onClick={() => setShowDcaSettingsModal(false)}>
-          <div className="bg-gradient-to-br from-zinc-950 to-zinc-900 border border-zinc-800 rounded-xl w-full max-w-md max-h-[90vh] overflow-hidden" onClick={(e) => e.stopPropagation()}>
+          <div className="bg-gradient-to-br from-zinc-950 to-zinc-900 border border-zinc-800 rounded-xl w-full max-w-md max-h-[90vh] overflow-y-auto" onClick={(e) => e.stopPropagation()}>
             {/* Header */}
             <div className="flex items-center justify-between p-6 border-b border-zinc-800">
               <div className="flex items-center gap-3">
@@ -682,6 +1023,80 @@ const TradingModal: React.FC<TradingModalProps> = ({
                 <p className="text-zinc-500 text-xs">DCA will only execute when Bitcoin price is within these limits</p>
               </div>
 
+              {/* Budget and Goal */}
+              <div className="space-y-4">
+                <h3 className="text-white font-medium text-sm">Stop Conditions</h3>
+                <div className="grid grid-cols-2 gap-3">
+                  <div>
+                    <label className="block text-sm font-medium mb-2 text-zinc-400">
+                      Budget ({isBuy ? '₹' : '₿'})
+                    </label>
+                    <input
+                      type="number"
+                      inputMode="decimal"
+                      value={dcaBudget}
+                      onChange={(e) => setDcaBudget(e.target.value)}
+                      className="w-full bg-zinc-700 border border-zinc-600 rounded-lg py-2 px-3 text-white placeholder-zinc-400 focus:outline-none focus:border-white"
+                      placeholder={isBuy ? 'e.g. 100000' : 'e.g. 0.05'}
+                      min="0"
+                      step={isBuy ? '1' : '0.00000001'}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium mb-2 text-zinc-400">
+                      Goal ({isBuy ? '₿' : '₹'})
+                    </label>
+                    <input
+                      type="number"
+                      inputMode="decimal"
+                      value={dcaGoal}
+                      onChange={(e) => setDcaGoal(e.target.value)}
+                      className="w-full bg-zinc-700 border border-zinc-600 rounded-lg py-2 px-3 text-white placeholder-zinc-400 focus:outline-none focus:border-white"
+                      placeholder={isBuy ? 'e.g. 0.1' : 'e.g. 500000'}
+                      min="0"
+                      step={isBuy ? '0.00000001' : '1'}
+                    />
+                  </div>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium mb-2 text-zinc-400">
+                    End Date
+                  </label>
+                  <input
+                    type="date"
+                    value={dcaEndDate}
+                    onChange={(e) => setDcaEndDate(e.target.value)}
+                    className="w-full bg-zinc-700 border border-zinc-600 rounded-lg py-2 px-3 text-white placeholder-zinc-400 focus:outline-none focus:border-white"
+                  />
+                </div>
+                <p className="text-zinc-500 text-xs">
+                  {isBuy
+                    ? 'Stop after spending the budget or once the goal in BTC is bought; the last execution is trimmed to fit'
+                    : 'Stop after selling the budget in BTC or once the goal in rupees is received; the last execution is trimmed to fit'}
+                </p>
+              </div>
+
+              {/* Catch-up Policy */}
+              <div>
+                <h3 className="text-white font-medium text-sm mb-2">Missed Executions</h3>
+                <div className="grid grid-cols-3 gap-2">
+                  {(['SKIP', 'ONCE', 'ALL'] as DcaCatchUpPolicy[]).map(policy => (
+                    <button
+                      key={policy}
+                      onClick={() => setDcaCatchUpPolicy(policy)}
+                      className={`py-2 px-2 rounded-lg text-xs transition-colors ${
+                        dcaCatchUpPolicy === policy
+                          ? 'bg-white text-black font-medium'
+                          : 'bg-zinc-700 text-zinc-300 hover:bg-zinc-600'
+                      }`}
+                    >
+                      {formatDcaCatchUpPolicy(policy)}
+                    </button>
+                  ))}
+                </div>
+                <p className="text-zinc-500 text-xs mt-2">What happens to executions missed while the service was down</p>
+              </div>
+
               {/* Action Buttons */}
               <div className="flex gap-3">
                 <button
@@ -689,6 +1104,10 @@ const TradingModal: React.FC<TradingModalProps> = ({
                     setDcaExecutions('');
                     setDcaMaxPrice('');
                     setDcaMinPrice('');
+                    setDcaCatchUpPolicy('ONCE');
+                    setDcaBudget('');
+                    setDcaGoal('');
+                    setDcaEndDate('');
                   }}
                   className="flex-1 bg-zinc-800 text-zinc-300 hover:bg-zinc-700 py-3 px-4 rounded-lg transition-colors"
                 >
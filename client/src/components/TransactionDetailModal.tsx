@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { 
   X, 
   User,
@@ -15,10 +15,12 @@ import {
   Lock,
   Clock,
   AlertTriangle,
-  Zap
+  Zap,
+  Shield,
+  Pencil
 } from 'lucide-react';
-import { Transaction } from '../types';
-import { getTransactionDisplayName, getTransactionIcon, formatBitcoin, formatCurrencyInr } from '../utils/formatters';
+import { Transaction, OrderAmendment, DcaStrategyInputs } from '../types';
+import { getTransactionDisplayName, getTransactionIcon, formatBitcoin, formatCurrencyInr, isTradeType, isOpenOrderType, formatDcaStrategy } from '../utils/formatters';
 import { useBodyScrollLock } from '../hooks/useBodyScrollLock';
 import { userAPI } from '../services/api';
 import PinConfirmationModal from './PinConfirmationModal';
@@ -38,13 +40,41 @@ const TransactionDetailModal: React.FC<TransactionDetailModalProps> = ({
 }) => {
   const [isCancelling, setIsCancelling] = useState(false);
   const [isPinModalOpen, setIsPinModalOpen] = useState(false);
+  const [pinAction, setPinAction] = useState<'cancel' | 'amend'>('cancel');
+  const [amendments, setAmendments] = useState<OrderAmendment[]>([]);
+  const [isAmendFormOpen, setIsAmendFormOpen] = useState(false);
+  const [amendPrice, setAmendPrice] = useState('');
+  const [amendAmount, setAmendAmount] = useState('');
+  const [isAmending, setIsAmending] = useState(false);
   useBodyScrollLock(isOpen);
+
+  const isLimitOrder = transaction?.type === 'LIMIT_BUY' || transaction?.type === 'LIMIT_SELL';
+
+  // Load amendment history for limit orders (fills of a split order have none of their own)
+  useEffect(() => {
+    setIsAmendFormOpen(false);
+    if (!isOpen || !transaction || !isLimitOrder || transaction.parent_id) {
+      setAmendments([]);
+      return;
+    }
+
+    userAPI.getLimitOrderAmendments(transaction.id)
+      .then(response => setAmendments(response.data.data || []))
+      .catch(() => setAmendments([]));
+  }, [isOpen, transaction, isLimitOrder]);
   
   if (!isOpen || !transaction) return null;
 
   // Check if transaction can be cancelled
-  const canCancel = transaction.status === 'PENDING' && 
-    (transaction.type === 'LIMIT_BUY' || transaction.type === 'LIMIT_SELL');
+  const canCancel = transaction.status === 'PENDING' && isOpenOrderType(transaction.type);
+
+  const isStopOrder = isOpenOrderType(transaction.type) &&
+    transaction.type !== 'LIMIT_BUY' && transaction.type !== 'LIMIT_SELL';
+
+  // Resting limit orders can be amended in place; OCO legs and IOC/FOK orders cannot
+  const canAmend = transaction.status === 'PENDING' && isLimitOrder && !transaction.oco_order_id &&
+    transaction.time_in_force !== 'IOC' && transaction.time_in_force !== 'FOK';
+  const isBuyOrder = transaction.type === 'LIMIT_BUY';
 
   const handleCancelOrder = async () => {
     if (!transaction || isCancelling) return;
@@ -70,16 +100,70 @@ const TransactionDetailModal: React.FC<TransactionDetailModalProps> = ({
   };
 
   const handleCancelClick = () => {
+    setPinAction('cancel');
+    setIsPinModalOpen(true);
+  };
+
+  const handleAmendFormOpen = () => {
+    setAmendPrice(transaction.btc_price ? transaction.btc_price.toString() : '');
+    setAmendAmount(isBuyOrder ? transaction.inr_amount.toString() : transaction.btc_amount.toString());
+    setIsAmendFormOpen(true);
+  };
+
+  const isAmendValid = () => {
+    const price = parseFloat(amendPrice);
+    const amount = parseFloat(amendAmount);
+    return price > 0 && amount > 0 &&
+      (price !== transaction.btc_price || amount !== (isBuyOrder ? transaction.inr_amount : transaction.btc_amount));
+  };
+
+  const handleAmendClick = () => {
+    if (!isAmendValid()) return;
+    setPinAction('amend');
     setIsPinModalOpen(true);
   };
 
+  const handleAmendOrder = async () => {
+    if (!transaction || isAmending) return;
+
+    try {
+      setIsAmending(true);
+      const price = parseFloat(amendPrice);
+      const amount = parseFloat(amendAmount);
+
+      // Only send what changed
+      await userAPI.amendLimitOrder(transaction.id, {
+        targetPrice: price !== transaction.btc_price ? Math.round(price) : undefined,
+        amount: amount !== (isBuyOrder ? transaction.inr_amount : transaction.btc_amount)
+          ? (isBuyOrder ? Math.round(amount) : amount)
+          : undefined
+      });
+
+      if (onTransactionUpdate) {
+        onTransactionUpdate();
+      }
+
+      onClose();
+    } catch (error: any) {
+      console.error('Error amending order:', error);
+      alert(error.response?.data?.message || 'Failed to amend order. Please try again.');
+    } finally {
+      setIsAmending(false);
+      setIsPinModalOpen(false);
+    }
+  };
+
   const handlePinConfirm = async (pin: string): Promise<boolean> => {
     try {
       // Verify PIN
       const response = await userAPI.verifyPin(pin);
       if (response.data.data?.valid) {
-        // PIN is correct, proceed with canceling the order
-        await handleCancelOrder();
+        // PIN is correct, proceed with the requested change
+        if (pinAction === 'amend') {
+          await handleAmendOrder();
+        } else {
+          await handleCancelOrder();
+        }
         return true;
       } else {
         // PIN is incorrect
@@ -112,12 +196,13 @@ const TransactionDetailModal: React.FC<TransactionDetailModalProps> = ({
       case 'Clock': return <Clock {...iconProps} />;
       case 'AlertTriangle': return <AlertTriangle {...iconProps} />;
       case 'Zap': return <Zap {...iconProps} />;
+      case 'Shield': return <Shield {...iconProps} />;
       default: return <Circle {...iconProps} />;
     }
   };
 
   const formatAmount = () => {
-    if (transaction.type === 'BUY' || transaction.type === 'SELL' || transaction.type === 'MARKET_BUY' || transaction.type === 'MARKET_SELL' || transaction.type === 'LIMIT_BUY' || transaction.type === 'LIMIT_SELL' || transaction.type === 'DCA_BUY' || transaction.type === 'DCA_SELL') {
+    if (isTradeType(transaction.type)) {
       return `${formatCurrencyInr(transaction.inr_amount)} / ₿${formatBitcoin(transaction.btc_amount)}`;
     } else if (transaction.type.includes('LOAN') || transaction.type.includes('INTEREST') || transaction.type.includes('LIQUIDATION')) {
       // For loan transactions, show both amounts if they exist
@@ -147,10 +232,14 @@ const TransactionDetailModal: React.FC<TransactionDetailModalProps> = ({
     switch (transaction.type) {
       case 'BUY':
       case 'MARKET_BUY':
-      case 'LIMIT_BUY': return 'text-green-400';
+      case 'LIMIT_BUY':
+      case 'STOP_BUY':
+      case 'TRAILING_STOP_BUY': return 'text-green-400';
       case 'SELL':
       case 'MARKET_SELL':
-      case 'LIMIT_SELL': return 'text-red-400';
+      case 'LIMIT_SELL':
+      case 'STOP_LOSS_SELL':
+      case 'TRAILING_STOP_SELL': return 'text-red-400';
       case 'DEPOSIT_INR': 
       case 'DEPOSIT_BTC': return 'text-blue-400';
       case 'WITHDRAW_INR': 
@@ -199,6 +288,26 @@ const TransactionDetailModal: React.FC<TransactionDetailModalProps> = ({
             </div>
           </div>
 
+          {/* Partial fill of a larger limit or stop order */}
+          {isOpenOrderType(transaction.type) && transaction.parent_id ? (
+            <div className="bg-zinc-800/50 rounded-lg p-3">
+              <div className="flex justify-between">
+                <span className="text-zinc-400 text-xs">Partial fill of order:</span>
+                <span className="text-white text-xs">#{transaction.parent_id.toString().padStart(8, '0')}</span>
+              </div>
+            </div>
+          ) : null}
+
+          {/* OCO bracket: the other leg is cancelled when this one fills */}
+          {transaction.oco_order_id ? (
+            <div className="bg-zinc-800/50 rounded-lg p-3">
+              <div className="flex justify-between">
+                <span className="text-zinc-400 text-xs">OCO linked order:</span>
+                <span className="text-white text-xs">#{transaction.oco_order_id.toString().padStart(8, '0')}</span>
+              </div>
+            </div>
+          ) : null}
+
           {/* Loan Information (for LOAN operations) */}
 {(transaction.type.includes('LOAN') || transaction.type.includes('INTEREST') || transaction.type === 'PARTIAL_LIQUIDATION' || transaction.type === 'FULL_LIQUIDATION') 
             
@@ -217,12 +326,32 @@ const TransactionDetailModal: React.FC<TransactionDetailModalProps> = ({
                     <span className="text-white text-xs">{formatCurrencyInr(transaction.execution_price)}</span>
                   </div>
                 ) : null}
-                {transaction.notes && transaction.type !== 'PARTIAL_LIQUIDATION' && transaction.type !== 'FULL_LIQUIDATION' ? (
+                {transaction.notes && transaction.type !== 'PARTIAL_LIQUIDATION' && transaction.type !== 'FULL_LIQUIDATION' && transaction.type !== 'DCA_BUY' ? (
                   <div className="flex justify-between">
                     <span className="text-zinc-400 text-xs">Notes:</span>
                     <span className="text-white text-xs">{transaction.notes}</span>
                   </div>
                 ) : null}
+                {transaction.type === 'DCA_BUY' && transaction.notes ? (() => {
+                  // DCA buys record the strategy inputs that produced their amount
+                  let strategyInputs: DcaStrategyInputs | null = null;
+                  try {
+                    strategyInputs = JSON.parse(transaction.notes);
+                  } catch (e) {
+                    return null;
+                  }
+                  if (!strategyInputs) return null;
+                  return (
+                    <div className="flex justify-between">
+                      <span className="text-zinc-400 text-xs">Strategy:</span>
+                      <span className="text-white text-xs text-right">
+                        {formatDcaStrategy(strategyInputs.strategy)}
+                        {strategyInputs.strategy === 'VALUE_AVERAGING' && ` · target ${formatCurrencyInr(strategyInputs.targetValue || 0)}`}
+                        {strategyInputs.strategy === 'DIP_MULTIPLIER' && ` · ${strategyInputs.applied}x`}
+                      </span>
+                    </div>
+                  );
+                })() : null}
                 {transaction.executed_at ? (
                   <div className="flex justify-between">
                     <span className="text-zinc-400 text-xs">Executed At:</span>
@@ -320,13 +449,31 @@ const TransactionDetailModal: React.FC<TransactionDetailModalProps> = ({
             </div>
           )}
           
-          {(transaction.type === 'BUY' || transaction.type === 'SELL' || transaction.type === 'MARKET_BUY' || transaction.type === 'MARKET_SELL' || transaction.type === 'LIMIT_BUY' || transaction.type === 'LIMIT_SELL' || transaction.type === 'DCA_BUY' || transaction.type === 'DCA_SELL') && (
+          {isTradeType(transaction.type) && (
             <div className="bg-zinc-800/50 rounded-lg p-3">
               <div className="space-y-1">
                 <div className="flex justify-between">
-                  <span className="text-zinc-400 text-xs">{transaction.status === 'PENDING' ? 'Target Price:' : 'BTC Price:'}</span>
+                  <span className="text-zinc-400 text-xs">{transaction.status === 'PENDING' ? (isStopOrder ? 'Stop Price:' : 'Target Price:') : 'BTC Price:'}</span>
                   <span className="text-white text-xs">{transaction.btc_price ? formatCurrencyInr(transaction.btc_price) : 'N/A'}</span>
                 </div>
+                {transaction.time_in_force ? (
+                  <div className="flex justify-between">
+                    <span className="text-zinc-400 text-xs">Time in Force:</span>
+                    <span className="text-white text-xs">{transaction.time_in_force}</span>
+                  </div>
+                ) : null}
+                {transaction.status === 'PENDING' && transaction.expires_at ? (
+                  <div className="flex justify-between">
+                    <span className="text-zinc-400 text-xs">Expires:</span>
+                    <span className="text-white text-xs">{new Date(transaction.expires_at).toLocaleString('en-IN')}</span>
+                  </div>
+                ) : null}
+                {transaction.trail_percent ? (
+                  <div className="flex justify-between">
+                    <span className="text-zinc-400 text-xs">Trail Distance:</span>
+                    <span className="text-white text-xs">{transaction.trail_percent}%</span>
+                  </div>
+                ) : null}
                 <div className="flex justify-between">
                   <span className="text-zinc-400 text-xs">{transaction.status === 'PENDING' ? 'Estimated BTC:' : 'BTC Amount:'}</span>
                   <span className="text-white text-xs">₿{formatBitcoin(transaction.btc_amount)}</span>
@@ -341,14 +488,14 @@ const TransactionDetailModal: React.FC<TransactionDetailModalProps> = ({
                 {transaction.status === 'PENDING' && (
                   <div className="text-center mt-2">
                     <span className="px-2 py-1 text-xs bg-orange-900/20 border border-orange-800 text-orange-300 rounded">
-                      Waiting for price to reach target
+                      {isStopOrder ? 'Waiting for price to reach stop' : 'Waiting for price to reach target'}
                     </span>
                   </div>
                 )}
-                {transaction.status === 'CANCELLED' && (
+                {(transaction.status === 'CANCELLED' || transaction.status === 'EXPIRED') && (
                   <div className="text-center mt-2">
                     <span className="px-2 py-1 text-xs bg-gray-900/20 border border-gray-800 text-gray-400 rounded">
-                      Order was cancelled
+                      {transaction.cancellation_reason || (transaction.status === 'EXPIRED' ? 'Order expired' : 'Order was cancelled')}
                     </span>
                   </div>
                 )}
@@ -356,6 +503,53 @@ const TransactionDetailModal: React.FC<TransactionDetailModalProps> = ({
             </div>
           )}
 
+          {/* Amendment History (Limit Orders) */}
+          {amendments.length > 0 && (
+            <div className="bg-zinc-800/50 rounded-lg p-3">
+              <p className="text-zinc-400 text-xs mb-2">Amendment History</p>
+              <div className="space-y-2">
+                {amendments.map((amendment) => (
+                  <div key={amendment.id} className="border-t border-zinc-700 pt-2 first:border-t-0 first:pt-0 space-y-1">
+                    <p className="text-zinc-500 text-xs">
+                      {new Date(amendment.created_at).toLocaleString('en-IN')}
+                    </p>
+                    {amendment.old_limit_price !== amendment.new_limit_price && (
+                      <div className="flex justify-between">
+                        <span className="text-zinc-400 text-xs">Price:</span>
+                        <span className="text-white text-xs">
+                          {formatCurrencyInr(amendment.old_limit_price)} → {formatCurrencyInr(amendment.new_limit_price)}
+                        </span>
+                      </div>
+                    )}
+                    {isBuyOrder ? (amendment.old_inr_amount !== amendment.new_inr_amount && (
+                      <div className="flex justify-between">
+                        <span className="text-zinc-400 text-xs">Amount:</span>
+                        <span className="text-white text-xs">
+                          {formatCurrencyInr(amendment.old_inr_amount)} → {formatCurrencyInr(amendment.new_inr_amount)}
+                        </span>
+                      </div>
+                    )) : (amendment.old_btc_amount !== amendment.new_btc_amount && (
+                      <div className="flex justify-between">
+                        <span className="text-zinc-400 text-xs">Amount:</span>
+                        <span className="text-white text-xs">
+                          ₿{formatBitcoin(amendment.old_btc_amount)} → ₿{formatBitcoin(amendment.new_btc_amount)}
+                        </span>
+                      </div>
+                    ))}
+                    {amendment.old_expires_at !== amendment.new_expires_at && amendment.new_expires_at && (
+                      <div className="flex justify-between">
+                        <span className="text-zinc-400 text-xs">Expiry:</span>
+                        <span className="text-white text-xs">
+                          {new Date(amendment.new_expires_at).toLocaleString('en-IN')}
+                        </span>
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Balances After Transaction - Hidden for now as we're not storing balance snapshots */}
           {/* TODO: Implement balance snapshots in operations table to show historical balances */}
 
@@ -369,10 +563,10 @@ const TransactionDetailModal: React.FC<TransactionDetailModalProps> = ({
                     <div className="w-1.5 h-1.5 bg-orange-400 rounded-full animate-pulse" />
                     <span className="text-orange-300 text-xs">Pending</span>
                   </>
-                ) : transaction.status === 'CANCELLED' ? (
+                ) : transaction.status === 'CANCELLED' || transaction.status === 'EXPIRED' ? (
                   <>
                     <div className="w-1.5 h-1.5 bg-gray-400 rounded-full" />
-                    <span className="text-gray-400 text-xs">Cancelled</span>
+                    <span className="text-gray-400 text-xs">{transaction.status === 'EXPIRED' ? 'Expired' : 'Cancelled'}</span>
                   </>
                 ) : (
                   <>
@@ -400,6 +594,61 @@ const TransactionDetailModal: React.FC<TransactionDetailModalProps> = ({
             </div>
           </div>
 
+          {/* Amend Order */}
+          {canAmend && (isAmendFormOpen ? (
+            <div className="bg-zinc-800/50 rounded-lg p-3 space-y-3">
+              <div>
+                <label className="block text-zinc-400 text-xs mb-1">Target Price (₹ per ₿)</label>
+                <input
+                  type="number"
+                  inputMode="numeric"
+                  value={amendPrice}
+                  onChange={(e) => setAmendPrice(e.target.value)}
+                  className="input-field w-full"
+                  step="1"
+                  min="1"
+                />
+              </div>
+              <div>
+                <label className="block text-zinc-400 text-xs mb-1">
+                  {isBuyOrder ? 'Amount (₹)' : 'Amount (₿)'}
+                </label>
+                <input
+                  type="number"
+                  inputMode="decimal"
+                  value={amendAmount}
+                  onChange={(e) => setAmendAmount(e.target.value)}
+                  className="input-field w-full"
+                  step={isBuyOrder ? '1' : '0.00000001'}
+                  min="0"
+                />
+              </div>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => setIsAmendFormOpen(false)}
+                  className="flex-1 bg-zinc-800 hover:bg-zinc-700 text-zinc-300 py-2 px-4 rounded-lg transition-colors text-sm"
+                >
+                  Back
+                </button>
+                <button
+                  onClick={handleAmendClick}
+                  disabled={!isAmendValid() || isAmending}
+                  className="flex-1 bg-white text-black hover:bg-zinc-200 disabled:opacity-50 disabled:cursor-not-allowed py-2 px-4 rounded-lg transition-colors text-sm font-medium"
+                >
+                  {isAmending ? 'Saving...' : 'Save Changes'}
+                </button>
+              </div>
+            </div>
+          ) : (
+            <button
+              onClick={handleAmendFormOpen}
+              className="w-full bg-zinc-800 border border-zinc-700 text-zinc-300 hover:bg-zinc-700 py-3 px-4 rounded-lg transition-colors flex items-center justify-center gap-2"
+            >
+              <Pencil className="w-4 h-4" />
+              Amend Order
+            </button>
+          ))}
+
           {/* Cancel Order Button */}
           {canCancel && (
             <button
@@ -419,9 +668,11 @@ const TransactionDetailModal: React.FC<TransactionDetailModalProps> = ({
         isOpen={isPinModalOpen}
         onClose={handlePinModalClose}
         onConfirm={handlePinConfirm}
-        title="Confirm Cancel Order"
-        message="Enter your PIN to confirm canceling this limit order"
-        isLoading={isCancelling}
+        title={pinAction === 'amend' ? 'Confirm Amend Order' : 'Confirm Cancel Order'}
+        message={pinAction === 'amend'
+          ? 'Enter your PIN to confirm amending this limit order'
+          : 'Enter your PIN to confirm canceling this limit order'}
+        isLoading={pinAction === 'amend' ? isAmending : isCancelling}
       />
     </div>
   );
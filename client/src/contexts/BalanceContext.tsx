@@ -1,9 +1,19 @@
-import React, { createContext, useContext, useState, ReactNode } from 'react';
+import React, { createContext, useContext, useState, useEffect, useRef, useCallback, ReactNode } from 'react';
+import { useAuth } from './AuthContext';
+import { authAPI, getEventStreamUrl } from '../services/api';
+import { StreamEvent } from '../types';
+
+type StreamListener = (event: StreamEvent) => void;
+
+const STREAM_EVENT_TYPES: StreamEvent['type'][] = ['price', 'market', 'balance', 'order', 'dca', 'loan'];
+const STREAM_RETRY_MS = 5000;
 
 interface BalanceContextType {
   refreshBalance: () => void;
   updateBalance: () => void;
   balanceVersion: number;
+  isLive: boolean; // Event stream connected; pages fall back to polling while false
+  subscribe: (listener: StreamListener) => () => void;
 }
 
 const BalanceContext = createContext<BalanceContextType | undefined>(undefined);
@@ -21,7 +31,85 @@ interface BalanceProviderProps {
 }
 
 export const BalanceProvider: React.FC<BalanceProviderProps> = ({ children }) => {
+  const { token } = useAuth();
   const [balanceVersion, setBalanceVersion] = useState(0);
+  const [isLive, setIsLive] = useState(false);
+  const listenersRef = useRef(new Set<StreamListener>());
+
+  // One event stream per session. Stream tickets are single-use, so every reconnect
+  // fetches a fresh ticket instead of relying on EventSource's own retry.
+  useEffect(() => {
+    if (!token || typeof EventSource === 'undefined') {
+      return;
+    }
+
+    let source: EventSource | null = null;
+    let retryTimer: ReturnType<typeof setTimeout> | undefined;
+    let isClosed = false;
+
+    const scheduleReconnect = () => {
+      if (!isClosed) {
+        retryTimer = setTimeout(connect, STREAM_RETRY_MS);
+      }
+    };
+
+    const connect = async () => {
+      let ticket: string;
+      try {
+        const response = await authAPI.getStreamTicket();
+        ticket = response.data.data!.ticket;
+      } catch (error) {
+        scheduleReconnect();
+        return;
+      }
+      if (isClosed) {
+        return;
+      }
+
+      const stream = new EventSource(getEventStreamUrl(ticket));
+      source = stream;
+      stream.onopen = () => setIsLive(true);
+      stream.onerror = () => {
+        setIsLive(false);
+        stream.close();
+        scheduleReconnect();
+      };
+
+      STREAM_EVENT_TYPES.forEach(type => {
+        stream.addEventListener(type, (message) => {
+          let event: StreamEvent;
+          try {
+            event = { type, data: JSON.parse((message as MessageEvent).data) } as StreamEvent;
+          } catch (error) {
+            console.error('Invalid stream event:', error);
+            return;
+          }
+
+          // Every balance-changing event is followed by a balance event
+          if (event.type === 'balance') {
+            setBalanceVersion(prev => prev + 1);
+          }
+          listenersRef.current.forEach(listener => listener(event));
+        });
+      });
+    };
+
+    connect();
+
+    return () => {
+      isClosed = true;
+      clearTimeout(retryTimer);
+      source?.close();
+      setIsLive(false);
+    };
+  }, [token]);
+
+  const subscribe = useCallback((listener: StreamListener) => {
+    listenersRef.current.add(listener);
+    return () => {
+      listenersRef.current.delete(listener);
+    };
+  }, []);
 
   const refreshBalance = () => {
     setBalanceVersion(prev => prev + 1);
@@ -35,6 +123,8 @@ export const BalanceProvider: React.FC<BalanceProviderProps> = ({ children }) =>
     refreshBalance,
     updateBalance,
     balanceVersion,
+    isLive,
+    subscribe,
   };
 
   return (
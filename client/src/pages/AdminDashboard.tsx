@@ -222,6 +222,24 @@ const AdminDashboard: React.FC = () => {
               </span>
             </div>
           </div>
+          <div className="flex justify-between items-center">
+            <span className="text-zinc-400">Price Provider</span>
+            <div className="flex items-center gap-2">
+              {getServiceStatusIcon(systemHealth?.price_feed?.active_provider ? 'running' : 'unknown')}
+              <span className={getServiceStatusText(systemHealth?.price_feed?.active_provider ? 'running' : 'unknown')}>
+                {systemHealth?.price_feed?.active_provider || 'Unknown'}
+              </span>
+            </div>
+          </div>
+          <div className="flex justify-between items-center">
+            <span className="text-zinc-400">Market</span>
+            <div className="flex items-center gap-2">
+              {getServiceStatusIcon(systemHealth?.market?.halted ? 'stopped' : 'running')}
+              <span className={getServiceStatusText(systemHealth?.market?.halted ? 'stopped' : 'running')}>
+                {systemHealth?.market?.halted ? 'Halted' : 'Open'}
+              </span>
+            </div>
+          </div>
           {systemHealth?.timestamp && (
             <div className="border-t border-zinc-800 pt-3">
               <div className="flex justify-between items-center text-sm">
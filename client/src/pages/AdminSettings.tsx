@@ -17,11 +17,15 @@ import {
 } from 'lucide-react';
 import { adminAPI, userAPI } from '../services/api';
 import PinConfirmationModal from '../components/PinConfirmationModal';
+import LoanProductsSection from '../components/LoanProductsSection';
+import InterestAccrualGapsSection from '../components/InterestAccrualGapsSection';
+import InsuranceFundSection from '../components/InsuranceFundSection';
 
 const AdminSettings: React.FC = () => {
   const [buyMultiplier, setBuyMultiplier] = useState('');
   const [sellMultiplier, setSellMultiplier] = useState('');
   const [loanInterestRate, setLoanInterestRate] = useState('');
+  const [liquidationPenalty, setLiquidationPenalty] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [message, setMessage] = useState('');
   const [error, setError] = useState('');
@@ -30,7 +34,7 @@ const AdminSettings: React.FC = () => {
   
   // PIN confirmation state
   const [isPinModalOpen, setIsPinModalOpen] = useState(false);
-  const [pendingSettings, setPendingSettings] = useState<{ buy_multiplier: number; sell_multiplier: number; loan_interest_rate: number } | null>(null);
+  const [pendingSettings, setPendingSettings] = useState<{ buy_multiplier: number; sell_multiplier: number; loan_interest_rate: number; liquidation_penalty_bps: number } | null>(null);
 
   useEffect(() => {
     fetchCurrentSettings();
@@ -46,12 +50,14 @@ const AdminSettings: React.FC = () => {
       setBuyMultiplier(settings.buy_multiplier?.toString() || '91');
       setSellMultiplier(settings.sell_multiplier?.toString() || '88');
       setLoanInterestRate(settings.loan_interest_rate?.toString() || '15');
+      setLiquidationPenalty(((settings.liquidation_penalty_bps || 0) / 100).toString());
     } catch (error) {
       console.error('Error fetching settings:', error);
       // Fallback to default values
       setBuyMultiplier('91');
       setSellMultiplier('88');
       setLoanInterestRate('15');
+      setLiquidationPenalty('0');
     }
   };
 
@@ -69,7 +75,7 @@ const AdminSettings: React.FC = () => {
   };
 
   const validateAndPrepareSettings = () => {
-    if (!buyMultiplier || !sellMultiplier || !loanInterestRate) {
+    if (!buyMultiplier || !sellMultiplier || !loanInterestRate || !liquidationPenalty) {
       setError('Please enter all required settings');
       return null;
     }
@@ -77,6 +83,7 @@ const AdminSettings: React.FC = () => {
     const buyValue = parseFloat(buyMultiplier);
     const sellValue = parseFloat(sellMultiplier);
     const interestValue = parseFloat(loanInterestRate);
+    const penaltyValue = parseFloat(liquidationPenalty);
 
     if (buyValue <= 0 || buyValue > 200 || sellValue <= 0 || sellValue > 200) {
       setError('Exchange rates must be between 1 and 200 INR per USD');
@@ -88,12 +95,22 @@ const AdminSettings: React.FC = () => {
       return null;
     }
 
+    if (isNaN(penaltyValue) || penaltyValue < 0 || penaltyValue > 20) {
+      setError('Liquidation penalty must be between 0 and 20%');
+      return null;
+    }
+
     if (sellValue >= buyValue) {
       setError('Sell multiplier must be lower than buy multiplier');
       return null;
     }
 
-    return { buy_multiplier: buyValue, sell_multiplier: sellValue, loan_interest_rate: interestValue };
+    return {
+      buy_multiplier: buyValue,
+      sell_multiplier: sellValue,
+      loan_interest_rate: interestValue,
+      liquidation_penalty_bps: Math.round(penaltyValue * 100)
+    };
   };
 
   const handleUpdateSettings = async () => {
@@ -150,6 +167,7 @@ const AdminSettings: React.FC = () => {
     setBuyMultiplier('91');
     setSellMultiplier('88');
     setLoanInterestRate('15');
+    setLiquidationPenalty('0');
     setMessage('');
     setError('');
   };
@@ -288,7 +306,28 @@ const AdminSettings: React.FC = () => {
                 className="w-full bg-zinc-800 border border-zinc-700 rounded-lg py-3 pl-10 pr-4 text-white placeholder-zinc-400 focus:outline-none focus:border-white"
               />
             </div>
-            <p className="text-zinc-500 text-xs mt-1">Annual interest rate for Bitcoin-backed loans (%)</p>
+            <p className="text-zinc-500 text-xs mt-1">Default annual interest rate for Bitcoin-backed loans (%); loan products set their own rates</p>
+          </div>
+
+          {/* Liquidation Penalty */}
+          <div>
+            <label className="block text-zinc-400 text-sm mb-2">Liquidation Penalty</label>
+            <div className="relative">
+              <Percent className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-zinc-400" />
+              <input
+                type="number"
+                inputMode="decimal"
+                pattern="[0-9]*[.]?[0-9]*"
+                value={liquidationPenalty}
+                onChange={(e) => setLiquidationPenalty(e.target.value)}
+                placeholder="0"
+                min="0"
+                max="20"
+                step="0.01"
+                className="w-full bg-zinc-800 border border-zinc-700 rounded-lg py-3 pl-10 pr-4 text-white placeholder-zinc-400 focus:outline-none focus:border-white"
+              />
+            </div>
+            <p className="text-zinc-500 text-xs mt-1">Charged on the debt a liquidation repays (%) and paid into the insurance fund</p>
           </div>
 
           <div className="flex gap-3">
@@ -311,6 +350,15 @@ const AdminSettings: React.FC = () => {
         </div>
       </div>
 
+      {/* Loan Products */}
+      <LoanProductsSection />
+
+      {/* Interest Accrual Gaps */}
+      <InterestAccrualGapsSection />
+
+      {/* Insurance Fund */}
+      <InsuranceFundSection />
+
       {/* System Health */}
       <div className="bg-gradient-to-br from-zinc-950 to-zinc-900 border border-zinc-800 rounded-xl p-4">
         <div className="flex items-center justify-between mb-6">
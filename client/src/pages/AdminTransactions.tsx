@@ -27,7 +27,8 @@ import {
   DollarSign,
   RotateCcw,
   Lock,
-  Zap
+  Zap,
+  Shield
 } from 'lucide-react';
 import { adminAPI } from '../services/api';
 import { Transaction, DcaPlan } from '../types';
@@ -38,10 +39,15 @@ import {
   formatTimeAgo,
   formatBitcoin,
   formatCurrency,
-  formatCurrencyInr
+  formatCurrencyInr,
+  isTradeType,
+  isOpenOrderType,
+  formatDcaSchedule,
+  formatDcaCompletionReason
 } from '../utils/formatters';
+import DcaGoalProgress from '../components/DcaGoalProgress';
 
-type TransactionType = 'ALL' | 'BUY' | 'SELL' | 'LIMIT_BUY' | 'LIMIT_SELL' | 'DEPOSIT_INR' | 'DEPOSIT_BTC' | 'WITHDRAW_INR' | 'WITHDRAW_BTC' | 'LOAN_CREATE' | 'LOAN_BORROW' | 'LOAN_REPAY' | 'LOAN_ADD_COLLATERAL';
+type TransactionType = 'ALL' | 'BUY' | 'SELL' | 'LIMIT_BUY' | 'LIMIT_SELL' | 'STOP_LOSS_SELL' | 'STOP_BUY' | 'TRAILING_STOP_SELL' | 'TRAILING_STOP_BUY' | 'DEPOSIT_INR' | 'DEPOSIT_BTC' | 'WITHDRAW_INR' | 'WITHDRAW_BTC' | 'LOAN_CREATE' | 'LOAN_BORROW' | 'LOAN_REPAY' | 'LOAN_ADD_COLLATERAL';
 type DateFilter = 'ALL' | 'TODAY' | 'WEEK' | 'MONTH' | 'CUSTOM';
 type SortOption = 'NEWEST' | 'OLDEST' | 'HIGHEST' | 'LOWEST';
 
@@ -606,7 +612,8 @@ const AdminTransactions: React.FC = () => {
                           {getTransactionIcon(transaction.type, transaction.status) === 'Clock' && <Clock className="w-3 h-3 text-white" />}
                           {getTransactionIcon(transaction.type, transaction.status) === 'AlertTriangle' && <AlertTriangle className="w-3 h-3 text-white" />}
                           {getTransactionIcon(transaction.type, transaction.status) === 'Zap' && <Zap className="w-3 h-3 text-white" />}
-                          {!['User', 'ArrowUp', 'TrendingUp', 'TrendingDown', 'ArrowDown', 'Plus', 'Minus', 'Target', 'X', 'Repeat', 'Lock', 'Clock', 'AlertTriangle', 'Zap'].includes(getTransactionIcon(transaction.type, transaction.status)) && <Circle className="w-3 h-3 text-white" />}
+                          {getTransactionIcon(transaction.type, transaction.status) === 'Shield' && <Shield className="w-3 h-3 text-white" />}
+                          {!['User', 'ArrowUp', 'TrendingUp', 'TrendingDown', 'ArrowDown', 'Plus', 'Minus', 'Target', 'X', 'Repeat', 'Lock', 'Clock', 'AlertTriangle', 'Zap', 'Shield'].includes(getTransactionIcon(transaction.type, transaction.status)) && <Circle className="w-3 h-3 text-white" />}
                         </div>
                         <div>
                           <div className="flex items-center gap-2">
@@ -625,7 +632,7 @@ const AdminTransactions: React.FC = () => {
                         </div>
                       </div>
                       <div className="text-right">
-                        {(transaction.type === 'BUY' || transaction.type === 'SELL' || transaction.type === 'MARKET_BUY' || transaction.type === 'MARKET_SELL' || transaction.type === 'LIMIT_BUY' || transaction.type === 'LIMIT_SELL' || transaction.type === 'DCA_BUY' || transaction.type === 'DCA_SELL') ? (
+                        {isTradeType(transaction.type) ? (
                           <div>
                             <p className="font-bold text-sm text-white">
                               {formatCurrencyInr(transaction.inr_amount)}
@@ -651,7 +658,7 @@ const AdminTransactions: React.FC = () => {
                         )}
                       </div>
                     </div>
-                    {(transaction.type === 'LIMIT_BUY' || transaction.type === 'LIMIT_SELL') && transaction.status === 'PENDING' && (
+                    {isOpenOrderType(transaction.type) && transaction.status === 'PENDING' && (
                       <div className="mt-3 flex justify-end">
                         <button
                           onClick={(e) => {
@@ -717,7 +724,7 @@ const AdminTransactions: React.FC = () => {
                         <div>
                           <div className="flex items-center gap-2">
                             <p className="font-medium text-white text-sm">
-                              {plan.plan_type === 'DCA_BUY' ? 'DCA Buy' : 'DCA Sell'} - {plan.frequency}
+                              {plan.plan_type === 'DCA_BUY' ? 'DCA Buy' : 'DCA Sell'} - {plan.frequency === 'CUSTOM' && plan.schedule ? formatDcaSchedule(plan.schedule) : plan.frequency}
                             </p>
                             <span className={`px-1.5 py-0.5 text-xs border rounded flex items-center gap-1 ${getDcaStatusColor(plan.status)}`}>
                               {getDcaStatusIcon(plan.status)}
@@ -850,6 +857,10 @@ const AdminTransactions: React.FC = () => {
                     { key: 'SELL', label: 'Sell', icon: TrendingDown },
                     { key: 'LIMIT_BUY', label: 'Limit Buy', icon: Target },
                     { key: 'LIMIT_SELL', label: 'Limit Sell', icon: Target },
+                    { key: 'STOP_BUY', label: 'Stop Buy', icon: Shield },
+                    { key: 'STOP_LOSS_SELL', label: 'Stop-Loss Sell', icon: Shield },
+                    { key: 'TRAILING_STOP_BUY', label: 'Trailing Stop Buy', icon: Shield },
+                    { key: 'TRAILING_STOP_SELL', label: 'Trailing Stop Sell', icon: Shield },
                     { key: 'DCA_BUY', label: 'DCA Buy', icon: Repeat },
                     { key: 'DCA_SELL', label: 'DCA Sell', icon: Repeat },
                     { key: 'DEPOSIT_INR', label: 'Deposit INR', icon: Plus },
@@ -1050,7 +1061,7 @@ const AdminTransactions: React.FC = () => {
                 {/* Frequency */}
                 <div className="bg-zinc-800/50 rounded-lg p-3">
                   <p className="text-zinc-400 text-xs mb-1">Frequency</p>
-                  <p className="text-white font-medium text-sm">{selectedDcaPlan.frequency}</p>
+                  <p className="text-white font-medium text-sm">{selectedDcaPlan.frequency === 'CUSTOM' && selectedDcaPlan.schedule ? formatDcaSchedule(selectedDcaPlan.schedule) : selectedDcaPlan.frequency}</p>
                 </div>
                 
                 {/* Amount per Execution */}
@@ -1084,7 +1095,7 @@ const AdminTransactions: React.FC = () => {
               </div>
 
               {/* Optional Details */}
-              {(selectedDcaPlan.remaining_executions !== null || selectedDcaPlan.max_price || selectedDcaPlan.min_price) && (
+              {(selectedDcaPlan.remaining_executions !== null || selectedDcaPlan.max_price || selectedDcaPlan.min_price || selectedDcaPlan.completion_reason) && (
                 <div className="bg-zinc-800/50 rounded-lg p-4">
                   <div className="space-y-2 text-sm">
                     {selectedDcaPlan.remaining_executions !== null && (
@@ -1103,10 +1114,22 @@ const AdminTransactions: React.FC = () => {
                         </span>
                       </div>
                     )}
+                    {selectedDcaPlan.completion_reason && (
+                      <div>
+                        <span className="text-zinc-400">Completed: </span>
+                        <span className="text-white">{formatDcaCompletionReason(selectedDcaPlan.completion_reason)}</span>
+                      </div>
+                    )}
                   </div>
                 </div>
               )}
 
+              {(selectedDcaPlan.budget_limit !== null || selectedDcaPlan.goal_amount !== null || selectedDcaPlan.end_date) && (
+                <div className="bg-zinc-800/50 rounded-lg p-4">
+                  <DcaGoalProgress plan={selectedDcaPlan} />
+                </div>
+              )}
+
               {/* Action Buttons */}
               <div className="flex gap-3">
                 {selectedDcaPlan.status === 'ACTIVE' && (
@@ -21,7 +21,8 @@ import {
   Lock,
   Clock,
   AlertTriangle,
-  Zap
+  Zap,
+  Shield
 } from 'lucide-react';
 import { userAPI } from '../services/api';
 import { Transaction } from '../types';
@@ -33,10 +34,11 @@ import {
   getTransactionIcon, 
   formatTimeAgo,
   formatCurrency,
-  formatInr
+  formatInr,
+  isTradeType
 } from '../utils/formatters';
 
-type TransactionType = 'ALL' | 'MARKET_BUY' | 'MARKET_SELL' | 'LIMIT_BUY' | 'LIMIT_SELL' | 'DEPOSIT_INR' | 'DEPOSIT_BTC' | 'WITHDRAW_INR' | 'WITHDRAW_BTC' | 'DCA_BUY' | 'DCA_SELL' | 'LOAN_CREATE' | 'LOAN_BORROW' | 'LOAN_REPAY' | 'LOAN_ADD_COLLATERAL' | 'INTEREST_ACCRUAL' | 'PARTIAL_LIQUIDATION' | 'FULL_LIQUIDATION';
+type TransactionType = 'ALL' | 'MARKET_BUY' | 'MARKET_SELL' | 'LIMIT_BUY' | 'LIMIT_SELL' | 'STOP_LOSS_SELL' | 'STOP_BUY' | 'TRAILING_STOP_SELL' | 'TRAILING_STOP_BUY' | 'DEPOSIT_INR' | 'DEPOSIT_BTC' | 'WITHDRAW_INR' | 'WITHDRAW_BTC' | 'DCA_BUY' | 'DCA_SELL' | 'LOAN_CREATE' | 'LOAN_BORROW' | 'LOAN_REPAY' | 'LOAN_ADD_COLLATERAL' | 'INTEREST_ACCRUAL' | 'PARTIAL_LIQUIDATION' | 'FULL_LIQUIDATION';
 type DateFilter = 'ALL' | 'TODAY' | 'WEEK' | 'MONTH' | 'CUSTOM';
 type SortOption = 'NEWEST' | 'OLDEST' | 'HIGHEST' | 'LOWEST';
 
@@ -282,7 +284,7 @@ const History: React.FC = () => {
         {/* Buy Transactions */}
         <button
           onClick={() => {
-            const buyTypes: TransactionType[] = ['MARKET_BUY', 'LIMIT_BUY', 'DCA_BUY'];
+            const buyTypes: TransactionType[] = ['MARKET_BUY', 'LIMIT_BUY', 'STOP_BUY', 'TRAILING_STOP_BUY', 'DCA_BUY'];
             const isCurrentlySelected = buyTypes.every(type => filters.types.includes(type)) && 
                                       filters.types.length === buyTypes.length;
             if (isCurrentlySelected) {
@@ -292,8 +294,8 @@ const History: React.FC = () => {
             }
           }}
           className={`bg-gradient-to-br from-zinc-950 to-zinc-900 border rounded-lg p-3 flex items-center gap-3 transition-all hover:border-green-600 ${
-            ['MARKET_BUY', 'LIMIT_BUY', 'DCA_BUY'].every(type => filters.types.includes(type as TransactionType)) && 
-            filters.types.length === 3 && !filters.types.includes('ALL')
+            ['MARKET_BUY', 'LIMIT_BUY', 'STOP_BUY', 'TRAILING_STOP_BUY', 'DCA_BUY'].every(type => filters.types.includes(type as TransactionType)) && 
+            filters.types.length === 5 && !filters.types.includes('ALL')
               ? 'border-green-500 bg-green-950/20'
               : 'border-zinc-800'
           }`}
@@ -304,7 +306,7 @@ const History: React.FC = () => {
           <div>
             <p className="text-zinc-400 text-xs">Buy</p>
             <p className="text-lg font-bold text-white">
-              {allTransactions.filter(t => ['MARKET_BUY', 'LIMIT_BUY', 'DCA_BUY'].includes(t.type)).length}
+              {allTransactions.filter(t => ['MARKET_BUY', 'LIMIT_BUY', 'STOP_BUY', 'TRAILING_STOP_BUY', 'DCA_BUY'].includes(t.type)).length}
             </p>
           </div>
         </button>
@@ -312,7 +314,7 @@ const History: React.FC = () => {
         {/* Sell Transactions */}
         <button
           onClick={() => {
-            const sellTypes: TransactionType[] = ['MARKET_SELL', 'LIMIT_SELL', 'DCA_SELL'];
+            const sellTypes: TransactionType[] = ['MARKET_SELL', 'LIMIT_SELL', 'STOP_LOSS_SELL', 'TRAILING_STOP_SELL', 'DCA_SELL'];
             const isCurrentlySelected = sellTypes.every(type => filters.types.includes(type)) && 
                                       filters.types.length === sellTypes.length;
             if (isCurrentlySelected) {
@@ -322,8 +324,8 @@ const History: React.FC = () => {
             }
           }}
           className={`bg-gradient-to-br from-zinc-950 to-zinc-900 border rounded-lg p-3 flex items-center gap-3 transition-all hover:border-red-600 ${
-            ['MARKET_SELL', 'LIMIT_SELL', 'DCA_SELL'].every(type => filters.types.includes(type as TransactionType)) && 
-            filters.types.length === 3 && !filters.types.includes('ALL')
+            ['MARKET_SELL', 'LIMIT_SELL', 'STOP_LOSS_SELL', 'TRAILING_STOP_SELL', 'DCA_SELL'].every(type => filters.types.includes(type as TransactionType)) && 
+            filters.types.length === 5 && !filters.types.includes('ALL')
               ? 'border-red-500 bg-red-950/20'
               : 'border-zinc-800'
           }`}
@@ -334,7 +336,7 @@ const History: React.FC = () => {
           <div>
             <p className="text-zinc-400 text-xs">Sell</p>
             <p className="text-lg font-bold text-white">
-              {allTransactions.filter(t => ['MARKET_SELL', 'LIMIT_SELL', 'DCA_SELL'].includes(t.type)).length}
+              {allTransactions.filter(t => ['MARKET_SELL', 'LIMIT_SELL', 'STOP_LOSS_SELL', 'TRAILING_STOP_SELL', 'DCA_SELL'].includes(t.type)).length}
             </p>
           </div>
         </button>
@@ -441,7 +443,8 @@ const History: React.FC = () => {
                         {getTransactionIcon(transaction.type, transaction.status) === 'Clock' && <Clock className="w-3 h-3 text-white" />}
                         {getTransactionIcon(transaction.type, transaction.status) === 'AlertTriangle' && <AlertTriangle className="w-3 h-3 text-white" />}
                         {getTransactionIcon(transaction.type, transaction.status) === 'Zap' && <Zap className="w-3 h-3 text-white" />}
-                        {!['User', 'ArrowUp', 'TrendingUp', 'TrendingDown', 'ArrowDown', 'Plus', 'Minus', 'Target', 'X', 'Repeat', 'Lock', 'Clock', 'AlertTriangle', 'Zap'].includes(getTransactionIcon(transaction.type, transaction.status)) && <Circle className="w-3 h-3 text-white" />}
+                        {getTransactionIcon(transaction.type, transaction.status) === 'Shield' && <Shield className="w-3 h-3 text-white" />}
+                        {!['User', 'ArrowUp', 'TrendingUp', 'TrendingDown', 'ArrowDown', 'Plus', 'Minus', 'Target', 'X', 'Repeat', 'Lock', 'Clock', 'AlertTriangle', 'Zap', 'Shield'].includes(getTransactionIcon(transaction.type, transaction.status)) && <Circle className="w-3 h-3 text-white" />}
                       </div>
                       <div>
                         <div className="flex items-center gap-2">
@@ -460,7 +463,7 @@ const History: React.FC = () => {
                       </div>
                     </div>
                     <div className="text-right">
-                      {(transaction.type === 'BUY' || transaction.type === 'SELL' || transaction.type === 'MARKET_BUY' || transaction.type === 'MARKET_SELL' || transaction.type === 'LIMIT_BUY' || transaction.type === 'LIMIT_SELL' || transaction.type === 'DCA_BUY' || transaction.type === 'DCA_SELL') ? (
+                      {isTradeType(transaction.type) ? (
                         <div>
                           <p className="font-bold text-sm text-white">
                             {formatInr(transaction.inr_amount)}
@@ -596,6 +599,10 @@ const History: React.FC = () => {
                     { key: 'MARKET_SELL', label: 'Market Sell', icon: TrendingDown },
                     { key: 'LIMIT_BUY', label: 'Limit Buy', icon: Target },
                     { key: 'LIMIT_SELL', label: 'Limit Sell', icon: Target },
+                    { key: 'STOP_BUY', label: 'Stop Buy', icon: Shield },
+                    { key: 'STOP_LOSS_SELL', label: 'Stop-Loss Sell', icon: Shield },
+                    { key: 'TRAILING_STOP_BUY', label: 'Trailing Stop Buy', icon: Shield },
+                    { key: 'TRAILING_STOP_SELL', label: 'Trailing Stop Sell', icon: Shield },
                     { key: 'DCA_BUY', label: 'DCA Buy', icon: Repeat },
                     { key: 'DCA_SELL', label: 'DCA Sell', icon: Repeat },
                     { key: 'DEPOSIT_INR', label: 'Deposit INR', icon: Plus },
@@ -20,10 +20,11 @@ import {
   Lock,
   Clock,
   AlertTriangle,
-  Zap
+  Zap,
+  Shield
 } from 'lucide-react';
 import { userAPI } from '../services/api';
-import { Balances, Prices, Transaction, DashboardData } from '../types';
+import { Balances, Prices, Transaction, DashboardData, StopOrderConfig, LimitOrderConfig, DcaCatchUpPolicy, DcaFrequency, DcaSchedule } from '../types';
 import TradingModal from '../components/TradingModal';
 import PriceUpdateTimer from '../components/PriceUpdateTimer';
 import TransactionDetailModal from '../components/TransactionDetailModal';
@@ -35,11 +36,12 @@ import {
   getTransactionIcon, 
   formatTimeAgo,
   formatCurrency,
-  formatCurrencyInr
+  formatCurrencyInr,
+  isTradeType
 } from '../utils/formatters';
 
 const Home: React.FC = () => {
-  const { refreshBalance } = useBalance();
+  const { refreshBalance, isLive, subscribe } = useBalance();
   const dcaPlansSectionRef = useRef<DcaPlansSectionRef>(null);
   const bitcoinChartRef = useRef<BitcoinChartRef>(null);
   const [balances, setBalances] = useState<Balances | null>(null);
@@ -76,11 +78,16 @@ const Home: React.FC = () => {
   };
 
   const handleTrade = async (amount: number, targetPrice?: number, dcaConfig?: {
-    frequency: 'HOURLY' | 'DAILY' | 'WEEKLY' | 'MONTHLY';
+    frequency: DcaFrequency;
+    schedule?: DcaSchedule;
     totalExecutions?: number;
     maxPrice?: number;
     minPrice?: number;
-  }) => {
+    catchUpPolicy?: DcaCatchUpPolicy;
+    budgetLimit?: number;
+    goalAmount?: number;
+    endDate?: string;
+  }, stopConfig?: StopOrderConfig, limitConfig?: LimitOrderConfig) => {
     setIsLoading(true);
     setError('');
     setSuccess('');
@@ -92,29 +99,67 @@ const Home: React.FC = () => {
           await userAPI.createDcaBuyPlan({ 
             amountPerExecution: amount, 
             frequency: dcaConfig.frequency,
+            schedule: dcaConfig.schedule,
             totalExecutions: dcaConfig.totalExecutions,
             maxPrice: dcaConfig.maxPrice,
-            minPrice: dcaConfig.minPrice
+            minPrice: dcaConfig.minPrice,
+            catchUpPolicy: dcaConfig.catchUpPolicy,
+            budgetLimit: dcaConfig.budgetLimit,
+            goalAmount: dcaConfig.goalAmount,
+            endDate: dcaConfig.endDate
           });
           setSuccess(`🔄 DCA ${dcaConfig.frequency.toLowerCase()} buy plan created successfully!`);
         } else {
           await userAPI.createDcaSellPlan({ 
             amountPerExecution: amount, 
             frequency: dcaConfig.frequency,
+            schedule: dcaConfig.schedule,
             totalExecutions: dcaConfig.totalExecutions,
             maxPrice: dcaConfig.maxPrice,
-            minPrice: dcaConfig.minPrice
+            minPrice: dcaConfig.minPrice,
+            catchUpPolicy: dcaConfig.catchUpPolicy,
+            budgetLimit: dcaConfig.budgetLimit,
+            goalAmount: dcaConfig.goalAmount,
+            endDate: dcaConfig.endDate
           });
           setSuccess(`🔄 DCA ${dcaConfig.frequency.toLowerCase()} sell plan created successfully!`);
         }
+      } else if (targetPrice && stopConfig) {
+        // OCO order: take-profit limit sell + stop-loss sell
+        await userAPI.placeOcoSellOrder({ btcAmount: amount, targetPrice, stopPrice: stopConfig.stopPrice!, ...limitConfig });
+        setSuccess('🛡️ OCO order placed successfully!');
+      } else if (stopConfig) {
+        // Stop order
+        if (stopConfig.trailing) {
+          await userAPI.placeTrailingStopOrder({
+            side: modalType === 'buy' ? 'BUY' : 'SELL',
+            amount,
+            trailPercent: stopConfig.trailPercent!
+          });
+          setSuccess(`🛡️ Trailing stop ${modalType} order placed successfully!`);
+        } else if (modalType === 'buy') {
+          await userAPI.placeStopBuyOrder({ inrAmount: amount, stopPrice: stopConfig.stopPrice! });
+          setSuccess('🛡️ Stop buy order placed successfully!');
+        } else {
+          await userAPI.placeStopLossSellOrder({ btcAmount: amount, stopPrice: stopConfig.stopPrice! });
+          setSuccess('🛡️ Stop-loss order placed successfully!');
+        }
       } else if (targetPrice) {
         // Limit order
-        if (modalType === 'buy') {
-          await userAPI.placeLimitBuyOrder({ inrAmount: amount, targetPrice });
-          setSuccess('📊 Limit buy order placed successfully!');
+        const response = modalType === 'buy'
+          ? await userAPI.placeLimitBuyOrder({ inrAmount: amount, targetPrice, ...limitConfig })
+          : await userAPI.placeLimitSellOrder({ btcAmount: amount, targetPrice, ...limitConfig });
+        const order = response.data.data;
+
+        // IOC/FOK orders are resolved immediately
+        if (order?.status === 'EXECUTED') {
+          setSuccess(`📊 Limit ${modalType} order filled immediately!`);
+        } else if (order?.status === 'CANCELLED') {
+          setError(order.filled_btc > 0
+            ? `Limit ${modalType} order partially filled, remainder cancelled (${order.cancellation_reason})`
+            : `Limit ${modalType} order cancelled: ${order.cancellation_reason}`);
         } else {
-          await userAPI.placeLimitSellOrder({ btcAmount: amount, targetPrice });
-          setSuccess('📊 Limit sell order placed successfully!');
+          setSuccess(`📊 Limit ${modalType} order placed successfully!`);
         }
       } else {
         // Market order
@@ -143,7 +188,7 @@ const Home: React.FC = () => {
       // Trigger balance refresh for persistent top bar
       refreshBalance();
     } catch (error: any) {
-      setError(error.response?.data?.message || `Failed to ${dcaConfig ? 'create DCA plan' : targetPrice ? 'place limit order' : modalType + ' Bitcoin'}`);
+      setError(error.response?.data?.message || `Failed to ${dcaConfig ? 'create DCA plan' : stopConfig ? 'place stop order' : targetPrice ? 'place limit order' : modalType + ' Bitcoin'}`);
     } finally {
       setIsLoading(false);
     }
@@ -171,6 +216,23 @@ const Home: React.FC = () => {
     }
   };
 
+  // Apply pushed prices and balances in place; order, DCA and loan events reload the dashboard
+  const refreshDataRef = useRef(refreshData);
+  refreshDataRef.current = refreshData;
+
+  useEffect(() => {
+    return subscribe((event) => {
+      if (event.type === 'price') {
+        setPrices(prev => ({ ...prev, ...event.data }));
+        bitcoinChartRef.current?.refreshPrice();
+      } else if (event.type === 'balance') {
+        setBalances(event.data);
+      } else if (event.type === 'order' || event.type === 'dca' || event.type === 'loan') {
+        refreshDataRef.current();
+      }
+    });
+  }, [subscribe]);
+
   const handleTransactionClick = (transaction: Transaction) => {
     setSelectedTransaction(transaction);
     setIsTransactionModalOpen(true);
@@ -256,6 +318,7 @@ const Home: React.FC = () => {
             <PriceUpdateTimer 
               className="text-zinc-400" 
               onUpdate={refreshData}
+              isLive={isLive}
             />
           </div>
           
@@ -335,7 +398,8 @@ const Home: React.FC = () => {
                         {getTransactionIcon(transaction.type, transaction.status) === 'Clock' && <Clock className="w-3 h-3 text-white" />}
                         {getTransactionIcon(transaction.type, transaction.status) === 'AlertTriangle' && <AlertTriangle className="w-3 h-3 text-white" />}
                         {getTransactionIcon(transaction.type, transaction.status) === 'Zap' && <Zap className="w-3 h-3 text-white" />}
-                        {!['User', 'ArrowUp', 'TrendingUp', 'TrendingDown', 'ArrowDown', 'Plus', 'Minus', 'Target', 'X', 'Repeat', 'Lock', 'Clock', 'AlertTriangle', 'Zap'].includes(getTransactionIcon(transaction.type, transaction.status)) && <Circle className="w-3 h-3 text-white" />}
+                        {getTransactionIcon(transaction.type, transaction.status) === 'Shield' && <Shield className="w-3 h-3 text-white" />}
+                        {!['User', 'ArrowUp', 'TrendingUp', 'TrendingDown', 'ArrowDown', 'Plus', 'Minus', 'Target', 'X', 'Repeat', 'Lock', 'Clock', 'AlertTriangle', 'Zap', 'Shield'].includes(getTransactionIcon(transaction.type, transaction.status)) && <Circle className="w-3 h-3 text-white" />}
                         </div>
                         <div>
                           <div className="flex items-center gap-2">
@@ -354,7 +418,7 @@ const Home: React.FC = () => {
                         </div>
                       </div>
                       <div className="text-right">
-                        {(transaction.type === 'BUY' || transaction.type === 'SELL' || transaction.type === 'MARKET_BUY' || transaction.type === 'MARKET_SELL' || transaction.type === 'LIMIT_BUY' || transaction.type === 'LIMIT_SELL' || transaction.type === 'DCA_BUY' || transaction.type === 'DCA_SELL') ? (
+                        {isTradeType(transaction.type) ? (
                           <div>
                             <p className="font-bold text-sm text-white">
                               {formatCurrencyInr(transaction.inr_amount)}
@@ -17,21 +17,43 @@ import {
   Repeat,
   Lock,
   Clock,
-  DollarSign
+  DollarSign,
+  ChevronRight,
+  ArrowLeft,
+  BellRing
 } from 'lucide-react';
 import { userAPI } from '../services/api';
-import { LoanStatus, LoanHistory, Transaction } from '../types';
-import { formatBitcoin, getTransactionDisplayName, getTransactionIcon, formatTimeAgo, formatCurrency, formatInr, formatPercentage } from '../utils/formatters';
+import { useBalance } from '../contexts/BalanceContext';
+import { LoanStatus, LoanHistory, LoanStatement, LoanLedgerEntry, MarginCallNotification, Transaction } from '../types';
+import { formatBitcoin, getTransactionDisplayName, getTransactionIcon, formatTimeAgo, formatCurrency, formatInr, formatPercentage, formatDate, formatInrPrecise, formatCompounding } from '../utils/formatters';
 import DepositCollateralModal from '../components/DepositCollateralModal';
 import BorrowModal from '../components/BorrowModal';
 import RepayModal from '../components/RepayModal';
 import AddCollateralModal from '../components/AddCollateralModal';
 import PartialLiquidationModal from '../components/PartialLiquidationModal';
 import TransactionDetailModal from '../components/TransactionDetailModal';
+import AutoTopUpSection from '../components/AutoTopUpSection';
+
+const STATEMENT_ENTRY_LIMIT = 20;
+
+const LEDGER_ENTRY_LABELS: Record<LoanLedgerEntry['entry_type'], string> = {
+  BORROW: 'Borrowed',
+  INTEREST: 'Interest',
+  MINIMUM_INTEREST: 'Minimum Interest',
+  REPAYMENT: 'Repayment',
+  LIQUIDATION: 'Liquidation'
+};
+
+const formatSignedInr = (amount: number): string =>
+  `${amount > 0 ? '+' : '-'}${formatInrPrecise(Math.abs(amount))}`;
 
 const Loans: React.FC = () => {
-  const [loanStatus, setLoanStatus] = useState<LoanStatus | null>(null);
+  const { subscribe } = useBalance();
+  const [loans, setLoans] = useState<LoanStatus[]>([]);
+  const [selectedLoanId, setSelectedLoanId] = useState<number | null>(null);
   const [loanHistory, setLoanHistory] = useState<LoanHistory[]>([]);
+  const [loanStatement, setLoanStatement] = useState<LoanStatement | null>(null);
+  const [marginCalls, setMarginCalls] = useState<MarginCallNotification[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string>('');
   const [showDepositModal, setShowDepositModal] = useState(false);
@@ -44,30 +66,65 @@ const Loans: React.FC = () => {
 
   useEffect(() => {
     fetchLoanData();
-  }, []);
+  }, [selectedLoanId]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  // Margin calls arrive as loan stream events; refresh the unread list when one does
+  useEffect(() => {
+    return subscribe((event) => {
+      if (event.type === 'loan' && event.data.event === 'MARGIN_CALL') {
+        fetchMarginCalls();
+      }
+    });
+  }, [subscribe]);
+
+  const fetchMarginCalls = async () => {
+    try {
+      const response = await userAPI.getNotifications(true);
+      setMarginCalls(response.data.data?.notifications || []);
+    } catch (error) {
+      console.error('Error fetching margin calls:', error);
+    }
+  };
+
+  const dismissMarginCall = async (notificationId: number) => {
+    try {
+      await userAPI.markNotificationRead(notificationId);
+      setMarginCalls(prev => prev.filter(notice => notice.id !== notificationId));
+    } catch (error) {
+      console.error('Error dismissing margin call:', error);
+    }
+  };
+
+  const dismissAllMarginCalls = async () => {
+    try {
+      await userAPI.markAllNotificationsRead();
+      setMarginCalls([]);
+    } catch (error) {
+      console.error('Error dismissing margin calls:', error);
+    }
+  };
 
   const fetchLoanData = async () => {
     try {
       setLoading(true);
       
-      // Try to get loan status
-      try {
-        const statusResponse = await userAPI.getLoanStatus();
-        setLoanStatus(statusResponse.data.data || null);
-        
-        // If we have an active loan, get history
-        if (statusResponse.data.data) {
-          const historyResponse = await userAPI.getLoanHistory();
-          setLoanHistory(historyResponse.data.data || []);
-        }
-      } catch (statusError: any) {
-        if (statusError.response?.status === 404) {
-          // No active loan found
-          setLoanStatus(null);
-          setLoanHistory([]);
-        } else {
-          throw statusError;
-        }
+      const loansResponse = await userAPI.getLoans(true);
+      const userLoans = loansResponse.data.data || [];
+      setLoans(userLoans);
+      fetchMarginCalls();
+
+      // History and statement are shown for the selected loan only
+      if (selectedLoanId && userLoans.some(loan => loan.loanId === selectedLoanId)) {
+        const [historyResponse, statementResponse] = await Promise.all([
+          userAPI.getLoanHistory(selectedLoanId),
+          userAPI.getLoanStatement(selectedLoanId)
+        ]);
+        setLoanHistory(historyResponse.data.data || []);
+        setLoanStatement(statementResponse.data.data || null);
+      } else {
+        setSelectedLoanId(null);
+        setLoanHistory([]);
+        setLoanStatement(null);
       }
       
     } catch (error: any) {
@@ -78,6 +135,13 @@ const Loans: React.FC = () => {
   };
 
 
+  const activeLoans = loans.filter(loan => loan.status === 'ACTIVE');
+  const closedLoans = loans.filter(loan => loan.status !== 'ACTIVE');
+  const selectedLoan = loans.find(loan => loan.loanId === selectedLoanId) || null;
+  // The detail view and the loan modals act on the selected active loan
+  const loanStatus = selectedLoan && selectedLoan.status === 'ACTIVE' ? selectedLoan : null;
+  const isMatured = Boolean(loanStatus?.maturityDate && new Date(loanStatus.maturityDate) <= new Date());
+
   const getRiskColor = (riskStatus: string) => {
     return 'text-white';
   };
@@ -172,6 +236,59 @@ const Loans: React.FC = () => {
         </div>
       )}
 
+      {/* Margin Calls */}
+      {marginCalls.length > 0 && (
+        <div className="bg-gradient-to-br from-yellow-900/30 to-orange-900/30 border border-yellow-700/50 rounded-xl p-4 space-y-3">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <BellRing className="w-5 h-5 text-yellow-400" />
+              <h2 className="font-semibold text-yellow-400">Margin Call{marginCalls.length > 1 ? 's' : ''}</h2>
+            </div>
+            {marginCalls.length > 1 && (
+              <button
+                onClick={dismissAllMarginCalls}
+                className="text-xs text-yellow-300 hover:text-white transition-colors"
+              >
+                Dismiss all
+              </button>
+            )}
+          </div>
+          {marginCalls.map(notice => (
+            <div key={notice.id} className="flex items-start justify-between gap-3 bg-zinc-900/60 rounded-lg p-3">
+              <div>
+                <p className="text-yellow-200 text-sm">{notice.message}</p>
+                <p className="text-zinc-500 text-xs mt-1">{formatTimeAgo(notice.created_at)}</p>
+                {notice.loan_id !== selectedLoanId && (
+                  <button
+                    onClick={() => setSelectedLoanId(notice.loan_id)}
+                    className="text-xs text-yellow-300 hover:text-white transition-colors mt-2"
+                  >
+                    View loan #{notice.loan_id}
+                  </button>
+                )}
+              </div>
+              <button
+                onClick={() => dismissMarginCall(notice.id)}
+                className="text-zinc-400 hover:text-white transition-colors"
+                title="Dismiss"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {selectedLoan && (
+        <button
+          onClick={() => setSelectedLoanId(null)}
+          className="flex items-center gap-2 text-sm text-zinc-400 hover:text-white transition-colors"
+        >
+          <ArrowLeft className="w-4 h-4" />
+          All loans
+        </button>
+      )}
+
       {/* Loan Status */}
       {loanStatus ? (
         <div className="space-y-6">
@@ -183,7 +300,7 @@ const Loans: React.FC = () => {
                   <Lock className="w-5 h-5 text-white" />
                 </div>
                 <div>
-                  <h2 className="text-xl font-bold">Active Loan</h2>
+                  <h2 className="text-xl font-bold">{loanStatus.productName || 'Active'} Loan</h2>
                   <p className="text-zinc-400 text-sm">Loan ID: #{loanStatus.loanId || 'N/A'}</p>
                 </div>
               </div>
@@ -195,10 +312,15 @@ const Loans: React.FC = () => {
             
             <div className="grid grid-cols-2 gap-4 text-sm">
               <div>
-                <p className="text-zinc-400">Loan Duration</p>
+                <p className="text-zinc-400">{loanStatus.maturityDate ? 'Matures' : 'Loan Duration'}</p>
                 <p className="text-white font-medium">
-                  Active loan
+                  {loanStatus.maturityDate ? formatDate(loanStatus.maturityDate) : 'Open-ended'}
                 </p>
+                {isMatured && loanStatus.settlementDate && (
+                  <p className="text-yellow-400 text-xs mt-1">
+                    ⚠️ Matured; collateral is sold to settle on {formatDate(loanStatus.settlementDate)}
+                  </p>
+                )}
               </div>
               <div>
                 <p className="text-zinc-400">Next Interest</p>
@@ -206,7 +328,7 @@ const Loans: React.FC = () => {
 Daily at 12:00 AM (+{formatInr((loanStatus.borrowedAmount * loanStatus.interestRate / 100) / 365)})
                 </p>
                 <p className="text-yellow-400 text-xs mt-1">
-                  ⚠️ Minimum 30-day interest applies
+                  ⚠️ Minimum {loanStatus.minInterestDays}-day interest applies
                 </p>
               </div>
             </div>
@@ -246,13 +368,13 @@ Daily at 12:00 AM (+{formatInr((loanStatus.borrowedAmount * loanStatus.interestR
                 <p className="text-zinc-400 text-sm">Total Due</p>
               </div>
               <p className="text-white font-bold text-lg">
-{formatInr(loanStatus.borrowedAmount + (loanStatus.minimumInterestDue || 0))}
+{formatInr(loanStatus.totalDue)}
               </p>
               <p className="text-zinc-500 text-xs">
                 Principal + Minimum Interest
               </p>
               <p className="text-zinc-400 text-xs mt-1">
-                To fully repay (30-day minimum)
+                To fully repay ({loanStatus.minInterestDays}-day minimum)
               </p>
               <div className="mt-auto pt-3">
                 <button
@@ -284,7 +406,7 @@ Daily at 12:00 AM (+{formatInr((loanStatus.borrowedAmount * loanStatus.interestR
               <div className="mt-auto pt-3">
                 <button
                   onClick={() => setShowBorrowModal(true)}
-                  disabled={loanStatus.availableCapacity <= 0}
+                  disabled={loanStatus.availableCapacity <= 0 || isMatured}
                   className="w-full bg-white text-black hover:bg-zinc-200 disabled:opacity-50 disabled:cursor-not-allowed py-2 rounded-lg font-medium transition-colors text-sm flex items-center justify-center gap-2"
                 >
                   <ArrowDown className="w-4 h-4" />
@@ -325,13 +447,13 @@ Liquidation @ {formatInr(loanStatus.liquidationPrice)}
                 <p className="text-zinc-400 text-sm">Interest Accrued</p>
               </div>
               <p className="text-white font-bold text-lg">
-{formatInr(loanStatus.minimumInterestDue || 0)}
+                {formatInrPrecise(loanStatus.interestOutstanding)}
               </p>
               <p className="text-zinc-500 text-xs">
-{formatInr((loanStatus.borrowedAmount * loanStatus.interestRate / 100) / 365)}/day
+                {formatInrPrecise(loanStatus.interestPaid)} paid · {formatInrPrecise((loanStatus.principalAmount * loanStatus.interestRate / 100) / 365)}/day
               </p>
               <p className="text-zinc-400 text-xs mt-1">
-                {loanStatus.interestRate}% APR (30-day minimum)
+                {loanStatus.interestRate}% APR, {formatCompounding(loanStatus.compounding)} ({loanStatus.minInterestDays}-day minimum)
               </p>
             </div>
 
@@ -341,7 +463,7 @@ Liquidation @ {formatInr(loanStatus.liquidationPrice)}
                 <p className="text-zinc-400 text-sm">Principal Borrowed</p>
               </div>
               <p className="text-white font-bold text-lg">
-                {formatInr(loanStatus.borrowedAmount)}
+                {formatInrPrecise(loanStatus.principalAmount)}
               </p>
               <p className="text-zinc-500 text-xs">
                 {formatPercentage(loanStatus.currentLtv)} LTV
@@ -375,7 +497,7 @@ Liquidation @ {formatInr(loanStatus.liquidationPrice)}
                       loanStatus.riskStatus === 'SAFE' ? 'bg-green-500' :
                       loanStatus.riskStatus === 'WARNING' ? 'bg-yellow-500' : 'bg-red-500'
                     }`}
-                    style={{ width: `${Math.min((loanStatus.currentLtv / 90) * 100, 100)}%` }}
+                    style={{ width: `${Math.min((loanStatus.currentLtv / loanStatus.liquidationLtv) * 100, 100)}%` }}
                   ></div>
                 </div>
                 <div className="flex justify-between text-xs text-zinc-400 mt-1">
@@ -400,6 +522,9 @@ Liquidation @ {formatInr(loanStatus.liquidationPrice)}
             </div>
           </div>
 
+          {/* Auto Top-Up */}
+          <AutoTopUpSection loanStatus={loanStatus} onUpdated={fetchLoanData} />
+
           {/* Performance Tracking */}
       <div className="bg-gradient-to-br from-zinc-950 to-zinc-900 border border-zinc-800 rounded-xl p-4">
             <div className="flex items-center gap-2 mb-3">
@@ -431,43 +556,219 @@ Liquidation @ {formatInr(loanStatus.liquidationPrice)}
           </div>
 
         </div>
+      ) : selectedLoan ? (
+        /* Closed Loan */
+        <div className="bg-gradient-to-br from-zinc-950 to-zinc-900 border border-zinc-800 rounded-xl p-4">
+          <div className="flex items-center gap-3 mb-3">
+            <div className="p-2 bg-zinc-700 rounded-lg">
+              <Lock className="w-5 h-5 text-white" />
+            </div>
+            <div>
+              <h2 className="text-xl font-bold">Loan #{selectedLoan.loanId}</h2>
+              <p className="text-zinc-400 text-sm">
+                {selectedLoan.status === 'REPAID' ? 'Repaid' : 'Liquidated'}
+                {selectedLoan.closedAt ? ` ${formatTimeAgo(selectedLoan.closedAt)}` : ''}
+              </p>
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-4 text-sm">
+            <div>
+              <p className="text-zinc-400">LTV Ratio</p>
+              <p className="text-white font-medium">{selectedLoan.ltvRatio}%</p>
+            </div>
+            <div>
+              <p className="text-zinc-400">Interest Rate</p>
+              <p className="text-white font-medium">{selectedLoan.interestRate}% APR</p>
+            </div>
+          </div>
+        </div>
       ) : (
-        /* No Active Loan */
+        /* Loan List */
         <div className="space-y-4">
-          <div className="bg-gradient-to-br from-zinc-950 to-zinc-900 border border-zinc-700 rounded-lg p-6 text-center">
-            <Wallet className="w-12 h-12 text-zinc-400 mx-auto mb-4" />
-            <h2 className="text-xl font-semibold mb-2">No Active Loan</h2>
-            <p className="text-zinc-400 mb-6">
-              Deposit Bitcoin as collateral to start borrowing ₹
-            </p>
-            <button
-              onClick={() => setShowDepositModal(true)}
-              className="bg-white text-black hover:bg-zinc-200 py-3 px-6 rounded-lg font-medium transition-colors flex items-center gap-2 mx-auto"
-            >
-              <Plus className="w-4 h-4" />
-              Deposit Collateral
-            </button>
-          </div>
-          
-          {/* 30-Day Minimum Policy Notice */}
-          <div className="bg-gradient-to-br from-yellow-900/30 to-orange-900/30 border border-yellow-700/50 rounded-lg p-4">
-            <div className="flex items-start gap-3">
-              <div className="p-2 bg-yellow-800/50 rounded-lg flex-shrink-0">
-                <AlertTriangle className="w-5 h-5 text-yellow-400" />
+          {activeLoans.length > 0 ? (
+            <>
+              <div className="bg-gradient-to-br from-zinc-950 to-zinc-900 border border-zinc-800 rounded-xl p-4">
+                <div className="grid grid-cols-2 gap-4 text-sm mb-4">
+                  <div>
+                    <p className="text-zinc-400">Total Collateral</p>
+                    <p className="text-white font-bold text-lg">
+                      ₿{formatBitcoin(activeLoans.reduce((total, loan) => total + loan.collateralAmount, 0) / 100000000)}
+                    </p>
+                  </div>
+                  <div>
+                    <p className="text-zinc-400">Total Borrowed</p>
+                    <p className="text-white font-bold text-lg">
+                      {formatInr(activeLoans.reduce((total, loan) => total + loan.borrowedAmount, 0))}
+                    </p>
+                  </div>
+                </div>
+                <button
+                  onClick={() => setShowDepositModal(true)}
+                  className="w-full bg-white text-black hover:bg-zinc-200 py-2 rounded-lg font-medium transition-colors text-sm flex items-center justify-center gap-2"
+                >
+                  <Plus className="w-4 h-4" />
+                  New Loan
+                </button>
               </div>
-              <div>
-                <h3 className="text-yellow-400 font-semibold mb-1">Important: 30-Day Minimum Interest</h3>
-                <p className="text-yellow-200 text-sm mb-2">
-                  All loans are subject to a minimum 30-day interest charge, regardless of repayment timing.
-                  This encourages longer-term borrowing and helps us provide better rates.
+
+              <div className="bg-gradient-to-br from-zinc-950 to-zinc-900 border border-zinc-800 rounded-xl overflow-hidden">
+                <div className="p-4 border-b border-zinc-800">
+                  <h2 className="text-lg font-semibold">Active Loans</h2>
+                </div>
+                <div className="p-4 space-y-3">
+                  {activeLoans.map(loan => (
+                    <div
+                      key={loan.loanId}
+                      onClick={() => setSelectedLoanId(loan.loanId)}
+                      className="bg-zinc-800/50 rounded-lg p-4 hover:bg-zinc-800 transition-colors cursor-pointer"
+                    >
+                      <div className="flex items-center justify-between">
+                        <div>
+                          <div className="flex items-center gap-2">
+                            <p className="font-medium text-white text-sm">Loan #{loan.loanId}</p>
+                            <span className={`flex items-center gap-1 text-xs ${getRiskColor(loan.riskStatus)}`}>
+                              {getRiskIcon(loan.riskStatus)}
+                              {loan.riskStatus}
+                            </span>
+                          </div>
+                          <p className="text-zinc-400 text-xs">
+                            {loan.productName ? `${loan.productName} · ` : ''}₿{formatBitcoin(loan.collateralAmount / 100000000)} collateral · {loan.ltvRatio}% max LTV · {loan.interestRate}% APR
+                          </p>
+                          {loan.maturityDate && (
+                            <p className="text-zinc-500 text-xs">Matures {formatDate(loan.maturityDate)}</p>
+                          )}
+                        </div>
+                        <div className="flex items-center gap-3">
+                          <div className="text-right">
+                            <p className="font-bold text-sm text-white">{formatInr(loan.borrowedAmount)}</p>
+                            <p className="text-xs text-zinc-400">{formatPercentage(loan.currentLtv)} LTV</p>
+                          </div>
+                          <ChevronRight className="w-4 h-4 text-zinc-400" />
+                        </div>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            </>
+          ) : (
+            <>
+              <div className="bg-gradient-to-br from-zinc-950 to-zinc-900 border border-zinc-700 rounded-lg p-6 text-center">
+                <Wallet className="w-12 h-12 text-zinc-400 mx-auto mb-4" />
+                <h2 className="text-xl font-semibold mb-2">No Active Loan</h2>
+                <p className="text-zinc-400 mb-6">
+                  Deposit Bitcoin as collateral to start borrowing ₹
                 </p>
-                <div className="text-yellow-300 text-xs">
-                  <p>• Early repayment still charges 30 days of interest</p>
-                  <p>• Optimal loan duration: 30+ days for best value</p>
-                  <p>• No additional fees for longer-term loans</p>
+                <button
+                  onClick={() => setShowDepositModal(true)}
+                  className="bg-white text-black hover:bg-zinc-200 py-3 px-6 rounded-lg font-medium transition-colors flex items-center gap-2 mx-auto"
+                >
+                  <Plus className="w-4 h-4" />
+                  Deposit Collateral
+                </button>
+              </div>
+          
+              {/* Minimum Interest Policy Notice */}
+              <div className="bg-gradient-to-br from-yellow-900/30 to-orange-900/30 border border-yellow-700/50 rounded-lg p-4">
+                <div className="flex items-start gap-3">
+                  <div className="p-2 bg-yellow-800/50 rounded-lg flex-shrink-0">
+                    <AlertTriangle className="w-5 h-5 text-yellow-400" />
+                  </div>
+                  <div>
+                    <h3 className="text-yellow-400 font-semibold mb-1">Important: Minimum Interest Period</h3>
+                    <p className="text-yellow-200 text-sm mb-2">
+                      Every loan product has a minimum interest period, charged regardless of repayment timing.
+                      This encourages longer-term borrowing and helps us provide better rates.
+                    </p>
+                    <div className="text-yellow-300 text-xs">
+                      <p>• Early repayment still charges the full minimum period of interest</p>
+                      <p>• Compare APR, LTV and minimum period when choosing a product</p>
+                      <p>• No additional fees for longer-term loans</p>
+                    </div>
+                  </div>
                 </div>
               </div>
+            </>
+          )}
+
+          {closedLoans.length > 0 && (
+            <div className="bg-gradient-to-br from-zinc-950 to-zinc-900 border border-zinc-800 rounded-xl overflow-hidden">
+              <div className="p-4 border-b border-zinc-800">
+                <h2 className="text-lg font-semibold">Closed Loans</h2>
+              </div>
+              <div className="p-4 space-y-3">
+                {closedLoans.map(loan => (
+                  <div
+                    key={loan.loanId}
+                    onClick={() => setSelectedLoanId(loan.loanId)}
+                    className="bg-zinc-800/50 rounded-lg p-4 hover:bg-zinc-800 transition-colors cursor-pointer flex items-center justify-between"
+                  >
+                    <div>
+                      <p className="font-medium text-white text-sm">Loan #{loan.loanId}</p>
+                      <p className="text-zinc-400 text-xs">
+                        {loan.status === 'REPAID' ? 'Repaid' : 'Liquidated'}
+                        {loan.closedAt ? ` ${formatTimeAgo(loan.closedAt)}` : ''}
+                      </p>
+                    </div>
+                    <ChevronRight className="w-4 h-4 text-zinc-400" />
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Loan Statement */}
+      {loanStatement && loanStatement.entries.length > 0 && (
+      <div className="bg-gradient-to-br from-zinc-950 to-zinc-900 border border-zinc-800 rounded-xl overflow-hidden">
+          <div className="p-4 border-b border-zinc-800">
+            <h2 className="text-lg font-semibold">Loan Statement</h2>
+            <p className="text-zinc-400 text-xs mt-1">
+              {loanStatement.interest_rate}% APR, {formatCompounding(loanStatement.compounding)}
+              {loanStatement.interest_accrued_through ? ` · interest accrued through ${formatDate(loanStatement.interest_accrued_through)}` : ''}
+            </p>
+          </div>
+
+          <div className="grid grid-cols-3 gap-3 p-4 border-b border-zinc-800 text-sm">
+            <div>
+              <p className="text-zinc-400 text-xs">Principal</p>
+              <p className="text-white font-medium">{formatInrPrecise(loanStatement.principal)}</p>
             </div>
+            <div>
+              <p className="text-zinc-400 text-xs">Interest Outstanding</p>
+              <p className="text-white font-medium">{formatInrPrecise(loanStatement.interest_outstanding)}</p>
+            </div>
+            <div>
+              <p className="text-zinc-400 text-xs">Interest Paid</p>
+              <p className="text-white font-medium">{formatInrPrecise(loanStatement.interest_paid)}</p>
+            </div>
+          </div>
+
+          <div className="p-4 space-y-2">
+            {loanStatement.entries.slice(0, STATEMENT_ENTRY_LIMIT).map(entry => (
+              <div key={entry.id} className="flex items-center justify-between bg-zinc-800/50 rounded-lg px-3 py-2 text-sm">
+                <div>
+                  <p className="text-white font-medium">{LEDGER_ENTRY_LABELS[entry.entry_type]}</p>
+                  <p className="text-zinc-400 text-xs">
+                    {entry.accrual_date ? formatDate(entry.accrual_date) : formatTimeAgo(entry.created_at)}
+                  </p>
+                </div>
+                <div className="text-right text-xs">
+                  {entry.interest !== 0 && (
+                    <p className="text-zinc-300">Interest {formatSignedInr(entry.interest)}</p>
+                  )}
+                  {entry.principal !== 0 && (
+                    <p className="text-zinc-300">Principal {formatSignedInr(entry.principal)}</p>
+                  )}
+                </div>
+              </div>
+            ))}
+            {loanStatement.entries.length > STATEMENT_ENTRY_LIMIT && (
+              <p className="text-zinc-500 text-xs text-center pt-1">
+                Showing the latest {STATEMENT_ENTRY_LIMIT} of {loanStatement.entries.length} entries
+              </p>
+            )}
           </div>
         </div>
       )}
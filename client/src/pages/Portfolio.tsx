@@ -17,10 +17,21 @@ import {
   Clock,
   Globe,
   Crown,
-  Brain
+  Brain,
+  Layers
 } from 'lucide-react';
 import { userAPI } from '../services/api';
-import { formatCurrency, formatPercentage, formatCurrencyInr } from '../utils/formatters';
+import { CostBasisMethod, CostBasisSummary } from '../types';
+import PortfolioHistoryChart from '../components/PortfolioHistoryChart';
+import { formatCurrency, formatPercentage, formatCurrencyInr, getTransactionDisplayName } from '../utils/formatters';
+
+const COST_BASIS_METHODS: { value: CostBasisMethod; label: string }[] = [
+  { value: 'FIFO', label: 'FIFO' },
+  { value: 'LIFO', label: 'LIFO' },
+  { value: 'AVERAGE', label: 'Avg Cost' }
+];
+
+const MAX_LOT_ROWS = 10;
 
 interface PortfolioData {
   totalPortfolioValue: number;
@@ -37,6 +48,7 @@ interface PortfolioData {
   averageBuyPrice: number;
   breakEvenPrice: number;
   realizedProfit: number;
+  costBasis: CostBasisSummary;
   assetAllocation: {
     inrPercentage: number;
     btcPercentage: number;
@@ -83,10 +95,11 @@ const Portfolio: React.FC = () => {
   const [sentimentData, setSentimentData] = useState<SentimentData | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState('');
+  const [costBasisMethod, setCostBasisMethod] = useState<CostBasisMethod>('FIFO');
 
   useEffect(() => {
     fetchPortfolioData();
-  }, []);
+  }, [costBasisMethod]); // eslint-disable-line react-hooks/exhaustive-deps
 
   const fetchPortfolioData = async () => {
     try {
@@ -94,7 +107,7 @@ const Portfolio: React.FC = () => {
       
       // Fetch all data in parallel
       const [portfolioResponse, bitcoinResponse, sentimentResponse] = await Promise.all([
-        userAPI.portfolio(),
+        userAPI.portfolio(costBasisMethod),
         userAPI.getBitcoinData(),
         userAPI.getBitcoinSentiment()
       ]);
@@ -155,7 +168,8 @@ const Portfolio: React.FC = () => {
     return 'text-yellow-400';
   };
 
-  if (isLoading) {
+  // Keep the page on screen while switching cost-basis method
+  if (isLoading && !portfolioData) {
     return (
       <div className="space-y-6">
         <h1 className="text-2xl font-bold flex items-center gap-2">
@@ -194,6 +208,7 @@ const Portfolio: React.FC = () => {
     averageBuyPrice,
     breakEvenPrice,
     realizedProfit,
+    costBasis,
     assetAllocation,
     loanSummary,
     tradingStats,
@@ -239,6 +254,9 @@ const Portfolio: React.FC = () => {
         </div>
       </div>
 
+      {/* Portfolio Value History */}
+      <PortfolioHistoryChart />
+
       {/* Performance Metrics */}
       <div className="grid grid-cols-2 gap-4">
         <div className="bg-gradient-to-br from-zinc-950 to-zinc-900 border border-zinc-800 rounded-xl p-4">
@@ -257,8 +275,9 @@ const Portfolio: React.FC = () => {
             <span className="text-zinc-400 text-sm">Realized P&L</span>
           </div>
           <p className={`text-lg font-bold ${(realizedProfit || 0) >= 0 ? 'text-green-400' : 'text-red-400'}`}>
-            {(realizedProfit || 0) === 0 ? 'Coming Soon' : formatInrWithNA(realizedProfit || 0)}
+            {formatInrWithNA(realizedProfit || 0)}
           </p>
+          <p className="text-xs text-zinc-500">{costBasis?.method === 'AVERAGE' ? 'Average cost' : costBasis?.method}</p>
         </div>
       </div>
 
@@ -380,6 +399,117 @@ const Portfolio: React.FC = () => {
         </div>
       </div>
 
+      {/* Cost Basis Lots */}
+      {costBasis && (
+        <div className="bg-gradient-to-br from-zinc-950 to-zinc-900 border border-zinc-800 rounded-xl p-4">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-lg font-semibold flex items-center gap-2">
+              <Layers className="w-5 h-5 text-white" />
+              Cost Basis
+            </h3>
+            <div className="flex bg-zinc-800 rounded-lg p-1">
+              {COST_BASIS_METHODS.map(option => (
+                <button
+                  key={option.value}
+                  onClick={() => setCostBasisMethod(option.value)}
+                  disabled={isLoading}
+                  className={`px-2 py-1 text-xs rounded-md transition-colors ${
+                    costBasisMethod === option.value ? 'bg-white text-black font-medium' : 'text-zinc-400 hover:text-white'
+                  }`}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4 mb-4">
+            <div className="bg-zinc-800/50 rounded-lg p-3">
+              <p className="text-zinc-400 text-xs">Realized P&L</p>
+              <p className={`font-bold ${costBasis.realizedProfit >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                {formatInrWithNA(costBasis.realizedProfit)}
+              </p>
+            </div>
+            <div className="bg-zinc-800/50 rounded-lg p-3">
+              <p className="text-zinc-400 text-xs">Unrealized P&L (lots)</p>
+              <p className={`font-bold ${costBasis.unrealizedProfit >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                {formatInrWithNA(costBasis.unrealizedProfit)}
+              </p>
+            </div>
+            <div className="bg-zinc-800/50 rounded-lg p-3">
+              <p className="text-zinc-400 text-xs">Open Cost Basis</p>
+              <p className="font-bold">{formatInrWithNA(costBasis.openCostBasis)}</p>
+              <p className="text-xs text-zinc-500">{formatCurrency(costBasis.openBtc, 'BTC')}</p>
+            </div>
+            <div className="bg-zinc-800/50 rounded-lg p-3">
+              <p className="text-zinc-400 text-xs">Average Cost</p>
+              <p className="font-bold">{costBasis.averageCost > 0 ? formatInrWithNA(costBasis.averageCost) : 'N/A'}</p>
+            </div>
+          </div>
+
+          {costBasis.unmatchedBtc > 0 && (
+            <p className="text-xs text-yellow-400 mb-4">
+              {formatCurrency(costBasis.unmatchedBtc, 'BTC')} was disposed without a recorded acquisition and is counted at zero cost.
+            </p>
+          )}
+
+          <p className="text-zinc-400 text-sm mb-2">Open Lots ({costBasis.lots.length})</p>
+          {costBasis.lots.length === 0 ? (
+            <p className="text-zinc-500 text-sm mb-4">No open lots</p>
+          ) : (
+            <div className="space-y-2 mb-4">
+              {costBasis.lots.slice(0, MAX_LOT_ROWS).map(lot => (
+                <div key={lot.operationId} className="flex items-center justify-between bg-zinc-800/50 rounded-lg p-3 text-sm">
+                  <div>
+                    <p className="font-medium">{formatCurrency(lot.remainingBtc, 'BTC')}</p>
+                    <p className="text-xs text-zinc-500">
+                      {getTransactionDisplayName(lot.type)} · {formatDate(lot.acquiredAt)} · {formatInrWithNA(lot.costPerBtc)}/BTC
+                    </p>
+                  </div>
+                  <div className="text-right">
+                    <p className={`font-medium ${lot.unrealizedProfit >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                      {formatInrWithNA(lot.unrealizedProfit)}
+                    </p>
+                    <p className="text-xs text-zinc-500">Cost {formatInrWithNA(lot.costBasis)}</p>
+                  </div>
+                </div>
+              ))}
+              {costBasis.lots.length > MAX_LOT_ROWS && (
+                <p className="text-xs text-zinc-500 text-center">+{costBasis.lots.length - MAX_LOT_ROWS} more lots</p>
+              )}
+            </div>
+          )}
+
+          <p className="text-zinc-400 text-sm mb-2">Recent Disposals</p>
+          {costBasis.disposals.length === 0 ? (
+            <p className="text-zinc-500 text-sm">No sales yet</p>
+          ) : (
+            <div className="space-y-2">
+              {costBasis.disposals.slice(0, MAX_LOT_ROWS).map(disposal => (
+                <div key={disposal.operationId} className="flex items-center justify-between bg-zinc-800/50 rounded-lg p-3 text-sm">
+                  <div>
+                    <p className="font-medium">{formatCurrency(disposal.btcAmount, 'BTC')}</p>
+                    <p className="text-xs text-zinc-500">
+                      {getTransactionDisplayName(disposal.type)} · {formatDate(disposal.disposedAt)} · {disposal.lots.length} {disposal.lots.length === 1 ? 'lot' : 'lots'}
+                    </p>
+                  </div>
+                  <div className="text-right">
+                    {disposal.isWithdrawal ? (
+                      <p className="font-medium text-zinc-400">Transfer</p>
+                    ) : (
+                      <p className={`font-medium ${disposal.realizedProfit >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                        {formatInrWithNA(disposal.realizedProfit)}
+                      </p>
+                    )}
+                    <p className="text-xs text-zinc-500">Cost {formatInrWithNA(disposal.costBasis)}</p>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Bitcoin Market Overview */}
       {bitcoinData && (
         <>
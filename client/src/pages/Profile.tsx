@@ -10,7 +10,8 @@ import {
   Shield,
   ExternalLink,
   LogOut,
-  UserCog
+  UserCog,
+  FileText
 } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
 import { useNavigate } from 'react-router-dom';
@@ -20,6 +21,16 @@ import EditEmailModal from '../components/EditEmailModal';
 import ChangePasswordModal from '../components/ChangePasswordModal';
 import ChangePinModal from '../components/ChangePinModal';
 
+// Indian financial years (April-March, IST), newest first
+const getFinancialYearOptions = (count = 5): string[] => {
+  const ist = new Date(Date.now() + 330 * 60 * 1000);
+  const currentStart = ist.getUTCMonth() >= 3 ? ist.getUTCFullYear() : ist.getUTCFullYear() - 1;
+  return Array.from({ length: count }, (_, index) => {
+    const startYear = currentStart - index;
+    return `${startYear}-${String((startYear + 1) % 100).padStart(2, '0')}`;
+  });
+};
+
 const Profile: React.FC = () => {
   const { user, logout } = useAuth();
   const navigate = useNavigate();
@@ -28,6 +39,9 @@ const Profile: React.FC = () => {
   const [isChangePasswordOpen, setIsChangePasswordOpen] = useState(false);
   const [isChangePinOpen, setIsChangePinOpen] = useState(false);
   const [isExporting, setIsExporting] = useState(false);
+  const [financialYearOptions] = useState(() => getFinancialYearOptions());
+  const [taxYear, setTaxYear] = useState(financialYearOptions[0]);
+  const [taxReportFormat, setTaxReportFormat] = useState<'csv' | 'pdf' | null>(null);
   const [message, setMessage] = useState('');
   const [error, setError] = useState('');
 
@@ -59,6 +73,31 @@ const Profile: React.FC = () => {
     }
   };
 
+  const handleDownloadTaxReport = async (format: 'csv' | 'pdf') => {
+    try {
+      setTaxReportFormat(format);
+      clearMessages();
+
+      const response = await userAPI.downloadTaxReport(taxYear, format);
+
+      const url = window.URL.createObjectURL(response.data);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `bittrade-vda-tax-report-FY${taxYear}.${format}`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      window.URL.revokeObjectURL(url);
+
+      setMessage(`✅ Tax report for FY ${taxYear} downloaded`);
+    } catch (error: any) {
+      console.error('Tax report error:', error);
+      setError('Failed to generate tax report');
+    } finally {
+      setTaxReportFormat(null);
+    }
+  };
+
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString('en-US', {
       year: 'numeric',
@@ -272,6 +311,45 @@ const Profile: React.FC = () => {
           )}
         </button>
 
+        {/* VDA Tax Report */}
+        <div className="bg-gradient-to-br from-zinc-950 to-zinc-900 border border-zinc-800 rounded-xl p-4">
+          <div className="flex items-center gap-3 mb-3">
+            <div className="p-2 bg-zinc-800 rounded-lg">
+              <FileText className="w-4 h-4 text-white" />
+            </div>
+            <div className="text-left">
+              <p className="font-medium">Crypto Tax Report (VDA)</p>
+              <p className="text-zinc-400 text-sm">Gains at 30% and 1% TDS per financial year</p>
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            <select
+              value={taxYear}
+              onChange={(e) => setTaxYear(e.target.value)}
+              className="flex-1 bg-zinc-800 border border-zinc-700 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-zinc-500"
+            >
+              {financialYearOptions.map(year => (
+                <option key={year} value={year}>FY {year}</option>
+              ))}
+            </select>
+            {(['csv', 'pdf'] as const).map(format => (
+              <button
+                key={format}
+                onClick={() => handleDownloadTaxReport(format)}
+                disabled={taxReportFormat !== null}
+                className="px-3 py-2 bg-zinc-800 hover:bg-zinc-700 rounded-lg text-sm flex items-center gap-1 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {taxReportFormat === format ? (
+                  <div className="w-3 h-3 border-2 border-zinc-600 border-t-white rounded-full animate-spin" />
+                ) : (
+                  <Download className="w-3 h-3" />
+                )}
+                {format.toUpperCase()}
+              </button>
+            ))}
+          </div>
+        </div>
+
         {/* Logout Button */}
         <button
           onClick={async () => {
@@ -8,20 +8,44 @@ import {
   Transaction,
   AdminDashboardData,
   AdminUser,
+  LoanProduct,
+  LoanProductInput,
   LoanDepositResponse,
   LoanBorrowResponse,
   LoanRepayResponse,
   LoanStatus,
   LoanHistory,
+  LoanStatement,
+  LoanAutoTopUp,
+  NotificationList,
+  InterestAccrualGap,
+  InsuranceFund,
+  DcaStrategyInput,
+  DcaCatchUpPolicy,
+  DcaFrequency,
+  DcaSchedule,
+  DcaStrategyColumns,
+  DcaStrategyPreview,
+  DcaPlanChange,
   LiquidationRisk,
   FullLiquidationResponse,
-  PartialLiquidationResponse
+  PartialLiquidationResponse,
+  MarketStatus,
+  TimeInForce,
+  OrderAmendment,
+  CostBasisMethod,
+  PortfolioHistory,
+  PortfolioHistoryRange
 } from '../types';
 
 const API_BASE_URL = process.env.NODE_ENV === 'production' 
   ? '/api' 
   : process.env.REACT_APP_API_URL || 'http://localhost:3001/api';
 
+// Server-sent event stream URL; EventSource cannot send headers, so a single-use ticket goes in the query
+export const getEventStreamUrl = (ticket: string): string =>
+  `${API_BASE_URL}/stream?ticket=${encodeURIComponent(ticket)}`;
+
 // Request deduplication cache
 const requestCache = new Map();
 
@@ -75,6 +99,10 @@ export const authAPI = {
   
   logout: (): Promise<AxiosResponse<ApiResponse>> =>
     api.post('/auth/logout'),
+
+  // Exchange the JWT for a short-lived ticket that opens one event stream
+  getStreamTicket: (): Promise<AxiosResponse<ApiResponse<{ ticket: string; expires_in: number }>>> =>
+    api.post('/stream/ticket'),
 };
 
 // User API
@@ -88,17 +116,32 @@ export const userAPI = {
   getPrices: (): Promise<AxiosResponse<ApiResponse<any>>> =>
     api.get('/user/prices'),
   
+  getMarketStatus: (): Promise<AxiosResponse<ApiResponse<MarketStatus>>> =>
+    api.get('/public/market-status'),
+  
   buyBitcoin: (data: TradeRequest): Promise<AxiosResponse<ApiResponse<TradeResponse>>> =>
     api.post('/user/buy', data),
   
   sellBitcoin: (data: TradeRequest): Promise<AxiosResponse<ApiResponse<TradeResponse>>> =>
     api.post('/user/sell', data),
   
-  placeLimitBuyOrder: (data: { inrAmount: number; targetPrice: number }): Promise<AxiosResponse<ApiResponse<any>>> =>
-    api.post('/user/limit-buy', { amount: data.inrAmount, targetPrice: data.targetPrice }),
+  placeLimitBuyOrder: (data: { inrAmount: number; targetPrice: number; timeInForce?: TimeInForce; expiresAt?: string }): Promise<AxiosResponse<ApiResponse<any>>> =>
+    api.post('/user/limit-buy', { amount: data.inrAmount, targetPrice: data.targetPrice, timeInForce: data.timeInForce, expiresAt: data.expiresAt }),
+  
+  placeLimitSellOrder: (data: { btcAmount: number; targetPrice: number; timeInForce?: TimeInForce; expiresAt?: string }): Promise<AxiosResponse<ApiResponse<any>>> =>
+    api.post('/user/limit-sell', { amount: data.btcAmount, targetPrice: data.targetPrice, timeInForce: data.timeInForce, expiresAt: data.expiresAt }),
+  
+  placeStopLossSellOrder: (data: { btcAmount: number; stopPrice: number }): Promise<AxiosResponse<ApiResponse<any>>> =>
+    api.post('/user/stop-loss-sell', { amount: data.btcAmount, stopPrice: data.stopPrice }),
+  
+  placeStopBuyOrder: (data: { inrAmount: number; stopPrice: number }): Promise<AxiosResponse<ApiResponse<any>>> =>
+    api.post('/user/stop-buy', { amount: data.inrAmount, stopPrice: data.stopPrice }),
+  
+  placeTrailingStopOrder: (data: { side: 'BUY' | 'SELL'; amount: number; trailPercent: number }): Promise<AxiosResponse<ApiResponse<any>>> =>
+    api.post('/user/trailing-stop', data),
   
-  placeLimitSellOrder: (data: { btcAmount: number; targetPrice: number }): Promise<AxiosResponse<ApiResponse<any>>> =>
-    api.post('/user/limit-sell', { amount: data.btcAmount, targetPrice: data.targetPrice }),
+  placeOcoSellOrder: (data: { btcAmount: number; targetPrice: number; stopPrice: number; timeInForce?: TimeInForce; expiresAt?: string }): Promise<AxiosResponse<ApiResponse<any>>> =>
+    api.post('/user/oco-sell', { amount: data.btcAmount, targetPrice: data.targetPrice, stopPrice: data.stopPrice, timeInForce: data.timeInForce, expiresAt: data.expiresAt }),
   
   getRecentTransactions: (limit = 5): Promise<AxiosResponse<ApiResponse<Transaction[]>>> =>
     api.get(`/user/transactions/recent?limit=${limit}`),
@@ -106,8 +149,11 @@ export const userAPI = {
   getAllTransactions: (page = 1, limit = 20): Promise<AxiosResponse<ApiResponse<{ transactions: Transaction[], pagination: any }>>> =>
     api.get(`/user/transactions?page=${page}&limit=${limit}`),
   
-  portfolio: (): Promise<AxiosResponse<ApiResponse<any>>> =>
-    api.get('/user/portfolio'),
+  portfolio: (method?: CostBasisMethod): Promise<AxiosResponse<ApiResponse<any>>> =>
+    api.get('/user/portfolio', { params: method ? { method } : undefined }),
+
+  getPortfolioHistory: (range: PortfolioHistoryRange): Promise<AxiosResponse<ApiResponse<PortfolioHistory>>> =>
+    api.get('/user/portfolio/history', { params: { range } }),
   
   updateProfile: (data: { name?: string; email?: string; currentPassword: string }): Promise<AxiosResponse<ApiResponse<any>>> =>
     api.patch('/user/profile', data),
@@ -123,6 +169,9 @@ export const userAPI = {
   
   exportData: (): Promise<AxiosResponse<string>> =>
     api.get('/user/export-data', { responseType: 'text' }),
+
+  downloadTaxReport: (financialYear: string, format: 'csv' | 'pdf'): Promise<AxiosResponse<Blob>> =>
+    api.get('/user/tax-report', { params: { fy: financialYear, format }, responseType: 'blob' }),
   
   getBitcoinData: (): Promise<AxiosResponse<ApiResponse<any>>> =>
     api.get('/user/bitcoin/data'),
@@ -136,21 +185,39 @@ export const userAPI = {
   cancelLimitOrder: (orderId: number): Promise<AxiosResponse<ApiResponse<any>>> =>
     api.delete(`/user/limit-orders/${orderId}`),
   
+  // amount is INR for buy orders and BTC for sell orders
+  amendLimitOrder: (orderId: number, data: { targetPrice?: number; amount?: number; expiresAt?: string }): Promise<AxiosResponse<ApiResponse<any>>> =>
+    api.patch(`/user/limit-orders/${orderId}`, data),
+  
+  getLimitOrderAmendments: (orderId: number): Promise<AxiosResponse<ApiResponse<OrderAmendment[]>>> =>
+    api.get(`/user/limit-orders/${orderId}/amendments`),
+  
   createDcaBuyPlan: (data: {
     amountPerExecution: number;
-    frequency: 'HOURLY' | 'DAILY' | 'WEEKLY' | 'MONTHLY';
+    frequency: DcaFrequency;
+    schedule?: DcaSchedule;
     totalExecutions?: number;
     maxPrice?: number;
     minPrice?: number;
+    strategy?: DcaStrategyInput;
+    catchUpPolicy?: DcaCatchUpPolicy;
+    budgetLimit?: number;
+    goalAmount?: number;
+    endDate?: string;
   }): Promise<AxiosResponse<ApiResponse<any>>> =>
     api.post('/user/dca-buy', data),
   
   createDcaSellPlan: (data: {
     amountPerExecution: number;
-    frequency: 'HOURLY' | 'DAILY' | 'WEEKLY' | 'MONTHLY';
+    frequency: DcaFrequency;
+    schedule?: DcaSchedule;
     totalExecutions?: number;
     maxPrice?: number;
     minPrice?: number;
+    catchUpPolicy?: DcaCatchUpPolicy;
+    budgetLimit?: number;
+    goalAmount?: number;
+    endDate?: string;
   }): Promise<AxiosResponse<ApiResponse<any>>> =>
     api.post('/user/dca-sell', data),
   
@@ -169,30 +236,71 @@ export const userAPI = {
   resumeDcaPlan: (planId: number): Promise<AxiosResponse<ApiResponse<any>>> =>
     api.patch(`/user/dca-plans/${planId}/resume`),
 
+  previewDcaStrategy: (planId: number, strategy: DcaStrategyInput): Promise<AxiosResponse<ApiResponse<DcaStrategyPreview>>> =>
+    api.post(`/user/dca-plans/${planId}/strategy/preview`, strategy),
+
+  setDcaStrategy: (planId: number, strategy: DcaStrategyInput): Promise<AxiosResponse<ApiResponse<DcaStrategyColumns & { plan_id: number }>>> =>
+    api.put(`/user/dca-plans/${planId}/strategy`, strategy),
+
+  updateDcaPlan: (planId: number, data: {
+    amountPerExecution?: number;
+    frequency?: DcaFrequency;
+    schedule?: DcaSchedule;
+    maxPrice?: number | null;
+    minPrice?: number | null;
+    remainingExecutions?: number | null;
+  }): Promise<AxiosResponse<ApiResponse<any>>> =>
+    api.patch(`/user/dca-plans/${planId}`, data),
+
+  getDcaPlanChanges: (planId: number): Promise<AxiosResponse<ApiResponse<DcaPlanChange[]>>> =>
+    api.get(`/user/dca-plans/${planId}/changes`),
+
   // Loan APIs
-  depositCollateral: (collateralAmount: number): Promise<AxiosResponse<ApiResponse<LoanDepositResponse>>> =>
-    api.post('/user/loan/deposit-collateral', { collateralAmount }),
+  getLoans: (includeClosed = false): Promise<AxiosResponse<ApiResponse<LoanStatus[]>>> =>
+    api.get(`/user/loans${includeClosed ? '?include_closed=true' : ''}`),
+
+  getLoanProducts: (): Promise<AxiosResponse<ApiResponse<LoanProduct[]>>> =>
+    api.get('/user/loan-products'),
+
+  depositCollateral: (collateralAmount: number, productId?: number): Promise<AxiosResponse<ApiResponse<LoanDepositResponse>>> =>
+    api.post('/user/loan/deposit-collateral', { collateralAmount, productId }),
+  
+  borrowFunds: (loanId: number, amount: number): Promise<AxiosResponse<ApiResponse<LoanBorrowResponse>>> =>
+    api.post(`/user/loan/${loanId}/borrow`, { amount }),
+  
+  repayFunds: (loanId: number, amount: number): Promise<AxiosResponse<ApiResponse<LoanRepayResponse>>> =>
+    api.post(`/user/loan/${loanId}/repay`, { amount }),
+  
+  addCollateralToLoan: (loanId: number, collateralAmount: number): Promise<AxiosResponse<ApiResponse<any>>> =>
+    api.post(`/user/loan/${loanId}/add-collateral`, { collateralAmount }),
   
-  borrowFunds: (amount: number): Promise<AxiosResponse<ApiResponse<LoanBorrowResponse>>> =>
-    api.post('/user/loan/borrow', { amount }),
+  getLoanStatus: (loanId: number): Promise<AxiosResponse<ApiResponse<LoanStatus>>> =>
+    api.get(`/user/loan/${loanId}`),
   
-  repayFunds: (amount: number): Promise<AxiosResponse<ApiResponse<LoanRepayResponse>>> =>
-    api.post('/user/loan/repay', { amount }),
+  getLoanHistory: (loanId: number): Promise<AxiosResponse<ApiResponse<LoanHistory[]>>> =>
+    api.get(`/user/loan/${loanId}/history`),
   
-  addCollateralToLoan: (collateralAmount: number): Promise<AxiosResponse<ApiResponse<any>>> =>
-    api.post('/user/loan/add-collateral', { collateralAmount }),
+  getLoanStatement: (loanId: number): Promise<AxiosResponse<ApiResponse<LoanStatement>>> =>
+    api.get(`/user/loan/${loanId}/statement`),
   
-  getLoanStatus: (): Promise<AxiosResponse<ApiResponse<LoanStatus>>> =>
-    api.get('/user/loan/status'),
+  setAutoTopUp: (loanId: number, enabled: boolean, triggerLtv?: number): Promise<AxiosResponse<ApiResponse<LoanAutoTopUp>>> =>
+    api.patch(`/user/loan/${loanId}/auto-top-up`, { enabled, triggerLtv }),
   
-  getLoanHistory: (loanId?: number): Promise<AxiosResponse<ApiResponse<LoanHistory[]>>> =>
-    api.get(`/user/loan/history${loanId ? `?loanId=${loanId}` : ''}`),
+  // In-app notifications (margin calls)
+  getNotifications: (unreadOnly = false): Promise<AxiosResponse<ApiResponse<NotificationList>>> =>
+    api.get(`/user/notifications${unreadOnly ? '?unread=true' : ''}`),
   
-  executeFullLiquidation: (): Promise<AxiosResponse<ApiResponse<FullLiquidationResponse>>> =>
-    api.post('/user/loan/full-liquidation'),
+  markNotificationRead: (notificationId: number): Promise<AxiosResponse<ApiResponse<any>>> =>
+    api.put(`/user/notifications/${notificationId}/read`),
   
-  executePartialLiquidation: (btcAmount: number): Promise<AxiosResponse<ApiResponse<PartialLiquidationResponse>>> =>
-    api.post('/user/loan/partial-liquidation', { btcAmount }),
+  markAllNotificationsRead: (): Promise<AxiosResponse<ApiResponse<{ updated: number }>>> =>
+    api.put('/user/notifications/read-all'),
+  
+  executeFullLiquidation: (loanId: number): Promise<AxiosResponse<ApiResponse<FullLiquidationResponse>>> =>
+    api.post(`/user/loan/${loanId}/full-liquidation`),
+  
+  executePartialLiquidation: (loanId: number, btcAmount: number): Promise<AxiosResponse<ApiResponse<PartialLiquidationResponse>>> =>
+    api.post(`/user/loan/${loanId}/partial-liquidation`, { btcAmount }),
   
   getLiquidationRisk: (): Promise<AxiosResponse<ApiResponse<LiquidationRisk[]>>> =>
     api.get('/user/loan/liquidation-risk'),
@@ -230,7 +338,7 @@ export const adminAPI = {
   getSettings: (): Promise<AxiosResponse<ApiResponse<any>>> =>
     api.get('/admin/settings'),
   
-  updateSettings: (settings: { buy_multiplier?: number, sell_multiplier?: number, loan_interest_rate?: number }): Promise<AxiosResponse<ApiResponse>> =>
+  updateSettings: (settings: { buy_multiplier?: number, sell_multiplier?: number, loan_interest_rate?: number, price_max_age_seconds?: number, price_max_deviation_pct?: number, limit_buy_liquidity_sats?: number, limit_sell_liquidity_sats?: number, liquidation_penalty_bps?: number }): Promise<AxiosResponse<ApiResponse>> =>
     api.patch('/admin/settings', settings),
   
   getTransactions: (page = 1, limit = 50): Promise<AxiosResponse<ApiResponse<{ transactions: any[], pagination: any }>>> =>
@@ -285,9 +393,25 @@ export const adminAPI = {
   getLiquidationRisks: (): Promise<AxiosResponse<ApiResponse<any[]>>> =>
     api.get('/admin/liquidation/risks'),
   
+  getInsuranceFund: (limit = 50): Promise<AxiosResponse<ApiResponse<InsuranceFund>>> =>
+    api.get(`/admin/liquidation/insurance-fund?limit=${limit}`),
+  
+  // Loan products
+  getLoanProducts: (): Promise<AxiosResponse<ApiResponse<LoanProduct[]>>> =>
+    api.get('/admin/loan-products'),
+  
+  createLoanProduct: (product: LoanProductInput): Promise<AxiosResponse<ApiResponse<LoanProduct>>> =>
+    api.post('/admin/loan-products', product),
+  
+  updateLoanProduct: (productId: number, changes: LoanProductInput): Promise<AxiosResponse<ApiResponse<LoanProduct>>> =>
+    api.patch(`/admin/loan-products/${productId}`, changes),
+  
   // Job management endpoints
   triggerInterestAccrual: (): Promise<AxiosResponse<ApiResponse<any>>> =>
     api.post('/admin/jobs/accrue-interest'),
+  
+  getInterestAccrualGaps: (limit = 50): Promise<AxiosResponse<ApiResponse<InterestAccrualGap[]>>> =>
+    api.get(`/admin/jobs/interest-accrual-gaps?limit=${limit}`),
 };
 
 export default api;
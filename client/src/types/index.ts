@@ -35,10 +35,69 @@ export interface Prices {
   last_update?: string;
 }
 
+export interface MarketStatus {
+  halted: boolean;
+  reason: 'NO_PRICE' | 'STALE_PRICE' | 'PRICE_OUTLIER' | null;
+  message: string | null;
+  halted_at: string | null;
+  last_checked_at: string | null;
+}
+
+// Payloads pushed over the /api/stream server-sent event channel
+export interface OrderStreamEvent {
+  order_id: number;
+  type: Transaction['type'];
+  status: 'EXECUTED' | 'PARTIALLY_FILLED' | 'CANCELLED' | 'EXPIRED';
+  execution_price?: number;
+  fill_inr?: number;
+  fill_btc?: number; // Satoshis
+  cancellation_reason?: string;
+}
+
+export interface DcaStreamEvent {
+  plan_id: number;
+  plan_type: 'DCA_BUY' | 'DCA_SELL';
+  status: 'EXECUTED' | 'COMPLETED' | 'PAUSED';
+  execution_price: number | null;
+}
+
+export interface LoanStreamEvent {
+  loan_id: number;
+  event: 'INTEREST_ACCRUED' | 'PARTIAL_LIQUIDATION' | 'FULL_LIQUIDATION' | 'MATURITY_REMINDER' | 'LOAN_MATURED' | 'MATURITY_SETTLEMENT' | 'MARGIN_CALL' | 'AUTO_TOP_UP';
+  accrual_date?: string; // IST day an INTEREST_ACCRUED event charged, earlier than today when back-filled
+  interest_accrued?: number;
+  borrowed_amount?: number;
+  btc_sold?: number; // Satoshis
+  debt_reduction?: number;
+  new_ltv?: number;
+  days_remaining?: number;
+  maturity_date?: string;
+  settlement_date?: string;
+  debt_cleared?: number;
+  penalty?: number;
+  shortfall?: number; // Debt the collateral did not cover, paid by the insurance fund
+  inr_returned?: number;
+  collateral_returned?: number; // Satoshis
+  btc_added?: number; // Satoshis moved into collateral by an auto top-up
+  notification_id?: number; // MARGIN_CALL notice, see MarginCallNotification
+  threshold_ltv?: number;
+  current_ltv?: number;
+  liquidation_ltv?: number;
+  message?: string;
+}
+
+export type StreamEvent =
+  | { type: 'price'; data: Prices }
+  | { type: 'market'; data: MarketStatus }
+  | { type: 'balance'; data: Balances }
+  | { type: 'order'; data: OrderStreamEvent }
+  | { type: 'dca'; data: DcaStreamEvent }
+  | { type: 'loan'; data: LoanStreamEvent };
+
 export interface Transaction {
   id: number;
   user_id: number;
-  type: 'DEPOSIT_INR' | 'MARKET_BUY' | 'BUY' | 'MARKET_SELL' | 'SELL' | 'LIMIT_BUY' | 'LIMIT_SELL' | 'WITHDRAW_INR' | 'DEPOSIT_BTC' | 'WITHDRAW_BTC' | 'DCA_BUY' | 'DCA_SELL' | 'LOAN_CREATE' | 'LOAN_BORROW' | 'LOAN_REPAY' | 'LOAN_ADD_COLLATERAL' | 'INTEREST_ACCRUAL' | 'PARTIAL_LIQUIDATION' | 'FULL_LIQUIDATION';
+  type: 'DEPOSIT_INR' | 'MARKET_BUY' | 'BUY' | 'MARKET_SELL' | 'SELL' | 'LIMIT_BUY' | 'LIMIT_SELL' | 'STOP_LOSS_SELL' | 'STOP_BUY' | 'TRAILING_STOP_SELL' | 'TRAILING_STOP_BUY' | 'WITHDRAW_INR' | 'DEPOSIT_BTC' | 'WITHDRAW_BTC' | 'DCA_BUY' | 'DCA_SELL' | 'LOAN_CREATE' | 'LOAN_BORROW' | 'LOAN_REPAY' | 'LOAN_ADD_COLLATERAL' | 'INTEREST_ACCRUAL' | 'PARTIAL_LIQUIDATION' | 'FULL_LIQUIDATION';
   status?: 'PENDING' | 'EXECUTED' | 'CANCELLED' | 'EXPIRED';
   inr_amount: number;
   btc_amount: number;
@@ -46,12 +105,50 @@ export interface Transaction {
   execution_price?: number; // Actual price used for liquidations and trades
   inr_balance?: number; // Optional for admin views
   btc_balance?: number; // Optional for admin views
+  limit_price?: number; // Limit price, or current stop price for stop orders
+  trail_percent?: number | null; // Trailing distance for trailing stops
+  parent_id?: number; // Parent order for limit order fills
+  oco_order_id?: number | null; // Other leg of an OCO bracket
+  time_in_force?: TimeInForce | null;
+  expires_at?: string | null;
+  cancellation_reason?: string | null;
   loan_id?: number; // For loan operations
+  filled_inr?: number; // Limit order progress (from /user/limit-orders)
+  filled_btc?: number;
+  remaining_inr?: number;
+  remaining_btc?: number;
+  fill_count?: number;
   notes?: string; // Additional details
   executed_at?: string; // When operation was executed
   created_at: string;
 }
 
+export interface OrderAmendment {
+  id: number;
+  old_limit_price: number;
+  new_limit_price: number;
+  old_inr_amount: number;
+  new_inr_amount: number;
+  old_btc_amount: number; // BTC
+  new_btc_amount: number;
+  old_expires_at: string | null;
+  new_expires_at: string | null;
+  created_at: string;
+}
+
+export type TimeInForce = 'GTC' | 'GTD' | 'IOC' | 'FOK';
+
+export interface LimitOrderConfig {
+  timeInForce: TimeInForce;
+  expiresAt?: string; // ISO date, GTD only (defaults to 24 hours)
+}
+
+export interface StopOrderConfig {
+  trailing: boolean;
+  stopPrice?: number; // Fixed stop price (₹ per ₿)
+  trailPercent?: number; // Trailing distance in percent
+}
+
 export interface DashboardData {
   balances: Balances;
   prices: Prices;
@@ -88,12 +185,90 @@ export interface AdminUser extends User {
   btc_balance: number;
 }
 
-export interface DcaPlan {
+export type DcaStrategyType = 'FIXED' | 'VALUE_AVERAGING' | 'DIP_MULTIPLIER';
+
+export type DcaFrequency = 'HOURLY' | 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'CUSTOM';
+
+// Rule for CUSTOM plans, evaluated in IST; monthDays uses -1 for the last day of the month
+export type DcaSchedule =
+  | { type: 'WEEKDAYS'; weekdays: number[]; time: string }
+  | { type: 'MONTH_DAYS'; monthDays: number[]; time: string }
+  | { type: 'CRON'; expression: string };
+
+// What happens to executions missed while the server was down
+export type DcaCatchUpPolicy = 'SKIP' | 'ONCE' | 'ALL';
+
+export interface DcaStrategyInput {
+  type: DcaStrategyType;
+  targetGrowth?: number;   // VALUE_AVERAGING: rupees added to the target value per execution
+  maxAmount?: number;      // VALUE_AVERAGING: most one execution may spend
+  dipPct?: number;         // DIP_MULTIPLIER: % below the moving average that counts as a dip
+  dipMultiplier?: number;  // DIP_MULTIPLIER: amount multiplier on a dip
+  maDays?: 7 | 30 | 90 | 365;
+}
+
+export interface DcaStrategyColumns {
+  strategy: DcaStrategyType;
+  va_target_growth: number | null;
+  va_max_amount: number | null;
+  dip_threshold_pct: number | null;
+  dip_multiplier: number | null;
+  dip_ma_days: number | null;
+}
+
+// Strategy inputs recorded on each execution (operation notes) and returned by previews
+export interface DcaStrategyInputs {
+  strategy: DcaStrategyType;
+  baseAmount: number;
+  price: number;
+  amount: number;
+  execution?: number;
+  targetGrowth?: number;
+  targetValue?: number;
+  btcHeld?: number;
+  currentValue?: number;
+  maxAmount?: number;
+  maDays?: number;
+  movingAverage?: number | null;
+  belowAveragePct?: number | null;
+  dipPct?: number;
+  multiplier?: number;
+  applied?: number;
+}
+
+export interface DcaStrategyPreview extends DcaStrategyColumns {
+  amount: number;
+  inputs: DcaStrategyInputs;
+}
+
+export interface DcaPlanChange {
+  id: number;
+  old_amount_per_execution: number; // ₹ for buy plans, BTC for sell plans
+  new_amount_per_execution: number;
+  old_frequency: DcaFrequency;
+  new_frequency: DcaFrequency;
+  old_schedule: DcaSchedule | null;
+  new_schedule: DcaSchedule | null;
+  old_max_price: number | null;
+  new_max_price: number | null;
+  old_min_price: number | null;
+  new_min_price: number | null;
+  old_remaining_executions: number | null;
+  new_remaining_executions: number | null;
+  old_next_execution_at: string | null;
+  new_next_execution_at: string | null;
+  created_at: string;
+}
+
+export type DcaCompletionReason = 'EXECUTIONS' | 'BUDGET' | 'GOAL' | 'END_DATE';
+
+export interface DcaPlan extends DcaStrategyColumns {
   id: number;
   user_id?: number;
   plan_type: 'DCA_BUY' | 'DCA_SELL';
   status: 'ACTIVE' | 'PAUSED' | 'COMPLETED' | 'CANCELLED';
-  frequency: 'HOURLY' | 'DAILY' | 'WEEKLY' | 'MONTHLY';
+  frequency: DcaFrequency;
+  schedule: DcaSchedule | null;
   amount_per_execution: number;
   amount?: number; // For admin interface compatibility
   total_invested?: number; // For admin interface compatibility
@@ -103,16 +278,50 @@ export interface DcaPlan {
   remaining_executions: number | null;
   max_price: number | null;
   min_price: number | null;
+  catch_up_policy: DcaCatchUpPolicy;
+  // Buy plans: budget and spent in ₹, goal and acquired in BTC; sell plans the other way round
+  budget_limit: number | null;
+  goal_amount: number | null;
+  end_date: string | null;
+  completion_reason?: DcaCompletionReason | null;
+  total_spent: number;
+  total_acquired: number;
   created_at: string;
 }
 
 // Loan-related types
+export type LoanCompounding = 'SIMPLE' | 'DAILY' | 'MONTHLY';
+
+export interface LoanProduct {
+  id: number;
+  name: string;
+  description: string | null;
+  max_ltv: number;
+  liquidation_ltv: number;
+  interest_rate: number;
+  compounding: LoanCompounding;
+  min_interest_days: number;
+  term_days: number | null;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export type LoanProductInput = Partial<Pick<LoanProduct, 'name' | 'description' | 'max_ltv' | 'liquidation_ltv' | 'interest_rate' | 'compounding' | 'min_interest_days' | 'term_days' | 'is_active'>>;
+
 export interface LoanDepositResponse {
   loanId: number;
+  productId: number;
+  productName: string;
   collateralAmount: number;
   maxBorrowable: number;
   ltvRatio: number;
   interestRate: number;
+  compounding: LoanCompounding;
+  liquidationLtv: number;
+  minInterestDays: number;
+  termDays: number | null;
+  maturityDate: string | null;
   liquidationPrice: number;
   currentBtcPrice: number;
 }
@@ -131,24 +340,51 @@ export interface LoanRepayResponse {
   remainingDebt: number;
   loanStatus: 'ACTIVE' | 'REPAID';
   collateralReturned: number;
+  interestPaid: number; // Rupees, paisa precision
+  principalPaid: number;
+  minimumInterestApplied: number;
 }
 
 export interface LoanStatus {
   loanId: number;
+  productId: number | null;
+  productName: string | null;
   collateralAmount: number;
-  borrowedAmount: number;
+  borrowedAmount: number; // Principal plus outstanding interest, whole rupees
+  principalAmount: number; // Ledger balances in rupees with paisa precision
+  interestOutstanding: number;
+  interestPaid: number;
+  compounding: LoanCompounding;
   interestRate: number;
   ltvRatio: number;
+  liquidationLtv: number;
+  minInterestDays: number;
+  termDays: number | null;
+  maturityDate: string | null;
+  settlementDate: string | null; // Maturity plus grace period; the loan is settled automatically after it
   liquidationPrice: number;
+  autoTopUpEnabled: boolean;
+  autoTopUpTriggerLtv: number | null; // LTV at which available BTC is moved into collateral
   maxBorrowable: number;
   availableCapacity: number;
   currentLtv: number;
   currentBtcPrice: number;
   riskStatus: 'SAFE' | 'WARNING' | 'LIQUIDATE';
-  minimumInterestDue?: number;
+  minimumInterestDue?: number; // Interest a full repayment still adds under the minimum interest policy
+  totalDue: number; // Amount that fully repays the loan
+  status: 'ACTIVE' | 'REPAID' | 'LIQUIDATED';
+  createdAt: string;
+  closedAt: string | null;
+}
+
+export interface LoanAutoTopUp {
+  loanId: number;
+  autoTopUpEnabled: boolean;
+  autoTopUpTriggerLtv: number | null;
 }
 
 export interface LoanHistory {
+  loan_id: number;
   type: 'LOAN_CREATE' | 'LOAN_BORROW' | 'LOAN_REPAY' | 'LOAN_ADD_COLLATERAL' | 'INTEREST_ACCRUAL' | 'PARTIAL_LIQUIDATION' | 'FULL_LIQUIDATION';
   status?: 'PENDING' | 'EXECUTED' | 'CANCELLED' | 'EXPIRED';
   inr_amount: number;
@@ -158,6 +394,87 @@ export interface LoanHistory {
   executed_at?: string;
 }
 
+export interface LoanLedgerEntry {
+  id: number;
+  entry_type: 'BORROW' | 'INTEREST' | 'MINIMUM_INTEREST' | 'REPAYMENT' | 'LIQUIDATION';
+  principal: number; // Signed change in rupees
+  interest: number;
+  principal_balance: number;
+  interest_balance: number;
+  accrual_date: string | null;
+  operation_id: number | null;
+  notes: string | null;
+  created_at: string;
+}
+
+export interface LoanStatement {
+  loan_id: number;
+  compounding: LoanCompounding;
+  interest_rate: number;
+  principal: number;
+  interest_outstanding: number;
+  interest_paid: number;
+  interest_accrued_through: string | null;
+  entries: LoanLedgerEntry[];
+}
+
+export interface InterestAccrualGap {
+  id: number;
+  loan_id: number;
+  user_id: number;
+  user_name: string;
+  user_email: string;
+  from_date: string; // First and last missed IST day
+  to_date: string;
+  days: number;
+  interest_accrued: number; // Rupees back-filled for the gap
+  created_at: string;
+}
+
+export interface InsuranceFundEntry {
+  id: number;
+  entry_type: 'PENALTY' | 'BAD_DEBT';
+  amount: number; // Rupees; penalties are positive, bad debt negative
+  balance_after: number;
+  loan_id: number | null;
+  user_id: number | null;
+  user_name: string | null;
+  liquidation_event_id: number | null;
+  notes: string | null;
+  created_at: string;
+}
+
+export interface InsuranceFund {
+  balance: number; // Negative when bad debt exceeded the penalties collected
+  penalties_collected: number;
+  bad_debt_absorbed: number;
+  penalty_bps: number;
+  updated_at: string | null;
+  entries: InsuranceFundEntry[];
+}
+
+export interface MarginCallNotification {
+  id: number;
+  type: 'MARGIN_CALL';
+  loan_id: number;
+  user_id: number;
+  threshold_ltv: number; // Margin-call level crossed
+  current_ltv: number;
+  liquidation_ltv: number;
+  btc_price: number; // BTC sell rate (INR) the LTV was computed at
+  inr_borrowed_amount: number;
+  title: string;
+  message: string;
+  delivered_channels: string[];
+  read_at: string | null;
+  created_at: string;
+}
+
+export interface NotificationList {
+  notifications: MarginCallNotification[];
+  unread_count: number;
+}
+
 export interface LiquidationRisk {
   id: number;
   user_id: number;
@@ -187,3 +504,73 @@ export interface PartialLiquidationResponse {
   newLtv: number;
   loanStatus: 'ACTIVE' | 'REPAID';
 }
+
+// Lot-based cost basis returned with the portfolio metrics
+export type CostBasisMethod = 'FIFO' | 'LIFO' | 'AVERAGE';
+
+export interface CostBasisLot {
+  operationId: number;
+  type: Transaction['type'];
+  acquiredAt: string;
+  originalBtc: number;
+  remainingBtc: number;
+  costBasis: number;
+  costPerBtc: number;
+  marketValue: number;
+  unrealizedProfit: number;
+}
+
+export interface CostBasisDisposal {
+  operationId: number;
+  type: Transaction['type'];
+  disposedAt: string;
+  btcAmount: number;
+  proceeds: number;
+  costBasis: number;
+  realizedProfit: number;
+  isWithdrawal: boolean;
+  lots: {
+    operationId: number;
+    acquiredAt: string;
+    btcAmount: number;
+    costBasis: number;
+  }[];
+}
+
+export interface CostBasisSummary {
+  method: CostBasisMethod;
+  realizedProfit: number;
+  unrealizedProfit: number;
+  openBtc: number;
+  openCostBasis: number;
+  averageCost: number;
+  unmatchedBtc: number;
+  lots: CostBasisLot[];
+  disposals: CostBasisDisposal[];
+}
+
+// Daily end-of-day portfolio value rebuilt from executed operations
+export type PortfolioHistoryRange = '7d' | '30d' | '90d' | '365d' | 'all';
+
+export interface PortfolioHistoryPoint {
+  date: string; // IST calendar day, YYYY-MM-DD
+  value: number;
+  inrBalance: number;
+  btcBalance: number;
+  liabilities: number;
+  btcPrice: number;
+  netFlow: number; // Deposits minus withdrawals on that day
+}
+
+export interface PortfolioHistory {
+  range: PortfolioHistoryRange;
+  startDate: string;
+  endDate: string;
+  startValue: number;
+  endValue: number;
+  netFlows: number;
+  profit: number;
+  timeWeightedReturn: number;
+  moneyWeightedReturn: number | null;
+  points: PortfolioHistoryPoint[];
+}
@@ -1,4 +1,4 @@
-import { Transaction } from '../types';
+import { Transaction, LoanCompounding, DcaStrategyType, DcaCatchUpPolicy, DcaCompletionReason, DcaSchedule } from '../types';
 
 export const getTransactionDisplayName = (type: Transaction['type'], status?: string): string => {
   const displayNames = {
@@ -8,9 +8,19 @@ export const getTransactionDisplayName = (type: Transaction['type'], status?: st
     'SELL': '₿ Market Sell', 
     'MARKET_SELL': '₿ Market Sell',
     'LIMIT_BUY': status === 'PENDING' ? '₿ Limit Buy Order' : 
-                 status === 'CANCELLED' ? '₿ Limit Buy Cancelled' : '₿ Limit Buy Filled',
+                 status === 'CANCELLED' ? '₿ Limit Buy Cancelled' :
+                 status === 'EXPIRED' ? '₿ Limit Buy Expired' : '₿ Limit Buy Filled',
     'LIMIT_SELL': status === 'PENDING' ? '₿ Limit Sell Order' : 
-                  status === 'CANCELLED' ? '₿ Limit Sell Cancelled' : '₿ Limit Sell Filled',
+                  status === 'CANCELLED' ? '₿ Limit Sell Cancelled' :
+                  status === 'EXPIRED' ? '₿ Limit Sell Expired' : '₿ Limit Sell Filled',
+    'STOP_LOSS_SELL': status === 'PENDING' ? '₿ Stop-Loss Order' : 
+                      status === 'CANCELLED' ? '₿ Stop-Loss Cancelled' : '₿ Stop-Loss Filled',
+    'STOP_BUY': status === 'PENDING' ? '₿ Stop Buy Order' : 
+                status === 'CANCELLED' ? '₿ Stop Buy Cancelled' : '₿ Stop Buy Filled',
+    'TRAILING_STOP_SELL': status === 'PENDING' ? '₿ Trailing Stop Sell' : 
+                          status === 'CANCELLED' ? '₿ Trailing Stop Cancelled' : '₿ Trailing Stop Sold',
+    'TRAILING_STOP_BUY': status === 'PENDING' ? '₿ Trailing Stop Buy' : 
+                         status === 'CANCELLED' ? '₿ Trailing Stop Cancelled' : '₿ Trailing Stop Bought',
     'WITHDRAW_INR': 'Cash Withdrawal',
     'DEPOSIT_BTC': '₿ Deposit',
     'WITHDRAW_BTC': '₿ Withdrawal',
@@ -36,9 +46,17 @@ export const getTransactionIcon = (type: Transaction['type'], status?: string):
     'SELL': 'TrendingDown',
     'MARKET_SELL': 'TrendingDown',
     'LIMIT_BUY': status === 'PENDING' ? 'Target' : 
-                 status === 'CANCELLED' ? 'X' : 'TrendingUp',
+                 status === 'CANCELLED' || status === 'EXPIRED' ? 'X' : 'TrendingUp',
     'LIMIT_SELL': status === 'PENDING' ? 'Target' : 
-                  status === 'CANCELLED' ? 'X' : 'TrendingDown',
+                  status === 'CANCELLED' || status === 'EXPIRED' ? 'X' : 'TrendingDown',
+    'STOP_LOSS_SELL': status === 'PENDING' ? 'Shield' : 
+                      status === 'CANCELLED' ? 'X' : 'TrendingDown',
+    'STOP_BUY': status === 'PENDING' ? 'Shield' : 
+                status === 'CANCELLED' ? 'X' : 'TrendingUp',
+    'TRAILING_STOP_SELL': status === 'PENDING' ? 'Shield' : 
+                          status === 'CANCELLED' ? 'X' : 'TrendingDown',
+    'TRAILING_STOP_BUY': status === 'PENDING' ? 'Shield' : 
+                         status === 'CANCELLED' ? 'X' : 'TrendingUp',
     'WITHDRAW_INR': 'ArrowDown',
     'DEPOSIT_BTC': 'Plus',
     'WITHDRAW_BTC': 'Minus',
@@ -56,6 +74,21 @@ export const getTransactionIcon = (type: Transaction['type'], status?: string):
   return icons[type] || 'Circle';
 };
 
+// Buy/sell trades, including limit and stop orders
+export const TRADE_TYPES: Transaction['type'][] = [
+  'BUY', 'SELL', 'MARKET_BUY', 'MARKET_SELL', 'LIMIT_BUY', 'LIMIT_SELL',
+  'STOP_LOSS_SELL', 'STOP_BUY', 'TRAILING_STOP_SELL', 'TRAILING_STOP_BUY', 'DCA_BUY', 'DCA_SELL'
+];
+
+// Orders that wait in the book and can be cancelled while pending
+export const OPEN_ORDER_TYPES: Transaction['type'][] = [
+  'LIMIT_BUY', 'LIMIT_SELL', 'STOP_LOSS_SELL', 'STOP_BUY', 'TRAILING_STOP_SELL', 'TRAILING_STOP_BUY'
+];
+
+export const isTradeType = (type: Transaction['type']): boolean => TRADE_TYPES.includes(type);
+
+export const isOpenOrderType = (type: Transaction['type']): boolean => OPEN_ORDER_TYPES.includes(type);
+
 export const getTransactionColor = (type: Transaction['type']): string => {
   return 'text-white';
 };
@@ -84,6 +117,14 @@ export const formatInr = (amount: number): string => {
   return `₹${Math.round(amount).toLocaleString('en-IN')}`;
 };
 
+// INR with paisa, for ledger amounts
+export const formatInrPrecise = (amount: number): string => {
+  if (typeof amount !== 'number' || isNaN(amount) || !isFinite(amount)) {
+    return '₹0.00';
+  }
+  return `₹${amount.toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+};
+
 // Standardized Bitcoin amount formatting - ensures all BTC values use the same format
 export const formatBtc = (amount: number): string => {
   if (typeof amount !== 'number' || isNaN(amount) || !isFinite(amount)) {
@@ -117,6 +158,10 @@ export const formatTimeAgo = (dateString: string): string => {
   }
 };
 
+export const formatDate = (dateString: string): string => {
+  return new Date(dateString).toLocaleDateString('en-IN', { day: 'numeric', month: 'short', year: 'numeric' });
+};
+
 export const getPerformanceColor = (value: number): string => {
   return 'text-white';
 };
@@ -148,3 +193,62 @@ export const formatBitcoinDisplay = (amount: number): string => {
     return `₿${formatBitcoin(amount)}`; // Use existing formatter for small amounts
   }
 };
+
+// Matches the server's risk bands: WARNING starts 5 points below a loan's liquidation LTV
+export const getLoanRiskStatus = (ltv: number, liquidationLtv: number): 'SAFE' | 'WARNING' | 'LIQUIDATE' => {
+  if (ltv >= liquidationLtv) return 'LIQUIDATE';
+  if (ltv >= liquidationLtv - 5) return 'WARNING';
+  return 'SAFE';
+};
+
+export const formatCompounding = (compounding: LoanCompounding): string => {
+  switch (compounding) {
+    case 'DAILY': return 'compounds daily';
+    case 'MONTHLY': return 'compounds monthly';
+    default: return 'simple interest';
+  }
+};
+
+export const formatDcaStrategy = (strategy: DcaStrategyType): string => {
+  switch (strategy) {
+    case 'VALUE_AVERAGING': return 'Value averaging';
+    case 'DIP_MULTIPLIER': return 'Dip multiplier';
+    default: return 'Fixed amount';
+  }
+};
+
+export const formatDcaCatchUpPolicy = (policy: DcaCatchUpPolicy): string => {
+  switch (policy) {
+    case 'SKIP': return 'Skip missed';
+    case 'ALL': return 'Execute every missed';
+    default: return 'Execute once';
+  }
+};
+
+export const formatDcaCompletionReason = (reason: DcaCompletionReason): string => {
+  switch (reason) {
+    case 'BUDGET': return 'Budget spent';
+    case 'GOAL': return 'Goal reached';
+    case 'END_DATE': return 'End date passed';
+    default: return 'All executions done';
+  }
+};
+
+const WEEKDAY_SHORT_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const formatOrdinal = (day: number): string => {
+  if (day === -1) return 'last day';
+  const suffix = day % 10 === 1 && day !== 11 ? 'st' : day % 10 === 2 && day !== 12 ? 'nd' : day % 10 === 3 && day !== 13 ? 'rd' : 'th';
+  return `${day}${suffix}`;
+};
+
+export const formatDcaSchedule = (schedule: DcaSchedule): string => {
+  switch (schedule.type) {
+    case 'WEEKDAYS':
+      return `${schedule.weekdays.map(day => WEEKDAY_SHORT_NAMES[day]).join(', ')} at ${schedule.time} IST`;
+    case 'MONTH_DAYS':
+      return `${schedule.monthDays.map(formatOrdinal).join(', ')} of each month at ${schedule.time} IST`;
+    default:
+      return `Cron ${schedule.expression} (IST)`;
+  }
+};
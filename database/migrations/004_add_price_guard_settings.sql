@@ -0,0 +1,15 @@
+-- Migration: Add price guard settings
+-- Date: 2026-10-19
+-- Description: Add the settings used by the stale-price circuit breaker
+--              price_max_age_seconds: halt trading when the last price tick is older than this
+--              price_max_deviation_pct: halt trading when the price jumps this far from the recent median
+
+USE bittrade;
+
+INSERT INTO settings (`key`, value) VALUES
+('price_max_age_seconds', 120),
+('price_max_deviation_pct', 10)
+ON DUPLICATE KEY UPDATE value = VALUES(value);
+
+-- Verify the settings
+SELECT `key`, value FROM settings WHERE `key` IN ('price_max_age_seconds', 'price_max_deviation_pct');
@@ -0,0 +1,17 @@
+-- Migration: Add limit order liquidity settings
+-- Date: 2026-10-19
+-- Description: Add per-tick liquidity caps for limit order matching (in satoshis, 0 = unlimited)
+--              Orders larger than the remaining liquidity fill in pieces recorded as child operations via parent_id
+
+USE bittrade;
+
+INSERT INTO settings (`key`, value) VALUES
+('limit_buy_liquidity_sats', 0),
+('limit_sell_liquidity_sats', 0)
+ON DUPLICATE KEY UPDATE value = VALUES(value);
+
+-- Speed up fill lookups for partially filled orders
+CREATE INDEX idx_operations_parent_type ON operations(parent_id, type, status);
+
+-- Verify the settings
+SELECT `key`, value FROM settings WHERE `key` IN ('limit_buy_liquidity_sats', 'limit_sell_liquidity_sats');
@@ -0,0 +1,28 @@
+-- Migration: Add stop-loss, stop-buy and trailing-stop order types
+-- Date: 2026-10-19
+-- Description: Add STOP_LOSS_SELL, STOP_BUY, TRAILING_STOP_SELL and TRAILING_STOP_BUY operation types
+--              and the trail_percent column used by trailing stops
+
+USE bittrade;
+
+-- Add stop order types to the operations table
+ALTER TABLE operations MODIFY type ENUM(
+  'MARKET_BUY', 'MARKET_SELL', 
+  'LIMIT_BUY', 'LIMIT_SELL', 
+  'STOP_LOSS_SELL', 'STOP_BUY', 'TRAILING_STOP_SELL', 'TRAILING_STOP_BUY',
+  'DCA_BUY', 'DCA_SELL', 
+  'LOAN_CREATE', 'LOAN_BORROW', 'LOAN_REPAY', 'LOAN_ADD_COLLATERAL', 'LIQUIDATION', 
+  'PARTIAL_LIQUIDATION', 'FULL_LIQUIDATION',
+  'INTEREST_ACCRUAL',
+  'DEPOSIT_INR', 'WITHDRAW_INR', 'DEPOSIT_BTC', 'WITHDRAW_BTC'
+) NOT NULL;
+
+-- Trailing distance in percent; limit_price holds the current stop price and is ratcheted by the execution service
+ALTER TABLE operations ADD COLUMN trail_percent DECIMAL(5,2) NULL AFTER limit_price;
+
+-- Verify the changes
+SELECT COLUMN_NAME, COLUMN_TYPE 
+FROM INFORMATION_SCHEMA.COLUMNS 
+WHERE TABLE_SCHEMA = 'bittrade' 
+AND TABLE_NAME = 'operations' 
+AND COLUMN_NAME IN ('type', 'trail_percent');
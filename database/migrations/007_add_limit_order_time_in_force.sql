@@ -0,0 +1,18 @@
+-- Migration: Add time-in-force to limit orders
+-- Date: 2026-10-19
+-- Description: Add time_in_force column (GTC, GTD, IOC, FOK) for limit orders
+
+USE bittrade;
+
+-- NULL for operations that are not limit orders
+ALTER TABLE operations ADD COLUMN time_in_force ENUM('GTC', 'GTD', 'IOC', 'FOK') NULL AFTER trail_percent;
+
+-- Existing limit orders were all placed with a 24-hour expiry
+UPDATE operations SET time_in_force = 'GTD' WHERE type IN ('LIMIT_BUY', 'LIMIT_SELL') AND expires_at IS NOT NULL;
+
+-- Verify the changes
+SELECT COLUMN_NAME, COLUMN_TYPE 
+FROM INFORMATION_SCHEMA.COLUMNS 
+WHERE TABLE_SCHEMA = 'bittrade' 
+AND TABLE_NAME = 'operations' 
+AND COLUMN_NAME = 'time_in_force';
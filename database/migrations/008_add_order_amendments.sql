@@ -0,0 +1,33 @@
+-- Migration: Add order amendment history
+-- Date: 2026-10-19
+-- Description: Add order_amendments table recording price, size and expiry changes to pending limit orders
+
+USE bittrade;
+
+CREATE TABLE order_amendments (
+  id INT PRIMARY KEY AUTO_INCREMENT,
+  operation_id INT NOT NULL,
+  user_id INT NOT NULL,
+  
+  -- Order values before and after the amendment
+  old_limit_price INT NOT NULL,
+  new_limit_price INT NOT NULL,
+  old_inr_amount INT NOT NULL,                 -- Order size (buy) or estimate (sell) in rupees
+  new_inr_amount INT NOT NULL,
+  old_btc_amount BIGINT NOT NULL,              -- Order size (sell) or estimate (buy) in satoshis
+  new_btc_amount BIGINT NOT NULL,
+  old_expires_at TIMESTAMP NULL,
+  new_expires_at TIMESTAMP NULL,
+  
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  
+  FOREIGN KEY (operation_id) REFERENCES operations(id) ON DELETE CASCADE,
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+  INDEX idx_order_amendments_operation (operation_id, created_at)
+);
+
+-- Verify the changes
+SELECT TABLE_NAME 
+FROM INFORMATION_SCHEMA.TABLES 
+WHERE TABLE_SCHEMA = 'bittrade' 
+AND TABLE_NAME = 'order_amendments';
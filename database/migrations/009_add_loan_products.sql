@@ -0,0 +1,52 @@
+-- Migration: Add loan products
+-- Date: 2026-10-19
+-- Description: Add admin-managed loan products and copy each product's terms onto the loans opened with it
+
+USE bittrade;
+
+CREATE TABLE loan_products (
+  id INT PRIMARY KEY AUTO_INCREMENT,
+  name VARCHAR(100) NOT NULL,
+  description VARCHAR(255),
+  
+  -- Terms copied onto every loan opened with this product
+  max_ltv DECIMAL(5,2) NOT NULL,               -- Borrowing limit, e.g. 60.00 for 60%
+  liquidation_ltv DECIMAL(5,2) NOT NULL,       -- LTV that triggers liquidation
+  interest_rate DECIMAL(5,2) NOT NULL,         -- Annual interest rate
+  min_interest_days INT NOT NULL DEFAULT 30,   -- Interest charged for at least this many days
+  term_days INT,                               -- Fixed term in days, NULL for open-ended
+  
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,     -- Inactive products cannot be chosen for new loans
+  
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+  
+  INDEX idx_loan_products_active (is_active)
+);
+
+-- Default product matching the terms loans had before products existed
+INSERT INTO loan_products (name, description, max_ltv, liquidation_ltv, interest_rate, min_interest_days, term_days)
+SELECT 'Standard', 'Open-ended loan at 60% LTV', 60.00, 90.00,
+  COALESCE((SELECT value FROM settings WHERE `key` = 'loan_interest_rate'), 15), 30, NULL;
+
+ALTER TABLE loans
+  ADD COLUMN product_id INT NULL AFTER user_id,
+  ADD COLUMN liquidation_ltv DECIMAL(5,2) NOT NULL DEFAULT 90.00 AFTER interest_rate,
+  ADD COLUMN min_interest_days INT NOT NULL DEFAULT 30 AFTER liquidation_ltv,
+  ADD COLUMN term_days INT NULL AFTER min_interest_days,
+  ADD CONSTRAINT fk_loans_product FOREIGN KEY (product_id) REFERENCES loan_products(id);
+
+-- Existing loans were opened on the standard terms
+UPDATE loans SET product_id = (SELECT id FROM loan_products WHERE name = 'Standard' ORDER BY id LIMIT 1);
+
+-- Verify the changes
+SELECT TABLE_NAME 
+FROM INFORMATION_SCHEMA.TABLES 
+WHERE TABLE_SCHEMA = 'bittrade' 
+AND TABLE_NAME = 'loan_products';
+
+SELECT COLUMN_NAME, COLUMN_TYPE 
+FROM INFORMATION_SCHEMA.COLUMNS 
+WHERE TABLE_SCHEMA = 'bittrade' 
+AND TABLE_NAME = 'loans' 
+AND COLUMN_NAME IN ('product_id', 'liquidation_ltv', 'min_interest_days', 'term_days');
@@ -0,0 +1,22 @@
+-- Migration: Add loan maturity
+-- Date: 2026-10-19
+-- Description: Track the maturity date of fixed-term loans and which maturity reminder was last sent
+
+USE bittrade;
+
+ALTER TABLE loans
+  ADD COLUMN maturity_date TIMESTAMP NULL AFTER term_days,
+  ADD COLUMN maturity_reminder_days INT NULL AFTER maturity_date,
+  ADD INDEX idx_loans_maturity (status, maturity_date);
+
+-- Fixed-term loans opened before this migration mature term_days after they were opened
+UPDATE loans
+SET maturity_date = DATE_ADD(created_at, INTERVAL term_days DAY)
+WHERE term_days IS NOT NULL AND maturity_date IS NULL;
+
+-- Verify the changes
+SELECT COLUMN_NAME, COLUMN_TYPE 
+FROM INFORMATION_SCHEMA.COLUMNS 
+WHERE TABLE_SCHEMA = 'bittrade' 
+AND TABLE_NAME = 'loans' 
+AND COLUMN_NAME IN ('maturity_date', 'maturity_reminder_days');
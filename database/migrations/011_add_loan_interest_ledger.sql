@@ -0,0 +1,74 @@
+-- Migration: Add loan interest ledger
+-- Date: 2026-10-19
+-- Description: Track principal, outstanding interest and paid interest per loan in paisa, with configurable compounding
+
+USE bittrade;
+
+ALTER TABLE loan_products
+  ADD COLUMN compounding ENUM('SIMPLE', 'DAILY', 'MONTHLY') NOT NULL DEFAULT 'SIMPLE' AFTER interest_rate;
+
+ALTER TABLE loans
+  ADD COLUMN compounding ENUM('SIMPLE', 'DAILY', 'MONTHLY') NOT NULL DEFAULT 'SIMPLE' AFTER interest_rate,
+  ADD COLUMN principal_paisa BIGINT NOT NULL DEFAULT 0 AFTER inr_borrowed_amount,
+  ADD COLUMN interest_outstanding_paisa BIGINT NOT NULL DEFAULT 0 AFTER principal_paisa,
+  ADD COLUMN interest_paid_paisa BIGINT NOT NULL DEFAULT 0 AFTER interest_outstanding_paisa,
+  ADD COLUMN compounded_interest_paisa BIGINT NOT NULL DEFAULT 0 AFTER interest_paid_paisa,
+  ADD COLUMN interest_accrued_through DATE NULL AFTER compounded_interest_paisa;
+
+CREATE TABLE loan_ledger_entries (
+  id INT PRIMARY KEY AUTO_INCREMENT,
+  loan_id INT NOT NULL,
+  user_id INT NOT NULL,
+  entry_type ENUM('BORROW', 'INTEREST', 'MINIMUM_INTEREST', 'REPAYMENT', 'LIQUIDATION') NOT NULL,
+  
+  -- Signed changes and the balances after the entry (paisa)
+  principal_paisa BIGINT NOT NULL DEFAULT 0,
+  interest_paisa BIGINT NOT NULL DEFAULT 0,
+  principal_balance_paisa BIGINT NOT NULL,
+  interest_balance_paisa BIGINT NOT NULL,
+  
+  accrual_date DATE,                           -- Day the interest was accrued for
+  operation_id INT,                            -- Operation that caused the entry
+  notes VARCHAR(255),
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  
+  FOREIGN KEY (loan_id) REFERENCES loans(id) ON DELETE CASCADE,
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+  INDEX idx_loan_ledger_loan (loan_id, id)
+);
+
+-- Opening balances: the balance above the amount borrowed is interest, and interest
+-- already paid cannot be recovered from the rupee totals
+UPDATE loans l
+LEFT JOIN (
+  SELECT loan_id, SUM(inr_amount) AS total_borrowed
+  FROM operations
+  WHERE type = 'LOAN_BORROW' AND loan_id IS NOT NULL
+  GROUP BY loan_id
+) b ON b.loan_id = l.id
+SET l.principal_paisa = LEAST(l.inr_borrowed_amount, COALESCE(b.total_borrowed, 0)) * 100,
+    l.interest_outstanding_paisa = GREATEST(0, l.inr_borrowed_amount - COALESCE(b.total_borrowed, 0)) * 100;
+
+-- Accruals are dated by IST day while executed_at is stored in UTC
+UPDATE loans l
+SET l.interest_accrued_through = (
+  SELECT DATE(CONVERT_TZ(MAX(o.executed_at), '+00:00', '+05:30')) FROM operations o
+  WHERE o.loan_id = l.id AND o.type = 'INTEREST_ACCRUAL'
+);
+
+INSERT INTO loan_ledger_entries (loan_id, user_id, entry_type, principal_paisa, interest_paisa, principal_balance_paisa, interest_balance_paisa, notes)
+SELECT id, user_id, 'BORROW', principal_paisa, interest_outstanding_paisa, principal_paisa, interest_outstanding_paisa, 'Opening balance'
+FROM loans
+WHERE status = 'ACTIVE' AND (principal_paisa > 0 OR interest_outstanding_paisa > 0);
+
+-- Verify the changes
+SELECT TABLE_NAME 
+FROM INFORMATION_SCHEMA.TABLES 
+WHERE TABLE_SCHEMA = 'bittrade' 
+AND TABLE_NAME = 'loan_ledger_entries';
+
+SELECT COLUMN_NAME, COLUMN_TYPE 
+FROM INFORMATION_SCHEMA.COLUMNS 
+WHERE TABLE_SCHEMA = 'bittrade' 
+AND TABLE_NAME = 'loans' 
+AND COLUMN_NAME IN ('compounding', 'principal_paisa', 'interest_outstanding_paisa', 'interest_paid_paisa', 'compounded_interest_paisa', 'interest_accrued_through');
@@ -0,0 +1,26 @@
+-- Migration: Add interest accrual gaps
+-- Date: 2026-10-19
+-- Description: Record the days of interest the accrual job back-filled after missing its daily run
+
+USE bittrade;
+
+CREATE TABLE IF NOT EXISTS interest_accrual_gaps (
+  id INT PRIMARY KEY AUTO_INCREMENT,
+  loan_id INT NOT NULL,
+  user_id INT NOT NULL,
+  from_date DATE NOT NULL,
+  to_date DATE NOT NULL,
+  days INT NOT NULL,
+  interest_paisa BIGINT NOT NULL DEFAULT 0,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+
+  FOREIGN KEY (loan_id) REFERENCES loans(id) ON DELETE CASCADE,
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+  INDEX idx_interest_accrual_gaps_created (created_at)
+);
+
+-- Verify the changes
+SELECT TABLE_NAME 
+FROM INFORMATION_SCHEMA.TABLES 
+WHERE TABLE_SCHEMA = 'bittrade' 
+AND TABLE_NAME = 'interest_accrual_gaps';
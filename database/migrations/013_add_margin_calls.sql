@@ -0,0 +1,40 @@
+-- Migration: Add margin calls
+-- Date: 2026-10-19
+-- Description: Record margin-call notices sent when a loan's LTV crosses a configured threshold
+
+USE bittrade;
+
+CREATE TABLE IF NOT EXISTS margin_calls (
+  id INT PRIMARY KEY AUTO_INCREMENT,
+  loan_id INT NOT NULL,
+  user_id INT NOT NULL,
+  threshold_ltv DECIMAL(5,2) NOT NULL,
+  current_ltv DECIMAL(6,2) NOT NULL,
+  liquidation_ltv DECIMAL(5,2) NOT NULL,
+  btc_price INT NOT NULL,
+  inr_borrowed_amount INT NOT NULL,
+  delivered_channels VARCHAR(255),
+  read_at TIMESTAMP NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+
+  FOREIGN KEY (loan_id) REFERENCES loans(id) ON DELETE CASCADE,
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+  INDEX idx_margin_calls_loan (loan_id, created_at),
+  INDEX idx_margin_calls_user (user_id, read_at)
+);
+
+-- Margin-call LTV thresholds (0 disables a level) and the minutes before a notice at the same level repeats
+INSERT INTO settings (`key`, value) VALUES
+('margin_call_ltv_1', 75),
+('margin_call_ltv_2', 80),
+('margin_call_ltv_3', 85),
+('margin_call_repeat_minutes', 360)
+ON DUPLICATE KEY UPDATE value = VALUES(value);
+
+-- Verify the changes
+SELECT TABLE_NAME 
+FROM INFORMATION_SCHEMA.TABLES 
+WHERE TABLE_SCHEMA = 'bittrade' 
+AND TABLE_NAME = 'margin_calls';
+
+SELECT `key`, value FROM settings WHERE `key` LIKE 'margin_call_%';
@@ -0,0 +1,16 @@
+-- Migration: Add loan auto top-up
+-- Date: 2026-10-19
+-- Description: Opt-in per-loan setting that moves available BTC into collateral when the LTV crosses a trigger
+
+USE bittrade;
+
+ALTER TABLE loans
+  ADD COLUMN auto_topup_enabled BOOLEAN NOT NULL DEFAULT FALSE AFTER liquidation_price,
+  ADD COLUMN auto_topup_trigger_ltv DECIMAL(5,2) NULL AFTER auto_topup_enabled;
+
+-- Verify the changes
+SELECT COLUMN_NAME, COLUMN_TYPE 
+FROM INFORMATION_SCHEMA.COLUMNS 
+WHERE TABLE_SCHEMA = 'bittrade' 
+AND TABLE_NAME = 'loans' 
+AND COLUMN_NAME IN ('auto_topup_enabled', 'auto_topup_trigger_ltv');
@@ -0,0 +1,53 @@
+-- Migration: Add liquidation events
+-- Date: 2026-10-19
+-- Description: Audit trail of every liquidation with the policy, inputs and outcome, and the liquidation policy settings
+
+USE bittrade;
+
+CREATE TABLE IF NOT EXISTS liquidation_events (
+  id INT PRIMARY KEY AUTO_INCREMENT,
+  loan_id INT NOT NULL,
+  user_id INT NOT NULL,
+  operation_id INT,
+  liquidation_type ENUM('PARTIAL', 'FULL') NOT NULL,
+  btc_price INT NOT NULL,
+  trigger_ltv DECIMAL(5,2) NOT NULL,
+  target_ltv DECIMAL(5,2) NOT NULL,
+  penalty_bps INT NOT NULL,
+  max_btc_per_cycle BIGINT NOT NULL,
+  ltv_before DECIMAL(10,2) NOT NULL,
+  ltv_after DECIMAL(10,2) NOT NULL,
+  collateral_before BIGINT NOT NULL,
+  debt_before INT NOT NULL,
+  btc_sold BIGINT NOT NULL,
+  inr_proceeds INT NOT NULL,
+  debt_repaid INT NOT NULL,
+  principal_paid_paisa BIGINT NOT NULL,
+  interest_paid_paisa BIGINT NOT NULL,
+  penalty_inr INT NOT NULL DEFAULT 0,
+  inr_returned INT NOT NULL DEFAULT 0,
+  collateral_returned BIGINT NOT NULL DEFAULT 0,
+  shortfall_inr INT NOT NULL DEFAULT 0,
+  remaining_debt INT NOT NULL,
+  capped BOOLEAN NOT NULL DEFAULT FALSE,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+
+  FOREIGN KEY (loan_id) REFERENCES loans(id) ON DELETE CASCADE,
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+  FOREIGN KEY (operation_id) REFERENCES operations(id) ON DELETE SET NULL,
+  INDEX idx_liquidation_events_loan (loan_id, created_at)
+);
+
+-- Liquidation penalty on the debt repaid (basis points) and the most collateral sold per loan per cycle (satoshis, 0 = no cap)
+INSERT INTO settings (`key`, value) VALUES
+('liquidation_penalty_bps', 0),
+('liquidation_max_btc_per_cycle', 0)
+ON DUPLICATE KEY UPDATE value = VALUES(value);
+
+-- Verify the changes
+SELECT TABLE_NAME 
+FROM INFORMATION_SCHEMA.TABLES 
+WHERE TABLE_SCHEMA = 'bittrade' 
+AND TABLE_NAME = 'liquidation_events';
+
+SELECT `key`, value FROM settings WHERE `key` LIKE 'liquidation_%';
@@ -0,0 +1,38 @@
+-- Migration: Add insurance fund
+-- Date: 2026-10-19
+-- Description: Platform insurance fund that collects liquidation penalties and absorbs liquidation bad debt
+
+USE bittrade;
+
+CREATE TABLE IF NOT EXISTS insurance_fund (
+  id INT PRIMARY KEY,
+  balance_inr BIGINT NOT NULL DEFAULT 0,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP
+);
+
+INSERT IGNORE INTO insurance_fund (id, balance_inr) VALUES (1, 0);
+
+CREATE TABLE IF NOT EXISTS insurance_fund_entries (
+  id INT PRIMARY KEY AUTO_INCREMENT,
+  entry_type ENUM('PENALTY', 'BAD_DEBT') NOT NULL,
+  amount_inr INT NOT NULL,
+  balance_after BIGINT NOT NULL,
+  loan_id INT,
+  user_id INT,
+  liquidation_event_id INT,
+  notes TEXT,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+
+  FOREIGN KEY (loan_id) REFERENCES loans(id) ON DELETE SET NULL,
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE SET NULL,
+  FOREIGN KEY (liquidation_event_id) REFERENCES liquidation_events(id) ON DELETE SET NULL,
+  INDEX idx_insurance_fund_entries_created (created_at)
+);
+
+-- Verify the changes
+SELECT TABLE_NAME 
+FROM INFORMATION_SCHEMA.TABLES 
+WHERE TABLE_SCHEMA = 'bittrade' 
+AND TABLE_NAME IN ('insurance_fund', 'insurance_fund_entries');
+
+SELECT * FROM insurance_fund;
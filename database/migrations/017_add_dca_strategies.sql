@@ -0,0 +1,20 @@
+-- Migration: Add DCA strategies
+-- Date: 2026-10-19
+-- Description: Value-averaging and dip-multiplier strategies for DCA buy plans
+
+USE bittrade;
+
+ALTER TABLE active_plans
+  ADD COLUMN strategy ENUM('FIXED', 'VALUE_AVERAGING', 'DIP_MULTIPLIER') NOT NULL DEFAULT 'FIXED' AFTER amount_per_execution,
+  ADD COLUMN va_target_growth INT NULL AFTER strategy,
+  ADD COLUMN va_max_amount INT NULL AFTER va_target_growth,
+  ADD COLUMN dip_threshold_pct DECIMAL(5,2) NULL AFTER va_max_amount,
+  ADD COLUMN dip_multiplier DECIMAL(4,2) NULL AFTER dip_threshold_pct,
+  ADD COLUMN dip_ma_days INT NULL AFTER dip_multiplier;
+
+-- Verify the changes
+SELECT COLUMN_NAME, COLUMN_TYPE 
+FROM INFORMATION_SCHEMA.COLUMNS 
+WHERE TABLE_SCHEMA = 'bittrade' 
+AND TABLE_NAME = 'active_plans'
+AND COLUMN_NAME IN ('strategy', 'va_target_growth', 'va_max_amount', 'dip_threshold_pct', 'dip_multiplier', 'dip_ma_days');
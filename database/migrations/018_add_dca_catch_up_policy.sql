@@ -0,0 +1,15 @@
+-- Migration: Add DCA catch-up policy
+-- Date: 2026-10-19
+-- Description: Per-plan policy for DCA executions missed while the service was down
+
+USE bittrade;
+
+ALTER TABLE active_plans
+  ADD COLUMN catch_up_policy ENUM('SKIP', 'ONCE', 'ALL') NOT NULL DEFAULT 'ONCE' AFTER min_price;
+
+-- Verify the changes
+SELECT COLUMN_NAME, COLUMN_TYPE, COLUMN_DEFAULT 
+FROM INFORMATION_SCHEMA.COLUMNS 
+WHERE TABLE_SCHEMA = 'bittrade' 
+AND TABLE_NAME = 'active_plans'
+AND COLUMN_NAME = 'catch_up_policy';
@@ -0,0 +1,16 @@
+-- Migration: Add custom DCA schedules
+-- Date: 2026-10-19
+-- Description: CUSTOM frequency with a schedule rule (weekdays, days of the month or cron, evaluated in IST)
+
+USE bittrade;
+
+ALTER TABLE active_plans
+  MODIFY COLUMN frequency ENUM('HOURLY', 'DAILY', 'WEEKLY', 'MONTHLY', 'CUSTOM') NOT NULL,
+  ADD COLUMN schedule JSON NULL AFTER frequency;
+
+-- Verify the changes
+SELECT COLUMN_NAME, COLUMN_TYPE 
+FROM INFORMATION_SCHEMA.COLUMNS 
+WHERE TABLE_SCHEMA = 'bittrade' 
+AND TABLE_NAME = 'active_plans'
+AND COLUMN_NAME IN ('frequency', 'schedule');
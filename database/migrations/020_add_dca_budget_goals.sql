@@ -0,0 +1,21 @@
+-- Migration: Add DCA budget caps and goals
+-- Date: 2026-10-19
+-- Description: Spending caps, accumulation goals and end dates as DCA plan completion conditions
+
+USE bittrade;
+
+ALTER TABLE active_plans
+  ADD COLUMN budget_limit BIGINT NULL AFTER remaining_executions,
+  ADD COLUMN goal_amount BIGINT NULL AFTER budget_limit,
+  ADD COLUMN end_date TIMESTAMP NULL AFTER goal_amount,
+  ADD COLUMN completion_reason ENUM('EXECUTIONS', 'BUDGET', 'GOAL', 'END_DATE') NULL AFTER completed_at;
+
+-- Plans completed before this migration ran out of executions
+UPDATE active_plans SET completion_reason = 'EXECUTIONS' WHERE status = 'COMPLETED' AND completion_reason IS NULL;
+
+-- Verify the changes
+SELECT COLUMN_NAME, COLUMN_TYPE 
+FROM INFORMATION_SCHEMA.COLUMNS 
+WHERE TABLE_SCHEMA = 'bittrade' 
+AND TABLE_NAME = 'active_plans'
+AND COLUMN_NAME IN ('budget_limit', 'goal_amount', 'end_date', 'completion_reason');
@@ -0,0 +1,39 @@
+-- Migration: Add DCA plan change history
+-- Date: 2026-10-19
+-- Description: Add dca_plan_changes table recording edits to a DCA plan's amount, frequency, price bounds and remaining executions
+
+USE bittrade;
+
+CREATE TABLE dca_plan_changes (
+  id INT PRIMARY KEY AUTO_INCREMENT,
+  plan_id INT NOT NULL,
+  user_id INT NOT NULL,
+  
+  -- Plan values before and after the edit
+  old_amount_per_execution INT NOT NULL,       -- Rupees for buy plans, satoshis for sell plans
+  new_amount_per_execution INT NOT NULL,
+  old_frequency ENUM('HOURLY', 'DAILY', 'WEEKLY', 'MONTHLY', 'CUSTOM') NOT NULL,
+  new_frequency ENUM('HOURLY', 'DAILY', 'WEEKLY', 'MONTHLY', 'CUSTOM') NOT NULL,
+  old_schedule JSON,
+  new_schedule JSON,
+  old_max_price INT,
+  new_max_price INT,
+  old_min_price INT,
+  new_min_price INT,
+  old_remaining_executions INT,                -- NULL for unlimited
+  new_remaining_executions INT,
+  old_next_execution_at TIMESTAMP NULL,
+  new_next_execution_at TIMESTAMP NULL,
+  
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  
+  FOREIGN KEY (plan_id) REFERENCES active_plans(id) ON DELETE CASCADE,
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+  INDEX idx_dca_plan_changes_plan (plan_id, created_at)
+);
+
+-- Verify the changes
+SELECT TABLE_NAME 
+FROM INFORMATION_SCHEMA.TABLES 
+WHERE TABLE_SCHEMA = 'bittrade' 
+AND TABLE_NAME = 'dca_plan_changes';
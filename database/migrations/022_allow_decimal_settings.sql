@@ -0,0 +1,14 @@
+-- Migration: Allow decimal settings
+-- Date: 2026-10-19
+-- Description: Store settings values as DECIMAL so fractional settings such as price_max_deviation_pct = 2.5 are kept
+
+USE bittrade;
+
+ALTER TABLE settings MODIFY COLUMN value DECIMAL(20,4) NOT NULL;
+
+-- Verify the changes
+SELECT COLUMN_NAME, COLUMN_TYPE 
+FROM INFORMATION_SCHEMA.COLUMNS 
+WHERE TABLE_SCHEMA = 'bittrade' 
+AND TABLE_NAME = 'settings'
+AND COLUMN_NAME = 'value';
@@ -0,0 +1,25 @@
+-- Migration: Add OCO order link
+-- Date: 2026-10-19
+-- Description: Link the two legs of an OCO bracket through a dedicated oco_order_id column instead of parent_id,
+--              which stays reserved for split fills and DCA installments
+
+USE bittrade;
+
+ALTER TABLE operations
+ADD COLUMN oco_order_id INT NULL AFTER parent_id,
+ADD CONSTRAINT fk_operations_oco_order FOREIGN KEY (oco_order_id) REFERENCES operations(id) ON DELETE SET NULL;
+
+-- Existing brackets: the STOP_LOSS_SELL leg pointed at its LIMIT_SELL take-profit leg through parent_id
+UPDATE operations stop_leg
+JOIN operations target_leg ON target_leg.id = stop_leg.parent_id AND target_leg.type = 'LIMIT_SELL'
+SET stop_leg.oco_order_id = target_leg.id,
+    target_leg.oco_order_id = stop_leg.id,
+    stop_leg.parent_id = NULL
+WHERE stop_leg.type = 'STOP_LOSS_SELL';
+
+-- Verify the new column
+SELECT COLUMN_NAME, COLUMN_TYPE 
+FROM INFORMATION_SCHEMA.COLUMNS 
+WHERE TABLE_SCHEMA = 'bittrade' 
+AND TABLE_NAME = 'operations' 
+AND COLUMN_NAME = 'oco_order_id';
@@ -0,0 +1,37 @@
+-- Migration: Add maturity reminders and liquidation sources
+-- Date: 2026-10-19
+-- Description: Record loan maturity reminders like margin calls, and record what started each liquidation
+--              so maturity settlements appear in the liquidation audit trail
+
+USE bittrade;
+
+CREATE TABLE IF NOT EXISTS maturity_reminders (
+  id INT PRIMARY KEY AUTO_INCREMENT,
+  loan_id INT NOT NULL,
+  user_id INT NOT NULL,
+  reminder_days INT NOT NULL,
+  maturity_date TIMESTAMP NOT NULL,
+  settlement_date TIMESTAMP NOT NULL,
+  inr_borrowed_amount INT NOT NULL,
+  delivered_channels VARCHAR(255),
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+
+  FOREIGN KEY (loan_id) REFERENCES loans(id) ON DELETE CASCADE,
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+  INDEX idx_maturity_reminders_loan (loan_id, created_at)
+);
+
+ALTER TABLE liquidation_events
+ADD COLUMN source ENUM('LTV', 'MATURITY', 'USER') NOT NULL DEFAULT 'LTV' AFTER liquidation_type;
+
+-- Verify the changes
+SELECT TABLE_NAME 
+FROM INFORMATION_SCHEMA.TABLES 
+WHERE TABLE_SCHEMA = 'bittrade' 
+AND TABLE_NAME = 'maturity_reminders';
+
+SELECT COLUMN_NAME, COLUMN_TYPE 
+FROM INFORMATION_SCHEMA.COLUMNS 
+WHERE TABLE_SCHEMA = 'bittrade' 
+AND TABLE_NAME = 'liquidation_events' 
+AND COLUMN_NAME = 'source';
@@ -36,6 +36,7 @@ CREATE TABLE operations (
   type ENUM(
     'MARKET_BUY', 'MARKET_SELL', 
     'LIMIT_BUY', 'LIMIT_SELL', 
+    'STOP_LOSS_SELL', 'STOP_BUY', 'TRAILING_STOP_SELL', 'TRAILING_STOP_BUY',
     'DCA_BUY', 'DCA_SELL', 
     'LOAN_CREATE', 'LOAN_BORROW', 'LOAN_REPAY', 'LOAN_ADD_COLLATERAL', 'LIQUIDATION', 
     'PARTIAL_LIQUIDATION', 'FULL_LIQUIDATION',
@@ -48,10 +49,13 @@ CREATE TABLE operations (
   btc_amount BIGINT NOT NULL DEFAULT 0,  -- BTC amount in satoshis
   inr_amount INT NOT NULL DEFAULT 0,     -- INR amount in rupees
   execution_price INT,                   -- Actual execution price (INR per BTC)
-  limit_price INT,                       -- Target price for limit orders (INR per BTC)
+  limit_price INT,                       -- Target price for limit orders, trigger price for stop orders (INR per BTC)
+  trail_percent DECIMAL(5,2),            -- Trailing distance for trailing stop orders
+  time_in_force ENUM('GTC', 'GTD', 'IOC', 'FOK'), -- Limit order time-in-force
   
   -- Relationships
   parent_id INT,                         -- For DCA installments or related operations
+  oco_order_id INT,                      -- Other leg of an OCO bracket
   loan_id INT,                          -- Reference to loan for loan operations
   
   -- Scheduling
@@ -68,6 +72,7 @@ CREATE TABLE operations (
   
   FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
   FOREIGN KEY (parent_id) REFERENCES operations(id) ON DELETE SET NULL,
+  FOREIGN KEY (oco_order_id) REFERENCES operations(id) ON DELETE SET NULL,
   INDEX idx_user_operations (user_id, created_at DESC),
   INDEX idx_status_scheduled (status, scheduled_at),
   INDEX idx_type_status (type, status),
@@ -75,6 +80,29 @@ CREATE TABLE operations (
   INDEX idx_operations_created_at (created_at DESC)
 );
 
+-- Order Amendments table (History of in-place changes to pending limit orders)
+CREATE TABLE order_amendments (
+  id INT PRIMARY KEY AUTO_INCREMENT,
+  operation_id INT NOT NULL,
+  user_id INT NOT NULL,
+  
+  -- Order values before and after the amendment
+  old_limit_price INT NOT NULL,
+  new_limit_price INT NOT NULL,
+  old_inr_amount INT NOT NULL,                 -- Order size (buy) or estimate (sell) in rupees
+  new_inr_amount INT NOT NULL,
+  old_btc_amount BIGINT NOT NULL,              -- Order size (sell) or estimate (buy) in satoshis
+  new_btc_amount BIGINT NOT NULL,
+  old_expires_at TIMESTAMP NULL,
+  new_expires_at TIMESTAMP NULL,
+  
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  
+  FOREIGN KEY (operation_id) REFERENCES operations(id) ON DELETE CASCADE,
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+  INDEX idx_order_amendments_operation (operation_id, created_at)
+);
+
 -- Active Plans table (For recurring operations like DCA)
 CREATE TABLE active_plans (
   id INT PRIMARY KEY AUTO_INCREMENT,
@@ -83,36 +111,115 @@ CREATE TABLE active_plans (
   status ENUM('ACTIVE', 'PAUSED', 'COMPLETED', 'CANCELLED') NOT NULL DEFAULT 'ACTIVE',
   
   -- Plan configuration
-  frequency ENUM('HOURLY', 'DAILY', 'WEEKLY', 'MONTHLY') NOT NULL,
+  frequency ENUM('HOURLY', 'DAILY', 'WEEKLY', 'MONTHLY', 'CUSTOM') NOT NULL,
+  schedule JSON,                         -- CUSTOM rule: WEEKDAYS, MONTH_DAYS or CRON, evaluated in IST
   amount_per_execution INT NOT NULL,     -- INR amount per execution (rupees)
+  strategy ENUM('FIXED', 'VALUE_AVERAGING', 'DIP_MULTIPLIER') NOT NULL DEFAULT 'FIXED',
+  va_target_growth INT,                  -- Value averaging: target value added per execution (rupees)
+  va_max_amount INT,                     -- Value averaging: most one execution may spend (rupees)
+  dip_threshold_pct DECIMAL(5,2),        -- Dip multiplier: % below the moving average that counts as a dip
+  dip_multiplier DECIMAL(4,2),           -- Dip multiplier: amount multiplier applied on a dip
+  dip_ma_days INT,                       -- Dip multiplier: moving average window (7, 30, 90 or 365 days)
   next_execution_at TIMESTAMP NOT NULL,
   
   -- Execution tracking
   total_executions INT DEFAULT 0,
   remaining_executions INT,              -- NULL for unlimited
+  budget_limit BIGINT,                   -- Most the plan may spend: rupees for buy plans, satoshis for sell plans
+  goal_amount BIGINT,                    -- Completes once acquired: satoshis for buy plans, rupees for sell plans
+  end_date TIMESTAMP NULL,               -- Completes at the first execution after this time
   max_price INT,                        -- Max price per BTC (optional)
   min_price INT,                        -- Min price per BTC (optional)
+  catch_up_policy ENUM('SKIP', 'ONCE', 'ALL') NOT NULL DEFAULT 'ONCE', -- Executions missed while the service was down
   
   created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
   completed_at TIMESTAMP,
+  completion_reason ENUM('EXECUTIONS', 'BUDGET', 'GOAL', 'END_DATE'),
   
   FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
   INDEX idx_active_plans_execution (status, next_execution_at)
 );
 
+-- DCA Plan Changes table (History of edits to DCA plans)
+CREATE TABLE dca_plan_changes (
+  id INT PRIMARY KEY AUTO_INCREMENT,
+  plan_id INT NOT NULL,
+  user_id INT NOT NULL,
+  
+  -- Plan values before and after the edit
+  old_amount_per_execution INT NOT NULL,       -- Rupees for buy plans, satoshis for sell plans
+  new_amount_per_execution INT NOT NULL,
+  old_frequency ENUM('HOURLY', 'DAILY', 'WEEKLY', 'MONTHLY', 'CUSTOM') NOT NULL,
+  new_frequency ENUM('HOURLY', 'DAILY', 'WEEKLY', 'MONTHLY', 'CUSTOM') NOT NULL,
+  old_schedule JSON,
+  new_schedule JSON,
+  old_max_price INT,
+  new_max_price INT,
+  old_min_price INT,
+  new_min_price INT,
+  old_remaining_executions INT,                -- NULL for unlimited
+  new_remaining_executions INT,
+  old_next_execution_at TIMESTAMP NULL,
+  new_next_execution_at TIMESTAMP NULL,
+  
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  
+  FOREIGN KEY (plan_id) REFERENCES active_plans(id) ON DELETE CASCADE,
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+  INDEX idx_dca_plan_changes_plan (plan_id, created_at)
+);
+
+-- Loan Products table (Admin-managed loan terms; copied onto each loan when it is opened)
+CREATE TABLE loan_products (
+  id INT PRIMARY KEY AUTO_INCREMENT,
+  name VARCHAR(100) NOT NULL,
+  description VARCHAR(255),
+  
+  -- Terms copied onto every loan opened with this product
+  max_ltv DECIMAL(5,2) NOT NULL,               -- Borrowing limit, e.g. 60.00 for 60%
+  liquidation_ltv DECIMAL(5,2) NOT NULL,       -- LTV that triggers liquidation
+  interest_rate DECIMAL(5,2) NOT NULL,         -- Annual interest rate
+  compounding ENUM('SIMPLE', 'DAILY', 'MONTHLY') NOT NULL DEFAULT 'SIMPLE', -- When accrued interest starts bearing interest
+  min_interest_days INT NOT NULL DEFAULT 30,   -- Interest charged for at least this many days
+  term_days INT,                               -- Fixed term in days, NULL for open-ended
+  
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,     -- Inactive products cannot be chosen for new loans
+  
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+  
+  INDEX idx_loan_products_active (is_active)
+);
+
 -- Loans table (Overcollateralized loan management)
 CREATE TABLE loans (
   id INT PRIMARY KEY AUTO_INCREMENT,
   user_id INT NOT NULL,
+  product_id INT,                               -- Loan product the terms came from
   
   -- Loan amounts
   btc_collateral_amount BIGINT NOT NULL,        -- BTC locked as collateral (satoshis)
-  inr_borrowed_amount INT NOT NULL,             -- INR borrowed (rupees)
+  inr_borrowed_amount INT NOT NULL,             -- INR owed: principal plus outstanding interest (rupees)
+  
+  -- Interest ledger balances (paisa)
+  principal_paisa BIGINT NOT NULL DEFAULT 0,
+  interest_outstanding_paisa BIGINT NOT NULL DEFAULT 0,
+  interest_paid_paisa BIGINT NOT NULL DEFAULT 0,
+  compounded_interest_paisa BIGINT NOT NULL DEFAULT 0, -- Outstanding interest that bears interest
+  interest_accrued_through DATE,               -- Last day interest was accrued for
   ltv_ratio DECIMAL(5,2) NOT NULL,             -- e.g., 60.00 for 60% LTV
   interest_rate DECIMAL(5,2) NOT NULL,         -- Annual interest rate
+  compounding ENUM('SIMPLE', 'DAILY', 'MONTHLY') NOT NULL DEFAULT 'SIMPLE',
+  liquidation_ltv DECIMAL(5,2) NOT NULL DEFAULT 90.00, -- LTV that triggers liquidation
+  min_interest_days INT NOT NULL DEFAULT 30,   -- Interest charged for at least this many days
+  term_days INT,                               -- Fixed term in days, NULL for open-ended
+  maturity_date TIMESTAMP NULL,                -- When a fixed-term loan falls due
+  maturity_reminder_days INT,                  -- Days-before-maturity of the last reminder sent
   
   -- Risk management
   liquidation_price DECIMAL(10,2),             -- BTC price triggering liquidation
+  auto_topup_enabled BOOLEAN NOT NULL DEFAULT FALSE, -- Move available BTC into collateral at the trigger
+  auto_topup_trigger_ltv DECIMAL(5,2),         -- LTV that triggers an automatic top-up
   
   status ENUM('ACTIVE', 'REPAID', 'LIQUIDATED') NOT NULL DEFAULT 'ACTIVE',
   
@@ -121,10 +228,153 @@ CREATE TABLE loans (
   liquidated_at TIMESTAMP,
   
   FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+  FOREIGN KEY (product_id) REFERENCES loan_products(id),
   INDEX idx_loans_status (status),
   INDEX idx_loans_user (user_id),
   INDEX idx_loans_liquidation (status, liquidation_price),
-  INDEX idx_loans_ltv_ratio (ltv_ratio)
+  INDEX idx_loans_ltv_ratio (ltv_ratio),
+  INDEX idx_loans_maturity (status, maturity_date)
+);
+
+-- Loan ledger entries (Principal and interest movements per loan, in paisa)
+CREATE TABLE loan_ledger_entries (
+  id INT PRIMARY KEY AUTO_INCREMENT,
+  loan_id INT NOT NULL,
+  user_id INT NOT NULL,
+  entry_type ENUM('BORROW', 'INTEREST', 'MINIMUM_INTEREST', 'REPAYMENT', 'LIQUIDATION') NOT NULL,
+  
+  -- Signed changes and the balances after the entry (paisa)
+  principal_paisa BIGINT NOT NULL DEFAULT 0,
+  interest_paisa BIGINT NOT NULL DEFAULT 0,
+  principal_balance_paisa BIGINT NOT NULL,
+  interest_balance_paisa BIGINT NOT NULL,
+  
+  accrual_date DATE,                           -- Day the interest was accrued for
+  operation_id INT,                            -- Operation that caused the entry
+  notes VARCHAR(255),
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  
+  FOREIGN KEY (loan_id) REFERENCES loans(id) ON DELETE CASCADE,
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+  INDEX idx_loan_ledger_loan (loan_id, id)
+);
+
+-- Interest accrual gaps (Days back-filled after a missed daily accrual run)
+CREATE TABLE interest_accrual_gaps (
+  id INT PRIMARY KEY AUTO_INCREMENT,
+  loan_id INT NOT NULL,
+  user_id INT NOT NULL,
+  from_date DATE NOT NULL,                     -- First missed day
+  to_date DATE NOT NULL,                       -- Last missed day
+  days INT NOT NULL,
+  interest_paisa BIGINT NOT NULL DEFAULT 0,    -- Interest back-filled for the gap
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  
+  FOREIGN KEY (loan_id) REFERENCES loans(id) ON DELETE CASCADE,
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+  INDEX idx_interest_accrual_gaps_created (created_at)
+);
+
+-- Margin calls (Notices sent when a loan's LTV crosses a margin-call threshold)
+CREATE TABLE margin_calls (
+  id INT PRIMARY KEY AUTO_INCREMENT,
+  loan_id INT NOT NULL,
+  user_id INT NOT NULL,
+  threshold_ltv DECIMAL(5,2) NOT NULL,         -- Threshold that was crossed
+  current_ltv DECIMAL(6,2) NOT NULL,
+  liquidation_ltv DECIMAL(5,2) NOT NULL,
+  btc_price INT NOT NULL,                      -- BTC sell rate (INR) the LTV was computed at
+  inr_borrowed_amount INT NOT NULL,
+  delivered_channels VARCHAR(255),             -- Comma-separated channels that accepted the notice
+  read_at TIMESTAMP NULL,                      -- Set when the user dismisses the in-app notice
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  
+  FOREIGN KEY (loan_id) REFERENCES loans(id) ON DELETE CASCADE,
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+  INDEX idx_margin_calls_loan (loan_id, created_at),
+  INDEX idx_margin_calls_user (user_id, read_at)
+);
+
+-- Maturity reminders (Notices sent before and at a fixed-term loan's maturity)
+CREATE TABLE maturity_reminders (
+  id INT PRIMARY KEY AUTO_INCREMENT,
+  loan_id INT NOT NULL,
+  user_id INT NOT NULL,
+  reminder_days INT NOT NULL,                  -- Days before maturity; 0 once the loan has matured
+  maturity_date TIMESTAMP NOT NULL,
+  settlement_date TIMESTAMP NOT NULL,          -- When collateral is sold if the loan is still open
+  inr_borrowed_amount INT NOT NULL,
+  delivered_channels VARCHAR(255),             -- Comma-separated channels that accepted the notice
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  
+  FOREIGN KEY (loan_id) REFERENCES loans(id) ON DELETE CASCADE,
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+  INDEX idx_maturity_reminders_loan (loan_id, created_at)
+);
+
+-- Liquidation events (Audit trail: the policy, inputs and outcome of every liquidation)
+CREATE TABLE liquidation_events (
+  id INT PRIMARY KEY AUTO_INCREMENT,
+  loan_id INT NOT NULL,
+  user_id INT NOT NULL,
+  operation_id INT,                            -- PARTIAL_LIQUIDATION or FULL_LIQUIDATION operation
+  liquidation_type ENUM('PARTIAL', 'FULL') NOT NULL,
+  source ENUM('LTV', 'MATURITY', 'USER') NOT NULL DEFAULT 'LTV', -- LTV trigger, maturity settlement or the borrower
+  btc_price INT NOT NULL,                      -- BTC sell rate (INR) the collateral was sold at
+  
+  -- Policy applied
+  trigger_ltv DECIMAL(5,2) NOT NULL,
+  target_ltv DECIMAL(5,2) NOT NULL,
+  penalty_bps INT NOT NULL,
+  max_btc_per_cycle BIGINT NOT NULL,           -- Satoshis, 0 = no cap
+  
+  -- Position before and outcome
+  ltv_before DECIMAL(10,2) NOT NULL,
+  ltv_after DECIMAL(10,2) NOT NULL,
+  collateral_before BIGINT NOT NULL,           -- Satoshis
+  debt_before INT NOT NULL,                    -- Rupees
+  btc_sold BIGINT NOT NULL,                    -- Satoshis
+  inr_proceeds INT NOT NULL,
+  debt_repaid INT NOT NULL,
+  principal_paid_paisa BIGINT NOT NULL,
+  interest_paid_paisa BIGINT NOT NULL,
+  penalty_inr INT NOT NULL DEFAULT 0,
+  inr_returned INT NOT NULL DEFAULT 0,         -- Proceeds left after the debt and penalty
+  collateral_returned BIGINT NOT NULL DEFAULT 0, -- Satoshis released to the user when the loan closed
+  shortfall_inr INT NOT NULL DEFAULT 0,        -- Debt the collateral could not cover
+  remaining_debt INT NOT NULL,
+  capped BOOLEAN NOT NULL DEFAULT FALSE,       -- Sale limited by max_btc_per_cycle
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  
+  FOREIGN KEY (loan_id) REFERENCES loans(id) ON DELETE CASCADE,
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+  FOREIGN KEY (operation_id) REFERENCES operations(id) ON DELETE SET NULL,
+  INDEX idx_liquidation_events_loan (loan_id, created_at)
+);
+
+-- Insurance fund (Single row: collects liquidation penalties, absorbs liquidation bad debt)
+CREATE TABLE insurance_fund (
+  id INT PRIMARY KEY,
+  balance_inr BIGINT NOT NULL DEFAULT 0,      -- Negative when bad debt exceeded the penalties collected
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP
+);
+
+-- Insurance fund entries (Every movement of the insurance fund)
+CREATE TABLE insurance_fund_entries (
+  id INT PRIMARY KEY AUTO_INCREMENT,
+  entry_type ENUM('PENALTY', 'BAD_DEBT') NOT NULL,
+  amount_inr INT NOT NULL,                     -- Signed: penalties in, bad debt out
+  balance_after BIGINT NOT NULL,
+  loan_id INT,
+  user_id INT,
+  liquidation_event_id INT,
+  notes TEXT,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  
+  FOREIGN KEY (loan_id) REFERENCES loans(id) ON DELETE SET NULL,
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE SET NULL,
+  FOREIGN KEY (liquidation_event_id) REFERENCES liquidation_events(id) ON DELETE SET NULL,
+  INDEX idx_insurance_fund_entries_created (created_at)
 );
 
 
@@ -132,7 +382,7 @@ CREATE TABLE loans (
 CREATE TABLE settings (
   id INT PRIMARY KEY AUTO_INCREMENT,
   `key` VARCHAR(100) UNIQUE NOT NULL,
-  value INT NOT NULL,
+  value DECIMAL(20,4) NOT NULL,             -- Whole numbers except the keys settingsService reads as decimals
   updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP
 );
 
@@ -202,11 +452,29 @@ CREATE TABLE bitcoin_chart_data (
 -- Insert default settings
 INSERT INTO settings (`key`, value) VALUES 
 ('buy_multiplier', 91),
-('sell_multiplier', 88);
+('sell_multiplier', 88),
+('price_max_age_seconds', 120),
+('price_max_deviation_pct', 10),
+('limit_buy_liquidity_sats', 0),
+('limit_sell_liquidity_sats', 0),
+('margin_call_ltv_1', 75),
+('margin_call_ltv_2', 80),
+('margin_call_ltv_3', 85),
+('margin_call_repeat_minutes', 360),
+('liquidation_penalty_bps', 0),
+('liquidation_max_btc_per_cycle', 0);
+
+-- Insurance fund starts empty
+INSERT INTO insurance_fund (id, balance_inr) VALUES (1, 0);
+
+-- Default loan product
+INSERT INTO loan_products (name, description, max_ltv, liquidation_ltv, interest_rate, min_interest_days, term_days) VALUES
+('Standard', 'Open-ended loan at 60% LTV', 60.00, 90.00, 15.00, 30, NULL);
 
 -- Create additional indexes for performance
 CREATE INDEX idx_users_email ON users(email);
 CREATE INDEX idx_settings_key ON settings(`key`);
+CREATE INDEX idx_operations_parent_type ON operations(parent_id, type, status);
 
 -- Bitcoin data indexes
 CREATE INDEX idx_bitcoin_data_last_updated ON bitcoin_data(last_updated);
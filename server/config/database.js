@@ -1,3 +1,4 @@
+const { AsyncLocalStorage } = require('async_hooks');
 const mysql = require('mysql2/promise');
 const dotenv = require('dotenv');
 
@@ -63,15 +64,20 @@ const query = async (sql, params = []) => {
   }
 };
 
+// Callbacks queued with afterCommit by code running inside transaction(), keyed so each runs once
+const commitHooks = new AsyncLocalStorage();
+
 const transaction = async (callback) => {
   let connection;
+  const hooks = new Map();
   try {
     connection = await getConnection();
     await connection.beginTransaction();
     
-    const result = await callback(connection);
+    const result = await commitHooks.run(hooks, () => callback(connection));
     
     await connection.commit();
+    runCommitHooks(hooks);
     return result;
   } catch (error) {
     if (connection) {
@@ -86,10 +92,32 @@ const transaction = async (callback) => {
   }
 };
 
+const runCommitHooks = (hooks) => {
+  hooks.forEach((hook, key) => {
+    try {
+      hook();
+    } catch (error) {
+      console.error(`After-commit hook ${key} failed:`, error);
+    }
+  });
+};
+
+// Run hook once the surrounding transaction() commits (dropped if it rolls back), or right away
+// outside a transaction. Hooks queued under the same key in one transaction run once.
+const afterCommit = (key, hook) => {
+  const hooks = commitHooks.getStore();
+  if (!hooks) {
+    runCommitHooks(new Map([[key, hook]]));
+    return;
+  }
+  hooks.set(key, hook);
+};
+
 module.exports = {
   createPool,
   getConnection,
   query,
   transaction,
+  afterCommit,
   pool: () => pool
 };
@@ -93,6 +93,12 @@ const deleteCache = async (key) => {
 };
 
 const clearUserCache = async (userId) => {
+  // Every balance change clears the user's cache, so push the new balances once the change is committed.
+  // Required lazily to keep config free of service imports at load time.
+  require('./database').afterCommit(`balance:${userId}`, () => {
+    require('../services/eventStreamService').publishBalance(userId);
+  });
+
   try {
     const redisClient = getRedisClient();
     if (redisClient.isReady) {
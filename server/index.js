@@ -12,15 +12,18 @@ const authRoutes = require('./routes/auth');
 const userRoutes = require('./routes/user');
 const adminRoutes = require('./routes/admin');
 const publicRoutes = require('./routes/public');
+const { verifyToken } = require('./middleware/auth');
 
 // Import services
 const { createPool } = require('./config/database');
 const { createRedisClient } = require('./config/redis');
 const bitcoinDataService = require('./services/bitcoinDataService');
+const priceGuardService = require('./services/priceGuardService');
 const limitOrderExecutionService = require('./services/limitOrderExecutionService');
 const dcaExecutionService = require('./services/dcaExecutionService');
 const loanMonitoringService = require('./services/loanMonitoringService');
 const liquidationMonitoringService = require('./services/liquidationMonitoringService');
+const eventStreamService = require('./services/eventStreamService');
 const JobScheduler = require('./schedulers/jobScheduler');
 
 // Load environment variables
@@ -108,6 +111,10 @@ app.use(compression({
     if (req.headers['x-no-compression']) {
       return false;
     }
+    // Buffered compression would hold back server-sent events
+    if (req.path === '/api/stream') {
+      return false;
+    }
     // Fall back to standard filter function
     return compression.filter(req, res);
   }
@@ -181,7 +188,7 @@ const generalLimiter = rateLimit({
   standardHeaders: true,
   legacyHeaders: false,
   skip: (req) => {
-    return req.path === '/health' || req.path.startsWith('/static/');
+    return req.path === '/health' || req.path === '/stream' || req.path.startsWith('/static/');
   },
   keyGenerator: (req) => {
     // Use user ID if authenticated, otherwise IP
@@ -353,6 +360,33 @@ app.use((req, res, next) => {
   next();
 });
 
+// Real-time event stream. EventSource cannot set headers, so clients exchange their JWT
+// for a short-lived single-use ticket and pass that as ?ticket= instead of the token.
+app.post('/api/stream/ticket', verifyToken, (req, res) => {
+  const { ticket, expiresIn } = eventStreamService.issueTicket(req.user.id);
+  res.json({
+    success: true,
+    data: { ticket, expires_in: expiresIn }
+  });
+});
+
+app.get('/api/stream', (req, res) => {
+  const userId = eventStreamService.redeemTicket(req.query.ticket);
+  if (!userId) {
+    return res.status(401).json({
+      success: false,
+      message: 'Invalid or expired stream ticket'
+    });
+  }
+  if (!eventStreamService.hasCapacity(userId)) {
+    return res.status(429).json({
+      success: false,
+      message: 'Too many open event streams'
+    });
+  }
+  eventStreamService.subscribe(userId, req, res);
+});
+
 // API Routes
 app.use('/api/auth', authRoutes);
 app.use('/api/user', userRoutes);
@@ -427,7 +461,10 @@ app.get('/health', (req, res) => {
       dca_execution: dcaExecutionService.isRunning ? 'running' : 'stopped',
       loan_monitoring: loanMonitoringService.getStatus().isRunning ? 'running' : 'stopped',
       liquidation_monitoring: liquidationMonitoringService.getStatus().isRunning ? 'running' : 'stopped'
-    }
+    },
+    event_stream: eventStreamService.getStatus(),
+    price_feed: bitcoinDataService.getProviderStatus(),
+    market: priceGuardService.getStatus()
   });
 });
 
@@ -597,6 +634,9 @@ const gracefulShutdown = (exitCode = 0) => {
   
   systemLogger.info('Stopping job scheduler...');
   JobScheduler.stop();
+
+  systemLogger.info('Closing event streams...');
+  eventStreamService.stop();
   
   systemLogger.success('All services stopped gracefully');
   process.exit(exitCode);
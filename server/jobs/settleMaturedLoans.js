@@ -0,0 +1,117 @@
+const loanService = require('../services/loanService');
+const liquidationEngine = require('../services/liquidationEngine');
+const maturityReminderService = require('../services/maturityReminderService');
+const eventStreamService = require('../services/eventStreamService');
+const priceGuardService = require('../services/priceGuardService');
+const { systemLogger } = require('../utils/beautifulLogger');
+
+/**
+ * Loan Maturity Job
+ *
+ * Sends maturity reminders for fixed-term loans and settles loans whose grace
+ * period after maturity has ended by closing them through the liquidation engine,
+ * which sells collateral for the debt and penalty and covers any shortfall from
+ * the insurance fund.
+ */
+async function settleMaturedLoans() {
+  const startTime = Date.now();
+  let remindersSent = 0;
+  let loansSettled = 0;
+  let settlementFailures = 0;
+
+  try {
+    systemLogger.info('Starting loan maturity job...');
+
+    const reminderLoans = await loanService.getLoansDueForMaturityReminder();
+
+    for (const loan of reminderLoans) {
+      try {
+        await maturityReminderService.sendReminder(loan);
+        remindersSent++;
+      } catch (error) {
+        systemLogger.error(`Failed to send maturity reminder for loan ${loan.id}`, {
+          userId: loan.user_id,
+          error: error.message
+        });
+      }
+    }
+
+    const dueLoans = await loanService.getLoansDueForSettlement();
+
+    if (dueLoans.length > 0) {
+      // Settlement sells collateral, so it waits for a valid market like the liquidation monitors
+      const { valid, rates } = await priceGuardService.checkMarket();
+      if (!valid) {
+        systemLogger.warn(`Market halted, deferring settlement of ${dueLoans.length} matured loans`);
+      } else {
+        for (const loan of dueLoans) {
+          try {
+            const result = await liquidationEngine.executeFullClose(loan.id, rates.sellRate, {
+              source: 'MATURITY',
+              description: 'Automatic settlement at maturity'
+            });
+            if (!result) {
+              continue;
+            }
+            eventStreamService.publishToUser(loan.user_id, 'loan', {
+              loan_id: loan.id,
+              event: 'MATURITY_SETTLEMENT',
+              btc_sold: result.btcSold,
+              debt_cleared: result.debtReduction,
+              penalty: result.penalty,
+              shortfall: result.shortfall,
+              inr_returned: result.inrReturned,
+              collateral_returned: result.collateralReturned
+            });
+            loansSettled++;
+          } catch (error) {
+            settlementFailures++;
+            systemLogger.error(`Failed to settle matured loan ${loan.id}`, {
+              userId: loan.user_id,
+              error: error.message
+            });
+          }
+        }
+      }
+    }
+
+    const duration = Date.now() - startTime;
+
+    systemLogger.success('Loan maturity job completed', {
+      remindersSent,
+      loansSettled,
+      settlementFailures,
+      duration: `${duration}ms`
+    });
+
+    return {
+      remindersSent,
+      loansSettled,
+      settlementFailures,
+      duration,
+      success: true
+    };
+
+  } catch (error) {
+    const duration = Date.now() - startTime;
+
+    systemLogger.error('Error during loan maturity job', {
+      error: error.message,
+      stack: error.stack,
+      remindersSent,
+      loansSettled,
+      duration: `${duration}ms`
+    });
+
+    return {
+      remindersSent,
+      loansSettled,
+      settlementFailures,
+      duration,
+      success: false,
+      error: error.message
+    };
+  }
+}
+
+module.exports = settleMaturedLoans;
@@ -5,6 +5,11 @@ const { query, transaction } = require('../config/database');
 const { clearUserCache } = require('../config/redis');
 const bitcoinDataService = require('../services/bitcoinDataService');
 const limitOrderExecutionService = require('../services/limitOrderExecutionService');
+const loanProductService = require('../services/loanProductService');
+const loanService = require('../services/loanService');
+const settingsService = require('../services/settingsService');
+const dcaScheduleService = require('../services/dcaScheduleService');
+const dcaExecutionService = require('../services/dcaExecutionService');
 
 const router = express.Router();
 
@@ -18,7 +23,16 @@ router.get('/dashboard', async (req, res) => {
     // Get platform statistics (including admin users)
     const [userCount, totalTrades, platformBalances] = await Promise.all([
       query('SELECT COUNT(*) as count FROM users'),
-      query('SELECT COUNT(*) as count FROM operations WHERE type IN (?, ?, ?, ?, ?, ?) AND status = ?', ['MARKET_BUY', 'MARKET_SELL', 'LIMIT_BUY', 'LIMIT_SELL', 'DCA_BUY', 'DCA_SELL', 'EXECUTED']),
+      // Completed limit/stop orders that filled in pieces are counted through their child fills
+      query(`
+        SELECT COUNT(*) as count FROM operations 
+        WHERE type IN (?, ?, ?, ?, ?, ?, ?, ?, ?, ?) AND status = ?
+        AND NOT EXISTS (
+          SELECT 1 FROM operations fill
+          WHERE fill.parent_id = operations.id AND fill.type = operations.type
+          AND fill.type IN ('LIMIT_BUY', 'LIMIT_SELL', 'STOP_LOSS_SELL', 'STOP_BUY', 'TRAILING_STOP_SELL', 'TRAILING_STOP_BUY')
+        )
+      `, ['MARKET_BUY', 'MARKET_SELL', 'LIMIT_BUY', 'LIMIT_SELL', 'STOP_LOSS_SELL', 'STOP_BUY', 'TRAILING_STOP_SELL', 'TRAILING_STOP_BUY', 'DCA_BUY', 'DCA_SELL', 'EXECUTED']),
       query(`
         SELECT 
           COALESCE(SUM(available_inr), 0) as total_inr,
@@ -581,12 +595,21 @@ router.post('/users/:userId/withdraw-btc', async (req, res) => {
   }
 });
 
-// Update system settings (buy/sell multipliers and loan interest rate)
+// Update system settings (buy/sell multipliers, loan interest rate, price guard limits, limit order liquidity, margin calls and liquidation policy)
 router.patch('/settings', async (req, res) => {
   try {
-    const { buy_multiplier, sell_multiplier, loan_interest_rate } = req.body;
-
-    if (!buy_multiplier && !sell_multiplier && !loan_interest_rate) {
+    const {
+      buy_multiplier, sell_multiplier, loan_interest_rate,
+      price_max_age_seconds, price_max_deviation_pct,
+      limit_buy_liquidity_sats, limit_sell_liquidity_sats,
+      margin_call_ltv_1, margin_call_ltv_2, margin_call_ltv_3, margin_call_repeat_minutes,
+      liquidation_penalty_bps, liquidation_max_btc_per_cycle
+    } = req.body;
+
+    if (!buy_multiplier && !sell_multiplier && !loan_interest_rate && !price_max_age_seconds && !price_max_deviation_pct &&
+        limit_buy_liquidity_sats === undefined && limit_sell_liquidity_sats === undefined &&
+        margin_call_ltv_1 === undefined && margin_call_ltv_2 === undefined && margin_call_ltv_3 === undefined &&
+        margin_call_repeat_minutes === undefined && liquidation_penalty_bps === undefined && liquidation_max_btc_per_cycle === undefined) {
       return res.status(400).json({
         success: false,
         message: 'At least one setting must be provided'
@@ -624,6 +647,80 @@ router.patch('/settings', async (req, res) => {
       updates.push(['loan_interest_rate', loan_interest_rate]);
     }
 
+    if (price_max_age_seconds !== undefined) {
+      if (!Number.isInteger(price_max_age_seconds) || price_max_age_seconds < 30) {
+        return res.status(400).json({
+          success: false,
+          message: 'Price max age must be a whole number of seconds, at least 30'
+        });
+      }
+      updates.push(['price_max_age_seconds', price_max_age_seconds]);
+    }
+
+    if (price_max_deviation_pct !== undefined) {
+      if (!Number.isFinite(price_max_deviation_pct) || price_max_deviation_pct <= 0 || price_max_deviation_pct > 100) {
+        return res.status(400).json({
+          success: false,
+          message: 'Price max deviation must be a number between 0 and 100'
+        });
+      }
+      updates.push(['price_max_deviation_pct', price_max_deviation_pct]);
+    }
+
+    for (const [key, value] of [['limit_buy_liquidity_sats', limit_buy_liquidity_sats], ['limit_sell_liquidity_sats', limit_sell_liquidity_sats]]) {
+      if (value !== undefined) {
+        if (!Number.isInteger(value) || value < 0) {
+          return res.status(400).json({
+            success: false,
+            message: 'Limit order liquidity must be a non-negative number of satoshis (0 = unlimited)'
+          });
+        }
+        updates.push([key, value]);
+      }
+    }
+
+    for (const [key, value] of [['margin_call_ltv_1', margin_call_ltv_1], ['margin_call_ltv_2', margin_call_ltv_2], ['margin_call_ltv_3', margin_call_ltv_3]]) {
+      if (value !== undefined) {
+        if (!Number.isInteger(value) || value < 0 || value >= 100) {
+          return res.status(400).json({
+            success: false,
+            message: 'Margin call thresholds must be whole LTV percentages below 100 (0 = disabled)'
+          });
+        }
+        updates.push([key, value]);
+      }
+    }
+
+    if (margin_call_repeat_minutes !== undefined) {
+      if (!Number.isInteger(margin_call_repeat_minutes) || margin_call_repeat_minutes < 1) {
+        return res.status(400).json({
+          success: false,
+          message: 'Margin call repeat interval must be at least 1 minute'
+        });
+      }
+      updates.push(['margin_call_repeat_minutes', margin_call_repeat_minutes]);
+    }
+
+    if (liquidation_penalty_bps !== undefined) {
+      if (!Number.isInteger(liquidation_penalty_bps) || liquidation_penalty_bps < 0 || liquidation_penalty_bps > 2000) {
+        return res.status(400).json({
+          success: false,
+          message: 'Liquidation penalty must be between 0 and 2000 basis points'
+        });
+      }
+      updates.push(['liquidation_penalty_bps', liquidation_penalty_bps]);
+    }
+
+    if (liquidation_max_btc_per_cycle !== undefined) {
+      if (!Number.isInteger(liquidation_max_btc_per_cycle) || liquidation_max_btc_per_cycle < 0) {
+        return res.status(400).json({
+          success: false,
+          message: 'Liquidation max BTC per cycle must be a non-negative number of satoshis (0 = no cap)'
+        });
+      }
+      updates.push(['liquidation_max_btc_per_cycle', liquidation_max_btc_per_cycle]);
+    }
+
     // Update settings
     for (const [key, value] of updates) {
       await query(
@@ -656,7 +753,7 @@ router.get('/settings', async (req, res) => {
     
     const settings = {};
     settingsRows.forEach(row => {
-      settings[row.key] = parseInt(row.value);
+      settings[row.key] = settingsService.parseValue(row.key, row.value);
     });
     
     res.json({
@@ -863,24 +960,29 @@ router.get('/limit-orders/summary', async (req, res) => {
 // Get all pending orders with details
 router.get('/limit-orders/pending', async (req, res) => {
   try {
-    const pendingOrders = await query(`
-      SELECT 
-        o.id, o.user_id, o.type, o.status, o.inr_amount, o.btc_amount, 
-        o.limit_price, o.created_at,
-        u.email, u.name,
-        TIMESTAMPDIFF(MINUTE, o.created_at, NOW()) as age_minutes
-      FROM operations o
-      JOIN users u ON o.user_id = u.id
-      WHERE o.status = 'PENDING' 
-      AND o.type IN ('LIMIT_BUY', 'LIMIT_SELL')
-      ORDER BY o.created_at ASC
-    `);
+    const pendingOrders = await limitOrderExecutionService.getPendingOrders();
 
     const formattedOrders = pendingOrders.map(order => ({
-      ...order,
+      id: order.id,
+      user_id: order.user_id,
+      type: order.type,
+      status: order.status,
+      inr_amount: order.inr_amount,
       btc_amount: order.btc_amount / 100000000, // Convert to BTC
       limit_price: order.limit_price,
-      age_hours: Math.round(order.age_minutes / 60 * 10) / 10 // Round to 1 decimal
+      trail_percent: order.trail_percent ? parseFloat(order.trail_percent) : null,
+      oco_order_id: order.oco_order_id,
+      time_in_force: order.time_in_force,
+      created_at: order.created_at,
+      email: order.email,
+      name: order.name,
+      age_minutes: order.age_minutes,
+      age_hours: Math.round(order.age_minutes / 60 * 10) / 10, // Round to 1 decimal
+      filled_inr: order.filled_inr,
+      filled_btc: order.filled_btc / 100000000,
+      remaining_inr: order.remaining_inr,
+      remaining_btc: order.remaining_btc / 100000000,
+      fill_count: order.fill_count
     }));
 
     res.json({
@@ -938,21 +1040,9 @@ router.delete('/limit-orders/:orderId', async (req, res) => {
 
     const order = orders[0];
 
-    // Cancel the order and release funds
-    await transaction(async (connection) => {
-      if (order.type === 'LIMIT_BUY') {
-        // Release reserved INR back to available
-        await connection.execute(
-          'UPDATE users SET available_inr = available_inr + ?, reserved_inr = reserved_inr - ? WHERE id = ?',
-          [order.inr_amount, order.inr_amount, order.user_id]
-        );
-      } else if (order.type === 'LIMIT_SELL') {
-        // Release reserved BTC back to available
-        await connection.execute(
-          'UPDATE users SET available_btc = available_btc + ?, reserved_btc = reserved_btc - ? WHERE id = ?',
-          [order.btc_amount, order.btc_amount, order.user_id]
-        );
-      }
+    // Cancel the order and release the funds still reserved for its unfilled part
+    const releasedAmount = await transaction(async (connection) => {
+      const released = await limitOrderExecutionService.releaseOrderReservation(connection, order);
 
       // Update operation status with admin cancellation
       await connection.execute(
@@ -962,6 +1052,8 @@ router.delete('/limit-orders/:orderId', async (req, res) => {
 
       // Clear user cache
       await clearUserCache(order.user_id);
+
+      return released;
     });
 
     res.json({
@@ -970,7 +1062,7 @@ router.delete('/limit-orders/:orderId', async (req, res) => {
       data: {
         order_id: orderId,
         order_type: order.type,
-        released_amount: order.type === 'LIMIT_BUY' ? order.inr_amount : order.btc_amount / 100000000
+        released_amount: limitOrderExecutionService.isBuyOrder(order) ? releasedAmount : releasedAmount / 100000000
       }
     });
 
@@ -1042,7 +1134,8 @@ router.get('/dca-plans', async (req, res) => {
       SELECT 
         ap.id, ap.user_id, ap.plan_type, ap.status, ap.frequency,
         ap.amount_per_execution, ap.next_execution_at, ap.total_executions,
-        ap.remaining_executions, ap.max_price, ap.min_price, ap.created_at,
+        ap.remaining_executions, ap.max_price, ap.min_price, ap.schedule, ap.created_at,
+        ap.budget_limit, ap.goal_amount, ap.end_date, ap.completion_reason,
         u.email, u.name,
         -- Calculate additional metrics
         COALESCE((
@@ -1058,7 +1151,15 @@ router.get('/dca-plans', async (req, res) => {
           SELECT COUNT(*) 
           FROM operations o 
           WHERE o.parent_id = ap.id AND o.status = 'EXECUTED'
-        ), 0) as executions_count
+        ), 0) as executions_count,
+        COALESCE((
+          SELECT SUM(o.inr_amount) FROM operations o
+          WHERE o.parent_id = ap.id AND o.type = ap.plan_type AND o.status = 'EXECUTED'
+        ), 0) as executed_inr,
+        COALESCE((
+          SELECT SUM(o.btc_amount) FROM operations o
+          WHERE o.parent_id = ap.id AND o.type = ap.plan_type AND o.status = 'EXECUTED'
+        ), 0) as executed_btc
       FROM active_plans ap
       JOIN users u ON ap.user_id = u.id
       ORDER BY ap.created_at DESC
@@ -1066,8 +1167,9 @@ router.get('/dca-plans', async (req, res) => {
     `);
 
     // Format the DCA plans with proper field mapping
-    const formattedPlans = dcaPlans.map(plan => ({
+    const formattedPlans = dcaPlans.map(({ executed_inr, executed_btc, ...plan }) => ({
       ...plan,
+      ...dcaExecutionService.formatPlanLimits({ ...plan, executed_inr, executed_btc }),
       amount: plan.amount_per_execution, // Map for admin UI compatibility
       amount_per_execution: plan.plan_type === 'DCA_SELL' ? 
         plan.amount_per_execution / 100000000 : plan.amount_per_execution, // Convert to BTC for sell plans
@@ -1143,26 +1245,8 @@ router.patch('/dca-plans/:planId/resume', async (req, res) => {
 
     const plan = plans[0];
 
-    // Calculate next execution time based on frequency
-    const now = new Date();
-    let nextExecution;
-    
-    switch (plan.frequency) {
-      case 'HOURLY':
-        nextExecution = new Date(now.getTime() + 60 * 60 * 1000);
-        break;
-      case 'DAILY':
-        nextExecution = new Date(now.getTime() + 24 * 60 * 60 * 1000);
-        break;
-      case 'WEEKLY':
-        nextExecution = new Date(now.getTime() + 7 * 24 * 60 * 60 * 1000);
-        break;
-      case 'MONTHLY':
-        nextExecution = new Date(now.getTime() + 30 * 24 * 60 * 60 * 1000);
-        break;
-      default:
-        nextExecution = new Date(now.getTime() + 24 * 60 * 60 * 1000);
-    }
+    // Next run one period from now, or the schedule's next run for custom plans
+    const nextExecution = dcaScheduleService.getNextExecution(plan, new Date());
 
     // Resume the plan
     await query(
@@ -1221,11 +1305,12 @@ router.delete('/dca-plans/:planId', async (req, res) => {
 router.post('/jobs/accrue-interest', async (req, res) => {
   try {
     const JobScheduler = require('../schedulers/jobScheduler');
-    await JobScheduler.runInterestAccrual();
+    const result = await JobScheduler.runInterestAccrual();
     
     res.json({
       success: true,
-      message: 'Interest accrual job triggered successfully'
+      message: 'Interest accrual job triggered successfully',
+      data: result
     });
   } catch (error) {
     console.error('Manual interest accrual error:', error);
@@ -1236,6 +1321,45 @@ router.post('/jobs/accrue-interest', async (req, res) => {
   }
 });
 
+// Interest accrual gaps the accrual job back-filled after missed runs
+router.get('/jobs/interest-accrual-gaps', async (req, res) => {
+  try {
+    const limit = Math.min(parseInt(req.query.limit, 10) || 50, 200);
+    const gaps = await loanService.getInterestAccrualGaps(limit);
+
+    res.json({
+      success: true,
+      data: gaps
+    });
+  } catch (error) {
+    console.error('Get interest accrual gaps error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error fetching interest accrual gaps'
+    });
+  }
+});
+
+// Manually trigger loan maturity reminders and settlement
+router.post('/jobs/settle-matured-loans', async (req, res) => {
+  try {
+    const JobScheduler = require('../schedulers/jobScheduler');
+    const result = await JobScheduler.runLoanMaturity();
+    
+    res.json({
+      success: true,
+      message: 'Loan maturity job triggered successfully',
+      data: result
+    });
+  } catch (error) {
+    console.error('Manual loan maturity error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error triggering loan maturity job'
+    });
+  }
+});
+
 // Liquidation monitoring service
 router.post('/liquidation/manual', async (req, res) => {
   try {
@@ -1274,4 +1398,165 @@ router.get('/liquidation/risks', async (req, res) => {
   }
 });
 
+// Price provider status including each provider's last error
+router.get('/price-providers', async (req, res) => {
+  try {
+    res.json({
+      success: true,
+      data: bitcoinDataService.getProviderStatus({ includeErrors: true })
+    });
+  } catch (error) {
+    console.error('Get price provider status error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error fetching price provider status'
+    });
+  }
+});
+
+// Insurance fund: balance, totals and recent penalty and bad-debt entries
+router.get('/liquidation/insurance-fund', async (req, res) => {
+  try {
+    const insuranceFundService = require('../services/insuranceFundService');
+    const limit = Math.min(parseInt(req.query.limit, 10) || 50, 200);
+    const fund = await insuranceFundService.getFund(limit);
+
+    res.json({
+      success: true,
+      data: fund
+    });
+  } catch (error) {
+    console.error('Get insurance fund error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error fetching insurance fund'
+    });
+  }
+});
+
+// Liquidation audit trail, optionally for one loan
+router.get('/liquidation/events', async (req, res) => {
+  try {
+    const liquidationEngine = require('../services/liquidationEngine');
+    const loanId = req.query.loanId ? parseInt(req.query.loanId, 10) : null;
+    const limit = Math.min(parseInt(req.query.limit, 10) || 50, 200);
+
+    if (req.query.loanId && (!Number.isInteger(loanId) || loanId <= 0)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid loan ID'
+      });
+    }
+
+    const events = await liquidationEngine.getEvents({ loanId, limit });
+
+    res.json({
+      success: true,
+      data: events
+    });
+  } catch (error) {
+    console.error('Get liquidation events error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error fetching liquidation events'
+    });
+  }
+});
+
+// Loan products: admin-defined loan terms users choose from when opening a loan
+const LOAN_PRODUCT_VALIDATION_ERRORS = [
+  'Product name is required (max 100 characters)',
+  'Max LTV must be greater than 0 and at most 85',
+  'Liquidation LTV must be more than 5 points above max LTV and at most 95',
+  'Interest rate must be greater than 0 and at most 100',
+  'Minimum interest days must be between 0 and 365',
+  'Term must be between 1 and 3650 days',
+  'Compounding must be SIMPLE, DAILY or MONTHLY'
+];
+
+// Only the fields present in the body; numbers may arrive as strings from forms
+const parseLoanProductBody = (body) => {
+  const terms = {};
+  if (body.name !== undefined) terms.name = body.name;
+  if (body.description !== undefined) terms.description = body.description;
+  ['max_ltv', 'liquidation_ltv', 'interest_rate'].forEach(field => {
+    if (body[field] !== undefined) terms[field] = parseFloat(body[field]);
+  });
+  if (body.min_interest_days !== undefined) terms.min_interest_days = Number(body.min_interest_days);
+  if (body.compounding !== undefined) terms.compounding = body.compounding;
+  if (body.term_days !== undefined) terms.term_days = body.term_days === null || body.term_days === '' ? null : Number(body.term_days);
+  if (body.is_active !== undefined) terms.is_active = Boolean(body.is_active);
+  return terms;
+};
+
+// List all loan products, including inactive ones
+router.get('/loan-products', async (req, res) => {
+  try {
+    const products = await loanProductService.getProducts(true);
+
+    res.json({
+      success: true,
+      data: products
+    });
+  } catch (error) {
+    console.error('Get loan products error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error fetching loan products'
+    });
+  }
+});
+
+// Create a loan product
+router.post('/loan-products', async (req, res) => {
+  try {
+    const product = await loanProductService.createProduct(parseLoanProductBody(req.body));
+
+    res.json({
+      success: true,
+      message: 'Loan product created successfully',
+      data: product
+    });
+  } catch (error) {
+    console.error('Create loan product error:', error);
+
+    const isValidationError = LOAN_PRODUCT_VALIDATION_ERRORS.includes(error.message);
+    res.status(isValidationError ? 400 : 500).json({
+      success: false,
+      message: isValidationError ? error.message : 'Error creating loan product'
+    });
+  }
+});
+
+// Update a loan product's terms or retire it (is_active: false); existing loans keep their terms
+router.patch('/loan-products/:productId', async (req, res) => {
+  try {
+    const product = await loanProductService.updateProduct(req.params.productId, parseLoanProductBody(req.body));
+
+    res.json({
+      success: true,
+      message: 'Loan product updated successfully',
+      data: product
+    });
+  } catch (error) {
+    console.error('Update loan product error:', error);
+
+    let statusCode = 500;
+    let message = 'Error updating loan product';
+
+    if (error.message === 'Loan product not found') {
+      statusCode = 404;
+      message = error.message;
+    } else if (LOAN_PRODUCT_VALIDATION_ERRORS.includes(error.message)) {
+      statusCode = 400;
+      message = error.message;
+    }
+
+    res.status(statusCode).json({
+      success: false,
+      message
+    });
+  }
+});
+
 module.exports = router;
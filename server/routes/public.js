@@ -1,5 +1,6 @@
 const express = require('express');
 const bitcoinDataService = require('../services/bitcoinDataService');
+const priceGuardService = require('../services/priceGuardService');
 
 const router = express.Router();
 
@@ -63,6 +64,23 @@ router.get('/bitcoin/price', async (req, res) => {
   }
 });
 
+// Get market halt status from the price guard (public endpoint)
+router.get('/market-status', async (req, res) => {
+  try {
+    res.json({
+      success: true,
+      data: await priceGuardService.getCurrentStatus()
+    });
+
+  } catch (error) {
+    console.error('Market status error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error fetching market status'
+    });
+  }
+});
+
 // Get Bitcoin sentiment data (public endpoint)
 router.get('/bitcoin/sentiment', async (req, res) => {
   try {
@@ -5,10 +5,60 @@ const { clearUserCache } = require('../config/redis');
 const userService = require('../services/userService');
 const bitcoinDataService = require('../services/bitcoinDataService');
 const portfolioService = require('../services/portfolioService');
+const taxReportService = require('../services/taxReportService');
 const loanService = require('../services/loanService');
+const loanProductService = require('../services/loanProductService');
+const marginCallService = require('../services/marginCallService');
+const limitOrderExecutionService = require('../services/limitOrderExecutionService');
+const dcaStrategyService = require('../services/dcaStrategyService');
+const dcaScheduleService = require('../services/dcaScheduleService');
+const dcaExecutionService = require('../services/dcaExecutionService');
 
 const router = express.Router();
 
+const TIME_IN_FORCE_OPTIONS = ['GTC', 'GTD', 'IOC', 'FOK'];
+const MIN_GTD_MINUTES = 5;
+const MAX_GTD_DAYS = 90;
+
+// Validate limit order time-in-force options; returns an error message or null
+const validateTimeInForce = (timeInForce, expiresAt) => {
+  if (!TIME_IN_FORCE_OPTIONS.includes(timeInForce)) {
+    return `Time in force must be one of ${TIME_IN_FORCE_OPTIONS.join(', ')}`;
+  }
+
+  if (expiresAt === undefined || expiresAt === null) {
+    return null;
+  }
+
+  if (timeInForce !== 'GTD') {
+    return 'Expiry can only be set for GTD orders';
+  }
+
+  const expiry = new Date(expiresAt);
+  if (isNaN(expiry.getTime())) {
+    return 'Invalid expiry date';
+  }
+
+  const minutesAhead = (expiry.getTime() - Date.now()) / 60000;
+  if (minutesAhead < MIN_GTD_MINUTES || minutesAhead > MAX_GTD_DAYS * 24 * 60) {
+    return `Expiry must be between ${MIN_GTD_MINUTES} minutes and ${MAX_GTD_DAYS} days from now`;
+  }
+
+  return null;
+};
+
+// Time-in-force fields of a limit order response; IOC/FOK orders also report their outcome
+const formatTimeInForceResult = (result) => ({
+  time_in_force: result.timeInForce,
+  expires_at: result.expiresAt,
+  status: result.status,
+  ...(result.status !== 'PENDING' ? {
+    filled_inr: result.filledInr,
+    filled_btc: result.filledBtc / 100000000, // Convert to BTC
+    cancellation_reason: result.cancellationReason
+  } : {})
+});
+
 // All user routes require authentication
 router.use(verifyToken);
 
@@ -249,6 +299,9 @@ router.post('/buy', async (req, res) => {
     } else if (error.message === 'BTC amount too small') {
       statusCode = 400;
       message = 'Amount too small to buy Bitcoin';
+    } else if (error.message === 'Market halted') {
+      statusCode = 503;
+      message = 'Trading is temporarily halted while prices are unavailable';
     }
 
     res.status(statusCode).json({
@@ -311,6 +364,9 @@ router.post('/sell', async (req, res) => {
     } else if (error.message === 'INR amount too small') {
       statusCode = 400;
       message = 'Amount too small to sell';
+    } else if (error.message === 'Market halted') {
+      statusCode = 503;
+      message = 'Trading is temporarily halted while prices are unavailable';
     }
 
     res.status(statusCode).json({
@@ -324,7 +380,7 @@ router.post('/sell', async (req, res) => {
 router.post('/limit-buy', async (req, res) => {
   try {
     const userId = req.user.id;
-    const { amount, targetPrice } = req.body;
+    const { amount, targetPrice, timeInForce = 'GTD', expiresAt } = req.body;
 
     // Validation
     if (!amount || amount <= 0) {
@@ -355,16 +411,27 @@ router.post('/limit-buy', async (req, res) => {
       });
     }
 
-    const result = await userService.placeLimitBuyOrder(userId, amount, targetPrice);
+    const timeInForceError = validateTimeInForce(timeInForce, expiresAt);
+    if (timeInForceError) {
+      return res.status(400).json({
+        success: false,
+        message: timeInForceError
+      });
+    }
+
+    const result = await userService.placeLimitBuyOrder(userId, amount, targetPrice, timeInForce, expiresAt);
 
     res.json({
       success: true,
-      message: 'Limit buy order placed successfully',
+      message: result.status === 'PENDING'
+        ? 'Limit buy order placed successfully'
+        : `Limit buy order ${result.status === 'EXECUTED' ? 'executed' : 'cancelled'}`,
       data: {
         order_id: result.orderId,
         inr_amount: result.inrAmount,
         target_price: result.targetPrice,
         estimated_btc: result.estimatedBtc / 100000000, // Convert to BTC
+        ...formatTimeInForceResult(result),
         new_balances: {
           inr: result.newAvailableBalance,
           btc: result.currentBtcBalance / 100000000 // Convert to BTC
@@ -384,6 +451,9 @@ router.post('/limit-buy', async (req, res) => {
     } else if (error.message === 'Target price too high') {
       statusCode = 400;
       message = error.message;
+    } else if (error.message === 'Market halted') {
+      statusCode = 503;
+      message = 'Trading is temporarily halted while prices are unavailable';
     }
 
     res.status(statusCode).json({
@@ -397,7 +467,7 @@ router.post('/limit-buy', async (req, res) => {
 router.post('/limit-sell', async (req, res) => {
   try {
     const userId = req.user.id;
-    const { amount, targetPrice } = req.body;
+    const { amount, targetPrice, timeInForce = 'GTD', expiresAt } = req.body;
 
     // Validation
     if (!amount || amount <= 0) {
@@ -431,16 +501,27 @@ router.post('/limit-sell', async (req, res) => {
       });
     }
 
-    const result = await userService.placeLimitSellOrder(userId, satoshiAmount, targetPrice);
+    const timeInForceError = validateTimeInForce(timeInForce, expiresAt);
+    if (timeInForceError) {
+      return res.status(400).json({
+        success: false,
+        message: timeInForceError
+      });
+    }
+
+    const result = await userService.placeLimitSellOrder(userId, satoshiAmount, targetPrice, timeInForce, expiresAt);
 
     res.json({
       success: true,
-      message: 'Limit sell order placed successfully',
+      message: result.status === 'PENDING'
+        ? 'Limit sell order placed successfully'
+        : `Limit sell order ${result.status === 'EXECUTED' ? 'executed' : 'cancelled'}`,
       data: {
         order_id: result.orderId,
         btc_amount: result.btcAmount / 100000000, // Convert to BTC
         target_price: result.targetPrice,
         estimated_inr: result.estimatedInr,
+        ...formatTimeInForceResult(result),
         new_balances: {
           inr: result.currentInrBalance,
           btc: result.newAvailableBalance / 100000000 // Convert to BTC
@@ -460,6 +541,9 @@ router.post('/limit-sell', async (req, res) => {
     } else if (error.message === 'Target price too low') {
       statusCode = 400;
       message = error.message;
+    } else if (error.message === 'Market halted') {
+      statusCode = 503;
+      message = 'Trading is temporarily halted while prices are unavailable';
     }
 
     res.status(statusCode).json({
@@ -469,249 +553,125 @@ router.post('/limit-sell', async (req, res) => {
   }
 });
 
-// Get recent transactions
-router.get('/transactions/recent', async (req, res) => {
+// Place Stop-Loss Sell Order (sell at market when the sell rate falls to the stop price)
+router.post('/stop-loss-sell', async (req, res) => {
   try {
     const userId = req.user.id;
-    const limit = parseInt(req.query.limit) || 5;
-    
-    if (limit > 50) {
+    const { amount, stopPrice } = req.body;
+
+    // Validation
+    if (!amount || amount <= 0) {
       return res.status(400).json({
         success: false,
-        message: 'Limit cannot exceed 50'
+        message: 'Amount must be greater than 0'
       });
     }
 
-    const transactions = await userService.getRecentTransactions(userId, limit);
-    const formattedTransactions = userService.formatTransactionsForDisplay(transactions);
-
-    res.json({
-      success: true,
-      data: formattedTransactions
-    });
-
-  } catch (error) {
-    console.error('Recent transactions error:', error);
-    res.status(500).json({
-      success: false,
-      message: 'Error fetching recent transactions'
-    });
-  }
-});
+    if (!stopPrice || stopPrice <= 0 || !Number.isInteger(stopPrice)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Stop price must be a whole number greater than 0 (in rupees)'
+      });
+    }
 
-// Get all transactions with pagination
-router.get('/transactions', async (req, res) => {
-  try {
-    const userId = req.user.id;
-    const page = parseInt(req.query.page) || 1;
-    const limit = parseInt(req.query.limit) || 20;
-    const offset = (page - 1) * limit;
+    // Convert BTC amount to satoshis
+    const satoshiAmount = Math.floor(amount * 100000000);
 
-    if (limit > 100) {
+    if (satoshiAmount <= 0) {
       return res.status(400).json({
         success: false,
-        message: 'Limit cannot exceed 100'
+        message: 'Amount too small'
       });
     }
 
-    const result = await userService.getAllTransactions(userId, offset, limit);
-    const formattedTransactions = userService.formatTransactionsForDisplay(result.transactions);
+    const result = await userService.placeStopLossSellOrder(userId, satoshiAmount, stopPrice);
 
     res.json({
       success: true,
+      message: 'Stop-loss order placed successfully',
       data: {
-        transactions: formattedTransactions,
-        pagination: {
-          page,
-          limit,
-          total: result.totalCount,
-          totalPages: Math.ceil(result.totalCount / limit),
-          hasMore: result.hasMore,
-          hasPrevious: page > 1
+        order_id: result.orderId,
+        btc_amount: result.btcAmount / 100000000, // Convert to BTC
+        stop_price: result.stopPrice,
+        estimated_inr: result.estimatedInr,
+        new_balances: {
+          inr: result.currentInrBalance,
+          btc: result.newAvailableBalance / 100000000 // Convert to BTC
         }
       }
     });
 
   } catch (error) {
-    console.error('All transactions error:', error);
-    res.status(500).json({
-      success: false,
-      message: 'Error fetching transactions'
-    });
-  }
-});
-
-// Get portfolio metrics
-router.get('/portfolio', async (req, res) => {
-  try {
-    const userId = req.user.id;
-    const portfolioData = await portfolioService.calculatePortfolioMetrics(userId);
-
-    res.json({
-      success: true,
-      data: portfolioData
-    });
-
-  } catch (error) {
-    console.error('Portfolio error:', error);
-    res.status(500).json({
-      success: false,
-      message: 'Error fetching portfolio data'
-    });
-  }
-});
-
-// Get user's pending limit orders
-router.get('/limit-orders', async (req, res) => {
-  try {
-    const userId = req.user.id;
-    
-    const pendingOrders = await query(`
-      SELECT 
-        id, type, status, inr_amount, btc_amount, limit_price, 
-        created_at, expires_at,
-        TIMESTAMPDIFF(MINUTE, created_at, NOW()) as age_minutes
-      FROM operations 
-      WHERE user_id = ? 
-      AND status = 'PENDING' 
-      AND type IN ('LIMIT_BUY', 'LIMIT_SELL')
-      ORDER BY created_at DESC
-    `, [userId]);
-
-    const formattedOrders = pendingOrders.map(order => ({
-      ...order,
-      btc_amount: order.btc_amount / 100000000, // Convert to BTC
-      age_hours: Math.round(order.age_minutes / 60 * 10) / 10 // Round to 1 decimal
-    }));
-
-    res.json({
-      success: true,
-      data: formattedOrders
-    });
-
-  } catch (error) {
-    console.error('Get user limit orders error:', error);
-    res.status(500).json({
-      success: false,
-      message: 'Error fetching limit orders'
-    });
-  }
-});
-
-// Cancel user's own pending limit order
-router.delete('/limit-orders/:orderId', async (req, res) => {
-  try {
-    const userId = req.user.id;
-    const { orderId } = req.params;
+    console.error('Stop-loss sell error:', error);
 
-    // Get order details and verify ownership
-    const orders = await query(
-      'SELECT * FROM operations WHERE id = ? AND user_id = ? AND status = "PENDING"',
-      [orderId, userId]
-    );
+    let statusCode = 500;
+    let message = 'Error placing stop-loss order';
 
-    if (orders.length === 0) {
-      return res.status(404).json({
-        success: false,
-        message: 'Pending order not found'
-      });
+    if (error.message === 'Insufficient BTC balance' || error.message === 'Stop price must be below current sell rate') {
+      statusCode = 400;
+      message = error.message;
+    } else if (error.message === 'Market halted') {
+      statusCode = 503;
+      message = 'Trading is temporarily halted while prices are unavailable';
     }
 
-    const order = orders[0];
-
-    // Cancel the order and release funds
-    await transaction(async (connection) => {
-      if (order.type === 'LIMIT_BUY') {
-        // Release reserved INR back to available
-        await connection.execute(
-          'UPDATE users SET available_inr = available_inr + ?, reserved_inr = reserved_inr - ? WHERE id = ?',
-          [order.inr_amount, order.inr_amount, userId]
-        );
-      } else if (order.type === 'LIMIT_SELL') {
-        // Release reserved BTC back to available
-        await connection.execute(
-          'UPDATE users SET available_btc = available_btc + ?, reserved_btc = reserved_btc - ? WHERE id = ?',
-          [order.btc_amount, order.btc_amount, userId]
-        );
-      }
-
-      // Update operation status
-      await connection.execute(
-        'UPDATE operations SET status = ?, cancelled_at = NOW(), cancellation_reason = ? WHERE id = ?',
-        ['CANCELLED', 'User cancellation', orderId]
-      );
-
-      // Clear user cache
-      await clearUserCache(userId);
-    });
-
-    res.json({
-      success: true,
-      message: 'Order cancelled successfully',
-      data: {
-        order_id: orderId,
-        order_type: order.type,
-        released_amount: order.type === 'LIMIT_BUY' ? order.inr_amount : order.btc_amount / 100000000
-      }
-    });
-
-  } catch (error) {
-    console.error('Cancel user order error:', error);
-    res.status(500).json({
+    res.status(statusCode).json({
       success: false,
-      message: 'Error cancelling order'
+      message
     });
   }
 });
 
-// Update user profile (name/email)
-router.patch('/profile', async (req, res) => {
+// Place Stop Buy Order (buy at market when the buy rate rises to the stop price)
+router.post('/stop-buy', async (req, res) => {
   try {
     const userId = req.user.id;
-    const { name, email, currentPassword } = req.body;
+    const { amount, stopPrice } = req.body;
 
     // Validation
-    if (!currentPassword) {
+    if (!amount || amount <= 0 || !Number.isInteger(amount)) {
       return res.status(400).json({
         success: false,
-        message: 'Current password is required'
+        message: 'Amount must be a whole number greater than 0 (in rupees)'
       });
     }
 
-    if (!name && !email) {
+    if (!stopPrice || stopPrice <= 0 || !Number.isInteger(stopPrice)) {
       return res.status(400).json({
         success: false,
-        message: 'Name or email must be provided'
+        message: 'Stop price must be a whole number greater than 0 (in rupees)'
       });
     }
 
-    const result = await userService.updateUserProfile(userId, { name, email, currentPassword });
+    const result = await userService.placeStopBuyOrder(userId, amount, stopPrice);
 
     res.json({
       success: true,
-      message: 'Profile updated successfully',
+      message: 'Stop buy order placed successfully',
       data: {
-        user: {
-          id: result.id,
-          name: result.name,
-          email: result.email,
-          is_admin: result.is_admin
+        order_id: result.orderId,
+        inr_amount: result.inrAmount,
+        stop_price: result.stopPrice,
+        estimated_btc: result.estimatedBtc / 100000000, // Convert to BTC
+        new_balances: {
+          inr: result.newAvailableBalance,
+          btc: result.currentBtcBalance / 100000000 // Convert to BTC
         }
       }
     });
 
   } catch (error) {
-    console.error('Profile update error:', error);
-    
+    console.error('Stop buy error:', error);
+
     let statusCode = 500;
-    let message = 'Error updating profile';
-    
-    if (error.message === 'Invalid current password') {
-      statusCode = 401;
-      message = error.message;
-    } else if (error.message === 'Email already exists') {
-      statusCode = 409;
+    let message = 'Error placing stop buy order';
+
+    if (error.message === 'Insufficient INR balance' || error.message === 'Stop price must be above current buy rate') {
+      statusCode = 400;
       message = error.message;
+    } else if (error.message === 'Market halted') {
+      statusCode = 503;
+      message = 'Trading is temporarily halted while prices are unavailable';
     }
 
     res.status(statusCode).json({
@@ -721,57 +681,91 @@ router.patch('/profile', async (req, res) => {
   }
 });
 
-// Create DCA Buy Plan
-router.post('/dca-buy', async (req, res) => {
+// Place Trailing Stop Order (side BUY spends INR, side SELL sells BTC)
+router.post('/trailing-stop', async (req, res) => {
   try {
     const userId = req.user.id;
-    const { amountPerExecution, frequency, totalExecutions, maxPrice, minPrice } = req.body;
+    const { side, amount, trailPercent } = req.body;
 
     // Validation
-    if (!amountPerExecution || amountPerExecution <= 0) {
+    if (side !== 'BUY' && side !== 'SELL') {
       return res.status(400).json({
         success: false,
-        message: 'Amount per execution must be greater than 0'
+        message: 'Side must be BUY or SELL'
       });
     }
 
-    if (!frequency || !['HOURLY', 'DAILY', 'WEEKLY', 'MONTHLY'].includes(frequency)) {
+    if (!amount || amount <= 0) {
       return res.status(400).json({
         success: false,
-        message: 'Invalid frequency. Must be HOURLY, DAILY, WEEKLY, or MONTHLY'
+        message: 'Amount must be greater than 0'
       });
     }
 
-    if (!Number.isInteger(amountPerExecution)) {
+    if (side === 'BUY' && !Number.isInteger(amount)) {
       return res.status(400).json({
         success: false,
-        message: 'Amount per execution must be a whole number (in rupees)'
+        message: 'Amount must be a whole number (in rupees)'
       });
     }
 
-    const result = await userService.createDcaBuyPlan(userId, {
-      amountPerExecution,
-      frequency,
-      totalExecutions,
-      maxPrice,
-      minPrice
-    });
+    if (!trailPercent || trailPercent < 0.1 || trailPercent > 50) {
+      return res.status(400).json({
+        success: false,
+        message: 'Trail percent must be between 0.1 and 50'
+      });
+    }
+
+    // Sell amounts are in BTC, convert to satoshis
+    const orderAmount = side === 'SELL' ? Math.floor(amount * 100000000) : amount;
+
+    if (orderAmount <= 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'Amount too small'
+      });
+    }
+
+    const result = await userService.placeTrailingStopOrder(userId, side, orderAmount, trailPercent);
 
     res.json({
       success: true,
-      message: 'DCA buy plan created successfully',
-      data: result
+      message: 'Trailing stop order placed successfully',
+      data: {
+        order_id: result.orderId,
+        type: result.type,
+        stop_price: result.stopPrice,
+        trail_percent: result.trailPercent,
+        ...(side === 'SELL' ? {
+          btc_amount: result.btcAmount / 100000000,
+          estimated_inr: result.estimatedInr,
+          new_balances: {
+            inr: result.currentInrBalance,
+            btc: result.newAvailableBalance / 100000000
+          }
+        } : {
+          inr_amount: result.inrAmount,
+          estimated_btc: result.estimatedBtc / 100000000,
+          new_balances: {
+            inr: result.newAvailableBalance,
+            btc: result.currentBtcBalance / 100000000
+          }
+        })
+      }
     });
 
   } catch (error) {
-    console.error('DCA buy plan creation error:', error);
-    
+    console.error('Trailing stop error:', error);
+
     let statusCode = 500;
-    let message = 'Error creating DCA buy plan';
-    
-    if (error.message === 'Invalid frequency' || error.message === 'Invalid price limits') {
+    let message = 'Error placing trailing stop order';
+
+    if (error.message === 'Insufficient INR balance' || error.message === 'Insufficient BTC balance') {
       statusCode = 400;
       message = error.message;
+    } else if (error.message === 'Market halted') {
+      statusCode = 503;
+      message = 'Trading is temporarily halted while prices are unavailable';
     }
 
     res.status(statusCode).json({
@@ -781,58 +775,998 @@ router.post('/dca-buy', async (req, res) => {
   }
 });
 
-// Create DCA Sell Plan
-router.post('/dca-sell', async (req, res) => {
+// Place OCO Sell Order (take-profit limit sell + stop-loss sell against the same BTC)
+router.post('/oco-sell', async (req, res) => {
   try {
     const userId = req.user.id;
-    const { amountPerExecution, frequency, totalExecutions, maxPrice, minPrice } = req.body;
+    const { amount, targetPrice, stopPrice, timeInForce = 'GTC', expiresAt } = req.body;
 
     // Validation
-    if (!amountPerExecution || amountPerExecution <= 0) {
+    if (!amount || amount <= 0) {
       return res.status(400).json({
         success: false,
-        message: 'Amount per execution must be greater than 0'
+        message: 'Amount must be greater than 0'
       });
     }
 
-    if (!frequency || !['HOURLY', 'DAILY', 'WEEKLY', 'MONTHLY'].includes(frequency)) {
+    if (!targetPrice || targetPrice <= 0 || !Number.isInteger(targetPrice)) {
       return res.status(400).json({
         success: false,
-        message: 'Invalid frequency. Must be HOURLY, DAILY, WEEKLY, or MONTHLY'
+        message: 'Target price must be a whole number greater than 0 (in rupees)'
       });
     }
 
-    // Convert BTC amount to satoshis
-    const satoshiAmount = Math.floor(amountPerExecution * 100000000);
+    if (!stopPrice || stopPrice <= 0 || !Number.isInteger(stopPrice)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Stop price must be a whole number greater than 0 (in rupees)'
+      });
+    }
+
+    // OCO brackets rest in the book, so IOC and FOK do not apply
+    if (timeInForce !== 'GTC' && timeInForce !== 'GTD') {
+      return res.status(400).json({
+        success: false,
+        message: 'OCO orders must be GTC or GTD'
+      });
+    }
+
+    const timeInForceError = validateTimeInForce(timeInForce, expiresAt);
+    if (timeInForceError) {
+      return res.status(400).json({
+        success: false,
+        message: timeInForceError
+      });
+    }
+
+    // Convert BTC amount to satoshis
+    const satoshiAmount = Math.floor(amount * 100000000);
+
+    if (satoshiAmount <= 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'Amount too small'
+      });
+    }
+
+    const result = await userService.placeOcoSellOrder(userId, satoshiAmount, targetPrice, stopPrice, timeInForce, expiresAt);
+
+    res.json({
+      success: true,
+      message: 'OCO order placed successfully',
+      data: {
+        target_order_id: result.targetOrderId,
+        stop_order_id: result.stopOrderId,
+        btc_amount: result.btcAmount / 100000000, // Convert to BTC
+        target_price: result.targetPrice,
+        stop_price: result.stopPrice,
+        time_in_force: result.timeInForce,
+        expires_at: result.expiresAt,
+        new_balances: {
+          inr: result.currentInrBalance,
+          btc: result.newAvailableBalance / 100000000 // Convert to BTC
+        }
+      }
+    });
+
+  } catch (error) {
+    console.error('OCO sell error:', error);
+
+    let statusCode = 500;
+    let message = 'Error placing OCO order';
+
+    if (error.message === 'Insufficient BTC balance' ||
+        error.message === 'Target price must be above current sell rate' ||
+        error.message === 'Stop price must be below current sell rate') {
+      statusCode = 400;
+      message = error.message;
+    } else if (error.message === 'Market halted') {
+      statusCode = 503;
+      message = 'Trading is temporarily halted while prices are unavailable';
+    }
+
+    res.status(statusCode).json({
+      success: false,
+      message
+    });
+  }
+});
+
+// Get recent transactions
+router.get('/transactions/recent', async (req, res) => {
+  try {
+    const userId = req.user.id;
+    const limit = parseInt(req.query.limit) || 5;
+    
+    if (limit > 50) {
+      return res.status(400).json({
+        success: false,
+        message: 'Limit cannot exceed 50'
+      });
+    }
+
+    const transactions = await userService.getRecentTransactions(userId, limit);
+    const formattedTransactions = userService.formatTransactionsForDisplay(transactions);
+
+    res.json({
+      success: true,
+      data: formattedTransactions
+    });
+
+  } catch (error) {
+    console.error('Recent transactions error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error fetching recent transactions'
+    });
+  }
+});
+
+// Get all transactions with pagination
+router.get('/transactions', async (req, res) => {
+  try {
+    const userId = req.user.id;
+    const page = parseInt(req.query.page) || 1;
+    const limit = parseInt(req.query.limit) || 20;
+    const offset = (page - 1) * limit;
+
+    if (limit > 100) {
+      return res.status(400).json({
+        success: false,
+        message: 'Limit cannot exceed 100'
+      });
+    }
+
+    const result = await userService.getAllTransactions(userId, offset, limit);
+    const formattedTransactions = userService.formatTransactionsForDisplay(result.transactions);
+
+    res.json({
+      success: true,
+      data: {
+        transactions: formattedTransactions,
+        pagination: {
+          page,
+          limit,
+          total: result.totalCount,
+          totalPages: Math.ceil(result.totalCount / limit),
+          hasMore: result.hasMore,
+          hasPrevious: page > 1
+        }
+      }
+    });
+
+  } catch (error) {
+    console.error('All transactions error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error fetching transactions'
+    });
+  }
+});
+
+// Get portfolio metrics; ?method=FIFO|LIFO|AVERAGE selects the cost-basis method for realized P&L
+router.get('/portfolio', async (req, res) => {
+  try {
+    const userId = req.user.id;
+    const costBasisMethod = (req.query.method || 'FIFO').toUpperCase();
+    const portfolioData = await portfolioService.calculatePortfolioMetrics(userId, costBasisMethod);
+
+    res.json({
+      success: true,
+      data: portfolioData
+    });
+
+  } catch (error) {
+    if (error.message === 'Invalid cost basis method') {
+      return res.status(400).json({
+        success: false,
+        message: 'Cost basis method must be FIFO, LIFO or AVERAGE'
+      });
+    }
+    console.error('Portfolio error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error fetching portfolio data'
+    });
+  }
+});
+
+// Daily portfolio value history with time- and money-weighted returns; ?range=7d|30d|90d|365d|all
+router.get('/portfolio/history', async (req, res) => {
+  try {
+    const userId = req.user.id;
+    const history = await portfolioService.getPortfolioHistory(userId, req.query.range || '30d');
+
+    res.json({
+      success: true,
+      data: history
+    });
+
+  } catch (error) {
+    if (error.message === 'Invalid range') {
+      return res.status(400).json({
+        success: false,
+        message: 'Range must be 7d, 30d, 90d, 365d or all'
+      });
+    }
+    console.error('Portfolio history error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error fetching portfolio history'
+    });
+  }
+});
+
+// Get user's pending limit and stop orders with filled vs remaining quantity
+router.get('/limit-orders', async (req, res) => {
+  try {
+    const userId = req.user.id;
+    
+    const pendingOrders = await limitOrderExecutionService.getPendingOrders(userId);
+
+    const formattedOrders = pendingOrders
+      .sort((a, b) => new Date(b.created_at) - new Date(a.created_at))
+      .map(order => ({
+        id: order.id,
+        type: order.type,
+        status: order.status,
+        inr_amount: order.inr_amount,
+        btc_amount: order.btc_amount / 100000000, // Convert to BTC
+        limit_price: order.limit_price,
+        trail_percent: order.trail_percent ? parseFloat(order.trail_percent) : null,
+        oco_order_id: order.oco_order_id,
+        time_in_force: order.time_in_force,
+        created_at: order.created_at,
+        expires_at: order.expires_at,
+        age_minutes: order.age_minutes,
+        age_hours: Math.round(order.age_minutes / 60 * 10) / 10, // Round to 1 decimal
+        filled_inr: order.filled_inr,
+        filled_btc: order.filled_btc / 100000000,
+        remaining_inr: order.remaining_inr,
+        remaining_btc: order.remaining_btc / 100000000,
+        fill_count: order.fill_count
+      }));
+
+    res.json({
+      success: true,
+      data: formattedOrders
+    });
+
+  } catch (error) {
+    console.error('Get user limit orders error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error fetching limit orders'
+    });
+  }
+});
+
+// Amend user's own pending limit order (price, amount and/or GTD expiry)
+router.patch('/limit-orders/:orderId', async (req, res) => {
+  try {
+    const userId = req.user.id;
+    const { orderId } = req.params;
+    const { targetPrice, amount, expiresAt } = req.body;
+
+    if (targetPrice === undefined && amount === undefined && expiresAt === undefined) {
+      return res.status(400).json({
+        success: false,
+        message: 'Provide targetPrice, amount or expiresAt to amend'
+      });
+    }
+
+    if (targetPrice !== undefined && (!Number.isInteger(targetPrice) || targetPrice <= 0)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Target price must be a whole number greater than 0 (in rupees)'
+      });
+    }
+
+    if (amount !== undefined && (!amount || amount <= 0)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Amount must be greater than 0'
+      });
+    }
+
+    if (expiresAt !== undefined) {
+      const expiryError = validateTimeInForce('GTD', expiresAt);
+      if (expiryError) {
+        return res.status(400).json({
+          success: false,
+          message: expiryError
+        });
+      }
+    }
+
+    // Amount units depend on the order side
+    const orders = await query(
+      'SELECT type FROM operations WHERE id = ? AND user_id = ? AND status = "PENDING"',
+      [orderId, userId]
+    );
+
+    if (orders.length === 0) {
+      return res.status(404).json({
+        success: false,
+        message: 'Pending order not found'
+      });
+    }
+
+    let orderAmount;
+    if (amount !== undefined) {
+      if (orders[0].type === 'LIMIT_BUY' && !Number.isInteger(amount)) {
+        return res.status(400).json({
+          success: false,
+          message: 'Amount must be a whole number (in rupees)'
+        });
+      }
+
+      // Sell amounts are in BTC, convert to satoshis
+      orderAmount = orders[0].type === 'LIMIT_SELL' ? Math.floor(amount * 100000000) : amount;
+      if (orderAmount <= 0) {
+        return res.status(400).json({
+          success: false,
+          message: 'Amount too small'
+        });
+      }
+    }
+
+    const result = await userService.amendLimitOrder(userId, parseInt(orderId), {
+      targetPrice,
+      amount: orderAmount,
+      expiresAt
+    });
+
+    res.json({
+      success: true,
+      message: 'Order amended successfully',
+      data: {
+        order_id: result.orderId,
+        order_type: result.type,
+        limit_price: result.limitPrice,
+        inr_amount: result.inrAmount,
+        btc_amount: result.btcAmount / 100000000, // Convert to BTC
+        expires_at: result.expiresAt,
+        // Positive when more balance was reserved, negative when some was released
+        reserved_change: result.type === 'LIMIT_BUY' ? result.reserveDelta : result.reserveDelta / 100000000
+      }
+    });
+
+  } catch (error) {
+    console.error('Amend user order error:', error);
+
+    let statusCode = 500;
+    let message = 'Error amending order';
+
+    if (error.message === 'Pending order not found') {
+      statusCode = 404;
+      message = error.message;
+    } else if ([
+      'Only limit orders can be amended',
+      'OCO orders cannot be amended',
+      'Expiry can only be set for GTD orders',
+      'Target price too high',
+      'Target price too low',
+      'Amount must be greater than the already filled amount',
+      'Insufficient INR balance',
+      'Insufficient BTC balance',
+      'No changes to apply'
+    ].includes(error.message)) {
+      statusCode = 400;
+      message = error.message;
+    } else if (error.message.endsWith('is no longer pending')) {
+      statusCode = 409;
+      message = 'Order was filled or cancelled while amending';
+    } else if (error.message === 'Market halted') {
+      statusCode = 503;
+      message = 'Trading is temporarily halted while prices are unavailable';
+    }
+
+    res.status(statusCode).json({
+      success: false,
+      message
+    });
+  }
+});
+
+// Get amendment history of user's own limit order
+router.get('/limit-orders/:orderId/amendments', async (req, res) => {
+  try {
+    const userId = req.user.id;
+    const { orderId } = req.params;
+
+    const amendments = await userService.getOrderAmendments(userId, orderId);
+
+    res.json({
+      success: true,
+      data: amendments.map(amendment => ({
+        id: amendment.id,
+        old_limit_price: amendment.old_limit_price,
+        new_limit_price: amendment.new_limit_price,
+        old_inr_amount: amendment.old_inr_amount,
+        new_inr_amount: amendment.new_inr_amount,
+        old_btc_amount: amendment.old_btc_amount / 100000000, // Convert to BTC
+        new_btc_amount: amendment.new_btc_amount / 100000000,
+        old_expires_at: amendment.old_expires_at,
+        new_expires_at: amendment.new_expires_at,
+        created_at: amendment.created_at
+      }))
+    });
+
+  } catch (error) {
+    console.error('Get order amendments error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error fetching order amendments'
+    });
+  }
+});
+
+// Cancel user's own pending limit order
+router.delete('/limit-orders/:orderId', async (req, res) => {
+  try {
+    const userId = req.user.id;
+    const { orderId } = req.params;
+
+    // Get order details and verify ownership
+    const orders = await query(
+      'SELECT * FROM operations WHERE id = ? AND user_id = ? AND status = "PENDING"',
+      [orderId, userId]
+    );
+
+    if (orders.length === 0) {
+      return res.status(404).json({
+        success: false,
+        message: 'Pending order not found'
+      });
+    }
+
+    const order = orders[0];
+
+    // Cancel the order and release the funds still reserved for its unfilled part
+    const releasedAmount = await transaction(async (connection) => {
+      const released = await limitOrderExecutionService.releaseOrderReservation(connection, order);
+
+      // Update operation status
+      await connection.execute(
+        'UPDATE operations SET status = ?, cancelled_at = NOW(), cancellation_reason = ? WHERE id = ?',
+        ['CANCELLED', 'User cancellation', orderId]
+      );
+
+      // Clear user cache
+      await clearUserCache(userId);
+
+      return released;
+    });
+
+    res.json({
+      success: true,
+      message: 'Order cancelled successfully',
+      data: {
+        order_id: orderId,
+        order_type: order.type,
+        released_amount: limitOrderExecutionService.isBuyOrder(order) ? releasedAmount : releasedAmount / 100000000
+      }
+    });
+
+  } catch (error) {
+    console.error('Cancel user order error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error cancelling order'
+    });
+  }
+});
+
+// Update user profile (name/email)
+router.patch('/profile', async (req, res) => {
+  try {
+    const userId = req.user.id;
+    const { name, email, currentPassword } = req.body;
+
+    // Validation
+    if (!currentPassword) {
+      return res.status(400).json({
+        success: false,
+        message: 'Current password is required'
+      });
+    }
+
+    if (!name && !email) {
+      return res.status(400).json({
+        success: false,
+        message: 'Name or email must be provided'
+      });
+    }
+
+    const result = await userService.updateUserProfile(userId, { name, email, currentPassword });
+
+    res.json({
+      success: true,
+      message: 'Profile updated successfully',
+      data: {
+        user: {
+          id: result.id,
+          name: result.name,
+          email: result.email,
+          is_admin: result.is_admin
+        }
+      }
+    });
+
+  } catch (error) {
+    console.error('Profile update error:', error);
+    
+    let statusCode = 500;
+    let message = 'Error updating profile';
+    
+    if (error.message === 'Invalid current password') {
+      statusCode = 401;
+      message = error.message;
+    } else if (error.message === 'Email already exists') {
+      statusCode = 409;
+      message = error.message;
+    }
+
+    res.status(statusCode).json({
+      success: false,
+      message
+    });
+  }
+});
+
+// Strategy request problems the DCA routes report as 400s
+const DCA_STRATEGY_VALIDATION_ERRORS = [
+  'Strategy must be FIXED, VALUE_AVERAGING or DIP_MULTIPLIER',
+  'Strategies are only available for DCA buy plans',
+  'Target growth must be a whole number of rupees greater than 0',
+  'Maximum amount must be a whole number of rupees at least the target growth',
+  'Dip threshold must be between 0 and 100%',
+  'Dip multiplier must be above 1 and at most 10',
+  'Moving average must be 7, 30, 90 or 365 days'
+];
+
+// Custom schedule problems the DCA routes report as 400s
+const DCA_SCHEDULE_VALIDATION_ERRORS = [
+  'Schedule type must be WEEKDAYS, MONTH_DAYS or CRON',
+  'Pick at least one weekday',
+  'Weekdays must be 0 (Sunday) to 6 (Saturday)',
+  'Pick at least one day of the month',
+  'Days of the month must be 1 to 31, or -1 for the last day',
+  'Time must be HH:MM (24-hour, IST)',
+  'Cron expression must have 5 fields: minute hour day-of-month month day-of-week',
+  'Cron schedules may run at most once an hour (use a single minute)',
+  'Invalid cron expression',
+  'Schedule never runs'
+];
+
+// Budgets and goals are stored in whole rupees or in satoshis
+const DCA_LIMIT_UNITS = {
+  INR: { convert: value => Math.floor(Number(value)), minimum: '₹1' },
+  BTC: { convert: value => Math.floor(Number(value) * 100000000), minimum: '0.00000001 BTC' }
+};
+
+const toDcaLimit = (value, unit) => (value === undefined || value === null ? null : DCA_LIMIT_UNITS[unit].convert(value));
+
+// Budget, goal and end date are optional; a budget or goal that rounds down to 0 in its stored unit
+// is rejected rather than dropped. Returns the first problem or null
+const validateDcaLimits = ({ budgetLimit, goalAmount, endDate }, { budgetUnit, goalUnit }) => {
+  if (budgetLimit !== undefined && budgetLimit !== null && !(Number(budgetLimit) > 0)) {
+    return 'Budget must be greater than 0';
+  }
+  if (toDcaLimit(budgetLimit, budgetUnit) === 0) {
+    return `Budget must be at least ${DCA_LIMIT_UNITS[budgetUnit].minimum}`;
+  }
+  if (goalAmount !== undefined && goalAmount !== null && !(Number(goalAmount) > 0)) {
+    return 'Goal must be greater than 0';
+  }
+  if (toDcaLimit(goalAmount, goalUnit) === 0) {
+    return `Goal must be at least ${DCA_LIMIT_UNITS[goalUnit].minimum}`;
+  }
+  if (endDate !== undefined && endDate !== null && !(new Date(endDate).getTime() > Date.now())) {
+    return 'End date must be in the future';
+  }
+  return null;
+};
+
+// Create DCA Buy Plan
+router.post('/dca-buy', async (req, res) => {
+  try {
+    const userId = req.user.id;
+    const { amountPerExecution, frequency, totalExecutions, maxPrice, minPrice, strategy, catchUpPolicy, schedule, budgetLimit, goalAmount, endDate } = req.body;
+
+    // Validation
+    if (!amountPerExecution || amountPerExecution <= 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'Amount per execution must be greater than 0'
+      });
+    }
+
+    if (!frequency || !['HOURLY', 'DAILY', 'WEEKLY', 'MONTHLY', 'CUSTOM'].includes(frequency)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid frequency. Must be HOURLY, DAILY, WEEKLY, MONTHLY, or CUSTOM'
+      });
+    }
+
+    if (catchUpPolicy !== undefined && !['SKIP', 'ONCE', 'ALL'].includes(catchUpPolicy)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid catch-up policy. Must be SKIP, ONCE, or ALL'
+      });
+    }
+
+    const limitsError = validateDcaLimits({ budgetLimit, goalAmount, endDate }, { budgetUnit: 'INR', goalUnit: 'BTC' });
+    if (limitsError) {
+      return res.status(400).json({
+        success: false,
+        message: limitsError
+      });
+    }
+
+    if (!Number.isInteger(amountPerExecution)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Amount per execution must be a whole number (in rupees)'
+      });
+    }
+
+    const result = await userService.createDcaBuyPlan(userId, {
+      amountPerExecution,
+      frequency,
+      totalExecutions,
+      maxPrice,
+      minPrice,
+      strategy,
+      catchUpPolicy,
+      schedule,
+      budgetLimit: toDcaLimit(budgetLimit, 'INR'), // Rupees
+      goalAmount: toDcaLimit(goalAmount, 'BTC'), // BTC to satoshis
+      endDate
+    });
+
+    res.json({
+      success: true,
+      message: 'DCA buy plan created successfully',
+      data: result
+    });
+
+  } catch (error) {
+    console.error('DCA buy plan creation error:', error);
+    
+    let statusCode = 500;
+    let message = 'Error creating DCA buy plan';
+    
+    if (error.message === 'Invalid frequency' || error.message === 'Invalid price limits' || DCA_STRATEGY_VALIDATION_ERRORS.includes(error.message) || DCA_SCHEDULE_VALIDATION_ERRORS.includes(error.message)) {
+      statusCode = 400;
+      message = error.message;
+    }
+
+    res.status(statusCode).json({
+      success: false,
+      message
+    });
+  }
+});
+
+// Create DCA Sell Plan
+router.post('/dca-sell', async (req, res) => {
+  try {
+    const userId = req.user.id;
+    const { amountPerExecution, frequency, totalExecutions, maxPrice, minPrice, catchUpPolicy, schedule, budgetLimit, goalAmount, endDate } = req.body;
+
+    // Validation
+    if (!amountPerExecution || amountPerExecution <= 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'Amount per execution must be greater than 0'
+      });
+    }
+
+    if (!frequency || !['HOURLY', 'DAILY', 'WEEKLY', 'MONTHLY', 'CUSTOM'].includes(frequency)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid frequency. Must be HOURLY, DAILY, WEEKLY, MONTHLY, or CUSTOM'
+      });
+    }
+
+    if (catchUpPolicy !== undefined && !['SKIP', 'ONCE', 'ALL'].includes(catchUpPolicy)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid catch-up policy. Must be SKIP, ONCE, or ALL'
+      });
+    }
+
+    const limitsError = validateDcaLimits({ budgetLimit, goalAmount, endDate }, { budgetUnit: 'BTC', goalUnit: 'INR' });
+    if (limitsError) {
+      return res.status(400).json({
+        success: false,
+        message: limitsError
+      });
+    }
+
+    // Convert BTC amount to satoshis
+    const satoshiAmount = Math.floor(amountPerExecution * 100000000);
     
     if (satoshiAmount <= 0) {
       return res.status(400).json({
         success: false,
-        message: 'Amount too small'
+        message: 'Amount too small'
+      });
+    }
+
+    const result = await userService.createDcaSellPlan(userId, {
+      amountPerExecution: satoshiAmount,
+      frequency,
+      totalExecutions,
+      maxPrice,
+      minPrice,
+      catchUpPolicy,
+      schedule,
+      budgetLimit: toDcaLimit(budgetLimit, 'BTC'), // BTC to satoshis
+      goalAmount: toDcaLimit(goalAmount, 'INR'), // Rupees
+      endDate
+    });
+
+    res.json({
+      success: true,
+      message: 'DCA sell plan created successfully',
+      data: result
+    });
+
+  } catch (error) {
+    console.error('DCA sell plan creation error:', error);
+    
+    let statusCode = 500;
+    let message = 'Error creating DCA sell plan';
+    
+    if (error.message === 'Invalid frequency' || error.message === 'Invalid price limits' || DCA_SCHEDULE_VALIDATION_ERRORS.includes(error.message)) {
+      statusCode = 400;
+      message = error.message;
+    }
+
+    res.status(statusCode).json({
+      success: false,
+      message
+    });
+  }
+});
+
+// Get user's DCA plans
+router.get('/dca-plans', async (req, res) => {
+  try {
+    const userId = req.user.id;
+    
+    const plans = await query(`
+      SELECT 
+        ap.id, ap.plan_type, ap.status, ap.frequency, ap.amount_per_execution,
+        ap.strategy, ap.va_target_growth, ap.va_max_amount, ap.dip_threshold_pct, ap.dip_multiplier, ap.dip_ma_days,
+        ap.next_execution_at, ap.total_executions, ap.remaining_executions,
+        ap.budget_limit, ap.goal_amount, ap.end_date,
+        ap.max_price, ap.min_price, ap.catch_up_policy, ap.schedule, ap.created_at,
+        COALESCE((
+          SELECT SUM(o.inr_amount) FROM operations o
+          WHERE o.parent_id = ap.id AND o.type = ap.plan_type AND o.status = 'EXECUTED'
+        ), 0) as executed_inr,
+        COALESCE((
+          SELECT SUM(o.btc_amount) FROM operations o
+          WHERE o.parent_id = ap.id AND o.type = ap.plan_type AND o.status = 'EXECUTED'
+        ), 0) as executed_btc
+      FROM active_plans ap
+      WHERE ap.user_id = ? 
+      AND ap.status IN ('ACTIVE', 'PAUSED')
+      ORDER BY ap.created_at DESC
+    `, [userId]);
+
+    const formattedPlans = plans.map(({ executed_inr, executed_btc, ...plan }) => ({
+      ...plan,
+      ...dcaExecutionService.formatPlanLimits({ ...plan, executed_inr, executed_btc }),
+      dip_threshold_pct: plan.dip_threshold_pct === null ? null : Number(plan.dip_threshold_pct),
+      dip_multiplier: plan.dip_multiplier === null ? null : Number(plan.dip_multiplier),
+      amount_per_execution: plan.plan_type === 'DCA_SELL' ? 
+        plan.amount_per_execution / 100000000 : plan.amount_per_execution // Convert to BTC for sell plans
+    }));
+
+    res.json({
+      success: true,
+      data: formattedPlans
+    });
+
+  } catch (error) {
+    console.error('Get DCA plans error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error fetching DCA plans'
+    });
+  }
+});
+
+// Preview what a DCA plan's next execution would spend under a strategy
+router.post('/dca-plans/:planId/strategy/preview', async (req, res) => {
+  try {
+    const preview = await dcaStrategyService.previewStrategy(req.user.id, req.params.planId, req.body);
+
+    res.json({
+      success: true,
+      data: preview
+    });
+
+  } catch (error) {
+    console.error('Preview DCA strategy error:', error);
+
+    let statusCode = 500;
+    let message = 'Error previewing DCA strategy';
+
+    if (error.message === 'DCA plan not found') {
+      statusCode = 404;
+      message = error.message;
+    } else if (DCA_STRATEGY_VALIDATION_ERRORS.includes(error.message)) {
+      statusCode = 400;
+      message = error.message;
+    }
+
+    res.status(statusCode).json({
+      success: false,
+      message
+    });
+  }
+});
+
+// Change a DCA plan's strategy
+router.put('/dca-plans/:planId/strategy', async (req, res) => {
+  try {
+    const result = await dcaStrategyService.setStrategy(req.user.id, req.params.planId, req.body);
+
+    res.json({
+      success: true,
+      message: 'DCA strategy updated successfully',
+      data: result
+    });
+
+  } catch (error) {
+    console.error('Update DCA strategy error:', error);
+
+    let statusCode = 500;
+    let message = 'Error updating DCA strategy';
+
+    if (error.message === 'DCA plan not found') {
+      statusCode = 404;
+      message = error.message;
+    } else if (DCA_STRATEGY_VALIDATION_ERRORS.includes(error.message)) {
+      statusCode = 400;
+      message = error.message;
+    }
+
+    res.status(statusCode).json({
+      success: false,
+      message
+    });
+  }
+});
+
+// Edit a DCA plan in place: amount, frequency, price bounds and remaining executions
+router.patch('/dca-plans/:planId', async (req, res) => {
+  try {
+    const userId = req.user.id;
+    const { planId } = req.params;
+    const { amountPerExecution, frequency, schedule, maxPrice, minPrice, remainingExecutions } = req.body;
+
+    if ([amountPerExecution, frequency, schedule, maxPrice, minPrice, remainingExecutions].every(value => value === undefined)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Provide amountPerExecution, frequency, schedule, maxPrice, minPrice or remainingExecutions to edit'
       });
     }
 
-    const result = await userService.createDcaSellPlan(userId, {
-      amountPerExecution: satoshiAmount,
+    if (amountPerExecution !== undefined && (!amountPerExecution || amountPerExecution <= 0)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Amount per execution must be greater than 0'
+      });
+    }
+
+    if (frequency !== undefined && !['HOURLY', 'DAILY', 'WEEKLY', 'MONTHLY', 'CUSTOM'].includes(frequency)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid frequency. Must be HOURLY, DAILY, WEEKLY, MONTHLY, or CUSTOM'
+      });
+    }
+
+    // Price bounds and remaining executions may be cleared with null
+    if ([maxPrice, minPrice].some(price => price !== undefined && price !== null && !(Number.isInteger(price) && price > 0))) {
+      return res.status(400).json({
+        success: false,
+        message: 'Price limits must be whole numbers greater than 0 (in rupees)'
+      });
+    }
+
+    if (remainingExecutions !== undefined && remainingExecutions !== null && !(Number.isInteger(remainingExecutions) && remainingExecutions > 0)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Remaining executions must be a whole number greater than 0'
+      });
+    }
+
+    // Amount units depend on the plan side
+    const plans = await query(
+      'SELECT plan_type FROM active_plans WHERE id = ? AND user_id = ? AND status IN ("ACTIVE", "PAUSED")',
+      [planId, userId]
+    );
+
+    if (plans.length === 0) {
+      return res.status(404).json({
+        success: false,
+        message: 'DCA plan not found'
+      });
+    }
+
+    let planAmount;
+    if (amountPerExecution !== undefined) {
+      if (plans[0].plan_type === 'DCA_BUY' && !Number.isInteger(amountPerExecution)) {
+        return res.status(400).json({
+          success: false,
+          message: 'Amount per execution must be a whole number (in rupees)'
+        });
+      }
+
+      // Sell amounts are in BTC, convert to satoshis
+      planAmount = plans[0].plan_type === 'DCA_SELL' ? Math.floor(amountPerExecution * 100000000) : amountPerExecution;
+      if (planAmount <= 0) {
+        return res.status(400).json({
+          success: false,
+          message: 'Amount too small'
+        });
+      }
+    }
+
+    const result = await userService.amendDcaPlan(userId, parseInt(planId), {
+      amountPerExecution: planAmount,
       frequency,
-      totalExecutions,
+      schedule,
       maxPrice,
-      minPrice
+      minPrice,
+      remainingExecutions
     });
 
+    // Let the executor wake up for the new run time
+    if (result.rescheduled) {
+      await dcaExecutionService.triggerReschedule();
+    }
+
     res.json({
       success: true,
-      message: 'DCA sell plan created successfully',
-      data: result
+      message: 'DCA plan updated successfully',
+      data: {
+        plan_id: result.planId,
+        plan_type: result.planType,
+        status: result.status,
+        amount_per_execution: result.planType === 'DCA_SELL' ? result.amountPerExecution / 100000000 : result.amountPerExecution,
+        frequency: result.frequency,
+        schedule: result.schedule,
+        max_price: result.maxPrice,
+        min_price: result.minPrice,
+        remaining_executions: result.remainingExecutions,
+        next_execution_at: result.nextExecutionAt
+      }
     });
 
   } catch (error) {
-    console.error('DCA sell plan creation error:', error);
-    
+    console.error('Edit DCA plan error:', error);
+
     let statusCode = 500;
-    let message = 'Error creating DCA sell plan';
-    
-    if (error.message === 'Invalid frequency' || error.message === 'Invalid price limits') {
+    let message = 'Error updating DCA plan';
+
+    if (error.message === 'DCA plan not found') {
+      statusCode = 404;
+      message = error.message;
+    } else if ([
+      'Custom frequency requires a schedule',
+      'Invalid price limits',
+      'No changes to apply',
+      'Insufficient INR balance for DCA plan',
+      'Insufficient BTC balance for DCA plan'
+    ].includes(error.message) || DCA_SCHEDULE_VALIDATION_ERRORS.includes(error.message)) {
       statusCode = 400;
       message = error.message;
     }
@@ -844,38 +1778,45 @@ router.post('/dca-sell', async (req, res) => {
   }
 });
 
-// Get user's DCA plans
-router.get('/dca-plans', async (req, res) => {
+// Get change history of user's own DCA plan
+router.get('/dca-plans/:planId/changes', async (req, res) => {
   try {
     const userId = req.user.id;
-    
-    const plans = await query(`
-      SELECT 
-        id, plan_type, status, frequency, amount_per_execution,
-        next_execution_at, total_executions, remaining_executions,
-        max_price, min_price, created_at
-      FROM active_plans 
-      WHERE user_id = ? 
-      AND status IN ('ACTIVE', 'PAUSED')
-      ORDER BY created_at DESC
-    `, [userId]);
+    const { planId } = req.params;
 
-    const formattedPlans = plans.map(plan => ({
-      ...plan,
-      amount_per_execution: plan.plan_type === 'DCA_SELL' ? 
-        plan.amount_per_execution / 100000000 : plan.amount_per_execution // Convert to BTC for sell plans
-    }));
+    const changes = await userService.getDcaPlanChanges(userId, planId);
 
     res.json({
       success: true,
-      data: formattedPlans
+      data: changes.map(change => {
+        // Sell plan amounts are stored in satoshis
+        const toPlanUnits = amount => (change.plan_type === 'DCA_SELL' ? amount / 100000000 : amount);
+        return {
+          id: change.id,
+          old_amount_per_execution: toPlanUnits(change.old_amount_per_execution),
+          new_amount_per_execution: toPlanUnits(change.new_amount_per_execution),
+          old_frequency: change.old_frequency,
+          new_frequency: change.new_frequency,
+          old_schedule: change.old_schedule,
+          new_schedule: change.new_schedule,
+          old_max_price: change.old_max_price,
+          new_max_price: change.new_max_price,
+          old_min_price: change.old_min_price,
+          new_min_price: change.new_min_price,
+          old_remaining_executions: change.old_remaining_executions,
+          new_remaining_executions: change.new_remaining_executions,
+          old_next_execution_at: change.old_next_execution_at,
+          new_next_execution_at: change.new_next_execution_at,
+          created_at: change.created_at
+        };
+      })
     });
 
   } catch (error) {
-    console.error('Get DCA plans error:', error);
+    console.error('Get DCA plan changes error:', error);
     res.status(500).json({
       success: false,
-      message: 'Error fetching DCA plans'
+      message: 'Error fetching DCA plan changes'
     });
   }
 });
@@ -948,29 +1889,13 @@ router.patch('/dca-plans/:planId/resume', async (req, res) => {
 
     const plan = plans[0];
 
-    // Calculate next execution time based on frequency
-    let nextExecutionQuery;
-    switch (plan.frequency) {
-      case 'HOURLY':
-        nextExecutionQuery = 'DATE_ADD(NOW(), INTERVAL 1 HOUR)';
-        break;
-      case 'DAILY':
-        nextExecutionQuery = 'DATE_ADD(NOW(), INTERVAL 1 DAY)';
-        break;
-      case 'WEEKLY':
-        nextExecutionQuery = 'DATE_ADD(NOW(), INTERVAL 1 WEEK)';
-        break;
-      case 'MONTHLY':
-        nextExecutionQuery = 'DATE_ADD(NOW(), INTERVAL 1 MONTH)';
-        break;
-      default:
-        nextExecutionQuery = 'DATE_ADD(NOW(), INTERVAL 1 DAY)';
-    }
+    // Next run one period from now, or the schedule's next run for custom plans
+    const nextExecutionAt = dcaScheduleService.getNextExecution(plan, new Date());
 
     // Resume the plan and set next execution time
     await query(
-      `UPDATE active_plans SET status = ?, next_execution_at = ${nextExecutionQuery} WHERE id = ?`,
-      ['ACTIVE', planId]
+      'UPDATE active_plans SET status = ?, next_execution_at = ? WHERE id = ?',
+      ['ACTIVE', nextExecutionAt, planId]
     );
 
     res.json({
@@ -1061,22 +1986,230 @@ router.patch('/password', async (req, res) => {
       });
     }
 
-    await userService.changeUserPassword(userId, currentPassword, newPassword);
+    await userService.changeUserPassword(userId, currentPassword, newPassword);
+
+    res.json({
+      success: true,
+      message: 'Password changed successfully'
+    });
+
+  } catch (error) {
+    console.error('Password change error:', error);
+    
+    let statusCode = 500;
+    let message = 'Error changing password';
+    
+    if (error.message === 'Invalid current password') {
+      statusCode = 401;
+      message = error.message;
+    }
+
+    res.status(statusCode).json({
+      success: false,
+      message
+    });
+  }
+});
+
+// Verify PIN
+router.post('/verify-pin', async (req, res) => {
+  try {
+    const userId = req.user.id;
+    const { pin } = req.body;
+
+    // Validation
+    if (!pin) {
+      return res.status(400).json({
+        success: false,
+        message: 'PIN is required'
+      });
+    }
+
+    const isValid = await userService.verifyPin(userId, pin);
+
+    res.json({
+      success: true,
+      data: {
+        valid: isValid
+      }
+    });
+
+  } catch (error) {
+    console.error('PIN verification error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error verifying PIN'
+    });
+  }
+});
+
+// Change PIN
+router.patch('/pin', async (req, res) => {
+  try {
+    const userId = req.user.id;
+    const { newPin, currentPassword } = req.body;
+
+    // Validation
+    if (!newPin || !currentPassword) {
+      return res.status(400).json({
+        success: false,
+        message: 'New PIN and current password are required'
+      });
+    }
+
+    await userService.changeUserPin(userId, newPin, currentPassword);
+
+    res.json({
+      success: true,
+      message: 'PIN changed successfully'
+    });
+
+  } catch (error) {
+    console.error('PIN change error:', error);
+    
+    let statusCode = 500;
+    let message = 'Error changing PIN';
+    
+    if (error.message === 'Invalid current password') {
+      statusCode = 401;
+      message = error.message;
+    } else if (error.message === 'PIN must be exactly 4 digits') {
+      statusCode = 400;
+      message = error.message;
+    }
+
+    res.status(statusCode).json({
+      success: false,
+      message
+    });
+  }
+});
+
+// Bitcoin-backed loan APIs
+// A user can hold several loans; every operation on an existing loan takes its id
+const parseLoanId = (req, res) => {
+  const loanId = parseInt(req.params.loanId);
+  if (!Number.isInteger(loanId) || loanId <= 0) {
+    res.status(400).json({
+      success: false,
+      message: 'Invalid loan id'
+    });
+    return null;
+  }
+  return loanId;
+};
+
+// List loans (?include_closed=true adds repaid and liquidated loans)
+router.get('/loans', async (req, res) => {
+  try {
+    const userId = req.user.id;
+    const includeClosed = req.query.include_closed === 'true';
+    const result = await loanService.getUserLoans(userId, includeClosed);
+
+    res.json({
+      success: true,
+      data: result
+    });
+
+  } catch (error) {
+    console.error('Loan list error:', error);
+
+    let statusCode = 500;
+    let message = 'Error retrieving loans';
+
+    if (error.message === 'Market halted') {
+      statusCode = 503;
+      message = 'Loans are temporarily halted while prices are unavailable';
+    }
+
+    res.status(statusCode).json({
+      success: false,
+      message
+    });
+  }
+});
+
+// Loan products available for new loans
+router.get('/loan-products', async (req, res) => {
+  try {
+    const products = await loanProductService.getProducts();
+
+    res.json({
+      success: true,
+      data: products
+    });
+
+  } catch (error) {
+    console.error('Loan products error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error retrieving loan products'
+    });
+  }
+});
+
+// Deposit BTC as collateral, opening a new loan with the chosen product's terms
+router.post('/loan/deposit-collateral', async (req, res) => {
+  try {
+    const userId = req.user.id;
+    const { collateralAmount, productId } = req.body;
+
+    // Validate input
+    if (!collateralAmount || collateralAmount <= 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'Collateral amount must be greater than 0'
+      });
+    }
+
+    const result = await loanService.depositCollateral(userId, collateralAmount, productId ? parseInt(productId) : null);
+
+    res.json({
+      success: true,
+      message: 'Collateral deposited successfully',
+      data: result
+    });
+
+  } catch (error) {
+    console.error('Deposit collateral error:', error);
+
+    let statusCode = 500;
+    let message = 'Error depositing collateral';
+
+    if (error.message === 'Insufficient BTC balance' || error.message === 'Loan product not available') {
+      statusCode = 400;
+      message = error.message;
+    } else if (error.message === 'Market halted') {
+      statusCode = 503;
+      message = 'Loans are temporarily halted while prices are unavailable';
+    }
+
+    res.status(statusCode).json({
+      success: false,
+      message
+    });
+  }
+});
+
+// Check liquidation risk (admin-only for monitoring)
+router.get('/loan/liquidation-risk', async (req, res) => {
+  try {
+    const result = await loanService.checkLiquidationRisk();
 
     res.json({
       success: true,
-      message: 'Password changed successfully'
+      data: result
     });
 
   } catch (error) {
-    console.error('Password change error:', error);
-    
+    console.error('Liquidation risk check error:', error);
+
     let statusCode = 500;
-    let message = 'Error changing password';
-    
-    if (error.message === 'Invalid current password') {
-      statusCode = 401;
-      message = error.message;
+    let message = 'Error checking liquidation risk';
+
+    if (error.message === 'Market halted') {
+      statusCode = 503;
+      message = 'Loans are temporarily halted while prices are unavailable';
     }
 
     res.status(statusCode).json({
@@ -1086,116 +2219,105 @@ router.patch('/password', async (req, res) => {
   }
 });
 
-// Verify PIN
-router.post('/verify-pin', async (req, res) => {
+// Get loan status
+router.get('/loan/:loanId', async (req, res) => {
   try {
     const userId = req.user.id;
-    const { pin } = req.body;
+    const loanId = parseLoanId(req, res);
+    if (!loanId) return;
 
-    // Validation
-    if (!pin) {
-      return res.status(400).json({
+    const result = await loanService.getLoanStatus(userId, loanId);
+
+    if (!result) {
+      return res.status(404).json({
         success: false,
-        message: 'PIN is required'
+        message: 'Loan not found'
       });
     }
 
-    const isValid = await userService.verifyPin(userId, pin);
-
     res.json({
       success: true,
-      data: {
-        valid: isValid
-      }
+      data: result
     });
 
   } catch (error) {
-    console.error('PIN verification error:', error);
-    res.status(500).json({
+    console.error('Loan status error:', error);
+
+    let statusCode = 500;
+    let message = 'Error retrieving loan status';
+
+    if (error.message === 'Market halted') {
+      statusCode = 503;
+      message = 'Loans are temporarily halted while prices are unavailable';
+    }
+
+    res.status(statusCode).json({
       success: false,
-      message: 'Error verifying PIN'
+      message
     });
   }
 });
 
-// Change PIN
-router.patch('/pin', async (req, res) => {
+// Get loan history
+router.get('/loan/:loanId/history', async (req, res) => {
   try {
     const userId = req.user.id;
-    const { newPin, currentPassword } = req.body;
-
-    // Validation
-    if (!newPin || !currentPassword) {
-      return res.status(400).json({
-        success: false,
-        message: 'New PIN and current password are required'
-      });
-    }
+    const loanId = parseLoanId(req, res);
+    if (!loanId) return;
 
-    await userService.changeUserPin(userId, newPin, currentPassword);
+    const result = await loanService.getLoanHistory(userId, loanId);
 
     res.json({
       success: true,
-      message: 'PIN changed successfully'
+      data: result
     });
 
   } catch (error) {
-    console.error('PIN change error:', error);
-    
-    let statusCode = 500;
-    let message = 'Error changing PIN';
-    
-    if (error.message === 'Invalid current password') {
-      statusCode = 401;
-      message = error.message;
-    } else if (error.message === 'PIN must be exactly 4 digits') {
-      statusCode = 400;
-      message = error.message;
-    }
-
-    res.status(statusCode).json({
+    console.error('Loan history error:', error);
+    res.status(500).json({
       success: false,
-      message
+      message: 'Error retrieving loan history'
     });
   }
 });
 
-// Bitcoin-backed loan APIs
-// Deposit BTC as collateral
-router.post('/loan/deposit-collateral', async (req, res) => {
+// Interest ledger statement of a loan: principal, interest accrued and paid, and every movement
+router.get('/loan/:loanId/statement', async (req, res) => {
   try {
     const userId = req.user.id;
-    const { collateralAmount } = req.body;
+    const loanId = parseLoanId(req, res);
+    if (!loanId) return;
 
-    // Validate input
-    if (!collateralAmount || collateralAmount <= 0) {
-      return res.status(400).json({
+    const statement = await loanService.getLoanStatement(userId, loanId);
+
+    if (!statement) {
+      return res.status(404).json({
         success: false,
-        message: 'Collateral amount must be greater than 0'
+        message: 'Loan not found'
       });
     }
 
-    const result = await loanService.depositCollateral(userId, collateralAmount);
-
     res.json({
       success: true,
-      message: 'Collateral deposited successfully',
-      data: result
+      data: statement
     });
 
   } catch (error) {
-    console.error('Deposit collateral error:', error);
+    console.error('Loan statement error:', error);
     res.status(500).json({
       success: false,
-      message: 'Error depositing collateral'
+      message: 'Error retrieving loan statement'
     });
   }
 });
 
-// Borrow funds against collateral
-router.post('/loan/borrow', async (req, res) => {
+// Borrow funds against a loan's collateral
+router.post('/loan/:loanId/borrow', async (req, res) => {
   try {
     const userId = req.user.id;
+    const loanId = parseLoanId(req, res);
+    if (!loanId) return;
+
     const { amount } = req.body;
 
     // Validate input
@@ -1206,7 +2328,7 @@ router.post('/loan/borrow', async (req, res) => {
       });
     }
 
-    const result = await loanService.borrowFunds(userId, amount);
+    const result = await loanService.borrowFunds(userId, loanId, amount);
 
     res.json({
       success: true,
@@ -1216,17 +2338,35 @@ router.post('/loan/borrow', async (req, res) => {
 
   } catch (error) {
     console.error('Borrow funds error:', error);
-    res.status(500).json({
+
+    let statusCode = 500;
+    let message = 'Error borrowing funds';
+
+    if (error.message === 'No active loan found') {
+      statusCode = 404;
+      message = error.message;
+    } else if (error.message.startsWith('Insufficient borrowing capacity') || error.message === 'Loan has matured and cannot be borrowed against') {
+      statusCode = 400;
+      message = error.message;
+    } else if (error.message === 'Market halted') {
+      statusCode = 503;
+      message = 'Loans are temporarily halted while prices are unavailable';
+    }
+
+    res.status(statusCode).json({
       success: false,
-      message: 'Error borrowing funds'
+      message
     });
   }
 });
 
 // Repay borrowed funds
-router.post('/loan/repay', async (req, res) => {
+router.post('/loan/:loanId/repay', async (req, res) => {
   try {
     const userId = req.user.id;
+    const loanId = parseLoanId(req, res);
+    if (!loanId) return;
+
     const { amount } = req.body;
 
     // Validate input
@@ -1237,7 +2377,7 @@ router.post('/loan/repay', async (req, res) => {
       });
     }
 
-    const result = await loanService.repayLoan(userId, amount);
+    const result = await loanService.repayLoan(userId, loanId, amount);
 
     res.json({
       success: true,
@@ -1247,17 +2387,32 @@ router.post('/loan/repay', async (req, res) => {
 
   } catch (error) {
     console.error('Repay loan error:', error);
-    res.status(500).json({
+
+    let statusCode = 500;
+    let message = 'Error repaying loan';
+
+    if (error.message === 'No active loan found') {
+      statusCode = 404;
+      message = error.message;
+    } else if (error.message === 'Insufficient INR balance' || error.message.startsWith('Repay amount exceeds total amount due')) {
+      statusCode = 400;
+      message = error.message;
+    }
+
+    res.status(statusCode).json({
       success: false,
-      message: 'Error repaying loan'
+      message
     });
   }
 });
 
-// Add collateral to existing loan
-router.post('/loan/add-collateral', async (req, res) => {
+// Add collateral to an existing loan
+router.post('/loan/:loanId/add-collateral', async (req, res) => {
   try {
     const userId = req.user.id;
+    const loanId = parseLoanId(req, res);
+    if (!loanId) return;
+
     const { collateralAmount } = req.body;
 
     // Validate input
@@ -1278,7 +2433,7 @@ router.post('/loan/add-collateral', async (req, res) => {
       });
     }
 
-    const result = await loanService.addCollateralToLoan(userId, satoshiAmount);
+    const result = await loanService.addCollateralToLoan(userId, loanId, satoshiAmount);
 
     res.json({
       success: true,
@@ -1302,6 +2457,9 @@ router.post('/loan/add-collateral', async (req, res) => {
     } else if (error.message === 'Insufficient BTC balance') {
       statusCode = 400;
       message = error.message;
+    } else if (error.message === 'Market halted') {
+      statusCode = 503;
+      message = 'Loans are temporarily halted while prices are unavailable';
     }
 
     res.status(statusCode).json({
@@ -1311,58 +2469,65 @@ router.post('/loan/add-collateral', async (req, res) => {
   }
 });
 
-// Get loan status
-router.get('/loan/status', async (req, res) => {
+// Turn automatic collateral top-up on or off for a loan
+router.patch('/loan/:loanId/auto-top-up', async (req, res) => {
   try {
     const userId = req.user.id;
-    const result = await loanService.getLoanStatus(userId);
+    const loanId = parseLoanId(req, res);
+    if (!loanId) return;
 
-    if (!result) {
-      return res.status(404).json({
+    const { enabled, triggerLtv } = req.body;
+
+    if (typeof enabled !== 'boolean') {
+      return res.status(400).json({
         success: false,
-        message: 'No active loan found'
+        message: 'Enabled must be true or false'
       });
     }
 
-    res.json({
-      success: true,
-      data: result
-    });
-
-  } catch (error) {
-    console.error('Loan status error:', error);
-    res.status(500).json({
-      success: false,
-      message: 'Error retrieving loan status'
-    });
-  }
-});
+    if (enabled && !Number.isFinite(Number(triggerLtv))) {
+      return res.status(400).json({
+        success: false,
+        message: 'Trigger LTV is required to enable auto top-up'
+      });
+    }
 
-// Get loan history
-router.get('/loan/history', async (req, res) => {
-  try {
-    const userId = req.user.id;
-    const { loanId } = req.query;
-    const result = await loanService.getLoanHistory(userId, loanId);
+    const result = await loanService.setAutoTopUp(userId, loanId, enabled, enabled ? Number(triggerLtv) : null);
 
     res.json({
       success: true,
+      message: enabled ? 'Auto top-up enabled' : 'Auto top-up disabled',
       data: result
     });
 
   } catch (error) {
-    console.error('Loan history error:', error);
-    res.status(500).json({
+    console.error('Auto top-up error:', error);
+    
+    let statusCode = 500;
+    let message = 'Error updating auto top-up';
+    
+    if (error.message === 'No active loan found') {
+      statusCode = 404;
+      message = error.message;
+    } else if (error.message.startsWith('Auto top-up trigger must be')) {
+      statusCode = 400;
+      message = error.message;
+    }
+
+    res.status(statusCode).json({
       success: false,
-      message: 'Error retrieving loan history'
+      message
     });
   }
 });
 
 // Execute user-initiated partial liquidation
-router.post('/loan/partial-liquidation', async (req, res) => {
+router.post('/loan/:loanId/partial-liquidation', async (req, res) => {
   try {
     const userId = req.user.id;
+    const loanId = parseLoanId(req, res);
+    if (!loanId) return;
+
     const { btcAmount } = req.body;
 
     // Validate input
@@ -1373,7 +2538,7 @@ router.post('/loan/partial-liquidation', async (req, res) => {
       });
     }
 
-    const result = await loanService.executeUserPartialLiquidation(userId, btcAmount);
+    const result = await loanService.executeUserPartialLiquidation(userId, loanId, btcAmount);
 
     res.json({
       success: true,
@@ -1397,6 +2562,9 @@ router.post('/loan/partial-liquidation', async (req, res) => {
     } else if (error.message === 'Amount exceeds available collateral' || error.message === 'BTC amount must be greater than 0') {
       statusCode = 400;
       message = error.message;
+    } else if (error.message === 'Market halted') {
+      statusCode = 503;
+      message = 'Loans are temporarily halted while prices are unavailable';
     }
 
     res.status(statusCode).json({
@@ -1407,10 +2575,13 @@ router.post('/loan/partial-liquidation', async (req, res) => {
 });
 
 // Execute full liquidation
-router.post('/loan/full-liquidation', async (req, res) => {
+router.post('/loan/:loanId/full-liquidation', async (req, res) => {
   try {
     const userId = req.user.id;
-    const result = await loanService.executeFullLiquidation(userId);
+    const loanId = parseLoanId(req, res);
+    if (!loanId) return;
+
+    const result = await loanService.executeFullLiquidation(userId, loanId);
 
     res.json({
       success: true,
@@ -1420,28 +2591,149 @@ router.post('/loan/full-liquidation', async (req, res) => {
 
   } catch (error) {
     console.error('Full liquidation error:', error);
+
+    let statusCode = 500;
+    let message = 'Error executing full liquidation';
+
+    if (error.message === 'No active loan found') {
+      statusCode = 404;
+      message = error.message;
+    } else if (error.message === 'Market halted') {
+      statusCode = 503;
+      message = 'Loans are temporarily halted while prices are unavailable';
+    }
+
+    res.status(statusCode).json({
+      success: false,
+      message
+    });
+  }
+});
+
+// In-app notifications (margin calls), newest first
+router.get('/notifications', async (req, res) => {
+  try {
+    const userId = req.user.id;
+    const unreadOnly = req.query.unread === 'true';
+    const limit = Math.min(parseInt(req.query.limit, 10) || 50, 200);
+
+    const notifications = await marginCallService.getNotifications(userId, { unreadOnly, limit });
+
+    res.json({
+      success: true,
+      data: notifications
+    });
+
+  } catch (error) {
+    console.error('Get notifications error:', error);
     res.status(500).json({
       success: false,
-      message: 'Error executing full liquidation'
+      message: 'Error retrieving notifications'
     });
   }
 });
 
-// Check liquidation risk (admin-only for monitoring)
-router.get('/loan/liquidation-risk', async (req, res) => {
+// Mark all notifications as read
+router.put('/notifications/read-all', async (req, res) => {
   try {
-    const result = await loanService.checkLiquidationRisk();
+    const userId = req.user.id;
+    const updated = await marginCallService.markAllRead(userId);
 
     res.json({
       success: true,
-      data: result
+      message: 'Notifications marked as read',
+      data: { updated }
     });
 
   } catch (error) {
-    console.error('Liquidation risk check error:', error);
+    console.error('Mark notifications read error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error updating notifications'
+    });
+  }
+});
+
+// Mark a notification as read
+router.put('/notifications/:notificationId/read', async (req, res) => {
+  try {
+    const userId = req.user.id;
+    const notificationId = parseInt(req.params.notificationId, 10);
+
+    if (!Number.isInteger(notificationId) || notificationId <= 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid notification ID'
+      });
+    }
+
+    await marginCallService.markRead(userId, notificationId);
+
+    res.json({
+      success: true,
+      message: 'Notification marked as read'
+    });
+
+  } catch (error) {
+    if (error.message === 'Notification not found') {
+      return res.status(404).json({
+        success: false,
+        message: error.message
+      });
+    }
+
+    console.error('Mark notification read error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error updating notification'
+    });
+  }
+});
+
+// VDA tax report for a financial year (April-March, IST); ?fy=2025-26&format=json|csv|pdf
+router.get('/tax-report', async (req, res) => {
+  try {
+    const userId = req.user.id;
+    const format = (req.query.format || 'json').toLowerCase();
+
+    if (!['json', 'csv', 'pdf'].includes(format)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Format must be json, csv or pdf'
+      });
+    }
+
+    const report = await taxReportService.generateReport(userId, req.query.fy || undefined);
+    const filename = `bittrade-vda-tax-report-FY${report.financial_year}`;
+
+    if (format === 'csv') {
+      res.setHeader('Content-Type', 'text/csv');
+      res.setHeader('Content-Disposition', `attachment; filename="${filename}.csv"`);
+      return res.send(taxReportService.toCsv(report));
+    }
+
+    if (format === 'pdf') {
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `attachment; filename="${filename}.pdf"`);
+      return res.send(taxReportService.toPdf(report));
+    }
+
+    res.json({
+      success: true,
+      data: report
+    });
+
+  } catch (error) {
+    if (error.message === 'Invalid financial year') {
+      return res.status(400).json({
+        success: false,
+        message: 'Financial year must look like 2025-26'
+      });
+    }
+    console.error('Tax report error:', error);
     res.status(500).json({
       success: false,
-      message: 'Error checking liquidation risk'
+      message: 'Error generating tax report'
     });
   }
 });
@@ -1,5 +1,6 @@
 const cron = require('node-cron');
 const accrueInterestDaily = require('../jobs/accrueInterestDaily');
+const settleMaturedLoans = require('../jobs/settleMaturedLoans');
 const { systemLogger } = require('../utils/beautifulLogger');
 
 /**
@@ -30,6 +31,25 @@ class JobScheduler {
       runCount: 0
     });
 
+    // Catch up on accrual days missed while the server was down; days already accrued are skipped
+    this.runJobSafely('INTEREST_ACCRUAL', accrueInterestDaily);
+
+    // Loan maturity reminders and settlement every hour at :15
+    const maturityJob = cron.schedule('15 * * * *', async () => {
+      await this.runJobSafely('LOAN_MATURITY', settleMaturedLoans);
+    }, {
+      scheduled: true,
+      timezone: "Asia/Kolkata"
+    });
+
+    this.jobs.set('LOAN_MATURITY', maturityJob);
+    this.jobStatus.set('LOAN_MATURITY', {
+      lastRun: null,
+      lastStatus: 'PENDING',
+      lastError: null,
+      runCount: 0
+    });
+
     // For testing purposes - run every minute (comment out in production)
     // const testJob = cron.schedule('* * * * *', async () => {
     //   await this.runJobSafely('TEST_INTEREST_ACCRUAL', accrueInterestDaily);
@@ -38,7 +58,8 @@ class JobScheduler {
 
     systemLogger.success('Job scheduler started successfully');
     systemLogger.info('Scheduled jobs:', {
-      interestAccrual: 'Daily at 12:01 AM IST',
+      interestAccrual: 'Daily at 12:01 AM IST (and on startup to back-fill missed days)',
+      loanMaturity: 'Hourly at :15',
       timezone: 'Asia/Kolkata'
     });
   }
@@ -111,6 +132,11 @@ class JobScheduler {
     return await this.runJobSafely('MANUAL_INTEREST_ACCRUAL', accrueInterestDaily);
   }
 
+  static async runLoanMaturity() {
+    systemLogger.info('Manually triggering loan maturity job...');
+    return await this.runJobSafely('MANUAL_LOAN_MATURITY', settleMaturedLoans);
+  }
+
   static getJobStatus(jobName) {
     return this.jobStatus.get(jobName);
   }
@@ -3,6 +3,8 @@ const cron = require('node-cron');
 const { query } = require('../config/database');
 const { setCache, getCache } = require('../config/redis');
 const { bitcoinDataLogger } = require('../utils/logger');
+const eventStreamService = require('./eventStreamService');
+const { createPriceProviderRegistry } = require('./priceProviders');
 
 class BitcoinDataService {
   constructor() {
@@ -10,71 +12,42 @@ class BitcoinDataService {
     this.currentData = null;
     this.lastUpdate = null;
     this.chartUpdateJobs = [];
+    this.priceProviders = createPriceProviderRegistry();
+    this.lastProvider = null;
   }
 
-  // Fetch comprehensive Bitcoin data from CoinGecko
+  // Fetch comprehensive Bitcoin data from the highest-priority healthy provider
   async fetchBitcoinData() {
     try {
-      // Fetch Bitcoin data only
-      const bitcoinResponse = await axios.get(
-        `${process.env.COINGECKO_API_URL}/coins/bitcoin`,
-        {
-          params: {
-            localization: false,
-            tickers: false,
-            market_data: true,
-            community_data: false,
-            developer_data: false,
-            sparkline: false
-          },
-          timeout: 15000,
-          headers: {
-            'User-Agent': 'BitTrade-App/1.0'
-          }
-        }
-      );
-
-      const data = bitcoinResponse.data;
-      const marketData = data.market_data;
+      const { provider, data } = await this.priceProviders.fetchBitcoinData();
+      this.lastProvider = provider;
+      return data;
+    } catch (error) {
+      bitcoinDataLogger.error('Error fetching Bitcoin data from price providers', error);
+      throw error;
+    }
+  }
 
-      if (!marketData || !marketData.current_price || !marketData.current_price.usd) {
-        throw new Error('Invalid response format from CoinGecko API');
-      }
+  // Register an additional price source (see services/priceProviders)
+  registerProvider(provider) {
+    this.priceProviders.register(provider);
+  }
 
-      return {
-        // Price data (rounded to integers for cleaner display)
-        btc_usd_price: Math.round(marketData.current_price.usd),
-        price_change_24h: marketData.price_change_24h ? Math.round(marketData.price_change_24h) : null,
-        price_change_24h_pct: marketData.price_change_percentage_24h || null,
-
-        // Market data
-        market_cap_usd: marketData.market_cap ? marketData.market_cap.usd : null,
-        volume_24h_usd: marketData.total_volume ? marketData.total_volume.usd : null,
-        high_24h_usd: marketData.high_24h ? Math.round(marketData.high_24h.usd) : null,
-        low_24h_usd: marketData.low_24h ? Math.round(marketData.low_24h.usd) : null,
-
-        // Price changes (all timeframes)
-        price_change_1h_pct: marketData.price_change_percentage_1h_in_currency ? marketData.price_change_percentage_1h_in_currency.usd : null,
-        price_change_7d_pct: marketData.price_change_percentage_7d || null,
-        price_change_30d_pct: marketData.price_change_percentage_30d || null,
-        price_change_60d_pct: marketData.price_change_percentage_60d || null,
-        price_change_200d_pct: marketData.price_change_percentage_200d || null,
-        price_change_1y_pct: marketData.price_change_percentage_1y || null,
-
-        // All-time records (rounded to integers)
-        ath_usd: marketData.ath ? Math.round(marketData.ath.usd) : null,
-        ath_date: marketData.ath_date ? marketData.ath_date.usd.split('T')[0] : null,
-        ath_change_pct: marketData.ath_change_percentage ? marketData.ath_change_percentage.usd : null,
-        atl_usd: marketData.atl ? Math.round(marketData.atl.usd) : null,
-        atl_date: marketData.atl_date ? marketData.atl_date.usd.split('T')[0] : null,
-        atl_change_pct: marketData.atl_change_percentage ? marketData.atl_change_percentage.usd : null
-      };
+  // Run health checks against all registered price providers
+  async checkProviderHealth() {
+    try {
+      return await this.priceProviders.checkHealth();
     } catch (error) {
-      bitcoinDataLogger.error('Error fetching Bitcoin data from CoinGecko', error);
+      bitcoinDataLogger.error('Error checking price provider health', error);
       throw error;
     }
   }
 
+  // Get price provider status (active provider and per-provider health); error messages only for admins
+  getProviderStatus(options) {
+    return this.priceProviders.getStatus(options);
+  }
+
   // Fetch Fear & Greed Index from Alternative.me
   async fetchFearGreedIndex() {
     try {
@@ -196,7 +169,9 @@ class BitcoinDataService {
       this.currentData = bitcoinData;
       this.lastUpdate = new Date();
       
-      bitcoinDataLogger.info(`Bitcoin data updated: $${bitcoinData.btc_usd_price.toLocaleString()}`);
+      bitcoinDataLogger.info(`Bitcoin data updated: $${bitcoinData.btc_usd_price.toLocaleString()} (provider: ${this.lastProvider})`);
+
+      await this.publishPriceTick();
       
       return bitcoinData;
     } catch (error) {
@@ -349,9 +324,9 @@ class BitcoinDataService {
 
       settings.forEach(setting => {
         if (setting.key === 'buy_multiplier') {
-          buyMultiplier = setting.value;
+          buyMultiplier = Number(setting.value);
         } else if (setting.key === 'sell_multiplier') {
-          sellMultiplier = setting.value;
+          sellMultiplier = Number(setting.value);
         }
       });
 
@@ -365,6 +340,7 @@ class BitcoinDataService {
         buyMultiplier,
         sellMultiplier,
         lastUpdate: this.lastUpdate,
+        provider: this.lastProvider,
         marketData: {
           market_cap_usd: data.market_cap_usd,
           volume_24h_usd: data.volume_24h_usd,
@@ -379,6 +355,21 @@ class BitcoinDataService {
     }
   }
 
+  // Push the latest rates to connected clients, same shape as dashboard prices
+  async publishPriceTick() {
+    try {
+      const rates = await this.getCalculatedRates();
+      eventStreamService.broadcast('price', {
+        btc_usd: rates.btcUsdPrice,
+        buy_rate: rates.buyRate,
+        sell_rate: rates.sellRate,
+        last_update: rates.lastUpdate
+      });
+    } catch (error) {
+      bitcoinDataLogger.error('Error publishing price tick', error);
+    }
+  }
+
   // Get sentiment data
   async getSentimentData() {
     try {
@@ -488,6 +479,17 @@ class BitcoinDataService {
       }
     });
 
+    // Check price provider reachability every 5 minutes; failed providers recover through a successful fetch after their cooldown
+    cron.schedule('*/5 * * * *', async () => {
+      if (this.isRunning) {
+        try {
+          await this.checkProviderHealth();
+        } catch (error) {
+          bitcoinDataLogger.error('Scheduled price provider health check failed', error);
+        }
+      }
+    });
+
     // Schedule sentiment data updates daily at 00:05
     cron.schedule('5 0 * * *', async () => {
       if (this.isRunning) {
@@ -550,6 +552,7 @@ class BitcoinDataService {
 
     bitcoinDataLogger.serviceStarted('Bitcoin Data Service', {
       priceUpdates: 'Every 30 seconds',
+      priceProviders: this.priceProviders.getProviders().map(provider => provider.name).join(' > '),
       sentimentUpdates: 'Daily at 00:05',
       chartUpdates: 'Hourly (1d) and daily (7d, 30d, 90d, 365d)',
       initialFetch: 'Staggered: 1d(2min), 7d(7min), 30d(12min), 90d(17min), 365d(22min)'
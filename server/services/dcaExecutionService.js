@@ -1,6 +1,9 @@
 const { query, transaction } = require('../config/database');
 const { clearUserCache } = require('../config/redis');
-const bitcoinDataService = require('./bitcoinDataService');
+const priceGuardService = require('./priceGuardService');
+const eventStreamService = require('./eventStreamService');
+const dcaStrategyService = require('./dcaStrategyService');
+const dcaScheduleService = require('./dcaScheduleService');
 const { dcaLogger } = require('../utils/logger');
 
 class DcaExecutionService {
@@ -20,8 +23,12 @@ class DcaExecutionService {
     this.executionInProgress = true;
     
     try {
-      // Get current market rates
-      const rates = await bitcoinDataService.getCalculatedRates();
+      // Get current market rates; due plans stay due while the price guard is active
+      const { valid, rates } = await priceGuardService.checkMarket();
+      if (!valid) {
+        dcaLogger.warn('Market halted, skipping DCA execution');
+        return { processed: 0, executed: 0, completed: 0, paused: 0, halted: true };
+      }
       const currentBuyPrice = rates.buyRate;   // Current buy rate (what users pay)
       const currentSellPrice = rates.sellRate; // Current sell rate (what users receive)
       
@@ -52,9 +59,9 @@ class DcaExecutionService {
 
       for (const plan of pendingPlans) {
         try {
-          const result = await this.executePlan(plan, currentBuyPrice, currentSellPrice);
+          const result = await this.executePlan(plan, rates);
           if (result.executed) {
-            executedPlans.push({ ...plan, executionPrice: result.executionPrice });
+            executedPlans.push({ ...plan, executionPrice: result.executionPrice, executedAmount: result.amount });
           }
           if (result.completed) {
             completedPlans.push(plan);
@@ -73,8 +80,8 @@ class DcaExecutionService {
         dcaLogger.success(`Executed ${executedPlans.length} DCA plans`);
         executedPlans.forEach(plan => {
           const amount = plan.plan_type === 'DCA_BUY' ? 
-            `₹${plan.amount_per_execution.toLocaleString()}` : 
-            `${(plan.amount_per_execution / 100000000).toFixed(8)} BTC`;
+            `₹${plan.executedAmount.toLocaleString()}` : 
+            `${(plan.executedAmount / 100000000).toFixed(8)} BTC`;
           dcaLogger.info(`  - ${plan.plan_type} Plan ${plan.id}: ${amount} at ₹${plan.executionPrice.toLocaleString()} for user ${plan.email}`);
         });
       }
@@ -103,7 +110,27 @@ class DcaExecutionService {
   }
 
   // Execute individual DCA plan
-  async executePlan(plan, currentBuyPrice, currentSellPrice) {
+  async executePlan(plan, rates) {
+    const currentBuyPrice = rates.buyRate;
+    const currentSellPrice = rates.sellRate;
+
+    // Plans with an end date complete at their first run after it
+    if (plan.end_date && new Date(plan.end_date) <= new Date()) {
+      await query(
+        'UPDATE active_plans SET status = ?, completed_at = NOW(), completion_reason = ? WHERE id = ?',
+        ['COMPLETED', 'END_DATE', plan.id]
+      );
+      dcaLogger.success(`DCA Plan ${plan.id} completed: end date reached`);
+      await clearUserCache(plan.user_id);
+      eventStreamService.publishToUser(plan.user_id, 'dca', {
+        plan_id: plan.id,
+        plan_type: plan.plan_type,
+        status: 'COMPLETED',
+        execution_price: null
+      });
+      return { executed: false, completed: true, paused: false };
+    }
+
     // Check price limits if set
     if (plan.plan_type === 'DCA_BUY') {
       if (plan.max_price && currentBuyPrice > plan.max_price) {
@@ -129,21 +156,62 @@ class DcaExecutionService {
       }
     }
 
+    let result = { executed: false, completed: false, paused: false };
     if (plan.plan_type === 'DCA_BUY') {
-      return await this.executeDcaBuyPlan(plan, currentBuyPrice);
+      result = await this.executeDcaBuyPlan(plan, currentBuyPrice, rates);
     } else if (plan.plan_type === 'DCA_SELL') {
-      return await this.executeDcaSellPlan(plan, currentSellPrice);
+      result = await this.executeDcaSellPlan(plan, currentSellPrice);
     }
 
-    return { executed: false, completed: false, paused: false };
+    if (result.executed || result.paused || result.completed) {
+      eventStreamService.publishToUser(plan.user_id, 'dca', {
+        plan_id: plan.id,
+        plan_type: plan.plan_type,
+        status: result.completed ? 'COMPLETED' : result.paused ? 'PAUSED' : 'EXECUTED',
+        execution_price: result.executionPrice || null
+      });
+    }
+
+    return result;
   }
 
-  // Execute DCA buy plan
-  async executeDcaBuyPlan(plan, executionPrice) {
+  /**
+   * Re-read a selected plan under lock so the execution works from its current row: an edit, pause
+   * or other run since it was selected is respected and its counters are never updated twice
+   * @param {Object} connection - Transaction connection
+   * @param {number} planId - Plan ID
+   * @param {number} executionPrice - Price the execution would run at
+   * @returns {Promise<Object|null>} - The locked plan, or null when it is no longer due at this price
+   */
+  async lockDuePlan(connection, planId, executionPrice) {
+    const [planRows] = await connection.execute(
+      `SELECT * FROM active_plans WHERE id = ? AND status = 'ACTIVE' AND next_execution_at <= NOW() FOR UPDATE`,
+      [planId]
+    );
+    const plan = planRows[0];
+
+    // Price limits edited since the plan was selected leave it due for the next pass to skip
+    if (!plan || (plan.max_price && executionPrice > plan.max_price) || (plan.min_price && executionPrice < plan.min_price)) {
+      dcaLogger.debug(`DCA Plan ${planId} changed before it ran, left for the next pass`);
+      return null;
+    }
+    return plan;
+  }
+
+  // Execute DCA buy plan; the plan's strategy decides the amount and its inputs are kept in the operation notes
+  async executeDcaBuyPlan(selectedPlan, executionPrice, rates) {
     return await transaction(async (connection) => {
+      const plan = await this.lockDuePlan(connection, selectedPlan.id, executionPrice);
+      if (!plan) {
+        return { executed: false, completed: false, paused: false };
+      }
+
+      const strategyResult = await dcaStrategyService.resolveAmount(plan, rates);
+      const { inputs } = strategyResult;
+
       // Get current user balances
       const [userRows] = await connection.execute(
-        'SELECT available_inr, available_btc FROM users WHERE id = ?',
+        'SELECT available_inr, available_btc FROM users WHERE id = ? FOR UPDATE',
         [plan.user_id]
       );
 
@@ -153,8 +221,35 @@ class DcaExecutionService {
 
       const user = userRows[0];
 
+      const newTotalExecutions = plan.total_executions + 1;
+      const newRemainingExecutions = plan.remaining_executions ? plan.remaining_executions - 1 : null;
+
+      // Value averaging spends nothing when the plan is already at its target value; the slot still counts
+      if (strategyResult.amount <= 0) {
+        await connection.execute(
+          'INSERT INTO operations (user_id, type, status, inr_amount, btc_amount, execution_price, parent_id, notes, cancelled_at, cancellation_reason) VALUES (?, ?, ?, ?, ?, ?, ?, ?, NOW(), ?)',
+          [plan.user_id, 'DCA_BUY', 'CANCELLED', 0, 0, executionPrice, plan.id, JSON.stringify(inputs), 'Value averaging target already reached']
+        );
+        const completed = await this.finishPlanExecution(connection, plan, newTotalExecutions, newRemainingExecutions, newRemainingExecutions === 0 ? 'EXECUTIONS' : null);
+        dcaLogger.info(`DCA Buy Plan ${plan.id} on target, nothing bought this execution`);
+        await clearUserCache(plan.user_id);
+        return { executed: false, completed, paused: false };
+      }
+
+      // Never spend past the budget or buy past the goal
+      const totals = await this.getPlanTotals(connection, plan);
+      const { amount, cappedBy } = this.applyPlanLimits(plan, strategyResult.amount, executionPrice, totals);
+      const btcAmount = Math.floor((amount / executionPrice) * 100000000); // Convert to satoshis
+
+      if (btcAmount <= 0 && cappedBy) {
+        await this.finishPlanExecution(connection, plan, plan.total_executions, plan.remaining_executions, cappedBy);
+        dcaLogger.success(`DCA Buy Plan ${plan.id} completed: ${cappedBy === 'BUDGET' ? 'budget spent' : 'goal reached'}`);
+        await clearUserCache(plan.user_id);
+        return { executed: false, completed: true, paused: false };
+      }
+
       // Check if user has sufficient balance
-      if (user.available_inr < plan.amount_per_execution) {
+      if (user.available_inr < amount) {
         dcaLogger.warn(`DCA Buy Plan ${plan.id} paused: insufficient INR balance`);
         await connection.execute(
           'UPDATE active_plans SET status = ? WHERE id = ?',
@@ -163,15 +258,12 @@ class DcaExecutionService {
         return { executed: false, completed: false, paused: true };
       }
 
-      // Calculate BTC amount
-      const btcAmount = Math.floor((plan.amount_per_execution / executionPrice) * 100000000); // Convert to satoshis
-
       if (btcAmount <= 0) {
         throw new Error('Calculated BTC amount too small');
       }
 
       // Update user balances
-      const newInrBalance = user.available_inr - plan.amount_per_execution;
+      const newInrBalance = user.available_inr - amount;
       const newBtcBalance = user.available_btc + btcAmount;
 
       await connection.execute(
@@ -180,42 +272,107 @@ class DcaExecutionService {
       );
 
       // Record the operation
+      const notes = JSON.stringify(cappedBy ? { ...inputs, amount, cappedBy } : inputs);
       await connection.execute(
-        'INSERT INTO operations (user_id, type, status, inr_amount, btc_amount, execution_price, parent_id, executed_at) VALUES (?, ?, ?, ?, ?, ?, ?, NOW())',
-        [plan.user_id, 'DCA_BUY', 'EXECUTED', plan.amount_per_execution, btcAmount, executionPrice, plan.id]
+        'INSERT INTO operations (user_id, type, status, inr_amount, btc_amount, execution_price, parent_id, notes, executed_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, NOW())',
+        [plan.user_id, 'DCA_BUY', 'EXECUTED', amount, btcAmount, executionPrice, plan.id, notes]
       );
 
-      // Update plan execution counts
-      const newTotalExecutions = plan.total_executions + 1;
-      const newRemainingExecutions = plan.remaining_executions ? plan.remaining_executions - 1 : null;
+      const completionReason = this.getCompletionReason(plan, { spent: totals.spent + amount, acquired: totals.acquired + btcAmount }, newRemainingExecutions);
+      const completed = await this.finishPlanExecution(connection, plan, newTotalExecutions, newRemainingExecutions, completionReason);
+      dcaLogger.success(completed
+        ? `DCA Buy Plan ${plan.id} completed after ${newTotalExecutions} executions (${completionReason})`
+        : `DCA Buy Plan ${plan.id} executed (${inputs.strategy}): ${(btcAmount/100000000).toFixed(8)} BTC for ₹${amount.toLocaleString()} at ₹${executionPrice.toLocaleString()}`);
+      await clearUserCache(plan.user_id);
+      return { executed: true, completed, paused: false, executionPrice, amount };
+    });
+  }
 
-      // Check if plan is completed
-      if (newRemainingExecutions === 0) {
-        await connection.execute(
-          'UPDATE active_plans SET status = ?, total_executions = ?, remaining_executions = ?, completed_at = NOW() WHERE id = ?',
-          ['COMPLETED', newTotalExecutions, newRemainingExecutions, plan.id]
-        );
-        
-        dcaLogger.success(`DCA Buy Plan ${plan.id} completed after ${newTotalExecutions} executions`);
-        await clearUserCache(plan.user_id);
-        return { executed: true, completed: true, paused: false, executionPrice };
-      } else {
-        // Schedule next execution
-        await this.updatePlanForNextExecution(connection, plan, newTotalExecutions, newRemainingExecutions);
-        
-        dcaLogger.success(`DCA Buy Plan ${plan.id} executed: ${(btcAmount/100000000).toFixed(8)} BTC at ₹${executionPrice.toLocaleString()}`);
-        await clearUserCache(plan.user_id);
-        return { executed: true, completed: false, paused: false, executionPrice };
+  // What a plan has spent and acquired so far: rupees spent and satoshis bought for buy plans, satoshis sold and rupees received for sell plans
+  async getPlanTotals(connection, plan) {
+    const [rows] = await connection.execute(
+      `SELECT COALESCE(SUM(inr_amount), 0) as inr_total, COALESCE(SUM(btc_amount), 0) as btc_total
+       FROM operations
+       WHERE parent_id = ? AND type = ? AND status = 'EXECUTED'`,
+      [plan.id, plan.plan_type]
+    );
+    const inrTotal = Number(rows[0].inr_total);
+    const btcTotal = Number(rows[0].btc_total);
+    return plan.plan_type === 'DCA_BUY'
+      ? { spent: inrTotal, acquired: btcTotal }
+      : { spent: btcTotal, acquired: inrTotal };
+  }
+
+  /**
+   * Trim an execution so it neither spends past the plan's budget nor acquires much past its goal
+   * @param {Object} plan - active_plans row
+   * @param {number} amount - Planned spend (rupees for buy plans, satoshis for sell plans)
+   * @param {number} executionPrice - INR per BTC
+   * @param {Object} totals - { spent, acquired } from getPlanTotals
+   * @returns {Object} - { amount, cappedBy } where cappedBy is BUDGET, GOAL or null
+   */
+  applyPlanLimits(plan, amount, executionPrice, totals) {
+    let cappedAmount = amount;
+    let cappedBy = null;
+
+    if (plan.budget_limit !== null && plan.budget_limit !== undefined) {
+      const budgetLeft = Math.max(Number(plan.budget_limit) - totals.spent, 0);
+      if (budgetLeft < cappedAmount) {
+        cappedAmount = budgetLeft;
+        cappedBy = 'BUDGET';
       }
-    });
+    }
+
+    if (plan.goal_amount !== null && plan.goal_amount !== undefined) {
+      const outstanding = Math.max(Number(plan.goal_amount) - totals.acquired, 0);
+      const spendForGoal = plan.plan_type === 'DCA_BUY'
+        ? Math.ceil((outstanding / 100000000) * executionPrice)
+        : Math.ceil((outstanding / executionPrice) * 100000000);
+      if (spendForGoal < cappedAmount) {
+        cappedAmount = spendForGoal;
+        cappedBy = 'GOAL';
+      }
+    }
+
+    return { amount: cappedAmount, cappedBy };
+  }
+
+  // Completion condition met once an execution's totals are counted, or null to keep running
+  getCompletionReason(plan, totals, newRemainingExecutions) {
+    if (plan.goal_amount !== null && plan.goal_amount !== undefined && totals.acquired >= Number(plan.goal_amount)) {
+      return 'GOAL';
+    }
+    if (plan.budget_limit !== null && plan.budget_limit !== undefined && totals.spent >= Number(plan.budget_limit)) {
+      return 'BUDGET';
+    }
+    return newRemainingExecutions === 0 ? 'EXECUTIONS' : null;
+  }
+
+  // Count an execution and either complete the plan or schedule its next run; returns true when completed
+  async finishPlanExecution(connection, plan, newTotalExecutions, newRemainingExecutions, completionReason = null) {
+    if (completionReason) {
+      await connection.execute(
+        'UPDATE active_plans SET status = ?, total_executions = ?, remaining_executions = ?, completed_at = NOW(), completion_reason = ? WHERE id = ?',
+        ['COMPLETED', newTotalExecutions, newRemainingExecutions, completionReason, plan.id]
+      );
+      return true;
+    }
+
+    await this.updatePlanForNextExecution(connection, plan, newTotalExecutions, newRemainingExecutions);
+    return false;
   }
 
   // Execute DCA sell plan
-  async executeDcaSellPlan(plan, executionPrice) {
+  async executeDcaSellPlan(selectedPlan, executionPrice) {
     return await transaction(async (connection) => {
+      const plan = await this.lockDuePlan(connection, selectedPlan.id, executionPrice);
+      if (!plan) {
+        return { executed: false, completed: false, paused: false };
+      }
+
       // Get current user balances
       const [userRows] = await connection.execute(
-        'SELECT available_inr, available_btc FROM users WHERE id = ?',
+        'SELECT available_inr, available_btc FROM users WHERE id = ? FOR UPDATE',
         [plan.user_id]
       );
 
@@ -225,8 +382,20 @@ class DcaExecutionService {
 
       const user = userRows[0];
 
+      // Never sell past the budget or raise much past the goal
+      const totals = await this.getPlanTotals(connection, plan);
+      const { amount: btcAmount, cappedBy } = this.applyPlanLimits(plan, plan.amount_per_execution, executionPrice, totals);
+      const inrAmount = Math.floor((btcAmount / 100000000) * executionPrice);
+
+      if (inrAmount <= 0 && cappedBy) {
+        await this.finishPlanExecution(connection, plan, plan.total_executions, plan.remaining_executions, cappedBy);
+        dcaLogger.success(`DCA Sell Plan ${plan.id} completed: ${cappedBy === 'BUDGET' ? 'budget sold' : 'goal reached'}`);
+        await clearUserCache(plan.user_id);
+        return { executed: false, completed: true, paused: false };
+      }
+
       // Check if user has sufficient balance
-      if (user.available_btc < plan.amount_per_execution) {
+      if (user.available_btc < btcAmount) {
         dcaLogger.warn(`DCA Sell Plan ${plan.id} paused: insufficient BTC balance`);
         await connection.execute(
           'UPDATE active_plans SET status = ? WHERE id = ?',
@@ -235,15 +404,12 @@ class DcaExecutionService {
         return { executed: false, completed: false, paused: true };
       }
 
-      // Calculate INR amount
-      const inrAmount = Math.floor((plan.amount_per_execution / 100000000) * executionPrice);
-
       if (inrAmount <= 0) {
         throw new Error('Calculated INR amount too small');
       }
 
       // Update user balances
-      const newBtcBalance = user.available_btc - plan.amount_per_execution;
+      const newBtcBalance = user.available_btc - btcAmount;
       const newInrBalance = user.available_inr + inrAmount;
 
       await connection.execute(
@@ -254,47 +420,152 @@ class DcaExecutionService {
       // Record the operation
       await connection.execute(
         'INSERT INTO operations (user_id, type, status, inr_amount, btc_amount, execution_price, parent_id, executed_at) VALUES (?, ?, ?, ?, ?, ?, ?, NOW())',
-        [plan.user_id, 'DCA_SELL', 'EXECUTED', inrAmount, plan.amount_per_execution, executionPrice, plan.id]
+        [plan.user_id, 'DCA_SELL', 'EXECUTED', inrAmount, btcAmount, executionPrice, plan.id]
       );
 
       // Update plan execution counts
       const newTotalExecutions = plan.total_executions + 1;
       const newRemainingExecutions = plan.remaining_executions ? plan.remaining_executions - 1 : null;
 
-      // Check if plan is completed
-      if (newRemainingExecutions === 0) {
+      const completionReason = this.getCompletionReason(plan, { spent: totals.spent + btcAmount, acquired: totals.acquired + inrAmount }, newRemainingExecutions);
+      const completed = await this.finishPlanExecution(connection, plan, newTotalExecutions, newRemainingExecutions, completionReason);
+      dcaLogger.success(completed
+        ? `DCA Sell Plan ${plan.id} completed after ${newTotalExecutions} executions (${completionReason})`
+        : `DCA Sell Plan ${plan.id} executed: ${(btcAmount/100000000).toFixed(8)} BTC at ₹${executionPrice.toLocaleString()}`);
+      await clearUserCache(plan.user_id);
+      return { executed: true, completed, paused: false, executionPrice, amount: btcAmount };
+    });
+  }
+
+  // Every slot from the plan's next_execution_at up to now
+  getDueSlots(plan, now = new Date()) {
+    const slots = [];
+    let slot = new Date(plan.next_execution_at);
+    while (slot <= now) {
+      slots.push(slot);
+      slot = dcaScheduleService.getNextExecution(plan, slot);
+    }
+    return slots;
+  }
+
+  /**
+   * Apply each overdue plan's catch-up policy to the slots it missed while the server was down.
+   * Run once on startup, before the first execution pass:
+   *   SKIP - every missed slot is recorded as EXPIRED; the plan resumes at its next future slot
+   *   ONCE - all but the latest missed slot are recorded as EXPIRED; the latest executes normally
+   *   ALL  - every missed slot executes, oldest first, at the current price
+   * Expired slots do not count towards remaining_executions.
+   */
+  async applyCatchUpPolicies() {
+    if (this.executionInProgress) {
+      dcaLogger.warn('DCA execution already in progress, skipping catch-up...');
+      return;
+    }
+
+    this.executionInProgress = true;
+
+    try {
+      const overduePlans = await query(`
+        SELECT ap.*, u.email, u.name 
+        FROM active_plans ap 
+        JOIN users u ON ap.user_id = u.id 
+        WHERE ap.status = 'ACTIVE' 
+        AND ap.plan_type IN ('DCA_BUY', 'DCA_SELL')
+        AND ap.next_execution_at <= NOW()
+        ORDER BY ap.next_execution_at ASC
+      `);
+
+      if (overduePlans.length === 0) {
+        dcaLogger.debug('No missed DCA executions to catch up');
+        return;
+      }
+
+      const { valid, rates } = await priceGuardService.checkMarket();
+      const now = new Date();
+
+      for (const plan of overduePlans) {
+        try {
+          const slots = this.getDueSlots(plan, now);
+          if (plan.catch_up_policy === 'ALL') {
+            if (!valid) {
+              dcaLogger.warn(`Market halted, DCA Plan ${plan.id} keeps its ${slots.length} missed executions for the regular schedule`);
+              continue;
+            }
+            await this.executeMissedSlots(plan, slots.length, rates);
+          } else if (plan.catch_up_policy === 'SKIP') {
+            await this.expireMissedSlots(plan, slots, dcaScheduleService.getNextExecution(plan, slots[slots.length - 1]));
+          } else if (slots.length > 1) {
+            await this.expireMissedSlots(plan, slots.slice(0, -1), slots[slots.length - 1]);
+          }
+        } catch (error) {
+          dcaLogger.error(`Error catching up DCA plan ${plan.id}`, error);
+        }
+      }
+    } catch (error) {
+      dcaLogger.error('Error applying DCA catch-up policies', error);
+    } finally {
+      this.executionInProgress = false;
+    }
+  }
+
+  // Record missed slots as EXPIRED child operations and move the plan to nextExecutionAt
+  async expireMissedSlots(plan, slots, nextExecutionAt) {
+    const isBuy = plan.plan_type === 'DCA_BUY';
+    const reason = `Missed while the service was down (catch-up: ${plan.catch_up_policy === 'SKIP' ? 'skip missed' : 'execute once'})`;
+
+    await transaction(async (connection) => {
+      for (const slot of slots) {
         await connection.execute(
-          'UPDATE active_plans SET status = ?, total_executions = ?, remaining_executions = ?, completed_at = NOW() WHERE id = ?',
-          ['COMPLETED', newTotalExecutions, newRemainingExecutions, plan.id]
+          'INSERT INTO operations (user_id, type, status, inr_amount, btc_amount, parent_id, scheduled_at, cancellation_reason) VALUES (?, ?, ?, ?, ?, ?, ?, ?)',
+          [plan.user_id, plan.plan_type, 'EXPIRED', isBuy ? plan.amount_per_execution : 0, isBuy ? 0 : plan.amount_per_execution, plan.id, slot, reason]
         );
-        
-        dcaLogger.success(`DCA Sell Plan ${plan.id} completed after ${newTotalExecutions} executions`);
-        await clearUserCache(plan.user_id);
-        return { executed: true, completed: true, paused: false, executionPrice };
-      } else {
-        // Schedule next execution
-        await this.updatePlanForNextExecution(connection, plan, newTotalExecutions, newRemainingExecutions);
-        
-        dcaLogger.success(`DCA Sell Plan ${plan.id} executed: ${(plan.amount_per_execution/100000000).toFixed(8)} BTC at ₹${executionPrice.toLocaleString()}`);
-        await clearUserCache(plan.user_id);
-        return { executed: true, completed: false, paused: false, executionPrice };
       }
+
+      await connection.execute(
+        'UPDATE active_plans SET next_execution_at = ? WHERE id = ?',
+        [nextExecutionAt, plan.id]
+      );
+    });
+
+    await clearUserCache(plan.user_id);
+    eventStreamService.publishToUser(plan.user_id, 'dca', {
+      plan_id: plan.id,
+      plan_type: plan.plan_type,
+      status: 'EXPIRED',
+      missed_executions: slots.length
     });
+    dcaLogger.info(`DCA Plan ${plan.id}: ${slots.length} missed executions expired, next at ${nextExecutionAt.toISOString()}`);
+  }
+
+  // Run a plan once per missed slot, stopping early if it pauses, completes or is no longer due
+  async executeMissedSlots(plan, missedCount, rates) {
+    let executed = 0;
+    let current = plan;
+
+    for (let i = 0; i < missedCount; i++) {
+      const result = await this.executePlan(current, rates);
+      if (result.executed) {
+        executed++;
+      }
+
+      const plans = await query(`
+        SELECT ap.*, u.email, u.name 
+        FROM active_plans ap 
+        JOIN users u ON ap.user_id = u.id 
+        WHERE ap.id = ? AND ap.status = 'ACTIVE' AND ap.next_execution_at <= NOW()
+      `, [plan.id]);
+      if (plans.length === 0) {
+        break;
+      }
+      current = plans[0];
+    }
+
+    dcaLogger.info(`DCA Plan ${plan.id}: caught up ${executed} of ${missedCount} missed executions`);
   }
 
   // Skip plan execution when price conditions aren't met
   async skipPlanExecution(plan) {
-    const nextExecutionAt = new Date(plan.next_execution_at);
-    
-    if (plan.frequency === 'HOURLY') {
-      nextExecutionAt.setHours(nextExecutionAt.getHours() + 1);
-    } else if (plan.frequency === 'DAILY') {
-      nextExecutionAt.setDate(nextExecutionAt.getDate() + 1);
-    } else if (plan.frequency === 'WEEKLY') {
-      nextExecutionAt.setDate(nextExecutionAt.getDate() + 7);
-    } else if (plan.frequency === 'MONTHLY') {
-      nextExecutionAt.setMonth(nextExecutionAt.getMonth() + 1);
-    }
+    const nextExecutionAt = dcaScheduleService.getNextExecution(plan, plan.next_execution_at);
 
     await query(
       'UPDATE active_plans SET next_execution_at = ? WHERE id = ?',
@@ -363,17 +634,7 @@ class DcaExecutionService {
 
   // Update plan for next execution with counters
   async updatePlanForNextExecution(connection, plan, newTotalExecutions, newRemainingExecutions) {
-    const nextExecutionAt = new Date(plan.next_execution_at);
-    
-    if (plan.frequency === 'HOURLY') {
-      nextExecutionAt.setHours(nextExecutionAt.getHours() + 1);
-    } else if (plan.frequency === 'DAILY') {
-      nextExecutionAt.setDate(nextExecutionAt.getDate() + 1);
-    } else if (plan.frequency === 'WEEKLY') {
-      nextExecutionAt.setDate(nextExecutionAt.getDate() + 7);
-    } else if (plan.frequency === 'MONTHLY') {
-      nextExecutionAt.setMonth(nextExecutionAt.getMonth() + 1);
-    }
+    const nextExecutionAt = dcaScheduleService.getNextExecution(plan, plan.next_execution_at);
 
     await connection.execute(
       'UPDATE active_plans SET next_execution_at = ?, total_executions = ?, remaining_executions = ? WHERE id = ?',
@@ -381,6 +642,19 @@ class DcaExecutionService {
     );
   }
 
+  // Budget, goal and progress in display units: buy plans spend rupees for BTC, sell plans spend BTC for rupees.
+  // Expects executed_inr and executed_btc totals (rupees, satoshis) alongside the plan's columns
+  formatPlanLimits(plan) {
+    const isBuy = plan.plan_type === 'DCA_BUY';
+    const toBtc = satoshis => Number(satoshis) / 100000000;
+    return {
+      budget_limit: plan.budget_limit === null ? null : isBuy ? Number(plan.budget_limit) : toBtc(plan.budget_limit),
+      goal_amount: plan.goal_amount === null ? null : isBuy ? toBtc(plan.goal_amount) : Number(plan.goal_amount),
+      total_spent: isBuy ? Number(plan.executed_inr) : toBtc(plan.executed_btc),
+      total_acquired: isBuy ? toBtc(plan.executed_btc) : Number(plan.executed_inr)
+    };
+  }
+
   // Get DCA plans summary
   async getDcaPlansSummary() {
     try {
@@ -419,8 +693,9 @@ class DcaExecutionService {
     dcaLogger.info('Starting DCA execution service...');
     this.isRunning = true;
 
-    // Run immediately on startup to handle any missed executions
-    this.executePendingPlans()
+    // Settle executions missed while the service was down, then run whatever is due
+    this.applyCatchUpPolicies()
+      .then(() => this.executePendingPlans())
       .then(() => {
         // After initial execution, start dynamic scheduling
         this.scheduleService();
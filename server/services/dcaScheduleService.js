@@ -0,0 +1,244 @@
+const IST_OFFSET_MS = 330 * 60 * 1000; // IST is UTC+05:30 all year
+const DAY_MS = 24 * 60 * 60 * 1000;
+const SCHEDULE_TYPES = ['WEEKDAYS', 'MONTH_DAYS', 'CRON'];
+const SEARCH_DAYS = 4 * 366 + 1; // Long enough for a cron rule that only runs on 29 February
+
+/**
+ * DCA Schedule Service
+ * Works out when a DCA plan runs next. Fixed frequencies step from the previous
+ * run; CUSTOM plans carry a schedule rule evaluated in IST:
+ *
+ *   { type: 'WEEKDAYS', weekdays: [1, 4], time: '09:00' }     - Mondays and Thursdays at 09:00
+ *   { type: 'MONTH_DAYS', monthDays: [1, 15, -1], time: '09:00' } - 1st, 15th and last day of the month
+ *   { type: 'CRON', expression: '30 9 * * 1-5' }              - minute hour day-of-month month day-of-week
+ *
+ * Month days past the end of a short month run on its last day (the 31st runs on
+ * 30 April and 28/29 February), and MONTHLY plans keep the day they were created on
+ * instead of drifting after a short month. Cron rules accept *, lists, ranges, steps
+ * and L (last day of the month), and may run at most once an hour.
+ */
+class DcaScheduleService {
+  // Wall-clock fields of a moment in IST
+  toIst(date) {
+    const ist = new Date(new Date(date).getTime() + IST_OFFSET_MS);
+    return {
+      year: ist.getUTCFullYear(),
+      month: ist.getUTCMonth(),
+      day: ist.getUTCDate(),
+      weekday: ist.getUTCDay(),
+      hour: ist.getUTCHours(),
+      minute: ist.getUTCMinutes(),
+      second: ist.getUTCSeconds()
+    };
+  }
+
+  // Moment for an IST wall-clock time; month may overflow into following years
+  fromIst(year, month, day, hour, minute, second = 0) {
+    return new Date(Date.UTC(year, month, day, hour, minute, second) - IST_OFFSET_MS);
+  }
+
+  daysInMonth(year, month) {
+    return new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  }
+
+  parseTime(time) {
+    const match = /^([01]\d|2[0-3]):([0-5]\d)$/.exec(time || '');
+    if (!match) {
+      throw new Error('Time must be HH:MM (24-hour, IST)');
+    }
+    return { hour: Number(match[1]), minute: Number(match[2]) };
+  }
+
+  // One cron field as a sorted list of values; dayOfMonth also accepts L
+  parseCronField(field, min, max, allowLast = false) {
+    const values = new Set();
+    let last = false;
+
+    for (const part of field.split(',')) {
+      if (allowLast && part === 'L') {
+        last = true;
+        continue;
+      }
+      const match = /^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/.exec(part);
+      if (!match) {
+        throw new Error('Invalid cron expression');
+      }
+      const start = match[1] === '*' ? min : Number(match[2]);
+      const end = match[1] === '*' ? max : match[3] !== undefined ? Number(match[3]) : match[4] !== undefined ? max : start;
+      const step = match[4] !== undefined ? Number(match[4]) : 1;
+      if (start < min || end > max || start > end || step < 1) {
+        throw new Error('Invalid cron expression');
+      }
+      for (let value = start; value <= end; value += step) {
+        values.add(value);
+      }
+    }
+
+    return { values: [...values].sort((a, b) => a - b), last, any: field === '*' };
+  }
+
+  parseCron(expression) {
+    const fields = String(expression || '').trim().split(/\s+/);
+    if (fields.length !== 5) {
+      throw new Error('Cron expression must have 5 fields: minute hour day-of-month month day-of-week');
+    }
+
+    const minute = this.parseCronField(fields[0], 0, 59);
+    if (minute.values.length !== 1) {
+      throw new Error('Cron schedules may run at most once an hour (use a single minute)');
+    }
+    const dayOfWeek = this.parseCronField(fields[4], 0, 7);
+
+    return {
+      minute,
+      hour: this.parseCronField(fields[1], 0, 23),
+      dayOfMonth: this.parseCronField(fields[2], 1, 31, true),
+      month: this.parseCronField(fields[3], 1, 12),
+      dayOfWeek: { ...dayOfWeek, values: [...new Set(dayOfWeek.values.map(day => day % 7))] }
+    };
+  }
+
+  /**
+   * Validate a schedule request and return its stored form
+   * @param {Object} input - { type, weekdays, monthDays, time, expression }
+   * @returns {Object} - Canonical schedule
+   */
+  normalizeSchedule(input) {
+    if (!input || !SCHEDULE_TYPES.includes(input.type)) {
+      throw new Error('Schedule type must be WEEKDAYS, MONTH_DAYS or CRON');
+    }
+
+    let schedule;
+    if (input.type === 'WEEKDAYS') {
+      const weekdays = [...new Set(input.weekdays || [])].sort((a, b) => a - b);
+      if (weekdays.length === 0) {
+        throw new Error('Pick at least one weekday');
+      }
+      if (!weekdays.every(day => Number.isInteger(day) && day >= 0 && day <= 6)) {
+        throw new Error('Weekdays must be 0 (Sunday) to 6 (Saturday)');
+      }
+      this.parseTime(input.time);
+      schedule = { type: 'WEEKDAYS', weekdays, time: input.time };
+    } else if (input.type === 'MONTH_DAYS') {
+      const monthDays = [...new Set(input.monthDays || [])].sort((a, b) => (a === -1 ? 32 : a) - (b === -1 ? 32 : b));
+      if (monthDays.length === 0) {
+        throw new Error('Pick at least one day of the month');
+      }
+      if (!monthDays.every(day => day === -1 || (Number.isInteger(day) && day >= 1 && day <= 31))) {
+        throw new Error('Days of the month must be 1 to 31, or -1 for the last day');
+      }
+      this.parseTime(input.time);
+      schedule = { type: 'MONTH_DAYS', monthDays, time: input.time };
+    } else {
+      const expression = String(input.expression || '').trim().split(/\s+/).join(' ');
+      this.parseCron(expression);
+      schedule = { type: 'CRON', expression };
+    }
+
+    if (!this.getNextRun(schedule, new Date())) {
+      throw new Error('Schedule never runs');
+    }
+
+    return schedule;
+  }
+
+  // Times (IST) the schedule runs on a given IST day, earliest first; empty when it does not run that day
+  getRunTimes(schedule, year, month, day) {
+    const weekday = new Date(Date.UTC(year, month, day)).getUTCDay();
+    const lastDay = this.daysInMonth(year, month);
+
+    if (schedule.type === 'WEEKDAYS') {
+      return schedule.weekdays.includes(weekday) ? [this.parseTime(schedule.time)] : [];
+    }
+
+    if (schedule.type === 'MONTH_DAYS') {
+      const runsToday = schedule.monthDays.some(monthDay => (monthDay === -1 ? lastDay : Math.min(monthDay, lastDay)) === day);
+      return runsToday ? [this.parseTime(schedule.time)] : [];
+    }
+
+    const cron = this.parseCron(schedule.expression);
+    if (!cron.month.values.includes(month + 1)) {
+      return [];
+    }
+    const domMatch = cron.dayOfMonth.values.includes(day) || (cron.dayOfMonth.last && day === lastDay);
+    const dowMatch = cron.dayOfWeek.values.includes(weekday);
+    // Standard cron: when both day fields are restricted, either may match
+    const dayMatches = !cron.dayOfMonth.any && !cron.dayOfWeek.any
+      ? domMatch || dowMatch
+      : cron.dayOfMonth.any ? dowMatch : domMatch;
+    if (!dayMatches) {
+      return [];
+    }
+    return cron.hour.values.map(hour => ({ hour, minute: cron.minute.values[0] }));
+  }
+
+  /**
+   * First run strictly after a moment
+   * @param {Object} schedule - Canonical schedule
+   * @param {Date} after - Moment to search from
+   * @returns {Date|null} - Next run, or null if the rule never runs again
+   */
+  getNextRun(schedule, after) {
+    const afterTime = new Date(after).getTime();
+    const start = this.toIst(after);
+
+    for (let offset = 0; offset < SEARCH_DAYS; offset++) {
+      const date = new Date(Date.UTC(start.year, start.month, start.day) + offset * DAY_MS);
+      const year = date.getUTCFullYear();
+      const month = date.getUTCMonth();
+      const day = date.getUTCDate();
+
+      for (const { hour, minute } of this.getRunTimes(schedule, year, month, day)) {
+        const run = this.fromIst(year, month, day, hour, minute);
+        if (run.getTime() > afterTime) {
+          return run;
+        }
+      }
+    }
+
+    return null;
+  }
+
+  // Same IST wall-clock time a number of months later, on anchorDay or the month's last day
+  addMonths(from, months, anchorDay) {
+    const ist = this.toIst(from);
+    const target = new Date(Date.UTC(ist.year, ist.month + months, 1));
+    const day = Math.min(anchorDay, this.daysInMonth(target.getUTCFullYear(), target.getUTCMonth()));
+    return this.fromIst(target.getUTCFullYear(), target.getUTCMonth(), day, ist.hour, ist.minute, ist.second);
+  }
+
+  /**
+   * Next run of a plan after a given run (or after now for a new or resumed plan)
+   * @param {Object} plan - { frequency, schedule, created_at }
+   * @param {Date} from - Previous run or current time
+   * @returns {Date} - Next run
+   */
+  getNextExecution(plan, from) {
+    const fromTime = new Date(from).getTime();
+
+    switch (plan.frequency) {
+      case 'HOURLY':
+        return new Date(fromTime + 60 * 60 * 1000);
+      case 'DAILY':
+        return new Date(fromTime + DAY_MS);
+      case 'WEEKLY':
+        return new Date(fromTime + 7 * DAY_MS);
+      case 'MONTHLY':
+        return this.addMonths(from, 1, this.toIst(plan.created_at || from).day);
+      case 'CUSTOM': {
+        const schedule = typeof plan.schedule === 'string' ? JSON.parse(plan.schedule) : plan.schedule;
+        const next = schedule && this.getNextRun(schedule, from);
+        if (!next) {
+          throw new Error(`DCA plan ${plan.id} schedule has no upcoming run`);
+        }
+        return next;
+      }
+      default:
+        return new Date(fromTime + DAY_MS);
+    }
+  }
+}
+
+// Export singleton instance
+const dcaScheduleService = new DcaScheduleService();
+module.exports = dcaScheduleService;
@@ -0,0 +1,211 @@
+const { query } = require('../config/database');
+const { clearUserCache } = require('../config/redis');
+const bitcoinDataService = require('./bitcoinDataService');
+
+const STRATEGIES = ['FIXED', 'VALUE_AVERAGING', 'DIP_MULTIPLIER'];
+const MOVING_AVERAGE_DAYS = [7, 30, 90, 365]; // Chart timeframes kept by bitcoinDataService
+const MAX_DIP_MULTIPLIER = 10;
+
+/**
+ * DCA Strategy Service
+ * Decides how much a DCA buy plan spends on each execution:
+ *
+ *   FIXED            - amount_per_execution every time
+ *   VALUE_AVERAGING  - enough to bring the BTC the plan has bought to a target value
+ *                      that grows by va_target_growth per execution, capped at va_max_amount
+ *   DIP_MULTIPLIER   - amount_per_execution, times dip_multiplier when the price is at least
+ *                      dip_threshold_pct below its dip_ma_days moving average
+ *
+ * calculateAmount is a pure function of the plan and its market inputs; the inputs
+ * and the amount they produced are stored in each execution's operation notes.
+ * Sell plans always use FIXED.
+ */
+class DcaStrategyService {
+  /**
+   * Validate a strategy request and turn it into active_plans column values
+   * @param {string} planType - DCA_BUY or DCA_SELL
+   * @param {number} baseAmount - Plan's amount_per_execution (rupees for buy plans)
+   * @param {Object} input - { type, targetGrowth, maxAmount, dipPct, dipMultiplier, maDays }
+   * @returns {Object} - Column values
+   */
+  normalizeStrategy(planType, baseAmount, input = {}) {
+    const type = input.type || 'FIXED';
+    const columns = {
+      strategy: type,
+      va_target_growth: null,
+      va_max_amount: null,
+      dip_threshold_pct: null,
+      dip_multiplier: null,
+      dip_ma_days: null
+    };
+
+    if (!STRATEGIES.includes(type)) {
+      throw new Error('Strategy must be FIXED, VALUE_AVERAGING or DIP_MULTIPLIER');
+    }
+    if (type !== 'FIXED' && planType !== 'DCA_BUY') {
+      throw new Error('Strategies are only available for DCA buy plans');
+    }
+
+    if (type === 'VALUE_AVERAGING') {
+      const targetGrowth = input.targetGrowth ?? baseAmount;
+      const maxAmount = input.maxAmount ?? baseAmount * 2;
+      if (!Number.isInteger(targetGrowth) || targetGrowth <= 0) {
+        throw new Error('Target growth must be a whole number of rupees greater than 0');
+      }
+      if (!Number.isInteger(maxAmount) || maxAmount < targetGrowth) {
+        throw new Error('Maximum amount must be a whole number of rupees at least the target growth');
+      }
+      columns.va_target_growth = targetGrowth;
+      columns.va_max_amount = maxAmount;
+    }
+
+    if (type === 'DIP_MULTIPLIER') {
+      const dipPct = Number(input.dipPct);
+      const dipMultiplier = Number(input.dipMultiplier);
+      const maDays = Number(input.maDays ?? 30);
+      if (!(dipPct > 0 && dipPct < 100)) {
+        throw new Error('Dip threshold must be between 0 and 100%');
+      }
+      if (!(dipMultiplier > 1 && dipMultiplier <= MAX_DIP_MULTIPLIER)) {
+        throw new Error('Dip multiplier must be above 1 and at most 10');
+      }
+      if (!MOVING_AVERAGE_DAYS.includes(maDays)) {
+        throw new Error('Moving average must be 7, 30, 90 or 365 days');
+      }
+      columns.dip_threshold_pct = dipPct;
+      columns.dip_multiplier = dipMultiplier;
+      columns.dip_ma_days = maDays;
+    }
+
+    return columns;
+  }
+
+  // BTC (satoshis) a plan has bought so far
+  async getPlanHoldings(plan) {
+    const rows = await query(
+      `SELECT COALESCE(SUM(btc_amount), 0) as btc_bought
+       FROM operations
+       WHERE user_id = ? AND parent_id = ? AND type = 'DCA_BUY' AND status = 'EXECUTED'`,
+      [plan.user_id, plan.id]
+    );
+    return Number(rows[0].btc_bought);
+  }
+
+  // Average buy rate (INR) over the chart window, or null when no chart data is stored
+  async getMovingAverage(days, buyMultiplier) {
+    const charts = await bitcoinDataService.getChartData(`${days}d`);
+    const prices = charts[0]?.price_data || [];
+    if (prices.length === 0) {
+      return null;
+    }
+    const averageUsd = prices.reduce((sum, point) => sum + Number(point[1]), 0) / prices.length;
+    return Math.round(averageUsd * buyMultiplier);
+  }
+
+  /**
+   * Gather the market inputs a plan's strategy needs
+   * @param {Object} plan - active_plans row
+   * @param {Object} rates - { buyRate, buyMultiplier }
+   * @returns {Promise<Object>} - { price, btcHeld, movingAverage }
+   */
+  async getMarketInputs(plan, rates) {
+    const inputs = { price: rates.buyRate, btcHeld: null, movingAverage: null };
+    if (plan.strategy === 'VALUE_AVERAGING') {
+      inputs.btcHeld = await this.getPlanHoldings(plan);
+    } else if (plan.strategy === 'DIP_MULTIPLIER') {
+      inputs.movingAverage = await this.getMovingAverage(plan.dip_ma_days, rates.buyMultiplier);
+    }
+    return inputs;
+  }
+
+  /**
+   * Amount the next execution spends. Pure: no I/O, no clock.
+   * @param {Object} plan - active_plans row (strategy columns, amount_per_execution, total_executions)
+   * @param {Object} market - { price, btcHeld, movingAverage }
+   * @returns {Object} - { amount, inputs }; amount may be 0 when value averaging is already on target
+   */
+  calculateAmount(plan, market) {
+    const baseAmount = Number(plan.amount_per_execution);
+    const strategy = plan.strategy || 'FIXED';
+
+    if (strategy === 'VALUE_AVERAGING') {
+      const execution = Number(plan.total_executions || 0) + 1;
+      const targetValue = execution * Number(plan.va_target_growth);
+      const currentValue = Math.floor((market.btcHeld * market.price) / 100000000);
+      const amount = Math.min(Math.max(targetValue - currentValue, 0), Number(plan.va_max_amount));
+      return {
+        amount,
+        inputs: { strategy, baseAmount, execution, targetGrowth: Number(plan.va_target_growth), targetValue, btcHeld: market.btcHeld, currentValue, maxAmount: Number(plan.va_max_amount), price: market.price, amount }
+      };
+    }
+
+    if (strategy === 'DIP_MULTIPLIER') {
+      const dipPct = Number(plan.dip_threshold_pct);
+      const multiplier = Number(plan.dip_multiplier);
+      const belowAveragePct = market.movingAverage ? ((market.movingAverage - market.price) / market.movingAverage) * 100 : null;
+      const isDip = belowAveragePct !== null && belowAveragePct >= dipPct;
+      const amount = isDip ? Math.round(baseAmount * multiplier) : baseAmount;
+      return {
+        amount,
+        inputs: {
+          strategy, baseAmount, maDays: plan.dip_ma_days, movingAverage: market.movingAverage,
+          belowAveragePct: belowAveragePct === null ? null : Math.round(belowAveragePct * 100) / 100,
+          dipPct, multiplier, applied: isDip ? multiplier : 1, price: market.price, amount
+        }
+      };
+    }
+
+    return { amount: baseAmount, inputs: { strategy: 'FIXED', baseAmount, price: market.price, amount: baseAmount } };
+  }
+
+  async resolveAmount(plan, rates) {
+    const market = await this.getMarketInputs(plan, rates);
+    return this.calculateAmount(plan, market);
+  }
+
+  async getUserPlan(userId, planId) {
+    const plans = await query(
+      'SELECT * FROM active_plans WHERE id = ? AND user_id = ? AND status IN ("ACTIVE", "PAUSED")',
+      [planId, userId]
+    );
+    if (plans.length === 0) {
+      throw new Error('DCA plan not found');
+    }
+    return plans[0];
+  }
+
+  /**
+   * Amount the plan's next execution would spend under a strategy, at the current buy rate
+   * @param {number} userId - Plan owner
+   * @param {number} planId - Plan ID
+   * @param {Object} input - Strategy request, see normalizeStrategy
+   * @returns {Promise<Object>} - { strategy columns, amount, inputs }
+   */
+  async previewStrategy(userId, planId, input) {
+    const plan = await this.getUserPlan(userId, planId);
+    const columns = this.normalizeStrategy(plan.plan_type, plan.amount_per_execution, input);
+    const rates = await bitcoinDataService.getCalculatedRates();
+    const { amount, inputs } = await this.resolveAmount({ ...plan, ...columns }, rates);
+    return { ...columns, amount, inputs };
+  }
+
+  // Switch a plan's strategy; takes effect from its next execution
+  async setStrategy(userId, planId, input) {
+    const plan = await this.getUserPlan(userId, planId);
+    const columns = this.normalizeStrategy(plan.plan_type, plan.amount_per_execution, input);
+
+    await query(
+      `UPDATE active_plans
+       SET strategy = ?, va_target_growth = ?, va_max_amount = ?, dip_threshold_pct = ?, dip_multiplier = ?, dip_ma_days = ?
+       WHERE id = ?`,
+      [columns.strategy, columns.va_target_growth, columns.va_max_amount, columns.dip_threshold_pct, columns.dip_multiplier, columns.dip_ma_days, plan.id]
+    );
+    await clearUserCache(userId);
+
+    return { plan_id: plan.id, ...columns };
+  }
+}
+
+// Export singleton instance
+const dcaStrategyService = new DcaStrategyService();
+module.exports = dcaStrategyService;
@@ -0,0 +1,174 @@
+const crypto = require('crypto');
+const { systemLogger } = require('../utils/logger');
+
+const HEARTBEAT_INTERVAL_MS = 25000;   // Keeps proxies from closing idle streams
+const CLIENT_RETRY_MS = 5000;          // EventSource reconnect delay
+const TICKET_TTL_MS = 30000;           // Stream tickets must be redeemed within this window
+const MAX_STREAMS_PER_USER = 5;        // Open connections allowed per user
+
+/**
+ * Event Stream Service
+ * Server-sent event channel for logged-in clients. Price ticks and market halt
+ * changes are broadcast to everyone; balance, order, DCA and loan events are
+ * only sent to the owning user's connections. Clients keep polling as a
+ * fallback, so a dropped event only delays a refresh.
+ *
+ * EventSource cannot send headers, so clients first exchange their JWT for a
+ * short-lived single-use ticket and open the stream with that instead.
+ */
+class EventStreamService {
+  constructor() {
+    this.clients = new Map();          // userId -> Set of open responses
+    this.tickets = new Map();          // ticket -> { userId, expiresAt }
+    this.heartbeat = null;
+  }
+
+  // Issue a single-use ticket for opening one stream as this user
+  issueTicket(userId) {
+    const now = Date.now();
+    this.tickets.forEach((entry, ticket) => {
+      if (entry.expiresAt <= now) {
+        this.tickets.delete(ticket);
+      }
+    });
+
+    const ticket = crypto.randomBytes(24).toString('hex');
+    this.tickets.set(ticket, { userId: Number(userId), expiresAt: now + TICKET_TTL_MS });
+    return { ticket, expiresIn: TICKET_TTL_MS / 1000 };
+  }
+
+  // Consume a ticket; returns its user id, or null when it is unknown or expired
+  redeemTicket(ticket) {
+    const entry = typeof ticket === 'string' ? this.tickets.get(ticket) : null;
+    if (!entry) {
+      return null;
+    }
+    this.tickets.delete(ticket);
+    return entry.expiresAt > Date.now() ? entry.userId : null;
+  }
+
+  hasCapacity(userId) {
+    const connections = this.clients.get(userId);
+    return !connections || connections.size < MAX_STREAMS_PER_USER;
+  }
+
+  // Attach a request/response pair as an SSE connection for the given user
+  subscribe(userId, req, res) {
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no'
+    });
+    res.write(`retry: ${CLIENT_RETRY_MS}\n\n`);
+
+    if (!this.clients.has(userId)) {
+      this.clients.set(userId, new Set());
+    }
+    this.clients.get(userId).add(res);
+    this.startHeartbeat();
+
+    this.write(res, 'connected', { user_id: userId, timestamp: new Date().toISOString() });
+
+    req.on('close', () => {
+      const connections = this.clients.get(userId);
+      if (connections) {
+        connections.delete(res);
+        if (connections.size === 0) {
+          this.clients.delete(userId);
+        }
+      }
+      if (this.clients.size === 0) {
+        this.stopHeartbeat();
+      }
+    });
+  }
+
+  write(res, event, data) {
+    this.send(res, `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`, `${event} event`);
+  }
+
+  // Write to one connection; a connection closing underneath is cleaned up by its close handler
+  send(res, chunk, label) {
+    if (res.writableEnded || res.destroyed) {
+      return;
+    }
+    try {
+      res.write(chunk);
+    } catch (error) {
+      systemLogger.error(`Failed to write ${label}`, error);
+    }
+  }
+
+  publishToUser(userId, event, data) {
+    const connections = this.clients.get(Number(userId));
+    if (!connections) {
+      return;
+    }
+    connections.forEach(res => this.write(res, event, data));
+  }
+
+  broadcast(event, data) {
+    this.clients.forEach(connections => {
+      connections.forEach(res => this.write(res, event, data));
+    });
+  }
+
+  // Called from clearUserCache once the balance change has committed
+  async publishBalance(userId) {
+    userId = Number(userId);
+    if (!this.clients.has(userId)) {
+      return;
+    }
+
+    try {
+      // Required lazily: userService depends on services that publish here
+      const userService = require('./userService');
+      const balances = await userService.getUserBalances(userId, { skipCache: true });
+      this.publishToUser(userId, 'balance', userService.formatBalancesForDisplay(balances));
+    } catch (error) {
+      systemLogger.error(`Failed to publish balance update for user ${userId}`, error);
+    }
+  }
+
+  startHeartbeat() {
+    if (this.heartbeat) {
+      return;
+    }
+    this.heartbeat = setInterval(() => {
+      this.clients.forEach(connections => {
+        connections.forEach(res => this.send(res, ': heartbeat\n\n', 'heartbeat'));
+      });
+    }, HEARTBEAT_INTERVAL_MS);
+  }
+
+  stopHeartbeat() {
+    if (this.heartbeat) {
+      clearInterval(this.heartbeat);
+      this.heartbeat = null;
+    }
+  }
+
+  // Close all open streams (used on shutdown)
+  stop() {
+    this.stopHeartbeat();
+    this.tickets.clear();
+    this.clients.forEach(connections => {
+      connections.forEach(res => res.end());
+    });
+    this.clients.clear();
+  }
+
+  getStatus() {
+    let connections = 0;
+    this.clients.forEach(set => { connections += set.size; });
+    return {
+      users: this.clients.size,
+      connections
+    };
+  }
+}
+
+// Export singleton instance
+const eventStreamService = new EventStreamService();
+module.exports = eventStreamService;
@@ -0,0 +1,97 @@
+const { query } = require('../config/database');
+const settingsService = require('./settingsService');
+
+const FUND_ID = 1;
+
+/**
+ * Insurance Fund Service
+ * Platform fund for liquidation shortfall risk. Liquidation penalties are paid
+ * into it and debt a liquidated loan's collateral could not cover (bad debt) is
+ * paid out of it. Every movement is an insurance_fund_entries row carrying the
+ * balance after it; the balance may go negative, which is the platform's
+ * uncovered loss.
+ */
+class InsuranceFundService {
+  /**
+   * Apply a movement to the fund inside the caller's transaction
+   * @param {Object} connection - Transaction connection
+   * @param {Object} entry - { type, amount, loanId, userId, liquidationEventId, notes }; amount is signed rupees
+   * @returns {Promise<number>} - Fund balance after the entry
+   */
+  async recordEntry(connection, entry) {
+    const { type, amount, loanId = null, userId = null, liquidationEventId = null, notes = null } = entry;
+
+    const [fundRows] = await connection.execute(
+      'SELECT balance_inr FROM insurance_fund WHERE id = ? FOR UPDATE',
+      [FUND_ID]
+    );
+    const balance = Number(fundRows[0]?.balance_inr || 0) + amount;
+
+    await connection.execute(
+      'INSERT INTO insurance_fund (id, balance_inr) VALUES (?, ?) ON DUPLICATE KEY UPDATE balance_inr = VALUES(balance_inr)',
+      [FUND_ID, balance]
+    );
+
+    await connection.execute(
+      `INSERT INTO insurance_fund_entries (entry_type, amount_inr, balance_after, loan_id, user_id, liquidation_event_id, notes)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      [type, amount, balance, loanId, userId, liquidationEventId, notes]
+    );
+
+    return balance;
+  }
+
+  formatEntry(row) {
+    return {
+      id: row.id,
+      entry_type: row.entry_type,
+      amount: Number(row.amount_inr),
+      balance_after: Number(row.balance_after),
+      loan_id: row.loan_id,
+      user_id: row.user_id,
+      user_name: row.user_name,
+      liquidation_event_id: row.liquidation_event_id,
+      notes: row.notes,
+      created_at: row.created_at
+    };
+  }
+
+  /**
+   * Fund balance, lifetime totals, current penalty and recent entries
+   * @param {number} limit - Number of entries to return
+   * @returns {Promise<Object>} - Fund summary
+   */
+  async getFund(limit = 50) {
+    const entryLimit = Math.min(Math.max(parseInt(limit, 10) || 50, 1), 200);
+    const [fundRows, totalRows, entryRows, settings] = await Promise.all([
+      query('SELECT balance_inr, updated_at FROM insurance_fund WHERE id = ?', [FUND_ID]),
+      query(
+        `SELECT
+          COALESCE(SUM(CASE WHEN entry_type = 'PENALTY' THEN amount_inr ELSE 0 END), 0) as penalties_collected,
+          COALESCE(-SUM(CASE WHEN entry_type = 'BAD_DEBT' THEN amount_inr ELSE 0 END), 0) as bad_debt_absorbed
+         FROM insurance_fund_entries`
+      ),
+      query(
+        `SELECT e.*, u.name as user_name
+         FROM insurance_fund_entries e
+         LEFT JOIN users u ON u.id = e.user_id
+         ORDER BY e.id DESC
+         LIMIT ${entryLimit}`
+      ),
+      settingsService.getAllSettings()
+    ]);
+
+    return {
+      balance: Number(fundRows[0]?.balance_inr || 0),
+      penalties_collected: Number(totalRows[0].penalties_collected),
+      bad_debt_absorbed: Number(totalRows[0].bad_debt_absorbed),
+      penalty_bps: settings.liquidation_penalty_bps ?? 0,
+      updated_at: fundRows[0]?.updated_at || null,
+      entries: entryRows.map(row => this.formatEntry(row))
+    };
+  }
+}
+
+// Export singleton instance
+const insuranceFundService = new InsuranceFundService();
+module.exports = insuranceFundService;
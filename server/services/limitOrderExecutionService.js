@@ -1,9 +1,32 @@
 const cron = require('node-cron');
 const { query, transaction } = require('../config/database');
 const { clearUserCache } = require('../config/redis');
-const bitcoinDataService = require('./bitcoinDataService');
+const priceGuardService = require('./priceGuardService');
+const settingsService = require('./settingsService');
+const eventStreamService = require('./eventStreamService');
 const { limitOrderLogger } = require('../utils/logger');
 
+// Conditional orders handled by this service, grouped by the balance they reserve
+const BUY_ORDER_TYPES = ['LIMIT_BUY', 'STOP_BUY', 'TRAILING_STOP_BUY'];      // Reserve INR
+const SELL_ORDER_TYPES = ['LIMIT_SELL', 'STOP_LOSS_SELL', 'TRAILING_STOP_SELL']; // Reserve BTC
+const ORDER_TYPES_SQL = [...BUY_ORDER_TYPES, ...SELL_ORDER_TYPES].map(type => `'${type}'`).join(', ');
+const BUY_ORDER_TYPES_SQL = BUY_ORDER_TYPES.map(type => `'${type}'`).join(', ');
+
+// Executed fills of an order are child operations of the same type linked through parent_id
+const ORDER_FILLS_JOIN = `
+  LEFT JOIN (
+    SELECT parent_id, type,
+      SUM(inr_amount) as filled_inr,
+      SUM(btc_amount) as filled_btc,
+      COUNT(*) as fill_count
+    FROM operations
+    WHERE status = 'EXECUTED'
+    AND parent_id IS NOT NULL
+    AND type IN (${ORDER_TYPES_SQL})
+    GROUP BY parent_id, type
+  ) f ON f.parent_id = o.id AND f.type = o.type
+`;
+
 class LimitOrderExecutionService {
   constructor() {
     this.isRunning = false;
@@ -11,6 +34,89 @@ class LimitOrderExecutionService {
     this.executionInProgress = false;
   }
 
+  isBuyOrder(order) {
+    return BUY_ORDER_TYPES.includes(order.type);
+  }
+
+  // IOC and FOK orders are matched once at placement and never rest in the book
+  isImmediateOrder(order) {
+    return order.time_in_force === 'IOC' || order.time_in_force === 'FOK';
+  }
+
+  // e.g. STOP_LOSS_SELL -> "Stop loss sell order"
+  getOrderLabel(order) {
+    const label = order.type.toLowerCase().replace(/_/g, ' ');
+    return `${label.charAt(0).toUpperCase()}${label.slice(1)} order`;
+  }
+
+  // Get pending limit and stop orders with filled and remaining quantities (optionally for one user)
+  async getPendingOrders(userId = null) {
+    const orders = await query(`
+      SELECT 
+        o.*, u.email, u.name,
+        COALESCE(f.filled_inr, 0) as filled_inr,
+        COALESCE(f.filled_btc, 0) as filled_btc,
+        COALESCE(f.fill_count, 0) as fill_count,
+        TIMESTAMPDIFF(MINUTE, o.created_at, NOW()) as age_minutes
+      FROM operations o 
+      JOIN users u ON o.user_id = u.id 
+      ${ORDER_FILLS_JOIN}
+      WHERE o.status = 'PENDING' 
+      AND o.type IN (${ORDER_TYPES_SQL})
+      ${userId ? 'AND o.user_id = ?' : ''}
+      ORDER BY o.created_at ASC
+    `, userId ? [userId] : []);
+
+    return orders.map(order => this.withFillProgress(order));
+  }
+
+  // Add remaining quantities to an order row that carries filled_inr/filled_btc
+  withFillProgress(order) {
+    const filledInr = Number(order.filled_inr) || 0;
+    const filledBtc = Number(order.filled_btc) || 0;
+
+    if (this.isBuyOrder(order)) {
+      // Buy orders are sized in INR; the BTC side is an estimate at the limit/stop price
+      const remainingInr = order.inr_amount - filledInr;
+      return {
+        ...order,
+        filled_inr: filledInr,
+        filled_btc: filledBtc,
+        fill_count: Number(order.fill_count) || 0,
+        remaining_inr: remainingInr,
+        remaining_btc: Math.floor((remainingInr / order.limit_price) * 100000000)
+      };
+    }
+
+    // Sell orders are sized in BTC; the INR side is an estimate at the limit/stop price
+    const remainingBtc = order.btc_amount - filledBtc;
+    return {
+      ...order,
+      filled_inr: filledInr,
+      filled_btc: filledBtc,
+      fill_count: Number(order.fill_count) || 0,
+      remaining_inr: Math.floor((remainingBtc / 100000000) * order.limit_price),
+      remaining_btc: remainingBtc
+    };
+  }
+
+  // Per-tick liquidity (in satoshis) available to each side; 0 means unlimited
+  async getTickLiquidity() {
+    const getCap = async (key) => {
+      try {
+        const cap = await settingsService.getSetting(key);
+        return cap > 0 ? cap : Infinity;
+      } catch (error) {
+        return Infinity;
+      }
+    };
+
+    return {
+      BUY: await getCap('limit_buy_liquidity_sats'),
+      SELL: await getCap('limit_sell_liquidity_sats')
+    };
+  }
+
   // Execute pending limit orders based on current market price
   async executePendingOrders() {
     if (this.executionInProgress) {
@@ -21,22 +127,27 @@ class LimitOrderExecutionService {
     this.executionInProgress = true;
     
     try {
-      // Get current market rates
-      const rates = await bitcoinDataService.getCalculatedRates();
+      // Get current market rates, skipping the cycle while the price guard is active
+      const { valid, rates } = await priceGuardService.checkMarket();
+      if (!valid) {
+        limitOrderLogger.warn('Market halted, skipping limit order execution');
+        return { processed: 0, executed: 0, partially_filled: 0, expired: 0, halted: true };
+      }
       const currentBuyPrice = rates.buyRate;   // Current buy rate (what users pay)
       const currentSellPrice = rates.sellRate; // Current sell rate (what users receive)
       
       limitOrderLogger.info(`Checking pending orders - Current Buy: ₹${currentBuyPrice.toLocaleString()}, Sell: ₹${currentSellPrice.toLocaleString()}`);
       
-      // Get all pending orders
-      const pendingOrders = await query(`
-        SELECT o.*, u.email, u.name 
-        FROM operations o 
-        JOIN users u ON o.user_id = u.id 
-        WHERE o.status = 'PENDING' 
-        AND o.type IN ('LIMIT_BUY', 'LIMIT_SELL')
-        ORDER BY o.created_at ASC
-      `);
+      // Get all pending orders in price-time priority: grouped by type, best limit price first, then oldest
+      const pendingOrders = (await this.getPendingOrders()).sort((a, b) => {
+        if (a.type !== b.type) {
+          return a.type < b.type ? -1 : 1;
+        }
+        if (['LIMIT_BUY', 'LIMIT_SELL'].includes(a.type) && a.limit_price !== b.limit_price) {
+          return a.type === 'LIMIT_BUY' ? b.limit_price - a.limit_price : a.limit_price - b.limit_price;
+        }
+        return new Date(a.created_at) - new Date(b.created_at);
+      });
 
       if (pendingOrders.length === 0) {
         limitOrderLogger.debug('No pending limit orders to process');
@@ -45,15 +156,29 @@ class LimitOrderExecutionService {
 
       limitOrderLogger.info(`Found ${pendingOrders.length} pending limit orders`);
 
+      // Liquidity is shared by all orders on the same side within this tick
+      const liquidity = await this.getTickLiquidity();
+
       // Process each pending order
       const executedOrders = [];
+      const partialOrders = [];
       const expiredOrders = [];
 
       for (const order of pendingOrders) {
         try {
-          const result = await this.processOrder(order, currentBuyPrice, currentSellPrice);
+          if (this.isImmediateOrder(order)) {
+            // Normally resolved by executeImmediateOrder within the placing request; clean up any left behind
+            if (order.age_minutes >= 1) {
+              await this.cancelOrder(order, 'CANCELLED', `${order.time_in_force} order was not matched at placement`);
+              expiredOrders.push(order);
+            }
+            continue;
+          }
+
+          const result = await this.processOrder(order, currentBuyPrice, currentSellPrice, liquidity);
           if (result.executed) {
-            executedOrders.push({ ...order, executionPrice: result.executionPrice });
+            const executed = { ...order, executionPrice: result.executionPrice, fillBtc: result.fillBtc };
+            (result.completed ? executedOrders : partialOrders).push(executed);
           } else if (result.expired) {
             expiredOrders.push(order);
           }
@@ -67,11 +192,19 @@ class LimitOrderExecutionService {
       if (executedOrders.length > 0) {
         limitOrderLogger.success(`Executed ${executedOrders.length} limit orders`);
         executedOrders.forEach(order => {
-          const btcAmount = (order.btc_amount / 100000000).toFixed(8);
+          const btcAmount = (order.fillBtc / 100000000).toFixed(8);
           limitOrderLogger.info(`  - ${order.type} Order ${order.id}: ${btcAmount} BTC at ₹${order.executionPrice.toLocaleString()} for user ${order.email}`);
         });
       }
 
+      if (partialOrders.length > 0) {
+        limitOrderLogger.info(`Partially filled ${partialOrders.length} limit orders (liquidity cap reached)`);
+        partialOrders.forEach(order => {
+          const btcAmount = (order.fillBtc / 100000000).toFixed(8);
+          limitOrderLogger.info(`  - ${order.type} Order ${order.id}: filled ${btcAmount} BTC at ₹${order.executionPrice.toLocaleString()} for user ${order.email}`);
+        });
+      }
+
       if (expiredOrders.length > 0) {
         limitOrderLogger.warn(`Cancelled ${expiredOrders.length} expired orders`);
       }
@@ -79,6 +212,7 @@ class LimitOrderExecutionService {
       return {
         processed: pendingOrders.length,
         executed: executedOrders.length,
+        partially_filled: partialOrders.length,
         expired: expiredOrders.length
       };
 
@@ -90,8 +224,8 @@ class LimitOrderExecutionService {
     }
   }
 
-  // Process individual order
-  async processOrder(order, currentBuyPrice, currentSellPrice) {
+  // Process individual order, filling as much as the remaining tick liquidity allows
+  async processOrder(order, currentBuyPrice, currentSellPrice, liquidity) {
     // Check if order has expired using expires_at field
     const now = new Date();
     const expiresAt = order.expires_at ? new Date(order.expires_at) : null;
@@ -101,28 +235,188 @@ class LimitOrderExecutionService {
       return { executed: false, expired: true };
     }
 
+    const isBuy = this.isBuyOrder(order);
+    const available = liquidity[isBuy ? 'BUY' : 'SELL'];
+    if (available <= 0) {
+      return { executed: false, expired: false };
+    }
+
+    const executionPrice = await this.getTriggeredPrice(order, currentBuyPrice, currentSellPrice);
+    if (!executionPrice) {
+      return { executed: false, expired: false };
+    }
+
+    if (isBuy) {
+      const maxBtc = Math.floor((order.remaining_inr / executionPrice) * 100000000);
+      const fillInr = maxBtc <= available
+        ? order.remaining_inr
+        : Math.floor((available / 100000000) * executionPrice);
+
+      if (fillInr <= 0) {
+        return { executed: false, expired: false };
+      }
+
+      const result = await this.executeBuyOrder(order, executionPrice, fillInr);
+      liquidity.BUY -= result.fillBtc;
+      return { executed: true, executionPrice, ...result };
+    }
+
+    const fillBtc = Math.min(order.remaining_btc, available);
+
+    if (Math.floor((fillBtc / 100000000) * executionPrice) <= 0) {
+      return { executed: false, expired: false };
+    }
+
+    const result = await this.executeSellOrder(order, executionPrice, fillBtc);
+    liquidity.SELL -= result.fillBtc;
+    return { executed: true, executionPrice, ...result };
+  }
+
+  // Return the execution price if the order's condition is met at current rates, otherwise null
+  async getTriggeredPrice(order, currentBuyPrice, currentSellPrice) {
     if (order.type === 'LIMIT_BUY') {
       // For limit buy orders: execute when current buy price <= target price
-      if (currentBuyPrice <= order.limit_price) {
-        const executionPrice = Math.min(currentBuyPrice, order.limit_price);
-        await this.executeLimitBuyOrder(order, executionPrice);
-        return { executed: true, executionPrice };
-      }
-    } else if (order.type === 'LIMIT_SELL') {
+      return currentBuyPrice <= order.limit_price ? Math.min(currentBuyPrice, order.limit_price) : null;
+    }
+
+    if (order.type === 'LIMIT_SELL') {
       // For limit sell orders: execute when current sell price >= target price
-      if (currentSellPrice >= order.limit_price) {
-        const executionPrice = Math.max(currentSellPrice, order.limit_price);
-        await this.executeLimitSellOrder(order, executionPrice);
-        return { executed: true, executionPrice };
-      }
+      return currentSellPrice >= order.limit_price ? Math.max(currentSellPrice, order.limit_price) : null;
+    }
+
+    // Stop orders become market orders once triggered and keep filling at market after the first fill
+    if (order.fill_count === 0 && (order.type === 'TRAILING_STOP_BUY' || order.type === 'TRAILING_STOP_SELL')) {
+      await this.trailStopPrice(order, order.type === 'TRAILING_STOP_BUY' ? currentBuyPrice : currentSellPrice);
+    }
+
+    if (order.type === 'STOP_BUY' || order.type === 'TRAILING_STOP_BUY') {
+      // Stop buy: execute when current buy price rises to the stop price
+      return order.fill_count > 0 || currentBuyPrice >= order.limit_price ? currentBuyPrice : null;
+    }
+
+    // Stop-loss sell: execute when current sell price falls to the stop price
+    return order.fill_count > 0 || currentSellPrice <= order.limit_price ? currentSellPrice : null;
+  }
+
+  // Ratchet a trailing stop toward the market; the stop never moves against the order
+  async trailStopPrice(order, marketPrice) {
+    const trailPercent = parseFloat(order.trail_percent);
+    const isSell = order.type === 'TRAILING_STOP_SELL';
+    const stopPrice = isSell
+      ? Math.floor(marketPrice * (1 - trailPercent / 100))
+      : Math.ceil(marketPrice * (1 + trailPercent / 100));
+
+    if (isSell ? stopPrice > order.limit_price : stopPrice < order.limit_price) {
+      await query(
+        'UPDATE operations SET limit_price = ? WHERE id = ? AND status = ?',
+        [stopPrice, order.id, 'PENDING']
+      );
+      limitOrderLogger.debug(`Trailing stop ${order.id} moved from ₹${order.limit_price.toLocaleString()} to ₹${stopPrice.toLocaleString()}`);
+      order.limit_price = stopPrice;
+    }
+  }
+
+  // Find the other leg of an OCO bracket (any status), or null for a standalone order.
+  // Both legs of a bracket point at each other through oco_order_id.
+  async getOcoOrderId(connection, order) {
+    const [legRows] = await connection.execute(
+      'SELECT oco_order_id FROM operations WHERE id = ?',
+      [order.id]
+    );
+
+    return legRows.length > 0 ? legRows[0].oco_order_id : null;
+  }
+
+  // Lock the order row and return its current fills; throws if it is no longer pending
+  async getLockedOrderFills(connection, order) {
+    // Both legs of an OCO bracket are locked together, lowest id first, so that a fill
+    // of one leg and a fill or cancel of the other are serialized
+    const ocoOrderId = await this.getOcoOrderId(connection, order);
+    const lockIds = ocoOrderId ? [order.id, ocoOrderId].sort((a, b) => a - b) : [order.id];
+
+    const [orderRows] = await connection.execute(
+      `SELECT id, status FROM operations WHERE id IN (${lockIds.map(() => '?').join(', ')}) ORDER BY id FOR UPDATE`,
+      lockIds
+    );
+
+    const orderRow = orderRows.find(row => row.id === order.id);
+    if (!orderRow || orderRow.status !== 'PENDING') {
+      throw new Error(`Order ${order.id} is no longer pending`);
+    }
+
+    const ocoRow = orderRows.find(row => row.id === ocoOrderId);
+
+    const [fillRows] = await connection.execute(
+      `SELECT 
+        COALESCE(SUM(inr_amount), 0) as filled_inr,
+        COALESCE(SUM(btc_amount), 0) as filled_btc,
+        COUNT(*) as fill_count
+      FROM operations 
+      WHERE parent_id = ? AND type = ? AND status = 'EXECUTED'`,
+      [order.id, order.type]
+    );
+
+    return this.withFillProgress({
+      ...order,
+      ...fillRows[0],
+      oco_order_id: ocoRow && ocoRow.status === 'PENDING' ? ocoRow.id : null
+    });
+  }
+
+  // Cancel the pending other leg of an OCO bracket; the shared reservation stays with the caller
+  async cancelOcoOrder(connection, order, reason) {
+    if (!order.oco_order_id) {
+      return;
     }
 
-    return { executed: false, expired: false };
+    await connection.execute(
+      'UPDATE operations SET status = ?, cancelled_at = NOW(), cancellation_reason = ? WHERE id = ? AND status = ?',
+      ['CANCELLED', reason, order.oco_order_id, 'PENDING']
+    );
+
+    limitOrderLogger.info(`OCO order ${order.oco_order_id} cancelled: ${reason}`);
+  }
+
+  // Record a fill: a single complete fill updates the order in place, anything else becomes a child operation
+  async recordFill(connection, order, executionPrice, fillInr, fillBtc, completed) {
+    // The first fill of either OCO leg cancels the other leg in the same transaction
+    await this.cancelOcoOrder(connection, order, `Linked order ${order.id} filled`);
+
+    if (completed && order.fill_count === 0) {
+      await connection.execute(
+        'UPDATE operations SET status = ?, execution_price = ?, inr_amount = ?, btc_amount = ?, executed_at = NOW() WHERE id = ?',
+        ['EXECUTED', executionPrice, fillInr, fillBtc, order.id]
+      );
+      return;
+    }
+
+    await connection.execute(
+      'INSERT INTO operations (user_id, type, status, inr_amount, btc_amount, execution_price, limit_price, parent_id, executed_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, NOW())',
+      [order.user_id, order.type, 'EXECUTED', fillInr, fillBtc, executionPrice, order.limit_price, order.id]
+    );
+
+    if (completed) {
+      await this.closeFilledOrder(connection, order, fillInr, fillBtc);
+    }
+  }
+
+  // Close a split parent with the totals and volume-weighted average price of all its fills
+  async closeFilledOrder(connection, order, fillInr = 0, fillBtc = 0) {
+    const totalInr = order.filled_inr + fillInr;
+    const totalBtc = order.filled_btc + fillBtc;
+    const averagePrice = Math.round((totalInr / totalBtc) * 100000000);
+
+    await connection.execute(
+      'UPDATE operations SET status = ?, execution_price = ?, inr_amount = ?, btc_amount = ?, executed_at = NOW() WHERE id = ?',
+      ['EXECUTED', averagePrice, totalInr, totalBtc, order.id]
+    );
   }
 
-  // Execute a limit buy order
-  async executeLimitBuyOrder(order, executionPrice) {
-    return await transaction(async (connection) => {
+  // Execute (part of) a buy-side order
+  async executeBuyOrder(order, executionPrice, requestedInr) {
+    const result = await transaction(async (connection) => {
+      const current = await this.getLockedOrderFills(connection, order);
+
       // Get current user balances
       const [userRows] = await connection.execute(
         'SELECT available_inr, available_btc, reserved_inr FROM users WHERE id = ?',
@@ -135,9 +429,23 @@ class LimitOrderExecutionService {
 
       const user = userRows[0];
 
+      // A remainder too small to buy a single satoshi would never fill: close the order with
+      // what it has filled and release the leftover INR
+      if (current.fill_count > 0 && Math.floor((current.remaining_inr / executionPrice) * 100000000) === 0) {
+        await this.closeFilledOrder(connection, current);
+        await connection.execute(
+          'UPDATE users SET reserved_inr = reserved_inr - ?, available_inr = available_inr + ? WHERE id = ?',
+          [current.remaining_inr, current.remaining_inr, order.user_id]
+        );
+        await clearUserCache(order.user_id);
+        limitOrderLogger.info(`${this.getOrderLabel(order)} ${order.id} filled, ₹${current.remaining_inr.toLocaleString()} remainder released`);
+        return { completed: true, fillInr: 0, fillBtc: 0 };
+      }
+
       // Calculate actual amounts based on execution price
-      const actualInrAmount = order.inr_amount;
+      const actualInrAmount = Math.min(requestedInr, current.remaining_inr);
       const actualBtcAmount = Math.floor((actualInrAmount / executionPrice) * 100000000); // Convert to satoshis
+      const completed = actualInrAmount === current.remaining_inr;
 
       if (actualBtcAmount <= 0) {
         throw new Error('Calculated BTC amount too small');
@@ -157,22 +465,33 @@ class LimitOrderExecutionService {
         [newReservedInr, newBtcBalance, order.user_id]
       );
 
-      // Update operation status
-      await connection.execute(
-        'UPDATE operations SET status = ?, execution_price = ?, btc_amount = ?, executed_at = NOW() WHERE id = ?',
-        ['EXECUTED', executionPrice, actualBtcAmount, order.id]
-      );
+      await this.recordFill(connection, current, executionPrice, actualInrAmount, actualBtcAmount, completed);
 
       // Clear user cache
       await clearUserCache(order.user_id);
 
-      limitOrderLogger.success(`Limit buy order ${order.id} executed: ${(actualBtcAmount/100000000).toFixed(8)} BTC at ₹${executionPrice.toLocaleString()}`);
+      if (completed) {
+        limitOrderLogger.success(`${this.getOrderLabel(order)} ${order.id} executed: ${(actualBtcAmount/100000000).toFixed(8)} BTC at ₹${executionPrice.toLocaleString()}`);
+      } else {
+        limitOrderLogger.info(`${this.getOrderLabel(order)} ${order.id} partially filled: ${(actualBtcAmount/100000000).toFixed(8)} BTC at ₹${executionPrice.toLocaleString()}, ₹${(current.remaining_inr - actualInrAmount).toLocaleString()} remaining`);
+      }
+
+      return { completed, fillInr: actualInrAmount, fillBtc: actualBtcAmount };
+    });
+
+    this.publishOrderEvent(order, result.completed ? 'EXECUTED' : 'PARTIALLY_FILLED', {
+      execution_price: executionPrice,
+      fill_inr: result.fillInr,
+      fill_btc: result.fillBtc
     });
+    return result;
   }
 
-  // Execute a limit sell order
-  async executeLimitSellOrder(order, executionPrice) {
-    return await transaction(async (connection) => {
+  // Execute (part of) a sell-side order
+  async executeSellOrder(order, executionPrice, requestedBtc) {
+    const result = await transaction(async (connection) => {
+      const current = await this.getLockedOrderFills(connection, order);
+
       // Get current user balances
       const [userRows] = await connection.execute(
         'SELECT available_inr, available_btc, reserved_btc FROM users WHERE id = ?',
@@ -186,8 +505,9 @@ class LimitOrderExecutionService {
       const user = userRows[0];
 
       // Calculate actual amounts based on execution price
-      const actualBtcAmount = order.btc_amount;
+      const actualBtcAmount = Math.min(requestedBtc, current.remaining_btc);
       const actualInrAmount = Math.floor((actualBtcAmount / 100000000) * executionPrice);
+      const completed = actualBtcAmount === current.remaining_btc;
 
       if (actualInrAmount <= 0) {
         throw new Error('Calculated INR amount too small');
@@ -207,62 +527,164 @@ class LimitOrderExecutionService {
         [newReservedBtc, newInrBalance, order.user_id]
       );
 
-      // Update operation status
-      await connection.execute(
-        'UPDATE operations SET status = ?, execution_price = ?, inr_amount = ?, executed_at = NOW() WHERE id = ?',
-        ['EXECUTED', executionPrice, actualInrAmount, order.id]
-      );
+      await this.recordFill(connection, current, executionPrice, actualInrAmount, actualBtcAmount, completed);
 
       // Clear user cache
       await clearUserCache(order.user_id);
 
-      limitOrderLogger.success(`Limit sell order ${order.id} executed: ${(actualBtcAmount/100000000).toFixed(8)} BTC at ₹${executionPrice.toLocaleString()}`);
+      if (completed) {
+        limitOrderLogger.success(`${this.getOrderLabel(order)} ${order.id} executed: ${(actualBtcAmount/100000000).toFixed(8)} BTC at ₹${executionPrice.toLocaleString()}`);
+      } else {
+        limitOrderLogger.info(`${this.getOrderLabel(order)} ${order.id} partially filled: ${(actualBtcAmount/100000000).toFixed(8)} BTC at ₹${executionPrice.toLocaleString()}, ${((current.remaining_btc - actualBtcAmount)/100000000).toFixed(8)} BTC remaining`);
+      }
+
+      return { completed, fillInr: actualInrAmount, fillBtc: actualBtcAmount };
     });
+
+    this.publishOrderEvent(order, result.completed ? 'EXECUTED' : 'PARTIALLY_FILLED', {
+      execution_price: executionPrice,
+      fill_inr: result.fillInr,
+      fill_btc: result.fillBtc
+    });
+    return result;
   }
 
-  // Cancel expired order and release reserved funds
-  async cancelExpiredOrder(order) {
-    return await transaction(async (connection) => {
-      if (order.type === 'LIMIT_BUY') {
-        // Release reserved INR back to available
-        await connection.execute(
-          'UPDATE users SET available_inr = available_inr + ?, reserved_inr = reserved_inr - ? WHERE id = ?',
-          [order.inr_amount, order.inr_amount, order.user_id]
-        );
-      } else if (order.type === 'LIMIT_SELL') {
-        // Release reserved BTC back to available
-        await connection.execute(
-          'UPDATE users SET available_btc = available_btc + ?, reserved_btc = reserved_btc - ? WHERE id = ?',
-          [order.btc_amount, order.btc_amount, order.user_id]
-        );
-      }
+  // Release whatever is still reserved for an order's unfilled quantity; returns the released amount.
+  // OCO legs share one reservation, so the other leg is cancelled along with it, unless keepOcoOrder
+  // is set: then the pending other leg keeps the reservation and stays open.
+  async releaseOrderReservation(connection, order, { keepOcoOrder = false } = {}) {
+    const current = await this.getLockedOrderFills(connection, order);
+
+    if (keepOcoOrder && current.oco_order_id) {
+      limitOrderLogger.info(`OCO order ${current.oco_order_id} keeps the reservation of order ${order.id}`);
+      return 0;
+    }
+
+    await this.cancelOcoOrder(connection, current, `Linked order ${order.id} cancelled`);
+
+    if (this.isBuyOrder(order)) {
+      // Release remaining reserved INR back to available
+      await connection.execute(
+        'UPDATE users SET available_inr = available_inr + ?, reserved_inr = reserved_inr - ? WHERE id = ?',
+        [current.remaining_inr, current.remaining_inr, order.user_id]
+      );
+      return current.remaining_inr;
+    }
+
+    // Release remaining reserved BTC back to available
+    await connection.execute(
+      'UPDATE users SET available_btc = available_btc + ?, reserved_btc = reserved_btc - ? WHERE id = ?',
+      [current.remaining_btc, current.remaining_btc, order.user_id]
+    );
+    return current.remaining_btc;
+  }
+
+  // Close an order's unfilled remainder with the given status and reason, releasing its reserved funds.
+  // An expiring OCO leg never takes the other leg down with it.
+  async cancelOrder(order, status, reason) {
+    await transaction(async (connection) => {
+      await this.releaseOrderReservation(connection, order, { keepOcoOrder: status === 'EXPIRED' });
 
       // Update operation status
       await connection.execute(
         'UPDATE operations SET status = ?, cancelled_at = NOW(), cancellation_reason = ? WHERE id = ?',
-        ['EXPIRED', order.id, 'Order expired after 24 hours']
+        [status, reason, order.id]
       );
 
       // Clear user cache
       await clearUserCache(order.user_id);
 
-      limitOrderLogger.warn(`Expired order ${order.id} cancelled and funds released`);
+      limitOrderLogger.warn(`Order ${order.id} ${status.toLowerCase()} and funds released: ${reason}`);
     });
+
+    this.publishOrderEvent(order, status, { cancellation_reason: reason });
   }
 
-  // Get pending orders summary
+  // Notify the order owner's open event streams once the change is committed
+  publishOrderEvent(order, status, details = {}) {
+    eventStreamService.publishToUser(order.user_id, 'order', {
+      order_id: order.id,
+      type: order.type,
+      status,
+      ...details
+    });
+  }
+
+  // Cancel expired order and release reserved funds
+  async cancelExpiredOrder(order) {
+    await this.cancelOrder(order, 'EXPIRED', `Order expired at ${new Date(order.expires_at).toISOString()}`);
+  }
+
+  // Match an IOC or FOK order once against current rates and cancel whatever did not fill.
+  // IOC keeps any partial fill; FOK only executes when the whole order fits in the available liquidity.
+  // A matching error also cancels the order, so its funds never stay reserved.
+  async executeImmediateOrder(userId, orderId) {
+    const order = (await this.getPendingOrders(userId)).find(pending => pending.id === orderId);
+    if (!order) {
+      throw new Error(`Order ${orderId} is no longer pending`);
+    }
+
+    let result = { executed: false, completed: false, fillInr: 0, fillBtc: 0 };
+    let cancellationReason;
+
+    const { valid, rates } = await priceGuardService.checkMarket();
+    if (!valid) {
+      cancellationReason = 'Market halted';
+    } else {
+      try {
+        const liquidity = await this.getTickLiquidity();
+        const executionPrice = await this.getTriggeredPrice(order, rates.buyRate, rates.sellRate);
+        const isBuy = this.isBuyOrder(order);
+
+        if (!executionPrice) {
+          cancellationReason = `${order.time_in_force}: limit price not reached`;
+        } else if (order.time_in_force === 'FOK' &&
+          (isBuy ? Math.floor((order.remaining_inr / executionPrice) * 100000000) : order.remaining_btc) > liquidity[isBuy ? 'BUY' : 'SELL']) {
+          cancellationReason = 'FOK: not enough liquidity to fill the whole order';
+        } else {
+          result = await this.processOrder(order, rates.buyRate, rates.sellRate, liquidity);
+          if (!result.completed) {
+            cancellationReason = result.executed
+              ? `${order.time_in_force}: unfilled remainder cancelled`
+              : `${order.time_in_force}: no liquidity available`;
+          }
+        }
+      } catch (error) {
+        // processOrder commits each fill on its own, so a failure leaves nothing half-filled
+        limitOrderLogger.error(`Error matching ${order.time_in_force} order ${order.id}`, error);
+        cancellationReason = `${order.time_in_force}: order could not be matched`;
+      }
+    }
+
+    if (cancellationReason) {
+      await this.cancelOrder(order, 'CANCELLED', cancellationReason);
+    }
+
+    return {
+      status: result.completed ? 'EXECUTED' : 'CANCELLED',
+      filledInr: result.fillInr || 0,
+      filledBtc: result.fillBtc || 0,
+      cancellationReason: cancellationReason || null
+    };
+  }
+
+  // Get pending orders summary (remaining quantities only)
   async getPendingOrdersSummary() {
     try {
+      // A stop leg whose OCO take-profit leg is still pending shares that leg's BTC, so it is counted once
       const pendingOrders = await query(`
         SELECT 
           COUNT(*) as total_orders,
-          SUM(CASE WHEN type = 'LIMIT_BUY' THEN 1 ELSE 0 END) as buy_orders,
-          SUM(CASE WHEN type = 'LIMIT_SELL' THEN 1 ELSE 0 END) as sell_orders,
-          SUM(CASE WHEN type = 'LIMIT_BUY' THEN inr_amount ELSE 0 END) as total_buy_inr,
-          SUM(CASE WHEN type = 'LIMIT_SELL' THEN btc_amount ELSE 0 END) as total_sell_btc
-        FROM operations 
-        WHERE status = 'PENDING' 
-        AND type IN ('LIMIT_BUY', 'LIMIT_SELL')
+          SUM(CASE WHEN o.type IN (${BUY_ORDER_TYPES_SQL}) THEN 1 ELSE 0 END) as buy_orders,
+          SUM(CASE WHEN o.type NOT IN (${BUY_ORDER_TYPES_SQL}) THEN 1 ELSE 0 END) as sell_orders,
+          SUM(CASE WHEN o.type IN (${BUY_ORDER_TYPES_SQL}) THEN o.inr_amount - COALESCE(f.filled_inr, 0) ELSE 0 END) as total_buy_inr,
+          SUM(CASE WHEN o.type NOT IN (${BUY_ORDER_TYPES_SQL}) AND NOT (o.type = 'STOP_LOSS_SELL' AND oco.id IS NOT NULL) THEN o.btc_amount - COALESCE(f.filled_btc, 0) ELSE 0 END) as total_sell_btc,
+          SUM(CASE WHEN COALESCE(f.fill_count, 0) > 0 THEN 1 ELSE 0 END) as partially_filled_orders
+        FROM operations o
+        ${ORDER_FILLS_JOIN}
+        LEFT JOIN operations oco ON oco.id = o.oco_order_id AND oco.status = 'PENDING'
+        WHERE o.status = 'PENDING' 
+        AND o.type IN (${ORDER_TYPES_SQL})
       `);
 
       return pendingOrders[0] || {
@@ -270,7 +692,8 @@ class LimitOrderExecutionService {
         buy_orders: 0,
         sell_orders: 0,
         total_buy_inr: 0,
-        total_sell_btc: 0
+        total_sell_btc: 0,
+        partially_filled_orders: 0
       };
     } catch (error) {
       limitOrderLogger.error('Error getting pending orders summary', error);
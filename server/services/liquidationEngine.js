@@ -0,0 +1,411 @@
+const { query, transaction } = require('../config/database');
+const { clearUserCache } = require('../config/redis');
+const settingsService = require('./settingsService');
+const loanLedgerService = require('./loanLedgerService');
+const loanService = require('./loanService');
+const insuranceFundService = require('./insuranceFundService');
+
+const SATS_PER_BTC = 100000000;
+const BPS = 10000;
+
+/**
+ * Liquidation Engine
+ * The single place loans are liquidated. A liquidation is driven by a policy:
+ *
+ *   triggerLtv      - LTV at which the loan is liquidated (the loan's liquidation LTV)
+ *   targetLtv       - LTV the loan is restored to (the loan's LTV ratio)
+ *   penaltyBps      - Penalty on the debt repaid, in basis points (liquidation_penalty_bps)
+ *   maxBtcPerCycle  - Most collateral sold from one loan per monitoring cycle, in satoshis; 0 = no cap
+ *                     (liquidation_max_btc_per_cycle)
+ *
+ * A full-close policy (closeLoan) ignores the trigger and sells enough to clear the
+ * whole debt and penalty; it settles matured loans and closes loans at the user's
+ * request. A sale policy (sellBtc) sells a fixed amount of collateral the user chose.
+ * User-initiated liquidations carry no penalty.
+ *
+ * planLiquidation is a pure function of the loan position, price and policy, so
+ * the amounts can be reproduced from any liquidation_events row. executeLiquidation
+ * and executeFullClose re-plan against the locked loan, apply the plan and write one
+ * liquidation_events row with the policy, inputs and outcome of every liquidation.
+ * The penalty is paid into the insurance fund and any shortfall is paid out of it;
+ * a liquidation that falls short of the debt takes no penalty.
+ */
+class LiquidationEngine {
+  // Settings shared by every loan's policy; read once per monitoring cycle
+  async getPolicySettings() {
+    const settings = await settingsService.getAllSettings();
+    return {
+      penaltyBps: settings.liquidation_penalty_bps ?? 0,
+      maxBtcPerCycle: settings.liquidation_max_btc_per_cycle ?? 0
+    };
+  }
+
+  buildPolicy(loan, policySettings) {
+    return {
+      triggerLtv: Number(loan.liquidation_ltv),
+      targetLtv: Number(loan.ltv_ratio),
+      penaltyBps: policySettings.penaltyBps,
+      maxBtcPerCycle: policySettings.maxBtcPerCycle
+    };
+  }
+
+  /**
+   * Work out what liquidating a position would do. Pure: no I/O, no clock.
+   * @param {Object} position - { collateralSats, debtInr }
+   * @param {number} btcPrice - BTC sell rate (INR)
+   * @param {Object} policy - { triggerLtv, targetLtv, penaltyBps, maxBtcPerCycle, closeLoan, sellBtc }
+   * @returns {Object} - The plan; action is NONE, PARTIAL or FULL
+   */
+  planLiquidation(position, btcPrice, policy) {
+    const collateralSats = Number(position.collateralSats);
+    const debtInr = Number(position.debtInr);
+    const collateralValue = (collateralSats * btcPrice) / SATS_PER_BTC;
+    const ltvBefore = collateralValue > 0 ? (debtInr / collateralValue) * 100 : Infinity;
+
+    const triggered = policy.closeLoan || policy.sellBtc > 0 || (debtInr > 0 && ltvBefore >= policy.triggerLtv);
+    if (collateralSats <= 0 || !triggered) {
+      return { action: 'NONE', ltvBefore };
+    }
+
+    let btcSold;
+    if (policy.sellBtc > 0) {
+      btcSold = Math.min(policy.sellBtc, collateralSats);
+    } else if (policy.closeLoan) {
+      // Enough for the whole debt and its penalty, or all of the collateral when that falls short
+      const closingPenalty = Math.ceil((debtInr * policy.penaltyBps) / BPS);
+      btcSold = Math.min(Math.ceil(((debtInr + closingPenalty) * SATS_PER_BTC) / btcPrice), collateralSats);
+    } else {
+      // Selling x sats repays x * price / (1 + penalty) of debt; solve (debt - repaid) / (value - x * price) = target
+      const repaidShare = BPS / (BPS + policy.penaltyBps);
+      const target = policy.targetLtv / 100;
+      const satsToRestore = repaidShare > target
+        ? Math.ceil(((debtInr - target * collateralValue) * SATS_PER_BTC) / (btcPrice * (repaidShare - target)))
+        : collateralSats;
+      btcSold = Math.min(Math.max(satsToRestore, 1), collateralSats);
+    }
+
+    const capped = policy.maxBtcPerCycle > 0 && btcSold > policy.maxBtcPerCycle;
+    if (capped) {
+      btcSold = policy.maxBtcPerCycle;
+    }
+
+    const inrProceeds = Math.floor((btcSold * btcPrice) / SATS_PER_BTC);
+    // Selling the last of the collateral, or closing the loan, repays the debt before any penalty is taken,
+    // so no penalty is charged while the insurance fund covers a shortfall
+    const debtFirst = policy.closeLoan || btcSold >= collateralSats;
+    const debtRepaid = debtFirst
+      ? Math.min(debtInr, inrProceeds)
+      : Math.min(debtInr, Math.floor((inrProceeds * BPS) / (BPS + policy.penaltyBps)));
+    const penaltyInr = Math.min(inrProceeds - debtRepaid, Math.ceil((debtRepaid * policy.penaltyBps) / BPS));
+    const inrReturned = inrProceeds - debtRepaid - penaltyInr;
+
+    // The loan closes once its collateral is gone or its debt is cleared; collateral left over is released
+    const closesLoan = policy.closeLoan || btcSold >= collateralSats || debtRepaid >= debtInr;
+    const remainingCollateral = collateralSats - btcSold;
+    const remainingDebt = closesLoan ? 0 : debtInr - debtRepaid;
+
+    return {
+      action: closesLoan ? 'FULL' : 'PARTIAL',
+      ltvBefore,
+      btcSold,
+      inrProceeds,
+      debtRepaid,
+      penaltyInr,
+      inrReturned,
+      shortfallInr: closesLoan ? debtInr - debtRepaid : 0,
+      collateralReturned: closesLoan ? remainingCollateral : 0,
+      remainingCollateral: closesLoan ? 0 : remainingCollateral,
+      remainingDebt,
+      ltvAfter: remainingDebt > 0 ? (remainingDebt / ((remainingCollateral * btcPrice) / SATS_PER_BTC)) * 100 : 0,
+      capped
+    };
+  }
+
+  /**
+   * Liquidate a loan if its policy calls for it at this price
+   * @param {number} loanId - ID of the loan
+   * @param {number} btcPrice - BTC sell rate (INR) checked by the caller
+   * @param {Object} policySettings - From getPolicySettings; read here when omitted
+   * @returns {Promise<Object|null>} - Liquidation result, or null when the locked loan no longer needs liquidating
+   */
+  async executeLiquidation(loanId, btcPrice, policySettings = null) {
+    policySettings = policySettings || await this.getPolicySettings();
+
+    return this.liquidate(loanId, btcPrice, {
+      source: 'LTV',
+      buildPolicy: loan => this.buildPolicy(loan, policySettings),
+      describe: plan => `Automatic liquidation - LTV reduced from ${plan.ltvBefore.toFixed(2)}% to ${plan.ltvAfter.toFixed(2)}%`
+    });
+  }
+
+  /**
+   * Close a loan whatever its LTV: sell enough collateral for the whole debt, including any minimum
+   * interest still owed, and the penalty, release the rest, and cover any shortfall from the insurance fund
+   * @param {number} loanId - ID of the loan
+   * @param {number} btcPrice - BTC sell rate (INR) checked by the caller
+   * @param {Object} options - { source, description, penaltyBps } - penaltyBps defaults to liquidation_penalty_bps
+   * @returns {Promise<Object|null>} - Liquidation result, or null when the loan is no longer active
+   */
+  async executeFullClose(loanId, btcPrice, { source, description, penaltyBps = null, userId = null }) {
+    const policySettings = await this.getPolicySettings();
+
+    return this.liquidate(loanId, btcPrice, {
+      source,
+      userId,
+      chargeMinimumInterest: true,
+      buildPolicy: () => ({
+        triggerLtv: 0,
+        targetLtv: 0,
+        penaltyBps: penaltyBps ?? policySettings.penaltyBps,
+        maxBtcPerCycle: 0,
+        closeLoan: true
+      }),
+      describe: () => description
+    });
+  }
+
+  /**
+   * Sell part of a user's collateral at their request to pay down the loan, without a penalty.
+   * The loan closes when the sale clears the debt, including any minimum interest still owed.
+   * @param {number} userId - ID of the user, who must own the loan
+   * @param {number} loanId - ID of the loan
+   * @param {number} btcPrice - BTC sell rate (INR)
+   * @param {number} btcSats - Collateral to sell, in satoshis
+   * @returns {Promise<Object>} - Liquidation result
+   */
+  async executeUserSale(userId, loanId, btcPrice, btcSats) {
+    return this.liquidate(loanId, btcPrice, {
+      source: 'USER',
+      userId,
+      chargeMinimumInterest: true,
+      buildPolicy: loan => {
+        if (btcSats > loan.btc_collateral_amount) {
+          throw new Error('Amount exceeds available collateral');
+        }
+        return { triggerLtv: 0, targetLtv: 0, penaltyBps: 0, maxBtcPerCycle: 0, sellBtc: btcSats };
+      },
+      describe: plan => `User-initiated liquidation - debt reduced by ₹${plan.debtRepaid.toLocaleString()}`
+    });
+  }
+
+  // Lock the loan, plan against it with the request's policy, apply the plan and record the event
+  async liquidate(loanId, btcPrice, request) {
+    const result = await transaction(async (connection) => {
+      // A user may only liquidate their own loan
+      const [loanRows] = request.userId
+        ? await connection.execute('SELECT * FROM loans WHERE id = ? AND user_id = ? AND status = "ACTIVE" FOR UPDATE', [loanId, request.userId])
+        : await connection.execute('SELECT * FROM loans WHERE id = ? AND status = "ACTIVE" FOR UPDATE', [loanId]);
+
+      if (loanRows.length === 0) {
+        if (request.userId) {
+          throw new Error('No active loan found');
+        }
+        return null;
+      }
+
+      let loan = loanRows[0];
+      const policy = request.buildPolicy(loan);
+
+      let minimumInterestApplied = 0;
+      if (request.chargeMinimumInterest) {
+        // A liquidation that closes the loan first charges any interest still owed under the minimum interest policy
+        const shortfall = await loanService.calculateMinimumInterestShortfall(loan);
+        const closingDebt = loan.inr_borrowed_amount + loanLedgerService.toRupees(shortfall);
+        const closingPlan = this.planLiquidation({ collateralSats: loan.btc_collateral_amount, debtInr: closingDebt }, btcPrice, policy);
+        if (shortfall > 0 && closingPlan.action === 'FULL') {
+          ({ loan, applied: minimumInterestApplied } = await loanService.applyMinimumInterest(
+            connection, loan, `${loan.min_interest_days}-day minimum interest charge applied before closing`
+          ));
+        }
+      }
+
+      const plan = this.planLiquidation(
+        { collateralSats: loan.btc_collateral_amount, debtInr: loan.inr_borrowed_amount },
+        btcPrice,
+        policy
+      );
+
+      if (plan.action === 'NONE') {
+        return null;
+      }
+
+      const closesLoan = plan.action === 'FULL';
+
+      await connection.execute(
+        `UPDATE users SET
+          collateral_btc = collateral_btc - ?,
+          available_btc = available_btc + ?,
+          available_inr = available_inr + ?
+        WHERE id = ?`,
+        [plan.btcSold + plan.collateralReturned, plan.collateralReturned, plan.inrReturned, loan.user_id]
+      );
+
+      // A loan closed at its LTV trigger or short of its debt is liquidated; one the collateral fully paid off is repaid
+      const closedStatus = request.source === 'LTV' || plan.shortfallInr > 0 ? 'LIQUIDATED' : 'REPAID';
+
+      if (closesLoan) {
+        await connection.execute(
+          `UPDATE loans SET btc_collateral_amount = 0, status = ?, ${closedStatus === 'LIQUIDATED' ? 'liquidated_at' : 'repaid_at'} = NOW() WHERE id = ?`,
+          [closedStatus, loan.id]
+        );
+      } else {
+        await connection.execute(
+          'UPDATE loans SET btc_collateral_amount = ?, liquidation_price = ? WHERE id = ?',
+          [plan.remainingCollateral, loanService.calculateLiquidationPrice(plan.remainingDebt, plan.remainingCollateral, loan.liquidation_ltv), loan.id]
+        );
+      }
+
+      const notes = JSON.stringify({
+        description: request.describe(plan),
+        debtCleared: plan.debtRepaid,
+        penalty: plan.penaltyInr,
+        shortfall: plan.shortfallInr,
+        inrReturned: plan.inrReturned,
+        btcSold: plan.btcSold,
+        btcReturned: plan.collateralReturned,
+        originalCollateral: loan.btc_collateral_amount,
+        minimumInterestApplied: minimumInterestApplied / 100,
+        sellRate: btcPrice
+      });
+
+      const [operationResult] = await connection.execute(
+        `INSERT INTO operations (user_id, type, status, inr_amount, btc_amount, execution_price, loan_id, notes, executed_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, NOW())`,
+        [loan.user_id, closesLoan ? 'FULL_LIQUIDATION' : 'PARTIAL_LIQUIDATION', 'EXECUTED', plan.debtRepaid, plan.btcSold, btcPrice, loan.id, notes]
+      );
+
+      // Closing clears the whole ledger balance, including any shortfall the collateral could not cover
+      const { principal, interest } = loanLedgerService.getBalances(loan);
+      const paymentPaisa = closesLoan ? principal + interest : loanLedgerService.toPaisa(plan.debtRepaid);
+      const payment = await loanLedgerService.recordPayment(connection, loan, 'LIQUIDATION', paymentPaisa, {
+        operationId: operationResult.insertId
+      });
+
+      const [eventResult] = await connection.execute(
+        `INSERT INTO liquidation_events (
+          loan_id, user_id, operation_id, liquidation_type, source, btc_price,
+          trigger_ltv, target_ltv, penalty_bps, max_btc_per_cycle,
+          ltv_before, ltv_after, collateral_before, debt_before,
+          btc_sold, inr_proceeds, debt_repaid, principal_paid_paisa, interest_paid_paisa,
+          penalty_inr, inr_returned, collateral_returned, shortfall_inr, remaining_debt, capped
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          loan.id, loan.user_id, operationResult.insertId, plan.action, request.source, btcPrice,
+          policy.triggerLtv, policy.targetLtv, policy.penaltyBps, policy.maxBtcPerCycle,
+          plan.ltvBefore, plan.ltvAfter, loan.btc_collateral_amount, loan.inr_borrowed_amount,
+          plan.btcSold, plan.inrProceeds, plan.debtRepaid, payment.principalPaid, payment.interestPaid,
+          plan.penaltyInr, plan.inrReturned, plan.collateralReturned, plan.shortfallInr, plan.remainingDebt, plan.capped
+        ]
+      );
+
+      if (plan.penaltyInr > 0) {
+        await insuranceFundService.recordEntry(connection, {
+          type: 'PENALTY',
+          amount: plan.penaltyInr,
+          loanId: loan.id,
+          userId: loan.user_id,
+          liquidationEventId: eventResult.insertId,
+          notes: `${policy.penaltyBps / 100}% penalty on ₹${plan.debtRepaid} repaid by liquidation`
+        });
+      }
+      if (plan.shortfallInr > 0) {
+        await insuranceFundService.recordEntry(connection, {
+          type: 'BAD_DEBT',
+          amount: -plan.shortfallInr,
+          loanId: loan.id,
+          userId: loan.user_id,
+          liquidationEventId: eventResult.insertId,
+          notes: `Collateral fell ₹${plan.shortfallInr} short of the debt`
+        });
+      }
+
+      return {
+        eventId: eventResult.insertId,
+        loanId: loan.id,
+        userId: loan.user_id,
+        liquidationType: plan.action,
+        loanStatus: closesLoan ? closedStatus : 'ACTIVE',
+        btcSold: plan.btcSold,
+        inrProceeds: plan.inrProceeds,
+        debtReduction: plan.debtRepaid,
+        penalty: plan.penaltyInr,
+        shortfall: plan.shortfallInr,
+        inrReturned: plan.inrReturned,
+        collateralReturned: plan.collateralReturned,
+        principalPaid: payment.principalPaid / 100,
+        interestPaid: payment.interestPaid / 100,
+        remainingCollateral: plan.remainingCollateral,
+        remainingDebt: plan.remainingDebt,
+        minimumInterestApplied: minimumInterestApplied / 100,
+        previousLtv: plan.ltvBefore,
+        newLtv: plan.ltvAfter,
+        capped: plan.capped
+      };
+    });
+
+    if (result) {
+      await clearUserCache(result.userId);
+    }
+    return result;
+  }
+
+  formatEvent(row) {
+    return {
+      id: row.id,
+      loan_id: row.loan_id,
+      user_id: row.user_id,
+      user_name: row.user_name,
+      user_email: row.user_email,
+      operation_id: row.operation_id,
+      liquidation_type: row.liquidation_type,
+      source: row.source,
+      btc_price: row.btc_price,
+      policy: {
+        trigger_ltv: parseFloat(row.trigger_ltv),
+        target_ltv: parseFloat(row.target_ltv),
+        penalty_bps: row.penalty_bps,
+        max_btc_per_cycle: Number(row.max_btc_per_cycle)
+      },
+      ltv_before: parseFloat(row.ltv_before),
+      ltv_after: parseFloat(row.ltv_after),
+      collateral_before: Number(row.collateral_before),
+      debt_before: row.debt_before,
+      btc_sold: Number(row.btc_sold),
+      inr_proceeds: row.inr_proceeds,
+      debt_repaid: row.debt_repaid,
+      principal_paid: Number(row.principal_paid_paisa) / 100,
+      interest_paid: Number(row.interest_paid_paisa) / 100,
+      penalty: row.penalty_inr,
+      inr_returned: row.inr_returned,
+      collateral_returned: Number(row.collateral_returned),
+      shortfall: row.shortfall_inr,
+      remaining_debt: row.remaining_debt,
+      capped: Boolean(row.capped),
+      created_at: row.created_at
+    };
+  }
+
+  /**
+   * Liquidation audit trail, newest first
+   * @param {Object} filters - { loanId, limit }
+   * @returns {Promise<Array>} - Liquidation events
+   */
+  async getEvents({ loanId = null, limit = 50 } = {}) {
+    // Interpolated rather than bound: MySQL rejects a DOUBLE placeholder for LIMIT
+    const rowLimit = Math.min(Math.max(parseInt(limit, 10) || 50, 1), 200);
+    const rows = await query(
+      `SELECT e.*, u.name as user_name, u.email as user_email
+       FROM liquidation_events e
+       JOIN users u ON u.id = e.user_id
+       ${loanId ? 'WHERE e.loan_id = ?' : ''}
+       ORDER BY e.id DESC
+       LIMIT ${rowLimit}`,
+      loanId ? [loanId] : []
+    );
+    return rows.map(row => this.formatEvent(row));
+  }
+}
+
+// Export singleton instance
+const liquidationEngine = new LiquidationEngine();
+module.exports = liquidationEngine;
@@ -1,12 +1,22 @@
-const { query, transaction } = require('../config/database');
-const { clearUserCache } = require('../config/redis');
+const { query } = require('../config/database');
 const bitcoinDataService = require('./bitcoinDataService');
-const settingsService = require('./settingsService');
+const priceGuardService = require('./priceGuardService');
+const loanProductService = require('./loanProductService');
+const loanService = require('./loanService');
+const liquidationEngine = require('./liquidationEngine');
+const eventStreamService = require('./eventStreamService');
+const marginCallService = require('./marginCallService');
 const { liquidationLogger } = require('../utils/beautifulLogger');
 
 /**
  * Liquidation Monitoring Service
- * Monitors active loans and automatically triggers liquidations when LTV exceeds 90%
+ * The only loop that liquidates loans. Every 30 seconds it prices active loans and
+ * hands those at their liquidation LTV to liquidationEngine, which applies the
+ * liquidation policy and records the audit trail. Each loan is evaluated on its
+ * own, so one user's other loans are untouched. Loans with auto top-up enabled
+ * take the user's available BTC as collateral first, and loans approaching
+ * liquidation get margin calls from marginCallService once the cycle's
+ * liquidations are done.
  */
 class LiquidationMonitoringService {
   constructor() {
@@ -14,6 +24,7 @@ class LiquidationMonitoringService {
     this.monitoringInterval = null;
     this.intervalMs = 30000; // 30 seconds
     this.liquidationInProgress = false;
+    this.marginCallsInProgress = false;
   }
 
   /**
@@ -32,8 +43,8 @@ class LiquidationMonitoringService {
 
     liquidationLogger.serviceStarted('Liquidation monitoring service', { 
       checkInterval: '30 seconds',
-      liquidationThreshold: '90% LTV',
-      targetLTV: '60%'
+      liquidationThreshold: 'loan liquidation LTV',
+      targetLTV: 'loan LTV ratio'
     });
   }
 
@@ -78,36 +89,53 @@ class LiquidationMonitoringService {
     try {
       this.liquidationInProgress = true;
       
-      // Get current BTC rates
-      const rates = await bitcoinDataService.getCalculatedRates();
+      // Never liquidate against a stale or outlier price
+      const { valid, rates } = await priceGuardService.checkMarket();
+      if (!valid) {
+        liquidationLogger.warn('Market halted, skipping liquidation check');
+        return;
+      }
       if (!rates || !rates.sellRate) {
         console.log('Unable to get current BTC rates for liquidation check');
         return;
       }
 
-      // Get all active loans that need liquidation check
-      const loansAtRisk = await this.getLoansAtRisk(rates.sellRate);
-      
-      if (loansAtRisk.length === 0) {
-        return; // No loans at risk
-      }
-
-      console.log(`Found ${loansAtRisk.length} loans requiring liquidation check`);
+      let loans = await this.getActiveLoanLtvs(rates.sellRate);
 
-      // Process each loan at risk
-      for (const loan of loansAtRisk) {
+      // Auto top-ups run before margin calls and liquidation so the user's spare BTC is used first
+      const topUpLoans = loans.filter(loan => loan.auto_topup_enabled && loan.current_ltv >= Number(loan.auto_topup_trigger_ltv));
+      let toppedUp = false;
+      for (const loan of topUpLoans) {
         try {
-          if (loan.risk_status === 'LIQUIDATE') {
-            console.log(`Executing liquidation for Loan ID: ${loan.id}, User: ${loan.user_id}, LTV: ${loan.current_ltv.toFixed(2)}%`);
-            await this.executePartialLiquidation(loan, rates.sellRate);
-          } else if (loan.risk_status === 'WARNING') {
-            console.log(`Loan ID: ${loan.id} is at warning level - LTV: ${loan.current_ltv.toFixed(2)}%`);
-            // TODO: Send warning notification to user
+          const result = await loanService.autoTopUpCollateral(loan.id, rates.sellRate);
+          if (result) {
+            toppedUp = true;
+            liquidationLogger.info(`Auto top-up added ${result.btcAdded} sats to loan ${loan.id}, LTV ${result.previousLtv.toFixed(2)}% -> ${result.newLtv.toFixed(2)}%`);
+            eventStreamService.publishToUser(loan.user_id, 'loan', {
+              loan_id: loan.id,
+              event: 'AUTO_TOP_UP',
+              btc_added: result.btcAdded,
+              new_ltv: result.newLtv
+            });
           }
         } catch (error) {
-          console.error(`Error processing loan ${loan.id}:`, error);
+          console.error(`Error topping up loan ${loan.id}:`, error);
         }
       }
+      if (toppedUp) {
+        loans = await this.getActiveLoanLtvs(rates.sellRate);
+      }
+
+      // Get all active loans that need liquidation check
+      const loansAtRisk = loans.filter(loan => loan.risk_status !== 'SAFE');
+
+      if (loansAtRisk.length > 0) {
+        console.log(`Found ${loansAtRisk.length} loans requiring liquidation check`);
+        await this.liquidateLoans(loansAtRisk, rates.sellRate);
+      }
+
+      // Margin calls for loans that are rising towards liquidation; liquidated loans get their own event
+      this.sendMarginCalls(loans.filter(loan => loan.risk_status !== 'LIQUIDATE'), rates.sellRate);
 
     } catch (error) {
       console.error('Error in liquidation monitoring:', error);
@@ -117,9 +145,58 @@ class LiquidationMonitoringService {
   }
 
   /**
-   * Get loans that are at risk of liquidation
+   * Liquidate the loans at their liquidation LTV
    */
-  async getLoansAtRisk(currentBtcPrice) {
+  async liquidateLoans(loansAtRisk, sellRate) {
+    const policySettings = await liquidationEngine.getPolicySettings();
+
+    // Process each loan at risk
+    for (const loan of loansAtRisk) {
+      try {
+        if (loan.risk_status === 'LIQUIDATE') {
+          console.log(`Executing liquidation for Loan ID: ${loan.id}, User: ${loan.user_id}, LTV: ${loan.current_ltv.toFixed(2)}%`);
+          const result = await liquidationEngine.executeLiquidation(loan.id, sellRate, policySettings);
+          if (!result) {
+            continue;
+          }
+          liquidationLogger.info(`${result.liquidationType} liquidation of loan ${loan.id} sold ${result.btcSold} sats, LTV ${result.previousLtv.toFixed(2)}% -> ${result.newLtv.toFixed(2)}%`);
+          eventStreamService.publishToUser(loan.user_id, 'loan', {
+            loan_id: loan.id,
+            event: `${result.liquidationType}_LIQUIDATION`,
+            btc_sold: result.btcSold,
+            debt_reduction: result.debtReduction,
+            new_ltv: result.newLtv
+          });
+        } else if (loan.risk_status === 'WARNING') {
+          console.log(`Loan ID: ${loan.id} is at warning level - LTV: ${loan.current_ltv.toFixed(2)}%`);
+        }
+      } catch (error) {
+        console.error(`Error processing loan ${loan.id}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Send margin calls in the background, so slow notification channels never
+   * delay the next liquidation cycle; a cycle skips them while the last batch is still going out
+   */
+  sendMarginCalls(loans, sellRate) {
+    if (this.marginCallsInProgress) {
+      return;
+    }
+
+    this.marginCallsInProgress = true;
+    marginCallService.checkLoans(loans, sellRate)
+      .catch(error => console.error('Error sending margin calls:', error))
+      .finally(() => {
+        this.marginCallsInProgress = false;
+      });
+  }
+
+  /**
+   * Get every active loan with borrowing, its current LTV and risk status
+   */
+  async getActiveLoanLtvs(currentBtcPrice) {
     // Use single parameter for all calculations to improve query plan caching
     const loans = await query(`
       SELECT 
@@ -128,137 +205,35 @@ class LiquidationMonitoringService {
         l.btc_collateral_amount,
         l.inr_borrowed_amount,
         l.ltv_ratio,
+        l.liquidation_ltv,
         l.liquidation_price,
         l.interest_rate,
-        u.borrowed_inr,
-        u.interest_accrued,
-        u.collateral_btc,
+        l.auto_topup_enabled,
+        l.auto_topup_trigger_ltv,
         -- Calculate current LTV once
         (l.inr_borrowed_amount / (l.btc_collateral_amount * ? / 100000000)) as current_ltv_decimal,
         -- Calculate percentage
         (l.inr_borrowed_amount / (l.btc_collateral_amount * ? / 100000000)) * 100 as current_ltv
       FROM loans l 
-      JOIN users u ON l.user_id = u.id
       WHERE l.status = 'ACTIVE' 
         AND l.btc_collateral_amount > 0
         AND l.inr_borrowed_amount > 0
-        AND (l.inr_borrowed_amount / (l.btc_collateral_amount * ? / 100000000)) >= 0.85
       ORDER BY current_ltv DESC
-    `, [currentBtcPrice, currentBtcPrice, currentBtcPrice]);
+    `, [currentBtcPrice, currentBtcPrice]);
 
-    // Determine risk status in application code to reduce DB computation
+    // Determine risk status in application code; thresholds come from each loan's product terms
     return loans.map(loan => ({
       ...loan,
-      risk_status: loan.current_ltv_decimal >= 0.90 ? 'LIQUIDATE' : 
-                   loan.current_ltv_decimal >= 0.85 ? 'WARNING' : 'SAFE'
+      risk_status: loanProductService.getRiskStatus(loan.current_ltv, loan.liquidation_ltv)
     }));
   }
 
   /**
-   * Execute partial liquidation to restore LTV to 60%
+   * Get loans that are at risk of liquidation
    */
-  async executePartialLiquidation(loan, currentBtcPrice) {
-    try {
-      return await transaction(async (connection) => {
-        // Calculate how much BTC to sell to restore LTV to 60%
-        const targetLtv = 0.60;
-        const targetBorrowedAmount = (loan.btc_collateral_amount * currentBtcPrice * targetLtv) / 100000000;
-        const excessDebt = loan.inr_borrowed_amount - targetBorrowedAmount;
-        
-        // Calculate BTC amount to sell (with small buffer for safety)
-        const btcToSell = Math.ceil((excessDebt * 100000000) / currentBtcPrice);
-        const inrFromSale = Math.floor((btcToSell * currentBtcPrice) / 100000000);
-        
-        // Ensure we don't sell more than available collateral
-        const maxBtcToSell = Math.min(btcToSell, loan.btc_collateral_amount);
-        const actualInrFromSale = Math.floor((maxBtcToSell * currentBtcPrice) / 100000000);
-        
-        // Debt reduction is limited by actual sale proceeds
-        const debtReduction = Math.min(actualInrFromSale, loan.inr_borrowed_amount);
-        const remainingCollateral = loan.btc_collateral_amount - maxBtcToSell;
-        const remainingDebt = loan.inr_borrowed_amount - debtReduction;
-        const excessInr = actualInrFromSale - debtReduction;
-
-        console.log(`Liquidation calculation for Loan ${loan.id}:`);
-        console.log(`  Current LTV: ${((loan.inr_borrowed_amount / (loan.btc_collateral_amount * currentBtcPrice / 100000000)) * 100).toFixed(2)}%`);
-        console.log(`  BTC to sell: ${maxBtcToSell / 100000000} BTC`);
-        console.log(`  INR from sale: ₹${actualInrFromSale}`);
-        console.log(`  Debt reduction: ₹${debtReduction}`);
-        console.log(`  Remaining collateral: ${remainingCollateral / 100000000} BTC`);
-        console.log(`  Remaining debt: ₹${remainingDebt}`);
-
-        // Update users table
-        await connection.execute(
-          `UPDATE users SET 
-            borrowed_inr = borrowed_inr - ?,
-            interest_accrued = GREATEST(0, interest_accrued - ?),
-            collateral_btc = collateral_btc - ?,
-            available_inr = available_inr + ?
-          WHERE id = ?`,
-          [debtReduction, Math.min(loan.interest_accrued, debtReduction), maxBtcToSell, excessInr, loan.user_id]
-        );
-
-        // Update loans table
-        if (remainingDebt <= 0 || remainingCollateral <= 0) {
-          // Full liquidation - close the loan
-          await connection.execute(
-            `UPDATE loans SET 
-              inr_borrowed_amount = 0,
-              btc_collateral_amount = 0,
-              status = 'LIQUIDATED',
-              liquidated_at = NOW()
-            WHERE id = ?`,
-            [loan.id]
-          );
-        } else {
-          // Partial liquidation - update amounts
-          await connection.execute(
-            `UPDATE loans SET 
-              inr_borrowed_amount = ?,
-              btc_collateral_amount = ?
-            WHERE id = ?`,
-            [remainingDebt, remainingCollateral, loan.id]
-          );
-        }
-
-        // Record the liquidation operation
-        await connection.execute(
-          `INSERT INTO operations (user_id, type, status, inr_amount, btc_amount, execution_price, loan_id, notes, executed_at) 
-           VALUES (?, ?, ?, ?, ?, ?, ?, ?, NOW())`,
-          [
-            loan.user_id,
-            remainingDebt <= 0 ? 'FULL_LIQUIDATION' : 'PARTIAL_LIQUIDATION',
-            'EXECUTED',
-            debtReduction,
-            maxBtcToSell,
-            currentBtcPrice,
-            loan.id,
-            `Automatic liquidation - LTV reduced from ${((loan.inr_borrowed_amount / (loan.btc_collateral_amount * currentBtcPrice / 100000000)) * 100).toFixed(2)}% to ${remainingDebt > 0 ? ((remainingDebt / (remainingCollateral * currentBtcPrice / 100000000)) * 100).toFixed(2) : 0}%`
-          ]
-        );
-
-        // Clear user cache
-        await clearUserCache(loan.user_id);
-
-        console.log(`✓ Liquidation completed for Loan ID: ${loan.id}`);
-        
-        return {
-          loanId: loan.id,
-          userId: loan.user_id,
-          btcSold: maxBtcToSell / 100000000,
-          inrReceived: actualInrFromSale,
-          debtReduction,
-          remainingCollateral: remainingCollateral / 100000000,
-          remainingDebt,
-          newLtv: remainingDebt > 0 ? ((remainingDebt / (remainingCollateral * currentBtcPrice / 100000000)) * 100) : 0,
-          liquidationType: remainingDebt <= 0 ? 'FULL' : 'PARTIAL'
-        };
-      });
-
-    } catch (error) {
-      console.error(`Error executing liquidation for loan ${loan.id}:`, error);
-      throw error;
-    }
+  async getLoansAtRisk(currentBtcPrice) {
+    const loans = await this.getActiveLoanLtvs(currentBtcPrice);
+    return loans.filter(loan => loan.risk_status !== 'SAFE');
   }
 
   /**
@@ -287,32 +262,28 @@ class LiquidationMonitoringService {
           l.btc_collateral_amount,
           l.inr_borrowed_amount,
           l.ltv_ratio,
+          l.liquidation_ltv,
           l.liquidation_price,
           u.email,
           u.name,
           -- Calculate current LTV
           (l.inr_borrowed_amount / (l.btc_collateral_amount * ? / 100000000)) * 100 as current_ltv,
           -- Calculate liquidation distance
-          ((l.inr_borrowed_amount / (l.btc_collateral_amount * 0.90 / 100000000)) - ?) as liquidation_distance,
-          -- Determine risk status
-          CASE 
-            WHEN (l.inr_borrowed_amount / (l.btc_collateral_amount * ? / 100000000)) >= 0.90 THEN 'LIQUIDATE'
-            WHEN (l.inr_borrowed_amount / (l.btc_collateral_amount * ? / 100000000)) >= 0.85 THEN 'WARNING'
-            ELSE 'SAFE'
-          END as risk_status
+          ((l.inr_borrowed_amount / (l.btc_collateral_amount * l.liquidation_ltv / 100 / 100000000)) - ?) as liquidation_distance
         FROM loans l 
         JOIN users u ON l.user_id = u.id
         WHERE l.status = 'ACTIVE' 
           AND l.btc_collateral_amount > 0
           AND l.inr_borrowed_amount > 0
         ORDER BY current_ltv DESC
-      `, [rates.sellRate, rates.sellRate, rates.sellRate, rates.sellRate]);
+      `, [rates.sellRate, rates.sellRate]);
 
       return allLoans.map(loan => ({
         ...loan,
         btc_collateral_amount: loan.btc_collateral_amount / 100000000,
         current_btc_price: rates.sellRate,
-        liquidation_price_needed: Math.ceil(loan.inr_borrowed_amount / (loan.btc_collateral_amount / 100000000 * 0.90))
+        risk_status: loanProductService.getRiskStatus(loan.current_ltv, loan.liquidation_ltv),
+        liquidation_price_needed: Math.ceil(loan.inr_borrowed_amount / (loan.btc_collateral_amount / 100000000 * loan.liquidation_ltv / 100))
       }));
 
     } catch (error) {
@@ -0,0 +1,181 @@
+const { query } = require('../config/database');
+
+/**
+ * Loan Ledger Service
+ * Keeps each loan's principal, outstanding interest and paid interest in paisa
+ * and records every movement in loan_ledger_entries. loans.inr_borrowed_amount
+ * and the users borrowed_inr / interest_accrued totals are rupee roundings of
+ * the ledger and are only changed through recordEntry.
+ *
+ * Compounding decides which outstanding interest bears interest: none (SIMPLE),
+ * all of it after each day (DAILY), or what was outstanding at the last month
+ * end (MONTHLY). Payments always clear interest before principal.
+ */
+class LoanLedgerService {
+  toPaisa(rupees) {
+    return Math.round(Number(rupees) * 100);
+  }
+
+  toRupees(paisa) {
+    return Math.round(Number(paisa) / 100);
+  }
+
+  getBalances(loan) {
+    return {
+      principal: Number(loan.principal_paisa) || 0,
+      interest: Number(loan.interest_outstanding_paisa) || 0,
+      interestPaid: Number(loan.interest_paid_paisa) || 0,
+      compounded: Number(loan.compounded_interest_paisa) || 0
+    };
+  }
+
+  // One day of interest on the interest-bearing balance
+  calculateDailyInterest(loan) {
+    const { principal, compounded } = this.getBalances(loan);
+    return Math.round(((principal + compounded) * Number(loan.interest_rate)) / 36500);
+  }
+
+  // accrualDate is a YYYY-MM-DD string
+  isMonthEnd(accrualDate) {
+    const nextDay = new Date(`${accrualDate}T00:00:00Z`);
+    nextDay.setUTCDate(nextDay.getUTCDate() + 1);
+    return nextDay.getUTCDate() === 1;
+  }
+
+  // Split a payment between outstanding interest and principal, interest first
+  allocatePayment(loan, amountPaisa) {
+    const { principal, interest } = this.getBalances(loan);
+    const interestPaid = Math.min(interest, Math.max(0, amountPaisa));
+    const principalPaid = Math.min(principal, Math.max(0, amountPaisa - interestPaid));
+    return { interestPaid, principalPaid };
+  }
+
+  /**
+   * Apply a principal and/or interest movement to a loan locked by the caller
+   * @param {Object} connection - Transaction connection
+   * @param {Object} loan - Loan row (locked with FOR UPDATE)
+   * @param {Object} entry - { type, principal, interest, accrualDate, operationId, notes }; amounts are signed paisa
+   * @returns {Promise<Object>} - The loan row with its new balances
+   */
+  async recordEntry(connection, loan, entry) {
+    const { type, principal = 0, interest = 0, accrualDate = null, operationId = null, notes = null } = entry;
+    const before = this.getBalances(loan);
+
+    const principalBalance = Math.max(0, before.principal + principal);
+    const interestBalance = Math.max(0, before.interest + interest);
+    const interestPaid = before.interestPaid + (interest < 0 ? before.interest - interestBalance : 0);
+
+    let compounded = Math.min(before.compounded, interestBalance);
+    if (type === 'INTEREST' && (loan.compounding === 'DAILY' || (loan.compounding === 'MONTHLY' && accrualDate && this.isMonthEnd(accrualDate)))) {
+      compounded = interestBalance;
+    }
+
+    const borrowedAmount = this.toRupees(principalBalance + interestBalance);
+    const borrowedDelta = borrowedAmount - Number(loan.inr_borrowed_amount);
+    const interestDelta = this.toRupees(interestBalance) - this.toRupees(before.interest);
+
+    await connection.execute(
+      `UPDATE loans
+       SET principal_paisa = ?, interest_outstanding_paisa = ?, interest_paid_paisa = ?, compounded_interest_paisa = ?,
+           inr_borrowed_amount = ?, interest_accrued_through = COALESCE(?, interest_accrued_through)
+       WHERE id = ?`,
+      [principalBalance, interestBalance, interestPaid, compounded, borrowedAmount, accrualDate, loan.id]
+    );
+
+    if (borrowedDelta !== 0 || interestDelta !== 0) {
+      await connection.execute(
+        'UPDATE users SET borrowed_inr = GREATEST(0, borrowed_inr + ?), interest_accrued = GREATEST(0, interest_accrued + ?) WHERE id = ?',
+        [borrowedDelta, interestDelta, loan.user_id]
+      );
+    }
+
+    await connection.execute(
+      `INSERT INTO loan_ledger_entries (loan_id, user_id, entry_type, principal_paisa, interest_paisa, principal_balance_paisa, interest_balance_paisa, accrual_date, operation_id, notes)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [loan.id, loan.user_id, type, principalBalance - before.principal, interestBalance - before.interest,
+        principalBalance, interestBalance, accrualDate, operationId, notes]
+    );
+
+    return {
+      ...loan,
+      principal_paisa: principalBalance,
+      interest_outstanding_paisa: interestBalance,
+      interest_paid_paisa: interestPaid,
+      compounded_interest_paisa: compounded,
+      inr_borrowed_amount: borrowedAmount
+    };
+  }
+
+  /**
+   * Apply a payment (repayment or liquidation proceeds) to a loan, interest first
+   * @param {Object} connection - Transaction connection
+   * @param {Object} loan - Loan row (locked with FOR UPDATE)
+   * @param {string} type - REPAYMENT or LIQUIDATION
+   * @param {number} amountPaisa - Amount paid in paisa
+   * @param {Object} details - { operationId, notes }
+   * @returns {Promise<Object>} - { loan, interestPaid, principalPaid } with amounts in paisa
+   */
+  async recordPayment(connection, loan, type, amountPaisa, details = {}) {
+    const { interestPaid, principalPaid } = this.allocatePayment(loan, amountPaisa);
+    const updatedLoan = await this.recordEntry(connection, loan, {
+      type,
+      principal: -principalPaid,
+      interest: -interestPaid,
+      operationId: details.operationId || null,
+      notes: details.notes || null
+    });
+    return { loan: updatedLoan, interestPaid, principalPaid };
+  }
+
+  // Total principal ever borrowed on a loan
+  async getPrincipalBorrowed(loanId) {
+    const rows = await query(
+      'SELECT COALESCE(SUM(principal_paisa), 0) as principal_borrowed FROM loan_ledger_entries WHERE loan_id = ? AND entry_type = "BORROW"',
+      [loanId]
+    );
+    return Number(rows[0]?.principal_borrowed || 0);
+  }
+
+  formatEntry(row) {
+    return {
+      id: row.id,
+      entry_type: row.entry_type,
+      principal: Number(row.principal_paisa) / 100,
+      interest: Number(row.interest_paisa) / 100,
+      principal_balance: Number(row.principal_balance_paisa) / 100,
+      interest_balance: Number(row.interest_balance_paisa) / 100,
+      accrual_date: row.accrual_date,
+      operation_id: row.operation_id,
+      notes: row.notes,
+      created_at: row.created_at
+    };
+  }
+
+  /**
+   * Statement of a loan: ledger balances and entries, amounts in rupees with paisa precision
+   * @param {Object} loan - Loan row
+   * @returns {Promise<Object>} - Statement
+   */
+  async getStatement(loan) {
+    const rows = await query(
+      'SELECT * FROM loan_ledger_entries WHERE loan_id = ? ORDER BY id DESC',
+      [loan.id]
+    );
+    const balances = this.getBalances(loan);
+
+    return {
+      loan_id: loan.id,
+      compounding: loan.compounding,
+      interest_rate: parseFloat(loan.interest_rate),
+      principal: balances.principal / 100,
+      interest_outstanding: balances.interest / 100,
+      interest_paid: balances.interestPaid / 100,
+      interest_accrued_through: loan.interest_accrued_through,
+      entries: rows.map(row => this.formatEntry(row))
+    };
+  }
+}
+
+// Export singleton instance
+const loanLedgerService = new LoanLedgerService();
+module.exports = loanLedgerService;
@@ -1,15 +1,15 @@
 const loanService = require('./loanService');
-const bitcoinDataService = require('./bitcoinDataService');
+const eventStreamService = require('./eventStreamService');
 const { loanLogger } = require('../utils/logger');
 
 /**
- * LoanMonitoringService - Background service for interest accrual and liquidation monitoring
+ * LoanMonitoringService - Background service for daily interest accrual.
+ * Liquidations are handled by liquidationMonitoringService alone.
  */
 class LoanMonitoringService {
   constructor() {
     this.isRunning = false;
     this.interestAccrualInterval = null;
-    this.liquidationCheckInterval = null;
   }
 
   /**
@@ -27,12 +27,8 @@ class LoanMonitoringService {
     // Run interest accrual daily at midnight
     this.scheduleInterestAccrual();
     
-    // Check for liquidations every 30 seconds
-    this.scheduleLiquidationCheck();
-    
     loanLogger.serviceStarted('Loan Monitoring Service', {
-      interestAccrual: 'Daily at midnight',
-      liquidationChecks: 'Every 30 seconds'
+      interestAccrual: 'Daily at midnight'
     });
   }
 
@@ -52,11 +48,6 @@ class LoanMonitoringService {
       this.interestAccrualInterval = null;
     }
     
-    if (this.liquidationCheckInterval) {
-      clearInterval(this.liquidationCheckInterval);
-      this.liquidationCheckInterval = null;
-    }
-    
     loanLogger.info('Loan monitoring service stopped');
   }
 
@@ -84,27 +75,28 @@ class LoanMonitoringService {
     loanLogger.info(`Interest accrual scheduled to run at midnight (${tomorrow.toISOString()})`);
   }
 
-  /**
-   * Schedule liquidation checks every 30 seconds
-   */
-  scheduleLiquidationCheck() {
-    this.liquidationCheckInterval = setInterval(() => {
-      this.checkAndExecuteLiquidations();
-    }, 30 * 1000); // 30 seconds
-
-    loanLogger.info('Liquidation monitoring scheduled every 30 seconds');
-  }
-
   /**
    * Run interest accrual for all active loans
    */
   async runInterestAccrual() {
     try {
       loanLogger.info('Running daily interest accrual...');
-      const results = await loanService.accrueInterest();
+      const { accruals, gaps } = await loanService.accrueInterest();
       
-      if (results.length > 0) {
-        loanLogger.interestAccrual(`Interest accrued for ${results.length} loans`, results);
+      if (accruals.length > 0) {
+        loanLogger.interestAccrual(`Interest accrued for ${accruals.length} loan-days`, accruals);
+        accruals.forEach(result => {
+          eventStreamService.publishToUser(result.userId, 'loan', {
+            loan_id: result.loanId,
+            event: 'INTEREST_ACCRUED',
+            accrual_date: result.accrualDate,
+            interest_accrued: result.interestAccrued,
+            borrowed_amount: result.newBorrowedAmount
+          });
+        });
+        if (gaps.length > 0) {
+          loanLogger.warn(`Back-filled missed interest on ${gaps.length} loans`, { gaps });
+        }
       } else {
         loanLogger.info('No active loans requiring interest accrual');
       }
@@ -113,41 +105,13 @@ class LoanMonitoringService {
     }
   }
 
-  /**
-   * Check for loans requiring liquidation and execute them
-   */
-  async checkAndExecuteLiquidations() {
-    try {
-      const atRiskLoans = await loanService.checkLiquidationRisk();
-      
-      for (const loan of atRiskLoans) {
-        if (loan.risk_status === 'LIQUIDATE') {
-          loanLogger.info(`Executing partial liquidation for loan ${loan.id} (User: ${loan.user_id}, LTV: ${loan.current_ltv}%)`);
-          
-          try {
-            const result = await loanService.executePartialLiquidation(loan.id);
-            loanLogger.liquidation(`Partial liquidation completed for loan ${loan.id}`, result);
-          } catch (liquidationError) {
-            loanLogger.error(`Failed to liquidate loan ${loan.id}`, liquidationError);
-          }
-        } else if (loan.risk_status === 'WARNING') {
-          loanLogger.warn(`Loan ${loan.id} (User: ${loan.user_id}) is at ${loan.current_ltv}% LTV - approaching liquidation threshold`);
-          // Here you could send notifications to users
-        }
-      }
-    } catch (error) {
-      loanLogger.error('Error during liquidation check', error);
-    }
-  }
-
   /**
    * Get monitoring service status
    */
   getStatus() {
     return {
       isRunning: this.isRunning,
-      interestAccrualActive: this.interestAccrualInterval !== null,
-      liquidationCheckActive: this.liquidationCheckInterval !== null
+      interestAccrualActive: this.interestAccrualInterval !== null
     };
   }
 }
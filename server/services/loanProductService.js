@@ -0,0 +1,141 @@
+const { query } = require('../config/database');
+
+const MAX_ALLOWED_LTV = 85;               // Borrowing limit must stay below liquidation
+const MAX_LIQUIDATION_LTV = 95;
+const WARNING_MARGIN_PCT = 5;             // Warning band below each loan's liquidation LTV
+const COMPOUNDING_TYPES = ['SIMPLE', 'DAILY', 'MONTHLY'];
+
+/**
+ * Loan Product Service
+ * Admin-managed loan products. A loan copies its product's terms when it is
+ * opened, so editing or retiring a product never changes existing loans.
+ */
+class LoanProductService {
+  formatProduct(row) {
+    return {
+      id: row.id,
+      name: row.name,
+      description: row.description,
+      max_ltv: parseFloat(row.max_ltv),
+      liquidation_ltv: parseFloat(row.liquidation_ltv),
+      interest_rate: parseFloat(row.interest_rate),
+      compounding: row.compounding,
+      min_interest_days: row.min_interest_days,
+      term_days: row.term_days,
+      is_active: Boolean(row.is_active),
+      created_at: row.created_at,
+      updated_at: row.updated_at
+    };
+  }
+
+  // Risk band of a loan: WARNING starts a few points below its liquidation LTV
+  getRiskStatus(currentLtv, liquidationLtv) {
+    currentLtv = Number(currentLtv);
+    liquidationLtv = Number(liquidationLtv);
+    if (currentLtv >= liquidationLtv) return 'LIQUIDATE';
+    if (currentLtv >= liquidationLtv - WARNING_MARGIN_PCT) return 'WARNING';
+    return 'SAFE';
+  }
+
+  async getProducts(includeInactive = false) {
+    const rows = await query(
+      `SELECT * FROM loan_products ${includeInactive ? '' : 'WHERE is_active = TRUE'} ORDER BY is_active DESC, max_ltv ASC, id ASC`
+    );
+    return rows.map(row => this.formatProduct(row));
+  }
+
+  async getProduct(productId) {
+    const rows = await query('SELECT * FROM loan_products WHERE id = ?', [productId]);
+    return rows.length > 0 ? this.formatProduct(rows[0]) : null;
+  }
+
+  // Product for a new loan; falls back to the oldest active product when none is chosen
+  async getProductForNewLoan(productId = null) {
+    const rows = productId
+      ? await query('SELECT * FROM loan_products WHERE id = ? AND is_active = TRUE', [productId])
+      : await query('SELECT * FROM loan_products WHERE is_active = TRUE ORDER BY id ASC LIMIT 1');
+
+    if (rows.length === 0) {
+      throw new Error('Loan product not available');
+    }
+    return this.formatProduct(rows[0]);
+  }
+
+  // Throws with a user-facing message when the terms are invalid
+  validateTerms(terms) {
+    const { name, max_ltv, liquidation_ltv, interest_rate, compounding, min_interest_days, term_days } = terms;
+
+    if (!name || String(name).trim().length === 0 || String(name).length > 100) {
+      throw new Error('Product name is required (max 100 characters)');
+    }
+    if (!(max_ltv > 0 && max_ltv <= MAX_ALLOWED_LTV)) {
+      throw new Error('Max LTV must be greater than 0 and at most 85');
+    }
+    if (!(liquidation_ltv <= MAX_LIQUIDATION_LTV && liquidation_ltv - WARNING_MARGIN_PCT > max_ltv)) {
+      throw new Error('Liquidation LTV must be more than 5 points above max LTV and at most 95');
+    }
+    if (!(interest_rate > 0 && interest_rate <= 100)) {
+      throw new Error('Interest rate must be greater than 0 and at most 100');
+    }
+    if (!COMPOUNDING_TYPES.includes(compounding)) {
+      throw new Error('Compounding must be SIMPLE, DAILY or MONTHLY');
+    }
+    if (!Number.isInteger(min_interest_days) || min_interest_days < 0 || min_interest_days > 365) {
+      throw new Error('Minimum interest days must be between 0 and 365');
+    }
+    if (term_days !== null && (!Number.isInteger(term_days) || term_days < 1 || term_days > 3650)) {
+      throw new Error('Term must be between 1 and 3650 days');
+    }
+  }
+
+  async createProduct(terms) {
+    const product = {
+      name: terms.name,
+      description: terms.description || null,
+      max_ltv: terms.max_ltv,
+      liquidation_ltv: terms.liquidation_ltv,
+      interest_rate: terms.interest_rate,
+      compounding: terms.compounding || 'SIMPLE',
+      min_interest_days: terms.min_interest_days ?? 30,
+      term_days: terms.term_days ?? null
+    };
+    this.validateTerms(product);
+
+    const result = await query(
+      `INSERT INTO loan_products (name, description, max_ltv, liquidation_ltv, interest_rate, compounding, min_interest_days, term_days)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+      [product.name.trim(), product.description, product.max_ltv, product.liquidation_ltv, product.interest_rate, product.compounding, product.min_interest_days, product.term_days]
+    );
+
+    return this.getProduct(result.insertId);
+  }
+
+  async updateProduct(productId, changes) {
+    const existing = await this.getProduct(productId);
+    if (!existing) {
+      throw new Error('Loan product not found');
+    }
+
+    const product = { ...existing };
+    ['name', 'description', 'max_ltv', 'liquidation_ltv', 'interest_rate', 'compounding', 'min_interest_days', 'term_days', 'is_active'].forEach(field => {
+      if (changes[field] !== undefined) {
+        product[field] = changes[field];
+      }
+    });
+    this.validateTerms(product);
+
+    await query(
+      `UPDATE loan_products
+       SET name = ?, description = ?, max_ltv = ?, liquidation_ltv = ?, interest_rate = ?, compounding = ?, min_interest_days = ?, term_days = ?, is_active = ?
+       WHERE id = ?`,
+      [String(product.name).trim(), product.description || null, product.max_ltv, product.liquidation_ltv, product.interest_rate, product.compounding,
+        product.min_interest_days, product.term_days, Boolean(product.is_active), productId]
+    );
+
+    return this.getProduct(productId);
+  }
+}
+
+// Export singleton instance
+const loanProductService = new LoanProductService();
+module.exports = loanProductService;
@@ -1,27 +1,82 @@
 const { query, transaction } = require('../config/database');
 const { clearUserCache } = require('../config/redis');
-const bitcoinDataService = require('./bitcoinDataService');
-const settingsService = require('./settingsService');
+const priceGuardService = require('./priceGuardService');
+const loanProductService = require('./loanProductService');
+const loanLedgerService = require('./loanLedgerService');
+
+const MATURITY_GRACE_DAYS = 3;              // Days after maturity before a term loan is settled
+const MATURITY_REMINDER_DAYS = [7, 1, 0];   // Reminders before maturity; 0 is sent once the loan has matured
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Calendar day (YYYY-MM-DD) in IST, which interest accrual is keyed on
+const getIstDate = (date = new Date()) => date.toLocaleDateString('en-CA', { timeZone: 'Asia/Kolkata' });
+
+const addDays = (day, days) => new Date(Date.parse(`${day}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10);
 
 /**
- * LoanService - Manages Bitcoin-backed loans with collateral management
+ * LoanService - Manages Bitcoin-backed loans with collateral management.
+ * A user can hold several loans at once; each has its own collateral and the
+ * terms of the loan product it was opened with (LTV, liquidation LTV, interest
+ * rate, minimum interest days, term). The users row keeps collateral_btc and
+ * borrowed_inr as totals. Principal and interest are tracked in paisa by
+ * loanLedgerService, which is the only writer of a loan's balance. Fixed-term
+ * loans are settled through a full liquidation once their grace period after
+ * maturity ends.
  */
 const LoanService = {
   /**
-   * Deposit BTC as collateral and create loan facility
+   * Lock an active loan owned by the user inside a transaction
+   * @param {Object} connection - Transaction connection
+   * @param {number} userId - ID of the user
+   * @param {number} loanId - ID of the loan
+   * @returns {Promise} - Resolves with the loan row
+   */
+  async getActiveLoanForUpdate(connection, userId, loanId) {
+    const [loanRows] = await connection.execute(
+      'SELECT * FROM loans WHERE id = ? AND user_id = ? AND status = "ACTIVE" FOR UPDATE',
+      [loanId, userId]
+    );
+
+    if (loanRows.length === 0) {
+      throw new Error('No active loan found');
+    }
+
+    return loanRows[0];
+  },
+
+  /**
+   * Sell rate at which a loan reaches its liquidation LTV
+   * At liquidation LTV: borrowed_amount / (collateral_amount * liquidation_price / 100000000) = liquidation_ltv / 100
+   * @param {number} borrowedAmount - INR owed on the loan
+   * @param {number} collateralAmount - Collateral in satoshis
+   * @param {number} liquidationLtv - Loan's liquidation LTV (e.g., 90.00)
+   * @returns {number} - Liquidation price in INR per BTC, 0 when nothing is owed
+   */
+  calculateLiquidationPrice(borrowedAmount, collateralAmount, liquidationLtv) {
+    if (borrowedAmount <= 0 || collateralAmount <= 0) {
+      return 0;
+    }
+    return Math.floor((borrowedAmount * 100000000) / (collateralAmount * liquidationLtv / 100));
+  },
+
+  /**
+   * Deposit BTC as collateral and open a new loan facility
    * @param {number} userId - ID of the user
    * @param {number} collateralAmount - Amount of BTC in satoshis
-   * @param {number} ltvRatio - Loan-to-value ratio (e.g., 60.00 for 60%)
+   * @param {number} productId - Loan product to open the loan with (defaults to the standard product)
    * @returns {Promise} - Resolves with loan details
    */
-  async depositCollateral(userId, collateralAmount, ltvRatio = 60.00) {
+  async depositCollateral(userId, collateralAmount, productId = null) {
     try {
       if (collateralAmount <= 0) {
         throw new Error('Collateral amount must be greater than 0');
       }
 
-      // Get interest rate from settings
-      const interestRate = await settingsService.getLoanInterestRate();
+      // The product's terms are copied onto the loan
+      const product = await loanProductService.getProductForNewLoan(productId);
+      const ltvRatio = product.max_ltv;
+      const interestRate = product.interest_rate;
+      const maturityDate = product.term_days ? new Date(Date.now() + product.term_days * DAY_MS) : null;
       
       return await transaction(async (connection) => {
         // Get current user balances
@@ -41,11 +96,8 @@ const LoanService = {
         }
 
         // Get current BTC price for liquidation calculation
-        const rates = await bitcoinDataService.getCalculatedRates();
-        // Calculate liquidation price as sell rate when LTV reaches 90%
-        // At 90% LTV: loan_amount / (collateral_amount * sell_rate / 100000000) = 0.9
-        // Therefore: sell_rate = (loan_amount * 100000000) / (collateral_amount * 0.9)
-        // But since we don't know loan_amount yet, we'll update this after borrowing
+        const rates = await priceGuardService.getValidatedRates();
+        // Liquidation price depends on the borrowed amount, so it is set after borrowing
         const liquidationPrice = 0; // Will be calculated dynamically based on actual borrowed amount
 
         // Update user balances - move BTC from available to collateral
@@ -56,15 +108,15 @@ const LoanService = {
 
         // Create loan entry
         const [loanResult] = await connection.execute(
-          `INSERT INTO loans (user_id, btc_collateral_amount, inr_borrowed_amount, ltv_ratio, interest_rate, liquidation_price, status) 
-           VALUES (?, ?, 0, ?, ?, ?, 'ACTIVE')`,
-          [userId, collateralAmount, ltvRatio, interestRate, liquidationPrice]
+          `INSERT INTO loans (user_id, product_id, btc_collateral_amount, inr_borrowed_amount, ltv_ratio, interest_rate, compounding, liquidation_ltv, min_interest_days, term_days, maturity_date, liquidation_price, status) 
+           VALUES (?, ?, ?, 0, ?, ?, ?, ?, ?, ?, ?, ?, 'ACTIVE')`,
+          [userId, product.id, collateralAmount, ltvRatio, interestRate, product.compounding, product.liquidation_ltv, product.min_interest_days, product.term_days, maturityDate, liquidationPrice]
         );
 
         // Record the operation
         await connection.execute(
           'INSERT INTO operations (user_id, type, status, btc_amount, loan_id, notes, executed_at) VALUES (?, ?, ?, ?, ?, ?, NOW())',
-          [userId, 'LOAN_CREATE', 'EXECUTED', collateralAmount, loanResult.insertId, 'Collateral deposit for loan facility']
+          [userId, 'LOAN_CREATE', 'EXECUTED', collateralAmount, loanResult.insertId, `Collateral deposit for ${product.name} loan facility`]
         );
 
         // Clear user cache
@@ -75,10 +127,17 @@ const LoanService = {
 
         return {
           loanId: loanResult.insertId,
+          productId: product.id,
+          productName: product.name,
           collateralAmount,
           maxBorrowable,
           ltvRatio,
           interestRate,
+          compounding: product.compounding,
+          liquidationLtv: product.liquidation_ltv,
+          minInterestDays: product.min_interest_days,
+          termDays: product.term_days,
+          maturityDate,
           liquidationPrice,
           currentBtcPrice: rates.btcUsdPrice
         };
@@ -92,30 +151,25 @@ const LoanService = {
   /**
    * Borrow INR against existing collateral
    * @param {number} userId - ID of the user
+   * @param {number} loanId - ID of the loan to borrow against
    * @param {number} borrowAmount - Amount of INR to borrow
    * @returns {Promise} - Resolves with borrowing details
    */
-  async borrowFunds(userId, borrowAmount) {
+  async borrowFunds(userId, loanId, borrowAmount) {
     try {
       if (borrowAmount <= 0) {
         throw new Error('Borrow amount must be greater than 0');
       }
 
       return await transaction(async (connection) => {
-        // Get active loan for user
-        const [loanRows] = await connection.execute(
-          'SELECT * FROM loans WHERE user_id = ? AND status = "ACTIVE"',
-          [userId]
-        );
+        let loan = await this.getActiveLoanForUpdate(connection, userId, loanId);
 
-        if (loanRows.length === 0) {
-          throw new Error('No active loan found. Please deposit collateral first.');
+        if (loan.maturity_date && new Date(loan.maturity_date) <= new Date()) {
+          throw new Error('Loan has matured and cannot be borrowed against');
         }
-
-        const loan = loanRows[0];
         
         // Get current BTC price
-        const rates = await bitcoinDataService.getCalculatedRates();
+        const rates = await priceGuardService.getValidatedRates();
         
         // Calculate available borrowing capacity using sell rate (what user would actually get)
         const maxBorrowable = Math.floor((loan.btc_collateral_amount * rates.sellRate * loan.ltv_ratio) / (100 * 100000000));
@@ -135,39 +189,48 @@ const LoanService = {
           throw new Error('User not found');
         }
 
-        // Update user balances
+        // Credit the borrowed INR; the ledger updates the borrowed totals
         await connection.execute(
-          'UPDATE users SET available_inr = available_inr + ?, borrowed_inr = borrowed_inr + ? WHERE id = ?',
-          [borrowAmount, borrowAmount, userId]
+          'UPDATE users SET available_inr = available_inr + ? WHERE id = ?',
+          [borrowAmount, userId]
         );
 
-        // Update loan amount
-        await connection.execute(
-          'UPDATE loans SET inr_borrowed_amount = inr_borrowed_amount + ? WHERE id = ?',
-          [borrowAmount, loan.id]
+        // Record the operation
+        const [operationResult] = await connection.execute(
+          'INSERT INTO operations (user_id, type, status, inr_amount, loan_id, notes, executed_at) VALUES (?, ?, ?, ?, ?, ?, NOW())',
+          [userId, 'LOAN_BORROW', 'EXECUTED', borrowAmount, loan.id, 'Borrowing from loan facility']
         );
 
+        // A loan with nothing bearing interest starts accruing the day after this borrow,
+        // so the idle days since its last accrual are never back-filled
+        const { principal, compounded } = loanLedgerService.getBalances(loan);
+        if (principal + compounded === 0) {
+          await connection.execute(
+            'UPDATE loans SET interest_accrued_through = ? WHERE id = ?',
+            [getIstDate(), loan.id]
+          );
+        }
+
+        loan = await loanLedgerService.recordEntry(connection, loan, {
+          type: 'BORROW',
+          principal: loanLedgerService.toPaisa(borrowAmount),
+          operationId: operationResult.insertId
+        });
+
         // Calculate and update liquidation price based on actual borrowed amount
-        const newBorrowedAmount = loan.inr_borrowed_amount + borrowAmount;
-        const liquidationSellRate = Math.floor((newBorrowedAmount * 100000000) / (loan.btc_collateral_amount * 0.9));
+        const liquidationSellRate = this.calculateLiquidationPrice(loan.inr_borrowed_amount, loan.btc_collateral_amount, loan.liquidation_ltv);
         await connection.execute(
           'UPDATE loans SET liquidation_price = ? WHERE id = ?',
           [liquidationSellRate, loan.id]
         );
 
-        // Record the operation
-        await connection.execute(
-          'INSERT INTO operations (user_id, type, status, inr_amount, loan_id, notes, executed_at) VALUES (?, ?, ?, ?, ?, ?, NOW())',
-          [userId, 'LOAN_BORROW', 'EXECUTED', borrowAmount, loan.id, 'Borrowing from loan facility']
-        );
-
         // Clear user cache
         await clearUserCache(userId);
 
         return {
           loanId: loan.id,
           borrowAmount,
-          newBorrowedTotal: loan.inr_borrowed_amount + borrowAmount,
+          newBorrowedTotal: loan.inr_borrowed_amount,
           availableCapacity: availableCapacity - borrowAmount,
           currentBtcPrice: rates.btcUsdPrice
         };
@@ -179,81 +242,82 @@ const LoanService = {
   },
 
   /**
-   * Calculate minimum interest due for a loan (30-day minimum policy)
-   * @param {Object} loan - Loan object with created_at, borrowed_amount, and interest_rate
-   * @returns {number} - Minimum interest amount in INR
+   * Interest still to be charged for a loan to meet its minimum interest days
+   * @param {Object} loan - Loan row with ledger balances, created_at, interest_rate and min_interest_days
+   * @returns {Promise<number>} - Shortfall in paisa
    */
-  async calculateMinimumInterestDue(loan) {
+  async calculateMinimumInterestShortfall(loan) {
     try {
-      // Get the original borrowed amount by finding all borrow operations
-      const borrowOperations = await query(
-        'SELECT SUM(inr_amount) as total_borrowed FROM operations WHERE loan_id = ? AND type = "LOAN_BORROW"',
-        [loan.id]
-      );
+      const principalBorrowed = await loanLedgerService.getPrincipalBorrowed(loan.id);
       
-      const originalBorrowedAmount = borrowOperations[0]?.total_borrowed || 0;
-      
-      if (originalBorrowedAmount === 0) {
+      if (principalBorrowed === 0) {
         return 0;
       }
       
-      const loanCreatedAt = new Date(loan.created_at);
-      const currentTime = new Date();
-      const daysSinceCreation = Math.floor((currentTime - loanCreatedAt) / (1000 * 60 * 60 * 24));
-      
-      // Calculate minimum 30-day interest
-      const minimumDaysToCharge = 30;
-      const daysToCharge = Math.max(daysSinceCreation, minimumDaysToCharge);
+      const daysSinceCreation = Math.floor((new Date() - new Date(loan.created_at)) / DAY_MS);
       
-      // Calculate interest: (original_borrowed_amount * interest_rate / 100) * days / 365
-      const minimumInterest = Math.round((originalBorrowedAmount * loan.interest_rate / 100) * daysToCharge / 365);
+      // Charge at least the loan's minimum interest days
+      const daysToCharge = Math.max(daysSinceCreation, loan.min_interest_days);
+      const minimumInterest = Math.round((principalBorrowed * loan.interest_rate / 100) * daysToCharge / 365);
       
-      return minimumInterest;
+      // Interest already charged counts towards the minimum, whether paid or not
+      const { interest, interestPaid } = loanLedgerService.getBalances(loan);
+      return Math.max(0, minimumInterest - interest - interestPaid);
     } catch (error) {
-      console.error('Error calculating minimum interest due:', error);
+      console.error('Error calculating minimum interest shortfall:', error);
       return 0;
     }
   },
 
   /**
-   * Repay borrowed INR with 30-day minimum interest policy
+   * Charge the minimum interest shortfall before a loan is closed
+   * @param {Object} connection - Transaction connection
+   * @param {Object} loan - Loan row (locked with FOR UPDATE)
+   * @param {string} notes - Note recorded on the interest charge
+   * @returns {Promise} - Resolves with { loan, applied } where applied is in paisa
+   */
+  async applyMinimumInterest(connection, loan, notes) {
+    const shortfall = await this.calculateMinimumInterestShortfall(loan);
+    if (shortfall <= 0) {
+      return { loan, applied: 0 };
+    }
+
+    const [operationResult] = await connection.execute(
+      'INSERT INTO operations (user_id, type, status, inr_amount, loan_id, notes, executed_at) VALUES (?, ?, ?, ?, ?, ?, NOW())',
+      [loan.user_id, 'INTEREST_ACCRUAL', 'EXECUTED', loanLedgerService.toRupees(shortfall), loan.id, notes]
+    );
+
+    const updatedLoan = await loanLedgerService.recordEntry(connection, loan, {
+      type: 'MINIMUM_INTEREST',
+      interest: shortfall,
+      operationId: operationResult.insertId,
+      notes
+    });
+
+    return { loan: updatedLoan, applied: shortfall };
+  },
+
+  /**
+   * Repay borrowed INR with the loan's minimum interest policy. Payments clear
+   * outstanding interest before principal.
    * @param {number} userId - ID of the user
+   * @param {number} loanId - ID of the loan to repay
    * @param {number} repayAmount - Amount of INR to repay
    * @returns {Promise} - Resolves with repayment details
    */
-  async repayLoan(userId, repayAmount) {
+  async repayLoan(userId, loanId, repayAmount) {
     try {
       if (repayAmount <= 0) {
         throw new Error('Repay amount must be greater than 0');
       }
 
       return await transaction(async (connection) => {
-        // Get active loan for user
-        const [loanRows] = await connection.execute(
-          'SELECT * FROM loans WHERE user_id = ? AND status = "ACTIVE"',
-          [userId]
-        );
-
-        if (loanRows.length === 0) {
-          throw new Error('No active loan found');
-        }
-
-        const loan = loanRows[0];
-        
-        // Calculate minimum interest due (30-day minimum policy)
-        const minimumInterestDue = await this.calculateMinimumInterestDue(loan);
-        
-        // Get original borrowed amount to calculate current interest accrued
-        const borrowOperations = await query(
-          'SELECT SUM(inr_amount) as total_borrowed FROM operations WHERE loan_id = ? AND type = "LOAN_BORROW"',
-          [loan.id]
-        );
-        const originalBorrowedAmount = borrowOperations[0]?.total_borrowed || 0;
-        const currentInterestAccrued = loan.inr_borrowed_amount - originalBorrowedAmount;
+        let loan = await this.getActiveLoanForUpdate(connection, userId, loanId);
         
-        // Calculate total amount due including minimum interest
-        const interestDue = Math.max(minimumInterestDue, currentInterestAccrued);
-        const totalAmountDue = originalBorrowedAmount + interestDue;
+        // Full repayment also charges any interest still owed under the minimum interest policy
+        const minimumInterestShortfall = await this.calculateMinimumInterestShortfall(loan);
+        const balances = loanLedgerService.getBalances(loan);
+        const totalAmountDue = loanLedgerService.toRupees(balances.principal + balances.interest + minimumInterestShortfall);
         
         if (repayAmount > totalAmountDue) {
           throw new Error(`Repay amount exceeds total amount due. Maximum repayment: ₹${totalAmountDue}`);
@@ -275,104 +339,69 @@ const LoanService = {
           throw new Error('Insufficient INR balance');
         }
 
-        // If repaying full amount, ensure minimum interest is collected
-        let actualRepayAmount = repayAmount;
-        let isFullRepayment = false;
-        let additionalInterestNeeded = 0;
-        
-        if (repayAmount === totalAmountDue) {
-          // Full repayment - ensure minimum interest is charged
-          additionalInterestNeeded = Math.max(0, minimumInterestDue - currentInterestAccrued);
-          
-          if (additionalInterestNeeded > 0) {
-            // Add the additional interest to the loan amount
-            await connection.execute(
-              'UPDATE loans SET inr_borrowed_amount = inr_borrowed_amount + ? WHERE id = ?',
-              [additionalInterestNeeded, loan.id]
-            );
-            
-            // Update user borrowed amount to match loan amount
-            await connection.execute(
-              'UPDATE users SET borrowed_inr = borrowed_inr + ?, interest_accrued = interest_accrued + ? WHERE id = ?',
-              [additionalInterestNeeded, additionalInterestNeeded, userId]
-            );
-            
-            // Record the additional interest charge
-            await connection.execute(
-              'INSERT INTO operations (user_id, type, status, inr_amount, loan_id, notes, executed_at) VALUES (?, ?, ?, ?, ?, ?, NOW())',
-              [userId, 'INTEREST_ACCRUAL', 'EXECUTED', additionalInterestNeeded, loan.id, '30-day minimum interest charge applied']
-            );
-          }
-          
-          isFullRepayment = true;
-        }
-        
-        // Update loan amount first to determine if it's fully repaid
-        let newBorrowedAmount = loan.inr_borrowed_amount + additionalInterestNeeded - actualRepayAmount;
-        
-        // For full repayments, ensure the borrowed amount is exactly 0 (handle rounding issues)
-        if (isFullRepayment || newBorrowedAmount <= 0) {
-          newBorrowedAmount = 0;
-        }
+        const isFullRepayment = repayAmount === totalAmountDue;
+        let minimumInterestApplied = 0;
         
-        // Update user balances - if fully repaid, set borrowed_inr to 0
-        if (newBorrowedAmount === 0) {
-          await connection.execute(
-            'UPDATE users SET available_inr = available_inr - ?, borrowed_inr = 0 WHERE id = ?',
-            [actualRepayAmount, userId]
-          );
-        } else {
-          await connection.execute(
-            'UPDATE users SET available_inr = available_inr - ?, borrowed_inr = borrowed_inr - ? WHERE id = ?',
-            [actualRepayAmount, actualRepayAmount, userId]
-          );
+        if (isFullRepayment) {
+          ({ loan, applied: minimumInterestApplied } = await this.applyMinimumInterest(
+            connection, loan, `${loan.min_interest_days}-day minimum interest charge applied`
+          ));
         }
-        
+
+        // A full repayment clears the exact ledger balance; the rupee total may differ by rounding
+        const { principal, interest } = loanLedgerService.getBalances(loan);
+        const paymentPaisa = isFullRepayment ? principal + interest : loanLedgerService.toPaisa(repayAmount);
+        const split = loanLedgerService.allocatePayment(loan, paymentPaisa);
+
         await connection.execute(
-          'UPDATE loans SET inr_borrowed_amount = ? WHERE id = ?',
-          [newBorrowedAmount, loan.id]
+          'UPDATE users SET available_inr = available_inr - ? WHERE id = ?',
+          [repayAmount, userId]
         );
 
-        // Update liquidation price based on new borrowed amount
-        if (newBorrowedAmount > 0) {
-          const liquidationSellRate = Math.floor((newBorrowedAmount * 100000000) / (loan.btc_collateral_amount * 0.9));
-          await connection.execute(
-            'UPDATE loans SET liquidation_price = ? WHERE id = ?',
-            [liquidationSellRate, loan.id]
-          );
-        }
+        // Record the operation
+        const notes = isFullRepayment ? 'Complete loan repayment and collateral release' : 'Partial loan repayment';
+        const [operationResult] = await connection.execute(
+          'INSERT INTO operations (user_id, type, status, inr_amount, loan_id, notes, executed_at) VALUES (?, ?, ?, ?, ?, ?, NOW())',
+          [userId, 'LOAN_REPAY', 'EXECUTED', repayAmount, loan.id,
+            `${notes} (interest ₹${(split.interestPaid / 100).toFixed(2)}, principal ₹${(split.principalPaid / 100).toFixed(2)})`]
+        );
+
+        ({ loan } = await loanLedgerService.recordPayment(connection, loan, 'REPAYMENT', paymentPaisa, {
+          operationId: operationResult.insertId
+        }));
 
-        // If fully repaid, update loan status and return collateral
-        if (newBorrowedAmount === 0) {
+        if (isFullRepayment) {
+          // Close the loan and return collateral to available BTC
           await connection.execute(
             'UPDATE loans SET status = "REPAID", repaid_at = NOW() WHERE id = ?',
             [loan.id]
           );
 
-          // Return collateral to available BTC
           await connection.execute(
             'UPDATE users SET available_btc = available_btc + ?, collateral_btc = collateral_btc - ? WHERE id = ?',
             [loan.btc_collateral_amount, loan.btc_collateral_amount, userId]
           );
+        } else {
+          // Update liquidation price based on new borrowed amount
+          const liquidationSellRate = this.calculateLiquidationPrice(loan.inr_borrowed_amount, loan.btc_collateral_amount, loan.liquidation_ltv);
+          await connection.execute(
+            'UPDATE loans SET liquidation_price = ? WHERE id = ?',
+            [liquidationSellRate, loan.id]
+          );
         }
 
-        // Record the operation
-        await connection.execute(
-          'INSERT INTO operations (user_id, type, status, inr_amount, loan_id, notes, executed_at) VALUES (?, ?, ?, ?, ?, ?, NOW())',
-          [userId, 'LOAN_REPAY', 'EXECUTED', actualRepayAmount, loan.id, newBorrowedAmount === 0 ? 'Complete loan repayment and collateral release' : 'Partial loan repayment']
-        );
-
         // Clear user cache
         await clearUserCache(userId);
 
         return {
           loanId: loan.id,
-          repayAmount: actualRepayAmount,
-          remainingDebt: newBorrowedAmount,
-          loanStatus: newBorrowedAmount === 0 ? 'REPAID' : 'ACTIVE',
-          collateralReturned: newBorrowedAmount === 0 ? loan.btc_collateral_amount : 0,
-          minimumInterestDue,
-          minimumInterestApplied: isFullRepayment ? Math.max(0, minimumInterestDue - currentInterestAccrued) : 0
+          repayAmount,
+          remainingDebt: loan.inr_borrowed_amount,
+          loanStatus: isFullRepayment ? 'REPAID' : 'ACTIVE',
+          collateralReturned: isFullRepayment ? loan.btc_collateral_amount : 0,
+          interestPaid: split.interestPaid / 100,
+          principalPaid: split.principalPaid / 100,
+          minimumInterestApplied: minimumInterestApplied / 100
         };
       });
     } catch (error) {
@@ -382,61 +411,96 @@ const LoanService = {
   },
 
   /**
-   * Get loan status for a user
-   * @param {number} userId - ID of the user
+   * Date a fixed-term loan is settled automatically: maturity plus the grace period
+   * @param {Object} loan - Loan row
+   * @returns {Date|null} - Settlement date, or null for open-ended loans
+   */
+  getSettlementDate(loan) {
+    if (!loan.maturity_date) {
+      return null;
+    }
+    return new Date(new Date(loan.maturity_date).getTime() + MATURITY_GRACE_DAYS * DAY_MS);
+  },
+
+  /**
+   * Build the status view of a loan at the given rates
+   * @param {Object} loan - Loan row
+   * @param {Object} rates - Current calculated rates
    * @returns {Promise} - Resolves with loan status
    */
-  async getLoanStatus(userId) {
+  async buildLoanStatus(loan, rates) {
+    const isActive = loan.status === 'ACTIVE';
+    const collateralValue = (loan.btc_collateral_amount * rates.sellRate) / 100000000;
+
+    // Calculate available borrowing capacity using sell rate (what user would actually get)
+    const maxBorrowable = isActive ? Math.floor((loan.btc_collateral_amount * rates.sellRate * loan.ltv_ratio) / (100 * 100000000)) : 0;
+    const availableCapacity = isActive ? maxBorrowable - loan.inr_borrowed_amount : 0;
+
+    // Calculate current LTV using sell rate (actual liquidation value)
+    const currentLtv = collateralValue > 0 ? (loan.inr_borrowed_amount / collateralValue) * 100 : 0;
+
+    // Interest a full repayment would still add under the minimum interest policy
+    const minimumInterestShortfall = isActive ? await this.calculateMinimumInterestShortfall(loan) : 0;
+    const balances = loanLedgerService.getBalances(loan);
+
+    // Calculate liquidation price dynamically
+    const liquidationPrice = this.calculateLiquidationPrice(loan.inr_borrowed_amount, loan.btc_collateral_amount, loan.liquidation_ltv);
+
+    return {
+      loanId: loan.id,
+      status: loan.status,
+      productId: loan.product_id,
+      productName: loan.product_name || null,
+      collateralAmount: loan.btc_collateral_amount,
+      borrowedAmount: loan.inr_borrowed_amount,
+      principalAmount: balances.principal / 100,
+      interestOutstanding: balances.interest / 100,
+      interestPaid: balances.interestPaid / 100,
+      compounding: loan.compounding,
+      interestRate: loan.interest_rate,
+      ltvRatio: loan.ltv_ratio,
+      liquidationLtv: parseFloat(loan.liquidation_ltv),
+      minInterestDays: loan.min_interest_days,
+      termDays: loan.term_days,
+      maturityDate: loan.maturity_date || null,
+      settlementDate: this.getSettlementDate(loan),
+      liquidationPrice: liquidationPrice,
+      autoTopUpEnabled: Boolean(loan.auto_topup_enabled),
+      autoTopUpTriggerLtv: loan.auto_topup_trigger_ltv !== null && loan.auto_topup_trigger_ltv !== undefined ? parseFloat(loan.auto_topup_trigger_ltv) : null,
+      maxBorrowable,
+      availableCapacity,
+      currentLtv,
+      currentBtcPrice: rates.sellRate, // Use sell rate for collateral display
+      riskStatus: loanProductService.getRiskStatus(currentLtv, loan.liquidation_ltv),
+      minimumInterestDue: loanLedgerService.toRupees(minimumInterestShortfall),
+      totalDue: isActive ? loanLedgerService.toRupees(balances.principal + balances.interest + minimumInterestShortfall) : 0,
+      createdAt: loan.created_at,
+      closedAt: loan.repaid_at || loan.liquidated_at || null
+    };
+  },
+
+  /**
+   * Get the status of one of the user's loans
+   * @param {number} userId - ID of the user
+   * @param {number} loanId - ID of the loan
+   * @returns {Promise} - Resolves with loan status, or null if the user has no such loan
+   */
+  async getLoanStatus(userId, loanId) {
     try {
       const loanRows = await query(
-        `SELECT l.*, u.borrowed_inr, u.interest_accrued, u.collateral_btc
-         FROM loans l 
-         JOIN users u ON l.user_id = u.id 
-         WHERE l.user_id = ? AND l.status = 'ACTIVE'`,
-        [userId]
+        `SELECT l.*, p.name as product_name
+         FROM loans l
+         LEFT JOIN loan_products p ON p.id = l.product_id
+         WHERE l.id = ? AND l.user_id = ?`,
+        [loanId, userId]
       );
 
       if (loanRows.length === 0) {
         return null;
       }
 
-      const loan = loanRows[0];
-      
-      // Get current BTC price
-      const rates = await bitcoinDataService.getCalculatedRates();
-      
-      // Calculate available borrowing capacity using sell rate (what user would actually get)
-      const maxBorrowable = Math.floor((loan.btc_collateral_amount * rates.sellRate * loan.ltv_ratio) / (100 * 100000000));
-      const availableCapacity = maxBorrowable - loan.inr_borrowed_amount;
-      
-      // Calculate current LTV using sell rate (actual liquidation value)
-      const currentLtv = (loan.inr_borrowed_amount / ((loan.btc_collateral_amount * rates.sellRate) / 100000000)) * 100;
-      
-      // Calculate minimum interest due for display
-      const minimumInterestDue = await this.calculateMinimumInterestDue(loan);
-      
-      // Calculate liquidation price dynamically
-      // At 90% LTV: borrowed_amount / (collateral_amount * liquidation_price / 100000000) = 0.9
-      // Therefore: liquidation_price = (borrowed_amount * 100000000) / (collateral_amount * 0.9)
-      let liquidationPrice = 0;
-      if (loan.inr_borrowed_amount > 0) {
-        liquidationPrice = Math.floor((loan.inr_borrowed_amount * 100000000) / (loan.btc_collateral_amount * 0.9));
-      }
-      
-      return {
-        loanId: loan.id,
-        collateralAmount: loan.btc_collateral_amount,
-        borrowedAmount: loan.inr_borrowed_amount,
-        interestRate: loan.interest_rate,
-        ltvRatio: loan.ltv_ratio,
-        liquidationPrice: liquidationPrice,
-        maxBorrowable,
-        availableCapacity,
-        currentLtv,
-        currentBtcPrice: rates.sellRate, // Use sell rate for collateral display
-        riskStatus: currentLtv >= 90 ? 'LIQUIDATE' : currentLtv >= 85 ? 'WARNING' : 'SAFE',
-        minimumInterestDue
-      };
+      const rates = await priceGuardService.getValidatedRates();
+      return await this.buildLoanStatus(loanRows[0], rates);
     } catch (error) {
       console.error('Error getting loan status:', error);
       throw error;
@@ -444,240 +508,230 @@ const LoanService = {
   },
 
   /**
-   * Accrue daily interest on all active loans
-   * @returns {Promise} - Resolves with accrual results
+   * List a user's loans, active ones first
+   * @param {number} userId - ID of the user
+   * @param {boolean} includeClosed - Include repaid and liquidated loans
+   * @returns {Promise} - Resolves with loan statuses
    */
-  async accrueInterest() {
+  async getUserLoans(userId, includeClosed = false) {
     try {
-      const activeLoans = await query(
-        'SELECT * FROM loans WHERE status = "ACTIVE" AND inr_borrowed_amount > 0'
+      const loanRows = await query(
+        `SELECT l.*, p.name as product_name
+         FROM loans l
+         LEFT JOIN loan_products p ON p.id = l.product_id
+         WHERE l.user_id = ? ${includeClosed ? '' : "AND l.status = 'ACTIVE'"}
+         ORDER BY l.status = 'ACTIVE' DESC, l.created_at DESC`,
+        [userId]
       );
 
-      const results = [];
-      
-      for (const loan of activeLoans) {
-        // Calculate daily interest: (borrowed_amount * interest_rate) / 365
-        const dailyInterest = Math.round((loan.inr_borrowed_amount * loan.interest_rate) / 365 / 100);
-        
-        if (dailyInterest > 0) {
-          await transaction(async (connection) => {
-            // Update user balances
-            await connection.execute(
-              'UPDATE users SET borrowed_inr = borrowed_inr + ?, interest_accrued = interest_accrued + ? WHERE id = ?',
-              [dailyInterest, dailyInterest, loan.user_id]
-            );
-
-            // Update loan amount
-            await connection.execute(
-              'UPDATE loans SET inr_borrowed_amount = inr_borrowed_amount + ? WHERE id = ?',
-              [dailyInterest, loan.id]
-            );
-
-            // Record the operation
-            await connection.execute(
-              'INSERT INTO operations (user_id, type, status, inr_amount, loan_id, notes, executed_at) VALUES (?, ?, ?, ?, ?, ?, NOW())',
-              [loan.user_id, 'INTEREST_ACCRUAL', 'EXECUTED', dailyInterest, loan.id, 'Daily interest accrual']
-            );
-          });
-
-          results.push({
-            loanId: loan.id,
-            userId: loan.user_id,
-            interestAccrued: dailyInterest,
-            newBorrowedAmount: loan.inr_borrowed_amount + dailyInterest
-          });
-        }
+      if (loanRows.length === 0) {
+        return [];
       }
 
-      return results;
+      const rates = await priceGuardService.getValidatedRates();
+      const loans = [];
+      for (const loan of loanRows) {
+        loans.push(await this.buildLoanStatus(loan, rates));
+      }
+      return loans;
     } catch (error) {
-      console.error('Error accruing interest:', error);
+      console.error('Error getting user loans:', error);
       throw error;
     }
   },
 
   /**
-   * Execute partial liquidation for a loan
-   * @param {number} loanId - ID of the loan to liquidate
-   * @returns {Promise} - Resolves with liquidation details
+   * Accrue interest on all active loans for every IST day since their last accrual,
+   * up to and including today. Days missed while the job was not running are
+   * back-filled one day at a time, each with its own INTEREST_ACCRUAL operation,
+   * and every back-filled gap is recorded in interest_accrual_gaps.
+   * Safe to call more than once a day; each loan is accrued at most once per day.
+   * @returns {Promise} - Resolves with { accruals, gaps }
    */
-  async executePartialLiquidation(loanId) {
+  async accrueInterest() {
     try {
-      return await transaction(async (connection) => {
-        // Get loan details
-        const [loanRows] = await connection.execute(
-          'SELECT * FROM loans WHERE id = ? AND status = "ACTIVE"',
-          [loanId]
-        );
+      const today = getIstDate();
+      const dueLoans = await query(
+        `SELECT id, user_id, DATE_FORMAT(interest_accrued_through, '%Y-%m-%d') as accrued_through
+         FROM loans
+         WHERE status = 'ACTIVE'
+           AND (principal_paisa > 0 OR compounded_interest_paisa > 0)
+           AND (interest_accrued_through IS NULL OR interest_accrued_through < ?)
+         ORDER BY id`,
+        [today]
+      );
 
-        if (loanRows.length === 0) {
-          throw new Error('Active loan not found');
-        }
+      const accruals = [];
+      const gaps = [];
 
-        const loan = loanRows[0];
-        
-        // Get current BTC price
-        const rates = await bitcoinDataService.getCalculatedRates();
-        
-        // Calculate BTC to sell to restore 60% LTV using sell rate
-        const targetLtv = 0.60;
-        const currentCollateralValue = (loan.btc_collateral_amount * rates.sellRate) / 100000000;
-        const targetBorrowAmount = currentCollateralValue * targetLtv;
-        const excessDebt = loan.inr_borrowed_amount - targetBorrowAmount;
-        
-        if (excessDebt <= 0) {
-          throw new Error('No liquidation needed - LTV is within limits');
+      for (const dueLoan of dueLoans) {
+        // Without a previous accrual there is no known gap, so only today is accrued
+        const days = [];
+        for (let day = dueLoan.accrued_through ? addDays(dueLoan.accrued_through, 1) : today; day <= today; day = addDays(day, 1)) {
+          days.push(day);
         }
 
-        // Calculate BTC to sell (add small buffer for slippage)
-        const btcToSell = Math.ceil((excessDebt * 1.02 * 100000000) / rates.sellRate);
-        const inrFromSale = Math.floor((btcToSell * rates.sellRate) / 100000000);
-        const debtReduction = Math.min(inrFromSale, loan.inr_borrowed_amount);
-        const remainingInr = inrFromSale - debtReduction;
-
-        // Update user balances
-        await connection.execute(
-          'UPDATE users SET borrowed_inr = borrowed_inr - ?, interest_accrued = 0, collateral_btc = collateral_btc - ?, available_inr = available_inr + ? WHERE id = ?',
-          [debtReduction, btcToSell, remainingInr, loan.user_id]
-        );
+        const backfilled = [];
+        for (const day of days) {
+          const result = await this.accrueInterestForDay(dueLoan.id, day, day !== today);
+          if (result) {
+            accruals.push(result);
+            if (result.backfilled) {
+              backfilled.push(result);
+            }
+          }
+        }
 
-        // Update loan
-        const newBorrowedAmount = loan.inr_borrowed_amount - debtReduction;
-        const newCollateralAmount = loan.btc_collateral_amount - btcToSell;
-        
-        await connection.execute(
-          'UPDATE loans SET inr_borrowed_amount = ?, btc_collateral_amount = ? WHERE id = ?',
-          [newBorrowedAmount, newCollateralAmount, loan.id]
-        );
+        if (backfilled.length > 0) {
+          const interestPaisa = backfilled.reduce((sum, result) => sum + loanLedgerService.toPaisa(result.interestAccrued), 0);
+          const gap = {
+            loanId: dueLoan.id,
+            userId: dueLoan.user_id,
+            fromDate: backfilled[0].accrualDate,
+            toDate: backfilled[backfilled.length - 1].accrualDate,
+            days: backfilled.length,
+            interestAccrued: interestPaisa / 100
+          };
+          await query(
+            'INSERT INTO interest_accrual_gaps (loan_id, user_id, from_date, to_date, days, interest_paisa) VALUES (?, ?, ?, ?, ?, ?)',
+            [gap.loanId, gap.userId, gap.fromDate, gap.toDate, gap.days, interestPaisa]
+          );
+          gaps.push(gap);
+        }
 
-        // Record the operation
-        await connection.execute(
-          'INSERT INTO operations (user_id, type, status, inr_amount, btc_amount, execution_price, loan_id, notes, executed_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, NOW())',
-          [loan.user_id, 'PARTIAL_LIQUIDATION', 'EXECUTED', debtReduction, btcToSell, rates.sellRate, loan.id, 'Partial liquidation - LTV reduced from 90% to 60%']
-        );
+        await clearUserCache(dueLoan.user_id);
+      }
 
-        return {
-          loanId: loan.id,
-          btcSold: btcToSell,
-          inrFromSale,
-          debtReduction,
-          remainingInr,
-          newBorrowedAmount,
-          newCollateralAmount,
-          newLtv: (newBorrowedAmount / ((newCollateralAmount * rates.sellRate) / 100000000)) * 100
-        };
-      });
+      return { accruals, gaps };
     } catch (error) {
-      console.error('Error executing partial liquidation:', error);
+      console.error('Error accruing interest:', error);
       throw error;
     }
   },
 
   /**
-   * Execute full liquidation for a loan
-   * @param {number} userId - ID of the user
-   * @returns {Promise} - Resolves with liquidation details
+   * Accrue one day of interest on a loan unless that day is already accrued
+   * @param {number} loanId - ID of the loan
+   * @param {string} accrualDate - IST day (YYYY-MM-DD) to accrue
+   * @param {boolean} backfilled - Whether the day was missed by an earlier run
+   * @returns {Promise} - Resolves with the accrual, or null when nothing was charged
    */
-  async executeFullLiquidation(userId) {
-    try {
-      return await transaction(async (connection) => {
-        // Get active loan
-        const [loanRows] = await connection.execute(
-          'SELECT * FROM loans WHERE user_id = ? AND status = "ACTIVE"',
-          [userId]
-        );
+  async accrueInterestForDay(loanId, accrualDate, backfilled) {
+    return transaction(async (connection) => {
+      // Re-check under lock in case another run accrued the day first
+      const [loanRows] = await connection.execute(
+        `SELECT * FROM loans
+         WHERE id = ? AND status = 'ACTIVE' AND (interest_accrued_through IS NULL OR interest_accrued_through < ?)
+         FOR UPDATE`,
+        [loanId, accrualDate]
+      );
 
-        if (loanRows.length === 0) {
-          throw new Error('No active loan found');
-        }
+      if (loanRows.length === 0) {
+        return null;
+      }
 
-        const loan = loanRows[0];
-        
-        // Calculate minimum interest due (30-day minimum policy)
-        const minimumInterestDue = await this.calculateMinimumInterestDue(loan);
-        
-        // Get original borrowed amount to calculate current interest accrued
-        const borrowOperations = await query(
-          'SELECT SUM(inr_amount) as total_borrowed FROM operations WHERE loan_id = ? AND type = "LOAN_BORROW"',
-          [loan.id]
-        );
-        const originalBorrowedAmount = borrowOperations[0]?.total_borrowed || 0;
-        const currentInterestAccrued = loan.inr_borrowed_amount - originalBorrowedAmount;
-        
-        // Calculate additional interest needed to meet minimum
-        const additionalInterestNeeded = Math.max(0, minimumInterestDue - currentInterestAccrued);
-        
-        // Apply additional interest if needed
-        let finalDebtAmount = loan.inr_borrowed_amount;
-        if (additionalInterestNeeded > 0) {
-          finalDebtAmount = loan.inr_borrowed_amount + additionalInterestNeeded;
-          
-          // Update loan and user balances with additional interest
-          await connection.execute(
-            'UPDATE loans SET inr_borrowed_amount = ? WHERE id = ?',
-            [finalDebtAmount, loan.id]
-          );
-          
-          await connection.execute(
-            'UPDATE users SET borrowed_inr = borrowed_inr + ?, interest_accrued = interest_accrued + ? WHERE id = ?',
-            [additionalInterestNeeded, additionalInterestNeeded, userId]
-          );
-          
-          // Record the additional interest charge
-          await connection.execute(
-            'INSERT INTO operations (user_id, type, status, inr_amount, loan_id, notes, executed_at) VALUES (?, ?, ?, ?, ?, ?, NOW())',
-            [userId, 'INTEREST_ACCRUAL', 'EXECUTED', additionalInterestNeeded, loan.id, '30-day minimum interest charge applied before full liquidation']
-          );
-        }
-        
-        // Get current BTC price
-        const rates = await bitcoinDataService.getCalculatedRates();
-        
-        // Calculate BTC to sell to cover entire debt (including minimum interest)
-        const btcToSell = Math.ceil((finalDebtAmount * 100000000) / rates.sellRate);
-        const remainingCollateral = loan.btc_collateral_amount - btcToSell;
-        
-        if (remainingCollateral < 0) {
-          throw new Error('Insufficient collateral for full liquidation including minimum interest');
-        }
+      const loan = loanRows[0];
+      const dailyInterest = loanLedgerService.calculateDailyInterest(loan);
 
-        // Update user balances
+      if (dailyInterest <= 0) {
         await connection.execute(
-          'UPDATE users SET borrowed_inr = 0, interest_accrued = 0, collateral_btc = 0, available_btc = available_btc + ? WHERE id = ?',
-          [remainingCollateral, userId]
+          'UPDATE loans SET interest_accrued_through = ? WHERE id = ?',
+          [accrualDate, loan.id]
         );
+        return null;
+      }
 
-        // Update loan status
-        await connection.execute(
-          'UPDATE loans SET inr_borrowed_amount = 0, btc_collateral_amount = 0, status = "REPAID", repaid_at = NOW() WHERE id = ?',
-          [loan.id]
-        );
+      const { principal, interest } = loanLedgerService.getBalances(loan);
+      const borrowedIncrease = loanLedgerService.toRupees(principal + interest + dailyInterest) - loan.inr_borrowed_amount;
 
-        // Record the operation with detailed structured notes
-        const liquidationNotes = JSON.stringify({
-          description: 'Manual full liquidation',
-          debtCleared: finalDebtAmount,
-          btcSold: btcToSell,
-          btcReturned: remainingCollateral,
-          originalCollateral: loan.btc_collateral_amount,
-          minimumInterestApplied: additionalInterestNeeded,
-          sellRate: rates.sellRate
-        });
-        
-        await connection.execute(
-          'INSERT INTO operations (user_id, type, status, inr_amount, btc_amount, execution_price, loan_id, notes, executed_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, NOW())',
-          [userId, 'FULL_LIQUIDATION', 'EXECUTED', finalDebtAmount, btcToSell, rates.sellRate, loan.id, liquidationNotes]
-        );
+      // Record the operation; the exact amount is in the notes since inr_amount is whole rupees
+      const notes = backfilled
+        ? `Back-filled interest accrual for ${accrualDate} (₹${(dailyInterest / 100).toFixed(2)})`
+        : `Daily interest accrual (₹${(dailyInterest / 100).toFixed(2)})`;
+      const [operationResult] = await connection.execute(
+        'INSERT INTO operations (user_id, type, status, inr_amount, loan_id, notes, executed_at) VALUES (?, ?, ?, ?, ?, ?, NOW())',
+        [loan.user_id, 'INTEREST_ACCRUAL', 'EXECUTED', borrowedIncrease, loan.id, notes]
+      );
 
-        return {
-          loanId: loan.id,
-          btcSold: btcToSell,
-          debtCleared: finalDebtAmount,
-          collateralReturned: remainingCollateral,
-          loanStatus: 'REPAID',
-          minimumInterestApplied: additionalInterestNeeded
-        };
+      const updatedLoan = await loanLedgerService.recordEntry(connection, loan, {
+        type: 'INTEREST',
+        interest: dailyInterest,
+        accrualDate,
+        operationId: operationResult.insertId
       });
+
+      return {
+        loanId: loan.id,
+        userId: loan.user_id,
+        accrualDate,
+        backfilled,
+        interestAccrued: dailyInterest / 100,
+        newBorrowedAmount: updatedLoan.inr_borrowed_amount
+      };
+    });
+  },
+
+  /**
+   * Back-filled interest accrual gaps, most recent first
+   * @param {number} limit - Maximum number of gaps to return
+   * @returns {Promise} - Resolves with the gaps
+   */
+  async getInterestAccrualGaps(limit = 50) {
+    const rowLimit = Math.min(Math.max(parseInt(limit, 10) || 50, 1), 200);
+    const rows = await query(
+      `SELECT g.*, DATE_FORMAT(g.from_date, '%Y-%m-%d') as from_day, DATE_FORMAT(g.to_date, '%Y-%m-%d') as to_day,
+              u.name as user_name, u.email as user_email
+       FROM interest_accrual_gaps g
+       JOIN users u ON u.id = g.user_id
+       ORDER BY g.id DESC
+       LIMIT ${rowLimit}`
+    );
+
+    return rows.map(row => ({
+      id: row.id,
+      loan_id: row.loan_id,
+      user_id: row.user_id,
+      user_name: row.user_name,
+      user_email: row.user_email,
+      from_date: row.from_day,
+      to_date: row.to_day,
+      days: row.days,
+      interest_accrued: Number(row.interest_paisa) / 100,
+      created_at: row.created_at
+    }));
+  },
+
+  /**
+   * Close a loan at the user's request: the liquidation engine sells enough collateral
+   * to clear the debt, including any minimum interest still owed, and releases the rest
+   * @param {number} userId - ID of the user
+   * @param {number} loanId - ID of the loan to close
+   * @param {string} description - Reason recorded on the operation
+   * @returns {Promise} - Resolves with liquidation details
+   */
+  async executeFullLiquidation(userId, loanId, description = 'Manual full liquidation') {
+    try {
+      // Required lazily: the liquidation engine depends on this service
+      const liquidationEngine = require('./liquidationEngine');
+      const rates = await priceGuardService.getValidatedRates();
+      const result = await liquidationEngine.executeFullClose(loanId, rates.sellRate, {
+        source: 'USER',
+        userId,
+        description,
+        penaltyBps: 0
+      });
+
+      return {
+        loanId: result.loanId,
+        btcSold: result.btcSold,
+        debtCleared: result.debtReduction,
+        interestPaid: result.interestPaid,
+        principalPaid: result.principalPaid,
+        collateralReturned: result.collateralReturned,
+        shortfall: result.shortfall,
+        loanStatus: result.loanStatus,
+        minimumInterestApplied: result.minimumInterestApplied
+      };
     } catch (error) {
       console.error('Error executing full liquidation:', error);
       throw error;
@@ -693,7 +747,7 @@ const LoanService = {
   async getLoanHistory(userId, loanId = null) {
     try {
       let query_str = `
-        SELECT type, inr_amount, btc_amount, execution_price, notes, created_at, executed_at
+        SELECT loan_id, type, inr_amount, btc_amount, execution_price, notes, created_at, executed_at
         FROM operations 
         WHERE user_id = ? AND type IN ('LOAN_CREATE', 'LOAN_BORROW', 'LOAN_REPAY', 'LOAN_ADD_COLLATERAL', 'INTEREST_ACCRUAL', 'PARTIAL_LIQUIDATION', 'FULL_LIQUIDATION')
       `;
@@ -715,70 +769,98 @@ const LoanService = {
     }
   },
 
+  /**
+   * Get the interest ledger statement of one of the user's loans
+   * @param {number} userId - ID of the user
+   * @param {number} loanId - ID of the loan
+   * @returns {Promise} - Resolves with the statement, or null if the user has no such loan
+   */
+  async getLoanStatement(userId, loanId) {
+    try {
+      const loanRows = await query(
+        'SELECT * FROM loans WHERE id = ? AND user_id = ?',
+        [loanId, userId]
+      );
+
+      if (loanRows.length === 0) {
+        return null;
+      }
+
+      return await loanLedgerService.getStatement(loanRows[0]);
+    } catch (error) {
+      console.error('Error getting loan statement:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Move available BTC of the loan's owner into the loan's collateral
+   * @param {Object} connection - Transaction connection
+   * @param {Object} loan - Loan row (locked with FOR UPDATE)
+   * @param {number} additionalCollateral - BTC amount in satoshis
+   * @param {string} notes - Notes of the LOAN_ADD_COLLATERAL operation
+   * @returns {Promise} - Resolves with the new total collateral and liquidation price
+   */
+  async moveCollateralIntoLoan(connection, loan, additionalCollateral, notes) {
+    const [userRows] = await connection.execute(
+      'SELECT available_btc, collateral_btc FROM users WHERE id = ? FOR UPDATE',
+      [loan.user_id]
+    );
+
+    if (userRows.length === 0) {
+      throw new Error('User not found');
+    }
+
+    if (userRows[0].available_btc < additionalCollateral) {
+      throw new Error('Insufficient BTC balance');
+    }
+
+    const newTotalCollateral = loan.btc_collateral_amount + additionalCollateral;
+    // Calculate liquidation price as sell rate based on current borrowed amount and new collateral
+    const liquidationPrice = loan.inr_borrowed_amount > 0 ? 
+      this.calculateLiquidationPrice(loan.inr_borrowed_amount, newTotalCollateral, loan.liquidation_ltv) : 0;
+
+    // Update user balances - move BTC from available to collateral
+    await connection.execute(
+      'UPDATE users SET available_btc = available_btc - ?, collateral_btc = collateral_btc + ? WHERE id = ?',
+      [additionalCollateral, additionalCollateral, loan.user_id]
+    );
+
+    // Update loan with new collateral amount and recalculated liquidation price
+    await connection.execute(
+      'UPDATE loans SET btc_collateral_amount = ?, liquidation_price = ? WHERE id = ?',
+      [newTotalCollateral, liquidationPrice, loan.id]
+    );
+
+    // Record the operation
+    await connection.execute(
+      'INSERT INTO operations (user_id, type, status, btc_amount, loan_id, notes, executed_at) VALUES (?, ?, ?, ?, ?, ?, NOW())',
+      [loan.user_id, 'LOAN_ADD_COLLATERAL', 'EXECUTED', additionalCollateral, loan.id, notes]
+    );
+
+    return { newTotalCollateral, liquidationPrice };
+  },
+
   /**
    * Add more BTC collateral to existing loan
    * @param {number} userId - ID of the user
+   * @param {number} loanId - ID of the loan
    * @param {number} additionalCollateral - Additional BTC amount in satoshis
    * @returns {Promise} - Resolves with updated loan details
    */
-  async addCollateralToLoan(userId, additionalCollateral) {
+  async addCollateralToLoan(userId, loanId, additionalCollateral) {
     try {
       if (additionalCollateral <= 0) {
         throw new Error('Additional collateral amount must be greater than 0');
       }
 
       return await transaction(async (connection) => {
-        // Get active loan for user
-        const [loanRows] = await connection.execute(
-          'SELECT * FROM loans WHERE user_id = ? AND status = "ACTIVE"',
-          [userId]
-        );
-
-        if (loanRows.length === 0) {
-          throw new Error('No active loan found');
-        }
-
-        const loan = loanRows[0];
-        
-        // Get current user balances
-        const [userRows] = await connection.execute(
-          'SELECT available_btc, collateral_btc FROM users WHERE id = ?',
-          [userId]
-        );
-
-        if (userRows.length === 0) {
-          throw new Error('User not found');
-        }
-
-        const currentBalances = userRows[0];
-        
-        if (currentBalances.available_btc < additionalCollateral) {
-          throw new Error('Insufficient BTC balance');
-        }
+        const loan = await this.getActiveLoanForUpdate(connection, userId, loanId);
 
         // Get current BTC price for updated liquidation calculation
-        const rates = await bitcoinDataService.getCalculatedRates();
-        const newTotalCollateral = loan.btc_collateral_amount + additionalCollateral;
-        // Calculate liquidation price as sell rate based on current borrowed amount and new collateral
-        const liquidationPrice = loan.inr_borrowed_amount > 0 ? 
-          Math.floor((loan.inr_borrowed_amount * 100000000) / (newTotalCollateral * 0.9)) : 0;
-
-        // Update user balances - move BTC from available to collateral
-        await connection.execute(
-          'UPDATE users SET available_btc = available_btc - ?, collateral_btc = collateral_btc + ? WHERE id = ?',
-          [additionalCollateral, additionalCollateral, userId]
-        );
-
-        // Update loan with new collateral amount and recalculated liquidation price
-        await connection.execute(
-          'UPDATE loans SET btc_collateral_amount = ?, liquidation_price = ? WHERE id = ?',
-          [newTotalCollateral, liquidationPrice, loan.id]
-        );
-
-        // Record the operation
-        await connection.execute(
-          'INSERT INTO operations (user_id, type, status, btc_amount, loan_id, notes, executed_at) VALUES (?, ?, ?, ?, ?, ?, NOW())',
-          [userId, 'LOAN_ADD_COLLATERAL', 'EXECUTED', additionalCollateral, loan.id, 'Additional collateral added to improve LTV ratio']
+        const rates = await priceGuardService.getValidatedRates();
+        const { newTotalCollateral, liquidationPrice } = await this.moveCollateralIntoLoan(
+          connection, loan, additionalCollateral, 'Additional collateral added to improve LTV ratio'
         );
 
         // Clear user cache
@@ -809,151 +891,208 @@ const LoanService = {
   },
 
   /**
-   * User-initiated partial liquidation
+   * Turn automatic collateral top-up on or off for a loan
    * @param {number} userId - ID of the user
-   * @param {number} btcAmount - Amount of BTC to liquidate
-   * @returns {Promise} - Resolves with liquidation details
+   * @param {number} loanId - ID of the loan
+   * @param {boolean} enabled - Whether top-ups are enabled
+   * @param {number|null} triggerLtv - LTV that triggers a top-up; required when enabling
+   * @returns {Promise} - Resolves with the auto top-up settings
    */
-  async executeUserPartialLiquidation(userId, btcAmount) {
+  async setAutoTopUp(userId, loanId, enabled, triggerLtv) {
     try {
-      if (btcAmount <= 0) {
-        throw new Error('BTC amount must be greater than 0');
-      }
-
       return await transaction(async (connection) => {
-        // Get active loan for user
+        const loan = await this.getActiveLoanForUpdate(connection, userId, loanId);
+
+        if (enabled && !(triggerLtv > Number(loan.ltv_ratio) && triggerLtv < Number(loan.liquidation_ltv))) {
+          throw new Error(`Auto top-up trigger must be above ${parseFloat(loan.ltv_ratio)}% and below the ${parseFloat(loan.liquidation_ltv)}% liquidation LTV`);
+        }
+
+        // Disabling keeps the last trigger so re-enabling can offer it again
+        const trigger = enabled ? triggerLtv : loan.auto_topup_trigger_ltv;
+        await connection.execute(
+          'UPDATE loans SET auto_topup_enabled = ?, auto_topup_trigger_ltv = ? WHERE id = ?',
+          [Boolean(enabled), trigger, loan.id]
+        );
+
+        return {
+          loanId: loan.id,
+          autoTopUpEnabled: Boolean(enabled),
+          autoTopUpTriggerLtv: trigger !== null ? parseFloat(trigger) : null
+        };
+      });
+    } catch (error) {
+      console.error('Error setting auto top-up:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Top up a loan's collateral from the owner's available BTC when its LTV is at or above
+   * the auto top-up trigger. Moves enough BTC to restore the loan's LTV ratio, or all
+   * available BTC when that is not enough.
+   * @param {number} loanId - ID of the loan
+   * @param {number} sellRate - BTC sell rate (INR) to value the collateral at
+   * @returns {Promise} - Resolves with the top-up, or null when none was needed or possible
+   */
+  async autoTopUpCollateral(loanId, sellRate) {
+    try {
+      const result = await transaction(async (connection) => {
         const [loanRows] = await connection.execute(
-          'SELECT * FROM loans WHERE user_id = ? AND status = "ACTIVE"',
-          [userId]
+          'SELECT * FROM loans WHERE id = ? AND status = "ACTIVE" AND auto_topup_enabled = TRUE FOR UPDATE',
+          [loanId]
         );
 
         if (loanRows.length === 0) {
-          throw new Error('No active loan found');
+          return null;
         }
 
         const loan = loanRows[0];
-        const btcToSell = Math.floor(btcAmount * 100000000); // Convert to satoshis
-        
-        if (btcToSell > loan.btc_collateral_amount) {
-          throw new Error('Amount exceeds available collateral');
-        }
-        
-        // Get current BTC price
-        const rates = await bitcoinDataService.getCalculatedRates();
-        
-        // Calculate INR proceeds from BTC sale
-        const inrFromSale = Math.round((btcToSell * rates.sellRate) / 100000000);
-        
-        // Calculate total debt including minimum interest
-        const minimumInterestDue = await this.calculateMinimumInterestDue(loan);
-        const totalDebt = loan.inr_borrowed_amount + minimumInterestDue;
-        
-        // Apply proceeds to debt first, then to user balance
-        const debtReduction = Math.min(inrFromSale, totalDebt);
-        const remainingInr = inrFromSale - debtReduction;
-        
-        // Update user balances
-        await connection.execute(
-          'UPDATE users SET borrowed_inr = GREATEST(0, borrowed_inr - ?), interest_accrued = GREATEST(0, interest_accrued - ?), collateral_btc = collateral_btc - ?, available_inr = available_inr + ? WHERE id = ?',
-          [debtReduction, debtReduction, btcToSell, remainingInr, userId]
-        );
+        const collateralValue = (loan.btc_collateral_amount * sellRate) / 100000000;
+        const previousLtv = collateralValue > 0 ? (loan.inr_borrowed_amount / collateralValue) * 100 : 0;
 
-        // Update loan
-        const newBorrowedAmount = Math.max(0, loan.inr_borrowed_amount - debtReduction);
-        const newCollateralAmount = loan.btc_collateral_amount - btcToSell;
-        
-        // If loan is fully paid off, close it
-        if (newBorrowedAmount === 0) {
-          await connection.execute(
-            'UPDATE loans SET status = "REPAID", inr_borrowed_amount = 0, btc_collateral_amount = ?, repaid_at = NOW() WHERE id = ?',
-            [newCollateralAmount, loan.id]
-          );
-          
-          // Move remaining collateral back to available balance if any
-          if (newCollateralAmount > 0) {
-            await connection.execute(
-              'UPDATE users SET available_btc = available_btc + ?, collateral_btc = collateral_btc - ? WHERE id = ?',
-              [newCollateralAmount, newCollateralAmount, userId]
-            );
-          }
-        } else {
-          await connection.execute(
-            'UPDATE loans SET inr_borrowed_amount = ?, btc_collateral_amount = ? WHERE id = ?',
-            [newBorrowedAmount, newCollateralAmount, loan.id]
-          );
+        if (loan.inr_borrowed_amount <= 0 || previousLtv < Number(loan.auto_topup_trigger_ltv)) {
+          return null;
         }
 
-        // Record the operation
-        const operationType = newBorrowedAmount === 0 ? 'FULL_LIQUIDATION' : 'PARTIAL_LIQUIDATION';
-        
-        // Create structured JSON notes for consistent display
-        const operationNotes = newBorrowedAmount === 0 ? 
-          JSON.stringify({
-            type: 'user_initiated_full_liquidation',
-            originalCollateral: (loan.btc_collateral_amount / 100000000).toFixed(8),
-            liquidatedBtc: btcAmount,
-            remainingBtc: (newCollateralAmount / 100000000).toFixed(8),
-            btcReturned: (newCollateralAmount / 100000000).toFixed(8),
-            inrFromSale: inrFromSale,
-            debtReduction: debtReduction,
-            remainingInr: remainingInr,
-            executionPrice: rates.sellRate,
-            loanFullyRepaid: true,
-            message: `User-initiated full liquidation - loan fully repaid. Original collateral: ${(loan.btc_collateral_amount / 100000000).toFixed(8)} BTC, liquidated: ${btcAmount} BTC, remaining: ${(newCollateralAmount / 100000000).toFixed(8)} BTC`
-          }) :
-          JSON.stringify({
-            type: 'user_initiated_partial_liquidation',
-            liquidatedBtc: btcAmount,
-            inrFromSale: inrFromSale,
-            debtReduction: debtReduction,
-            remainingInr: remainingInr,
-            executionPrice: rates.sellRate,
-            newBorrowedAmount: newBorrowedAmount,
-            newCollateralAmount: (newCollateralAmount / 100000000).toFixed(8),
-            message: `User-initiated partial liquidation - debt reduced by ₹${debtReduction.toLocaleString()}`
-          });
-          
-        await connection.execute(
-          'INSERT INTO operations (user_id, type, status, inr_amount, btc_amount, execution_price, loan_id, notes, executed_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, NOW())',
-          [userId, operationType, 'EXECUTED', debtReduction, btcToSell, rates.sellRate, loan.id, operationNotes]
+        const [userRows] = await connection.execute(
+          'SELECT available_btc FROM users WHERE id = ? FOR UPDATE',
+          [loan.user_id]
         );
+        const availableBtc = userRows.length > 0 ? userRows[0].available_btc : 0;
 
-        // Clear user cache
-        await clearUserCache(userId);
-        
-        // Calculate new LTV if loan is still active
-        let newLtv = 0;
-        if (newBorrowedAmount > 0 && newCollateralAmount > 0) {
-          newLtv = (newBorrowedAmount / ((newCollateralAmount * rates.sellRate) / 100000000)) * 100;
+        const requiredCollateral = Math.ceil((loan.inr_borrowed_amount * 100 * 100000000) / (sellRate * loan.ltv_ratio));
+        const neededBtc = requiredCollateral - loan.btc_collateral_amount;
+        const btcAdded = Math.min(neededBtc, availableBtc);
+
+        if (btcAdded <= 0) {
+          return null;
         }
 
+        const { newTotalCollateral, liquidationPrice } = await this.moveCollateralIntoLoan(
+          connection, loan, btcAdded,
+          `Automatic collateral top-up at ${previousLtv.toFixed(2)}% LTV (trigger ${parseFloat(loan.auto_topup_trigger_ltv)}%)`
+        );
+
         return {
           loanId: loan.id,
-          btcSold: btcToSell,
-          btcSoldFormatted: btcAmount,
-          inrFromSale,
-          debtReduction,
-          remainingInr,
-          newBorrowedAmount,
-          newCollateralAmount,
-          newLtv,
-          loanClosed: newBorrowedAmount === 0,
-          executionPrice: rates.sellRate
+          userId: loan.user_id,
+          btcAdded,
+          previousLtv,
+          newLtv: (loan.inr_borrowed_amount / ((newTotalCollateral * sellRate) / 100000000)) * 100,
+          newLiquidationPrice: liquidationPrice,
+          fullyRestored: btcAdded === neededBtc
         };
       });
+
+      if (result) {
+        await clearUserCache(result.userId);
+      }
+      return result;
+    } catch (error) {
+      console.error('Error topping up loan collateral:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * User-initiated partial liquidation through the liquidation engine
+   * @param {number} userId - ID of the user
+   * @param {number} loanId - ID of the loan
+   * @param {number} btcAmount - Amount of BTC to liquidate
+   * @returns {Promise} - Resolves with liquidation details
+   */
+  async executeUserPartialLiquidation(userId, loanId, btcAmount) {
+    try {
+      if (btcAmount <= 0) {
+        throw new Error('BTC amount must be greater than 0');
+      }
+
+      // Required lazily: the liquidation engine depends on this service
+      const liquidationEngine = require('./liquidationEngine');
+      const btcToSell = Math.floor(btcAmount * 100000000); // Convert to satoshis
+      const rates = await priceGuardService.getValidatedRates();
+      const result = await liquidationEngine.executeUserSale(userId, loanId, rates.sellRate, btcToSell);
+
+      return {
+        loanId: result.loanId,
+        btcSold: result.btcSold,
+        btcSoldFormatted: btcAmount,
+        inrFromSale: result.inrProceeds,
+        debtReduction: result.debtReduction,
+        remainingInr: result.inrReturned,
+        newBorrowedAmount: result.remainingDebt,
+        newCollateralAmount: result.remainingCollateral,
+        collateralReturned: result.collateralReturned,
+        newLtv: result.newLtv,
+        loanClosed: result.loanStatus !== 'ACTIVE',
+        executionPrice: rates.sellRate
+      };
     } catch (error) {
       console.error('Error executing user partial liquidation:', error);
       throw error;
     }
   },
 
+  /**
+   * Find fixed-term loans that are owed a maturity reminder
+   * @returns {Promise} - Resolves with loans and the reminder (days before maturity) each is due
+   */
+  async getLoansDueForMaturityReminder() {
+    try {
+      const firstReminderDays = Math.max(...MATURITY_REMINDER_DAYS);
+      const loans = await query(
+        `SELECT id, user_id, inr_borrowed_amount, maturity_date, maturity_reminder_days
+         FROM loans
+         WHERE status = 'ACTIVE'
+           AND maturity_date IS NOT NULL
+           AND maturity_date <= DATE_ADD(NOW(), INTERVAL ? DAY)
+           AND (maturity_reminder_days IS NULL OR maturity_reminder_days > 0)`,
+        [firstReminderDays]
+      );
+
+      const now = Date.now();
+      return loans
+        .map(loan => {
+          const daysRemaining = Math.max(0, Math.ceil((new Date(loan.maturity_date).getTime() - now) / DAY_MS));
+          // Smallest reminder that has been reached; skipped reminders are not sent late
+          const reminderDays = Math.min(...MATURITY_REMINDER_DAYS.filter(days => days >= daysRemaining));
+          return { ...loan, days_remaining: daysRemaining, reminder_days: reminderDays, settlement_date: this.getSettlementDate(loan) };
+        })
+        .filter(loan => loan.maturity_reminder_days === null || loan.reminder_days < loan.maturity_reminder_days);
+    } catch (error) {
+      console.error('Error finding loans due for maturity reminder:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Find fixed-term loans whose grace period after maturity has ended
+   * @returns {Promise} - Resolves with loans to settle
+   */
+  async getLoansDueForSettlement() {
+    try {
+      return await query(
+        `SELECT id, user_id, inr_borrowed_amount, btc_collateral_amount, maturity_date
+         FROM loans
+         WHERE status = 'ACTIVE'
+           AND maturity_date IS NOT NULL
+           AND maturity_date <= DATE_SUB(NOW(), INTERVAL ? DAY)
+         ORDER BY maturity_date ASC`,
+        [MATURITY_GRACE_DAYS]
+      );
+    } catch (error) {
+      console.error('Error finding loans due for settlement:', error);
+      throw error;
+    }
+  },
+
   /**
    * Check loans at risk of liquidation
    * @returns {Promise} - Resolves with at-risk loans
    */
   async checkLiquidationRisk() {
     try {
-      const rates = await bitcoinDataService.getCalculatedRates();
+      const rates = await priceGuardService.getValidatedRates();
       
       const atRiskLoans = await query(`
         SELECT 
@@ -961,21 +1100,20 @@ const LoanService = {
           l.user_id,
           l.btc_collateral_amount,
           l.inr_borrowed_amount,
+          l.ltv_ratio,
+          l.liquidation_ltv,
           l.liquidation_price,
           ${rates.sellRate} as current_btc_price,
-          (l.inr_borrowed_amount / (l.btc_collateral_amount * ${rates.sellRate} / 100000000)) * 100 as current_ltv,
-          CASE 
-            WHEN (l.inr_borrowed_amount / (l.btc_collateral_amount * ${rates.sellRate} / 100000000)) >= 0.90 THEN 'LIQUIDATE'
-            WHEN (l.inr_borrowed_amount / (l.btc_collateral_amount * ${rates.sellRate} / 100000000)) >= 0.85 THEN 'WARNING'
-            ELSE 'SAFE'
-          END as risk_status
+          (l.inr_borrowed_amount / (l.btc_collateral_amount * ${rates.sellRate} / 100000000)) * 100 as current_ltv
         FROM loans l 
-        WHERE l.status = 'ACTIVE' AND l.inr_borrowed_amount > 0
-        HAVING risk_status IN ('LIQUIDATE', 'WARNING')
+        WHERE l.status = 'ACTIVE' AND l.inr_borrowed_amount > 0 AND l.btc_collateral_amount > 0
         ORDER BY current_ltv DESC
       `);
       
-      return atRiskLoans;
+      // Each loan is judged against its own liquidation LTV
+      return atRiskLoans
+        .map(loan => ({ ...loan, risk_status: loanProductService.getRiskStatus(loan.current_ltv, loan.liquidation_ltv) }))
+        .filter(loan => loan.risk_status !== 'SAFE');
     } catch (error) {
       console.error('Error checking liquidation risk:', error);
       throw error;
@@ -0,0 +1,197 @@
+const { query } = require('../config/database');
+const settingsService = require('./settingsService');
+const { createNotificationChannelRegistry } = require('./notificationChannels');
+const { loanLogger } = require('../utils/beautifulLogger');
+
+const THRESHOLD_SETTINGS = ['margin_call_ltv_1', 'margin_call_ltv_2', 'margin_call_ltv_3'];
+const DEFAULT_THRESHOLDS = [75, 80, 85];
+const DEFAULT_REPEAT_MINUTES = 360;
+
+/**
+ * Margin Call Service
+ * Sends a margin call when a loan's LTV crosses one of the configured thresholds
+ * below its liquidation LTV. Every notice is stored (it doubles as the user's
+ * in-app notification) and delivered through the configured notification
+ * channels. A loan is not notified again at the same or a lower threshold until
+ * margin_call_repeat_minutes have passed, so an LTV hovering around a threshold
+ * does not repeat the alert; crossing a higher threshold always notifies.
+ */
+class MarginCallService {
+  constructor() {
+    this.channels = createNotificationChannelRegistry();
+  }
+
+  // Enabled thresholds in ascending order (a threshold of 0 is disabled) and the repeat interval
+  async getConfig() {
+    const settings = await settingsService.getAllSettings();
+    const thresholds = THRESHOLD_SETTINGS
+      .map((key, index) => settings[key] ?? DEFAULT_THRESHOLDS[index])
+      .filter(threshold => threshold > 0);
+
+    return {
+      thresholds: [...new Set(thresholds)].sort((a, b) => a - b),
+      repeatMinutes: settings.margin_call_repeat_minutes ?? DEFAULT_REPEAT_MINUTES
+    };
+  }
+
+  // Highest threshold the LTV has crossed; thresholds at or above liquidation are left to the liquidation notice
+  getThresholdLevel(currentLtv, liquidationLtv, thresholds) {
+    const crossed = thresholds.filter(threshold => threshold <= Number(currentLtv) && threshold < Number(liquidationLtv));
+    return crossed.length > 0 ? crossed[crossed.length - 1] : null;
+  }
+
+  /**
+   * Send margin calls for loans whose LTV crossed a threshold and were not notified recently
+   * @param {Array} loans - Active loans with id, user_id, current_ltv, liquidation_ltv and inr_borrowed_amount
+   * @param {number} btcPrice - BTC sell rate (INR) the LTVs were computed at
+   * @returns {Promise} - Resolves with the notices sent
+   */
+  async checkLoans(loans, btcPrice) {
+    const { thresholds, repeatMinutes } = await this.getConfig();
+    if (thresholds.length === 0) {
+      return [];
+    }
+
+    const candidates = loans
+      .map(loan => ({ loan, threshold: this.getThresholdLevel(loan.current_ltv, loan.liquidation_ltv, thresholds) }))
+      .filter(candidate => candidate.threshold !== null);
+
+    if (candidates.length === 0) {
+      return [];
+    }
+
+    const loanIds = candidates.map(candidate => candidate.loan.id);
+    const recentRows = await query(
+      `SELECT loan_id, MAX(threshold_ltv) as threshold_ltv
+       FROM margin_calls
+       WHERE loan_id IN (${loanIds.map(() => '?').join(', ')}) AND created_at >= DATE_SUB(NOW(), INTERVAL ? MINUTE)
+       GROUP BY loan_id`,
+      [...loanIds, repeatMinutes]
+    );
+    const recentThresholds = new Map(recentRows.map(row => [row.loan_id, parseFloat(row.threshold_ltv)]));
+
+    const notices = [];
+    for (const { loan, threshold } of candidates) {
+      if (recentThresholds.has(loan.id) && recentThresholds.get(loan.id) >= threshold) {
+        continue;
+      }
+
+      try {
+        notices.push(await this.sendMarginCall(loan, threshold, btcPrice));
+      } catch (error) {
+        loanLogger.error(`Failed to send margin call for loan ${loan.id}`, error);
+      }
+    }
+
+    return notices;
+  }
+
+  /**
+   * Record a margin call and deliver it through the notification channels
+   * @param {Object} loan - Loan with id, user_id, current_ltv, liquidation_ltv and inr_borrowed_amount
+   * @param {number} threshold - Threshold LTV that was crossed
+   * @param {number} btcPrice - BTC sell rate (INR) the LTV was computed at
+   * @returns {Promise} - Resolves with the notice
+   */
+  async sendMarginCall(loan, threshold, btcPrice) {
+    const currentLtv = Math.round(Number(loan.current_ltv) * 100) / 100;
+
+    const result = await query(
+      `INSERT INTO margin_calls (loan_id, user_id, threshold_ltv, current_ltv, liquidation_ltv, btc_price, inr_borrowed_amount)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      [loan.id, loan.user_id, threshold, currentLtv, loan.liquidation_ltv, Math.round(btcPrice), loan.inr_borrowed_amount]
+    );
+
+    const rows = await query(
+      `SELECT mc.*, u.email as user_email
+       FROM margin_calls mc
+       JOIN users u ON u.id = mc.user_id
+       WHERE mc.id = ?`,
+      [result.insertId]
+    );
+    const notice = { ...this.formatNotice(rows[0]), user_email: rows[0].user_email };
+
+    const delivered = await this.channels.deliver(notice);
+    await query('UPDATE margin_calls SET delivered_channels = ? WHERE id = ?', [delivered.join(','), notice.id]);
+
+    loanLogger.warn(`Margin call sent for loan ${loan.id} (User: ${loan.user_id}) at ${currentLtv}% LTV`, {
+      threshold,
+      channels: delivered
+    });
+
+    return { ...notice, delivered_channels: delivered };
+  }
+
+  formatNotice(row) {
+    const thresholdLtv = parseFloat(row.threshold_ltv);
+    const currentLtv = parseFloat(row.current_ltv);
+    const liquidationLtv = parseFloat(row.liquidation_ltv);
+
+    return {
+      id: row.id,
+      type: 'MARGIN_CALL',
+      loan_id: row.loan_id,
+      user_id: row.user_id,
+      threshold_ltv: thresholdLtv,
+      current_ltv: currentLtv,
+      liquidation_ltv: liquidationLtv,
+      btc_price: row.btc_price,
+      inr_borrowed_amount: row.inr_borrowed_amount,
+      title: `Margin call on loan #${row.loan_id}`,
+      message: `Loan #${row.loan_id} has reached ${currentLtv}% LTV, above the ${thresholdLtv}% margin-call level. ` +
+        `It will be partially liquidated at ${liquidationLtv}% LTV; add collateral or repay to lower it.`,
+      delivered_channels: row.delivered_channels ? row.delivered_channels.split(',') : [],
+      read_at: row.read_at,
+      created_at: row.created_at
+    };
+  }
+
+  /**
+   * In-app notifications of a user, newest first
+   * @param {number} userId - ID of the user
+   * @param {Object} options - { unreadOnly, limit }
+   * @returns {Promise} - Resolves with { notifications, unread_count }
+   */
+  async getNotifications(userId, { unreadOnly = false, limit = 50 } = {}) {
+    const rowLimit = Math.min(Math.max(parseInt(limit, 10) || 50, 1), 200);
+    const rows = await query(
+      `SELECT * FROM margin_calls
+       WHERE user_id = ? ${unreadOnly ? 'AND read_at IS NULL' : ''}
+       ORDER BY id DESC
+       LIMIT ${rowLimit}`,
+      [userId]
+    );
+    const countRows = await query(
+      'SELECT COUNT(*) as unread_count FROM margin_calls WHERE user_id = ? AND read_at IS NULL',
+      [userId]
+    );
+
+    return {
+      notifications: rows.map(row => this.formatNotice(row)),
+      unread_count: Number(countRows[0].unread_count)
+    };
+  }
+
+  async markRead(userId, notificationId) {
+    const result = await query(
+      'UPDATE margin_calls SET read_at = COALESCE(read_at, NOW()) WHERE id = ? AND user_id = ?',
+      [notificationId, userId]
+    );
+
+    if (result.affectedRows === 0) {
+      throw new Error('Notification not found');
+    }
+  }
+
+  async markAllRead(userId) {
+    const result = await query(
+      'UPDATE margin_calls SET read_at = NOW() WHERE user_id = ? AND read_at IS NULL',
+      [userId]
+    );
+    return result.affectedRows;
+  }
+}
+
+// Export singleton instance
+const marginCallService = new MarginCallService();
+module.exports = marginCallService;
@@ -0,0 +1,77 @@
+const { query, transaction } = require('../config/database');
+const { createNotificationChannelRegistry } = require('./notificationChannels');
+const { loanLogger } = require('../utils/beautifulLogger');
+
+/**
+ * Maturity Reminder Service
+ * Sends the reminders before a fixed-term loan matures and the notice on its
+ * maturity date. Like margin calls, every reminder is stored together with the
+ * loan's reminder marker before it is delivered through the configured
+ * notification channels, so a reminder is neither lost nor repeated when a
+ * channel fails.
+ */
+class MaturityReminderService {
+  constructor() {
+    this.channels = createNotificationChannelRegistry();
+  }
+
+  /**
+   * Record a maturity reminder and deliver it through the notification channels
+   * @param {Object} loan - Loan from loanService.getLoansDueForMaturityReminder
+   * @returns {Promise} - Resolves with the notice
+   */
+  async sendReminder(loan) {
+    const reminderId = await transaction(async (connection) => {
+      const [result] = await connection.execute(
+        `INSERT INTO maturity_reminders (loan_id, user_id, reminder_days, maturity_date, settlement_date, inr_borrowed_amount)
+         VALUES (?, ?, ?, ?, ?, ?)`,
+        [loan.id, loan.user_id, loan.reminder_days, loan.maturity_date, loan.settlement_date, loan.inr_borrowed_amount]
+      );
+      await connection.execute('UPDATE loans SET maturity_reminder_days = ? WHERE id = ?', [loan.reminder_days, loan.id]);
+      return result.insertId;
+    });
+
+    const rows = await query(
+      `SELECT mr.*, u.email as user_email
+       FROM maturity_reminders mr
+       JOIN users u ON u.id = mr.user_id
+       WHERE mr.id = ?`,
+      [reminderId]
+    );
+    const notice = { ...this.formatNotice(rows[0]), user_email: rows[0].user_email };
+
+    const delivered = await this.channels.deliver(notice);
+    await query('UPDATE maturity_reminders SET delivered_channels = ? WHERE id = ?', [delivered.join(','), notice.id]);
+
+    loanLogger.info(`Maturity reminder sent for loan ${loan.id} (User: ${loan.user_id}), ${loan.reminder_days} days before maturity`, {
+      channels: delivered
+    });
+
+    return { ...notice, delivered_channels: delivered };
+  }
+
+  formatNotice(row) {
+    const matured = row.reminder_days === 0;
+    const settlementDate = new Date(row.settlement_date).toISOString().slice(0, 10);
+
+    return {
+      id: row.id,
+      type: matured ? 'LOAN_MATURED' : 'MATURITY_REMINDER',
+      loan_id: row.loan_id,
+      user_id: row.user_id,
+      days_remaining: row.reminder_days,
+      maturity_date: row.maturity_date,
+      settlement_date: row.settlement_date,
+      inr_borrowed_amount: row.inr_borrowed_amount,
+      title: matured ? `Loan #${row.loan_id} has matured` : `Loan #${row.loan_id} matures in ${row.reminder_days} day${row.reminder_days === 1 ? '' : 's'}`,
+      message: `Loan #${row.loan_id} ${matured ? 'has reached' : 'is approaching'} its maturity date. ` +
+        `Repay it by ${settlementDate} or its collateral will be sold to settle it.`,
+      delivered_channels: row.delivered_channels ? row.delivered_channels.split(',') : [],
+      created_at: row.created_at
+    };
+  }
+}
+
+// Export singleton instance
+const maturityReminderService = new MaturityReminderService();
+module.exports = maturityReminderService;
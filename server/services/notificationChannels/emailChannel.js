@@ -0,0 +1,35 @@
+const axios = require('axios');
+
+/**
+ * Email notification channel
+ * Posts each notice to an HTTP email relay (NOTIFICATION_EMAIL_URL) as
+ * { to, subject, text }, with NOTIFICATION_EMAIL_TOKEN as a bearer token when set.
+ */
+class EmailChannel {
+  constructor({ url = process.env.NOTIFICATION_EMAIL_URL, token = process.env.NOTIFICATION_EMAIL_TOKEN, timeoutMs = 10000 } = {}) {
+    if (!url) {
+      throw new Error('NOTIFICATION_EMAIL_URL is required for the email notification channel');
+    }
+    this.name = 'email';
+    this.url = url;
+    this.token = token;
+    this.timeoutMs = timeoutMs;
+  }
+
+  async send(notice) {
+    if (!notice.user_email) {
+      throw new Error(`User ${notice.user_id} has no email address`);
+    }
+
+    await axios.post(this.url, {
+      to: notice.user_email,
+      subject: notice.title,
+      text: notice.message
+    }, {
+      timeout: this.timeoutMs,
+      headers: this.token ? { Authorization: `Bearer ${this.token}` } : {}
+    });
+  }
+}
+
+module.exports = EmailChannel;
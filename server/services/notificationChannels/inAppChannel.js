@@ -0,0 +1,29 @@
+const eventStreamService = require('../eventStreamService');
+
+/**
+ * In-app notification channel
+ * Notices are already stored for the notifications list; this pushes them to the
+ * user's open sessions as a loan stream event so the Loans page can show them at once.
+ */
+class InAppChannel {
+  constructor() {
+    this.name = 'in_app';
+  }
+
+  async send(notice) {
+    eventStreamService.publishToUser(notice.user_id, 'loan', {
+      loan_id: notice.loan_id,
+      event: notice.type,
+      notification_id: notice.id,
+      threshold_ltv: notice.threshold_ltv,
+      current_ltv: notice.current_ltv,
+      liquidation_ltv: notice.liquidation_ltv,
+      borrowed_amount: notice.inr_borrowed_amount,
+      days_remaining: notice.days_remaining,
+      settlement_date: notice.settlement_date,
+      message: notice.message
+    });
+  }
+}
+
+module.exports = InAppChannel;
@@ -0,0 +1,53 @@
+const NotificationChannelRegistry = require('./notificationChannelRegistry');
+const { systemLogger } = require('../../utils/logger');
+const InAppChannel = require('./inAppChannel');
+const EmailChannel = require('./emailChannel');
+const WebhookChannel = require('./webhookChannel');
+
+const CHANNEL_FACTORIES = {
+  in_app: () => new InAppChannel(),
+  email: () => new EmailChannel(),
+  webhook: () => new WebhookChannel()
+};
+
+/**
+ * Build the registry from NOTIFICATION_CHANNELS (comma-separated).
+ * Defaults to in-app only; notices are always stored for the notifications list.
+ * Unknown or misconfigured channels are skipped with a warning, and in-app is
+ * used when none of the configured channels can be built.
+ */
+const createNotificationChannelRegistry = () => {
+  const registry = new NotificationChannelRegistry();
+  const configured = (process.env.NOTIFICATION_CHANNELS || 'in_app')
+    .split(',')
+    .map(name => name.trim().toLowerCase())
+    .filter(Boolean);
+
+  configured.forEach(name => {
+    const factory = CHANNEL_FACTORIES[name];
+    if (!factory) {
+      systemLogger.warn(`Ignoring unknown notification channel '${name}' in NOTIFICATION_CHANNELS`);
+      return;
+    }
+    try {
+      registry.register(factory());
+    } catch (error) {
+      systemLogger.warn(`Notification channel ${name} is not available`, { error: error.message });
+    }
+  });
+
+  if (registry.channels.length === 0) {
+    systemLogger.warn('No configured notification channel is available, falling back to in_app');
+    registry.register(CHANNEL_FACTORIES.in_app());
+  }
+
+  return registry;
+};
+
+module.exports = {
+  NotificationChannelRegistry,
+  InAppChannel,
+  EmailChannel,
+  WebhookChannel,
+  createNotificationChannelRegistry
+};
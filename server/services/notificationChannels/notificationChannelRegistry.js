@@ -0,0 +1,55 @@
+const { systemLogger } = require('../../utils/logger');
+
+/**
+ * Notification Channel Registry
+ * Holds the channels a user notice is delivered through. Unlike price providers
+ * there is no failover: every registered channel gets every notice, and one
+ * channel failing never stops the others.
+ *
+ * A channel is any object with:
+ *   - name: unique identifier
+ *   - send(notice): resolves once the channel accepted the notice
+ */
+class NotificationChannelRegistry {
+  constructor() {
+    this.channels = [];
+  }
+
+  register(channel) {
+    if (!channel || !channel.name || typeof channel.send !== 'function') {
+      throw new Error('Notification channel must have a name and a send() method');
+    }
+
+    // Re-registering a channel replaces the previous instance
+    this.channels = this.channels.filter(existing => existing.name !== channel.name);
+    this.channels.push(channel);
+
+    systemLogger.info(`Notification channel registered: ${channel.name}`);
+  }
+
+  unregister(name) {
+    this.channels = this.channels.filter(channel => channel.name !== name);
+  }
+
+  getChannels() {
+    return [...this.channels];
+  }
+
+  // Send the notice through every channel and return the names of those that accepted it
+  async deliver(notice) {
+    const delivered = [];
+
+    for (const channel of this.channels) {
+      try {
+        await channel.send(notice);
+        delivered.push(channel.name);
+      } catch (error) {
+        systemLogger.warn(`Notification channel ${channel.name} failed to deliver ${notice.type} ${notice.id}`, { error: error.message });
+      }
+    }
+
+    return delivered;
+  }
+}
+
+module.exports = NotificationChannelRegistry;
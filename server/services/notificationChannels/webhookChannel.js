@@ -0,0 +1,34 @@
+const axios = require('axios');
+const crypto = require('crypto');
+
+/**
+ * Webhook notification channel
+ * Posts each notice as JSON to NOTIFICATION_WEBHOOK_URL. When
+ * NOTIFICATION_WEBHOOK_SECRET is set the body is signed with HMAC-SHA256 in the
+ * X-BitTrade-Signature header so the receiver can verify it.
+ */
+class WebhookChannel {
+  constructor({ url = process.env.NOTIFICATION_WEBHOOK_URL, secret = process.env.NOTIFICATION_WEBHOOK_SECRET, timeoutMs = 10000 } = {}) {
+    if (!url) {
+      throw new Error('NOTIFICATION_WEBHOOK_URL is required for the webhook notification channel');
+    }
+    this.name = 'webhook';
+    this.url = url;
+    this.secret = secret;
+    this.timeoutMs = timeoutMs;
+  }
+
+  async send(notice) {
+    const { user_email, ...payload } = notice;
+    const body = JSON.stringify(payload);
+    const headers = { 'Content-Type': 'application/json' };
+
+    if (this.secret) {
+      headers['X-BitTrade-Signature'] = crypto.createHmac('sha256', this.secret).update(body).digest('hex');
+    }
+
+    await axios.post(this.url, body, { timeout: this.timeoutMs, headers });
+  }
+}
+
+module.exports = WebhookChannel;
@@ -1,8 +1,30 @@
 const { query } = require('../config/database');
 const bitcoinDataService = require('./bitcoinDataService');
 
+// A limit or stop order that filled in pieces is counted through its child fill operations,
+// so the completed parent order is left out of trade aggregates
+const EXCLUDE_SPLIT_ORDER_PARENTS = `AND NOT EXISTS (
+  SELECT 1 FROM operations fill
+  WHERE fill.parent_id = operations.id AND fill.type = operations.type
+  AND fill.type IN ('LIMIT_BUY', 'LIMIT_SELL', 'STOP_LOSS_SELL', 'STOP_BUY', 'TRAILING_STOP_SELL', 'TRAILING_STOP_BUY')
+)`;
+
+// Operations replayed by the cost-basis engine: acquisitions open lots, disposals consume them
+const LOT_ACQUISITION_TYPES = ['MARKET_BUY', 'LIMIT_BUY', 'STOP_BUY', 'TRAILING_STOP_BUY', 'DCA_BUY', 'DEPOSIT_BTC'];
+const LOT_DISPOSAL_TYPES = ['MARKET_SELL', 'LIMIT_SELL', 'STOP_LOSS_SELL', 'TRAILING_STOP_SELL', 'DCA_SELL', 'PARTIAL_LIQUIDATION', 'FULL_LIQUIDATION', 'WITHDRAW_BTC'];
+const LIQUIDATION_TYPES = ['PARTIAL_LIQUIDATION', 'FULL_LIQUIDATION'];
+const COST_BASIS_METHODS = ['FIFO', 'LIFO', 'AVERAGE'];
+
+// Portfolio history: days covered by each range (null = since the first operation)
+const HISTORY_RANGES = { '7d': 7, '30d': 30, '90d': 90, '365d': 365, 'all': null };
+const IST_OFFSET_MS = 330 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const BUY_TYPES = ['MARKET_BUY', 'LIMIT_BUY', 'STOP_BUY', 'TRAILING_STOP_BUY', 'DCA_BUY'];
+const SELL_TYPES = ['MARKET_SELL', 'LIMIT_SELL', 'STOP_LOSS_SELL', 'TRAILING_STOP_SELL', 'DCA_SELL'];
+const EXTERNAL_FLOW_TYPES = ['DEPOSIT_INR', 'WITHDRAW_INR', 'DEPOSIT_BTC', 'WITHDRAW_BTC'];
+
 class PortfolioService {
-  async calculatePortfolioMetrics(userId) {
+  async calculatePortfolioMetrics(userId, costBasisMethod = 'FIFO') {
     try {
       // Get current balances (latest transaction)
       const currentBalances = await this.getCurrentBalances(userId);
@@ -19,6 +41,7 @@ class PortfolioService {
       const breakEvenPrice = await this.calculateBreakEvenPrice(userId, currentBalances, totalInvestment);
       const assetAllocation = this.calculateAssetAllocation(currentBalances, rates.sellRate, totalPortfolioValue);
       const tradingStats = await this.calculateTradingStats(userId);
+      const costBasis = await this.calculateCostBasis(userId, costBasisMethod, rates.sellRate);
 
       return {
         // Core metrics
@@ -50,8 +73,9 @@ class PortfolioService {
           collateralBtc: currentBalances.collateral_btc / 100000000
         },
         
-        // Placeholder for future FIFO implementation
-        realizedProfit: 0, // TODO: Implement FIFO logic
+        // Lot-based realized and unrealized P&L under the selected cost-basis method
+        realizedProfit: costBasis.realizedProfit,
+        costBasis,
         
         // Current rates for context
         currentRates: {
@@ -130,7 +154,7 @@ class PortfolioService {
         SUM(inr_amount) as total_inr_spent,
         SUM(btc_amount) as total_btc_bought
       FROM operations 
-      WHERE user_id = ? AND status = 'EXECUTED' AND type IN ('MARKET_BUY', 'LIMIT_BUY', 'DCA_BUY') AND btc_amount > 0
+      WHERE user_id = ? AND status = 'EXECUTED' AND type IN ('MARKET_BUY', 'LIMIT_BUY', 'STOP_BUY', 'TRAILING_STOP_BUY', 'DCA_BUY') AND btc_amount > 0 ${EXCLUDE_SPLIT_ORDER_PARENTS}
     `, [userId]);
 
     const result = buyRows[0];
@@ -193,21 +217,21 @@ class PortfolioService {
     const tradingDaysRows = await query(`
       SELECT COUNT(DISTINCT DATE(created_at)) as trading_days
       FROM operations 
-      WHERE user_id = ? AND status = 'EXECUTED' AND type IN ('MARKET_BUY', 'MARKET_SELL', 'LIMIT_BUY', 'LIMIT_SELL', 'DCA_BUY', 'DCA_SELL')
+      WHERE user_id = ? AND status = 'EXECUTED' AND type IN ('MARKET_BUY', 'MARKET_SELL', 'LIMIT_BUY', 'LIMIT_SELL', 'STOP_LOSS_SELL', 'STOP_BUY', 'TRAILING_STOP_SELL', 'TRAILING_STOP_BUY', 'DCA_BUY', 'DCA_SELL') ${EXCLUDE_SPLIT_ORDER_PARENTS}
     `, [userId]);
 
     // Total Trades
     const totalTradesRows = await query(`
       SELECT COUNT(*) as total_trades
       FROM operations 
-      WHERE user_id = ? AND status = 'EXECUTED' AND type IN ('MARKET_BUY', 'MARKET_SELL', 'LIMIT_BUY', 'LIMIT_SELL', 'DCA_BUY', 'DCA_SELL')
+      WHERE user_id = ? AND status = 'EXECUTED' AND type IN ('MARKET_BUY', 'MARKET_SELL', 'LIMIT_BUY', 'LIMIT_SELL', 'STOP_LOSS_SELL', 'STOP_BUY', 'TRAILING_STOP_SELL', 'TRAILING_STOP_BUY', 'DCA_BUY', 'DCA_SELL') ${EXCLUDE_SPLIT_ORDER_PARENTS}
     `, [userId]);
 
     // Trades This Month
     const tradesThisMonthRows = await query(`
       SELECT COUNT(*) as trades_this_month
       FROM operations 
-      WHERE user_id = ? AND status = 'EXECUTED' AND type IN ('MARKET_BUY', 'MARKET_SELL', 'LIMIT_BUY', 'LIMIT_SELL', 'DCA_BUY', 'DCA_SELL') 
+      WHERE user_id = ? AND status = 'EXECUTED' AND type IN ('MARKET_BUY', 'MARKET_SELL', 'LIMIT_BUY', 'LIMIT_SELL', 'STOP_LOSS_SELL', 'STOP_BUY', 'TRAILING_STOP_SELL', 'TRAILING_STOP_BUY', 'DCA_BUY', 'DCA_SELL') ${EXCLUDE_SPLIT_ORDER_PARENTS}
       AND MONTH(created_at) = MONTH(CURRENT_DATE()) 
       AND YEAR(created_at) = YEAR(CURRENT_DATE())
     `, [userId]);
@@ -218,7 +242,7 @@ class PortfolioService {
         AVG(inr_amount) as avg_trade_size,
         SUM(inr_amount) as total_volume
       FROM operations 
-      WHERE user_id = ? AND status = 'EXECUTED' AND type IN ('MARKET_BUY', 'MARKET_SELL', 'LIMIT_BUY', 'LIMIT_SELL', 'DCA_BUY', 'DCA_SELL')
+      WHERE user_id = ? AND status = 'EXECUTED' AND type IN ('MARKET_BUY', 'MARKET_SELL', 'LIMIT_BUY', 'LIMIT_SELL', 'STOP_LOSS_SELL', 'STOP_BUY', 'TRAILING_STOP_SELL', 'TRAILING_STOP_BUY', 'DCA_BUY', 'DCA_SELL') ${EXCLUDE_SPLIT_ORDER_PARENTS}
     `, [userId]);
 
     // Days in Profit (placeholder - requires more complex calculation)
@@ -234,6 +258,356 @@ class PortfolioService {
       daysInProfit // TODO: Implement proper calculation
     };
   }
+
+  // Executed BTC acquisitions and disposals in the order they happened
+  async getLotOperations(userId) {
+    const types = [...LOT_ACQUISITION_TYPES, ...LOT_DISPOSAL_TYPES].map(type => `'${type}'`).join(', ');
+    return await query(`
+      SELECT id, type, inr_amount, btc_amount, execution_price,
+        COALESCE(executed_at, created_at) as executed_at
+      FROM operations
+      WHERE user_id = ? AND status = 'EXECUTED' AND btc_amount > 0 AND type IN (${types}) ${EXCLUDE_SPLIT_ORDER_PARENTS}
+      ORDER BY COALESCE(executed_at, created_at), id
+    `, [userId]);
+  }
+
+  // INR received for a disposal; liquidations record the debt repaid, so value the BTC sold instead
+  getDisposalProceeds(operation) {
+    if (operation.type === 'WITHDRAW_BTC') {
+      return 0;
+    }
+    if (LIQUIDATION_TYPES.includes(operation.type) && operation.execution_price) {
+      return (operation.btc_amount / 100000000) * operation.execution_price;
+    }
+    return operation.inr_amount;
+  }
+
+  // Take btcAmount satoshis out of the open lots and return the matched pieces with their cost.
+  // FIFO and LIFO consume lots by age; AVERAGE consumes oldest first but at the running average cost.
+  consumeLots(lots, btcAmount, method) {
+    const heldBtc = lots.reduce((sum, lot) => sum + lot.remainingBtc, 0);
+    const heldCost = lots.reduce((sum, lot) => sum + lot.costBasis, 0);
+    const averageCostPerSatoshi = heldBtc > 0 ? heldCost / heldBtc : 0;
+
+    const matches = [];
+    let remaining = btcAmount;
+    const ordered = method === 'LIFO' ? [...lots].reverse() : lots;
+
+    for (const lot of ordered) {
+      if (remaining <= 0) {
+        break;
+      }
+      const taken = Math.min(remaining, lot.remainingBtc);
+      const cost = method === 'AVERAGE'
+        ? taken * averageCostPerSatoshi
+        : lot.costBasis * (taken / lot.remainingBtc);
+
+      lot.remainingBtc -= taken;
+      lot.costBasis -= cost;
+      remaining -= taken;
+      matches.push({ lot, btcAmount: taken, costBasis: cost });
+    }
+
+    if (method === 'AVERAGE') {
+      // Every remaining lot carries the pool average after a disposal
+      lots.forEach(lot => { lot.costBasis = lot.remainingBtc * averageCostPerSatoshi; });
+    }
+
+    return { matches, unmatchedBtc: remaining };
+  }
+
+  // Replay every executed BTC movement into lots; returns the open lots (satoshis) and every disposal
+  async replayLots(userId, method = 'FIFO') {
+    if (!COST_BASIS_METHODS.includes(method)) {
+      throw new Error('Invalid cost basis method');
+    }
+
+    const operations = await this.getLotOperations(userId);
+    let lots = [];
+    const disposals = [];
+    let unmatchedBtc = 0;
+
+    for (const operation of operations) {
+      if (LOT_ACQUISITION_TYPES.includes(operation.type)) {
+        lots.push({
+          operationId: operation.id,
+          type: operation.type,
+          acquiredAt: operation.executed_at,
+          originalBtc: operation.btc_amount,
+          remainingBtc: operation.btc_amount,
+          costBasis: operation.inr_amount
+        });
+        continue;
+      }
+
+      const { matches, unmatchedBtc: unmatched } = this.consumeLots(lots, operation.btc_amount, method);
+      lots = lots.filter(lot => lot.remainingBtc > 0);
+      unmatchedBtc += unmatched;
+
+      // Withdrawals move BTC off the platform: the lots are closed without realizing a gain
+      const isWithdrawal = operation.type === 'WITHDRAW_BTC';
+      const costBasis = matches.reduce((sum, match) => sum + match.costBasis, 0);
+      const proceeds = this.getDisposalProceeds(operation);
+
+      disposals.push({
+        operationId: operation.id,
+        type: operation.type,
+        disposedAt: operation.executed_at,
+        btcAmount: operation.btc_amount / 100000000,
+        proceeds: Math.round(proceeds),
+        costBasis: Math.round(costBasis),
+        realizedProfit: isWithdrawal ? 0 : Math.round(proceeds - costBasis),
+        isWithdrawal,
+        lots: matches.map(match => ({
+          operationId: match.lot.operationId,
+          acquiredAt: match.lot.acquiredAt,
+          btcAmount: match.btcAmount / 100000000,
+          costBasis: Math.round(match.costBasis)
+        }))
+      });
+    }
+
+    return { lots, disposals, unmatchedBtc };
+  }
+
+  // IST calendar day (YYYY-MM-DD) of a timestamp
+  getIstDay(timestamp) {
+    return new Date(new Date(timestamp).getTime() + IST_OFFSET_MS).toISOString().slice(0, 10);
+  }
+
+  // End-of-day INR sell price per IST day from stored chart history (USD) and executed trade prices.
+  // Chart prices are converted with the current sell multiplier; trade prices fill days the charts miss.
+  async getDailyBtcPrices(operations, sellMultiplier) {
+    const prices = new Map();
+
+    operations
+      .filter(operation => operation.execution_price && [...BUY_TYPES, ...SELL_TYPES].includes(operation.type))
+      .forEach(operation => prices.set(this.getIstDay(operation.executed_at), operation.execution_price));
+
+    const chartRows = await bitcoinDataService.getChartData();
+    const chartPoints = chartRows
+      .flatMap(row => row.price_data)
+      .map(point => (Array.isArray(point) ? point : [point.timestamp, point.price]))
+      .sort((a, b) => a[0] - b[0]);
+
+    chartPoints.forEach(([timestamp, usdPrice]) => {
+      prices.set(this.getIstDay(timestamp), Math.round(usdPrice * sellMultiplier));
+    });
+
+    return prices;
+  }
+
+  // Apply one executed operation to the replayed INR, BTC and debt balances; returns the external cash flow in INR
+  applyHistoryOperation(state, operation) {
+    const { type, inr_amount: inr, btc_amount: btc } = operation;
+
+    if (BUY_TYPES.includes(type)) {
+      state.inr -= inr;
+      state.btc += btc;
+    } else if (SELL_TYPES.includes(type)) {
+      state.inr += inr;
+      state.btc -= btc;
+    } else if (type === 'DEPOSIT_INR') {
+      state.inr += inr;
+      return inr;
+    } else if (type === 'WITHDRAW_INR') {
+      state.inr -= inr;
+      return -inr;
+    } else if (type === 'DEPOSIT_BTC') {
+      state.btc += btc;
+      return inr;
+    } else if (type === 'WITHDRAW_BTC') {
+      state.btc -= btc;
+      return -inr;
+    } else if (type === 'LOAN_BORROW') {
+      state.inr += inr;
+      state.debt += inr;
+    } else if (type === 'LOAN_REPAY') {
+      state.inr -= inr;
+      state.debt -= inr;
+    } else if (type === 'INTEREST_ACCRUAL') {
+      state.debt += inr;
+    } else if (LIQUIDATION_TYPES.includes(type)) {
+      // Collateral is sold to repay debt; any surplus is credited as INR
+      const proceeds = this.getDisposalProceeds(operation);
+      state.btc -= btc;
+      state.debt -= inr;
+      state.inr += Math.max(0, proceeds - inr);
+    }
+    // LOAN_CREATE and LOAN_ADD_COLLATERAL only move BTC into collateral, which still counts as held
+
+    return 0;
+  }
+
+  // Money-weighted return: the rate that discounts every flow (day offset, amount) to zero, solved by bisection
+  calculateMoneyWeightedReturn(flows, days) {
+    if (days <= 0 || flows.length < 2) {
+      return null;
+    }
+
+    const npv = (dailyRate) => flows.reduce((total, [day, amount]) => total + amount / Math.pow(1 + dailyRate, day), 0);
+    let low = -0.99;
+    let high = 1;
+    if (npv(low) * npv(high) > 0) {
+      return null;
+    }
+
+    for (let i = 0; i < 100; i++) {
+      const mid = (low + high) / 2;
+      if (npv(low) * npv(mid) <= 0) {
+        high = mid;
+      } else {
+        low = mid;
+      }
+    }
+
+    return (Math.pow(1 + (low + high) / 2, days) - 1) * 100;
+  }
+
+  // Rebuild daily end-of-day net portfolio value by replaying operations, with time- and money-weighted returns
+  async getPortfolioHistory(userId, range = '30d') {
+    if (!Object.prototype.hasOwnProperty.call(HISTORY_RANGES, range)) {
+      throw new Error('Invalid range');
+    }
+
+    const operations = await query(`
+      SELECT id, type, inr_amount, btc_amount, execution_price,
+        COALESCE(executed_at, created_at) as executed_at
+      FROM operations
+      WHERE user_id = ? AND status = 'EXECUTED' ${EXCLUDE_SPLIT_ORDER_PARENTS}
+      ORDER BY COALESCE(executed_at, created_at), id
+    `, [userId]);
+
+    const rates = await bitcoinDataService.getCalculatedRates();
+    const today = this.getIstDay(Date.now());
+    const dailyPrices = await this.getDailyBtcPrices(operations, rates.sellMultiplier);
+    dailyPrices.set(today, rates.sellRate);
+
+    const rangeDays = HISTORY_RANGES[range];
+    const firstDay = operations.length > 0 ? this.getIstDay(operations[0].executed_at) : today;
+    let startDay = rangeDays === null
+      ? firstDay
+      : new Date(new Date(today).getTime() - (rangeDays - 1) * DAY_MS).toISOString().slice(0, 10);
+    if (startDay < firstDay) {
+      startDay = firstDay;
+    }
+
+    const state = { inr: 0, btc: 0, debt: 0 };
+    const valueAt = (price) => Math.round(state.inr + (state.btc / 100000000) * price - state.debt);
+
+    // Earliest known price carries backwards; later gaps carry the previous day forward
+    const knownDays = [...dailyPrices.keys()].sort();
+    let price = knownDays.length > 0 ? dailyPrices.get(knownDays[0]) : rates.sellRate;
+
+    let operationIndex = 0;
+    const applyUntil = (dayEnd) => {
+      let flow = 0;
+      while (operationIndex < operations.length && this.getIstDay(operations[operationIndex].executed_at) <= dayEnd) {
+        flow += this.applyHistoryOperation(state, operations[operationIndex]);
+        operationIndex++;
+      }
+      return flow;
+    };
+
+    // Balances and price at the end of the day before the range starts
+    const dayBeforeStart = new Date(new Date(startDay).getTime() - DAY_MS).toISOString().slice(0, 10);
+    applyUntil(dayBeforeStart);
+    knownDays.filter(day => day <= dayBeforeStart).forEach(day => { price = dailyPrices.get(day); });
+    const startValue = valueAt(price);
+
+    const points = [];
+    for (let time = new Date(startDay).getTime(); time <= new Date(today).getTime(); time += DAY_MS) {
+      const day = new Date(time).toISOString().slice(0, 10);
+      const netFlow = applyUntil(day);
+      if (dailyPrices.has(day)) {
+        price = dailyPrices.get(day);
+      }
+
+      points.push({
+        date: day,
+        value: valueAt(price),
+        inrBalance: Math.round(state.inr),
+        btcBalance: state.btc / 100000000,
+        liabilities: Math.round(state.debt),
+        btcPrice: price,
+        netFlow
+      });
+    }
+
+    // Time-weighted: chain daily returns with each day's flows treated as arriving at the start of the day
+    let growth = 1;
+    let previousValue = startValue;
+    points.forEach(point => {
+      const base = previousValue + point.netFlow;
+      if (base > 0) {
+        growth *= point.value / base;
+      }
+      previousValue = point.value;
+    });
+
+    // Money-weighted: the opening value and deposits are invested, withdrawals and the closing value returned
+    const endValue = points.length > 0 ? points[points.length - 1].value : startValue;
+    const flows = [];
+    if (startValue !== 0) {
+      flows.push([0, -startValue]);
+    }
+    points.forEach((point, index) => {
+      if (point.netFlow !== 0) {
+        flows.push([index, -point.netFlow]);
+      }
+    });
+    flows.push([points.length, endValue]);
+
+    const netFlows = points.reduce((total, point) => total + point.netFlow, 0);
+
+    return {
+      range,
+      startDate: startDay,
+      endDate: today,
+      startValue,
+      endValue,
+      netFlows,
+      profit: endValue - startValue - netFlows,
+      timeWeightedReturn: (growth - 1) * 100,
+      moneyWeightedReturn: this.calculateMoneyWeightedReturn(flows, points.length),
+      points
+    };
+  }
+
+  // Realized P&L from disposals plus unrealized P&L of the open lots at the current sell rate
+  async calculateCostBasis(userId, method = 'FIFO', sellRate) {
+    const { lots, disposals, unmatchedBtc } = await this.replayLots(userId, method);
+
+    const openLots = lots.map(lot => {
+      const marketValue = (lot.remainingBtc / 100000000) * sellRate;
+      return {
+        operationId: lot.operationId,
+        type: lot.type,
+        acquiredAt: lot.acquiredAt,
+        originalBtc: lot.originalBtc / 100000000,
+        remainingBtc: lot.remainingBtc / 100000000,
+        costBasis: Math.round(lot.costBasis),
+        costPerBtc: Math.round(lot.costBasis / (lot.remainingBtc / 100000000)),
+        marketValue: Math.round(marketValue),
+        unrealizedProfit: Math.round(marketValue - lot.costBasis)
+      };
+    });
+
+    const openBtc = lots.reduce((sum, lot) => sum + lot.remainingBtc, 0);
+    const openCostBasis = lots.reduce((sum, lot) => sum + lot.costBasis, 0);
+
+    return {
+      method,
+      realizedProfit: disposals.reduce((sum, disposal) => sum + disposal.realizedProfit, 0),
+      unrealizedProfit: openLots.reduce((sum, lot) => sum + lot.unrealizedProfit, 0),
+      openBtc: openBtc / 100000000,
+      openCostBasis: Math.round(openCostBasis),
+      averageCost: openBtc > 0 ? Math.round(openCostBasis / (openBtc / 100000000)) : 0,
+      unmatchedBtc: unmatchedBtc / 100000000, // Disposed BTC with no recorded acquisition (zero cost basis)
+      lots: openLots,
+      disposals: [...disposals].reverse() // Most recent first
+    };
+  }
 }
 
 // Export singleton instance
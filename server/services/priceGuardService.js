@@ -0,0 +1,162 @@
+const { query } = require('../config/database');
+const bitcoinDataService = require('./bitcoinDataService');
+const settingsService = require('./settingsService');
+const eventStreamService = require('./eventStreamService');
+const { bitcoinDataLogger } = require('../utils/logger');
+
+const DEFAULT_MAX_PRICE_AGE_SECONDS = 120;  // 4 missed 30-second ticks
+const DEFAULT_MAX_DEVIATION_PCT = 10;       // Max jump against the recent median
+const HISTORY_WINDOW = 9;                   // Previous bitcoin_data rows used as reference
+const STATUS_MAX_AGE_MS = 10 * 1000;        // Public status reuses a check this recent
+
+/**
+ * Price Guard Service
+ * Central freshness and sanity check for the price feed. Trading, limit order,
+ * DCA, loan and liquidation paths call getValidatedRates() instead of using
+ * getCalculatedRates() directly, so they all halt together when the price is
+ * stale or jumps away from recent history, and resume once a valid tick arrives.
+ */
+class PriceGuardService {
+  constructor() {
+    this.halted = false;
+    this.haltReason = null;
+    this.haltMessage = null;
+    this.haltedAt = null;
+    this.lastCheckedAt = null;
+    this.pendingCheck = null;
+  }
+
+  async getSetting(key, defaultValue) {
+    try {
+      return await settingsService.getSetting(key);
+    } catch (error) {
+      return defaultValue;
+    }
+  }
+
+  median(values) {
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+  }
+
+  // Evaluate the current rates and return { valid, reason, message }
+  async evaluate(rates) {
+    const maxAgeSeconds = await this.getSetting('price_max_age_seconds', DEFAULT_MAX_PRICE_AGE_SECONDS);
+    const maxDeviationPct = await this.getSetting('price_max_deviation_pct', DEFAULT_MAX_DEVIATION_PCT);
+
+    if (!rates || !rates.btcUsdPrice || !rates.buyRate || !rates.sellRate) {
+      return { valid: false, reason: 'NO_PRICE', message: 'No price data available' };
+    }
+
+    if (!rates.lastUpdate) {
+      return { valid: false, reason: 'STALE_PRICE', message: 'No live price update received yet' };
+    }
+
+    const ageSeconds = Math.round((Date.now() - new Date(rates.lastUpdate).getTime()) / 1000);
+    if (ageSeconds > maxAgeSeconds) {
+      return {
+        valid: false,
+        reason: 'STALE_PRICE',
+        message: `Last price update was ${ageSeconds}s ago (limit ${maxAgeSeconds}s)`
+      };
+    }
+
+    // Compare against the rows stored before the latest tick
+    const history = await query(
+      `SELECT btc_usd_price FROM bitcoin_data ORDER BY created_at DESC LIMIT ${HISTORY_WINDOW + 1}`
+    );
+    const previousPrices = history.slice(1).map(row => row.btc_usd_price);
+
+    if (previousPrices.length >= 3) {
+      const referencePrice = this.median(previousPrices);
+      const deviationPct = Math.abs(rates.btcUsdPrice - referencePrice) / referencePrice * 100;
+
+      if (deviationPct > maxDeviationPct) {
+        return {
+          valid: false,
+          reason: 'PRICE_OUTLIER',
+          message: `Price $${rates.btcUsdPrice.toLocaleString()} deviates ${deviationPct.toFixed(2)}% from recent median $${Math.round(referencePrice).toLocaleString()} (limit ${maxDeviationPct}%)`
+        };
+      }
+    }
+
+    return { valid: true, reason: null, message: null };
+  }
+
+  updateState(result) {
+    this.lastCheckedAt = new Date();
+    const wasHalted = this.halted;
+
+    if (!result.valid && !this.halted) {
+      this.halted = true;
+      this.haltedAt = new Date();
+      bitcoinDataLogger.warn(`Market halted: ${result.message}`);
+    } else if (result.valid && this.halted) {
+      bitcoinDataLogger.success(`Market resumed after halt (${this.haltReason})`);
+      this.halted = false;
+      this.haltedAt = null;
+    }
+
+    this.haltReason = result.valid ? null : result.reason;
+    this.haltMessage = result.valid ? null : result.message;
+
+    if (wasHalted !== this.halted) {
+      eventStreamService.broadcast('market', this.getStatus());
+    }
+  }
+
+  // Re-check the price feed and update the halt state
+  async checkMarket() {
+    let result;
+    try {
+      const rates = await bitcoinDataService.getCalculatedRates();
+      result = await this.evaluate(rates);
+      this.updateState(result);
+      return { ...result, rates };
+    } catch (error) {
+      bitcoinDataLogger.error('Error checking price feed', error);
+      result = { valid: false, reason: 'NO_PRICE', message: error.message };
+      this.updateState(result);
+      return { ...result, rates: null };
+    }
+  }
+
+  // Rates for trading and liquidations; throws 'Market halted' while the guard is active
+  async getValidatedRates() {
+    const result = await this.checkMarket();
+    if (!result.valid) {
+      throw new Error('Market halted');
+    }
+    return result.rates;
+  }
+
+  // Halt status for the public endpoint: re-checks at most every STATUS_MAX_AGE_MS,
+  // and concurrent requests share one check
+  async getCurrentStatus() {
+    const isFresh = this.lastCheckedAt && Date.now() - this.lastCheckedAt.getTime() < STATUS_MAX_AGE_MS;
+    if (!isFresh) {
+      if (!this.pendingCheck) {
+        this.pendingCheck = this.checkMarket().finally(() => {
+          this.pendingCheck = null;
+        });
+      }
+      await this.pendingCheck;
+    }
+    return this.getStatus();
+  }
+
+  getStatus() {
+    return {
+      halted: this.halted,
+      reason: this.haltReason,
+      message: this.haltMessage,
+      halted_at: this.haltedAt,
+      last_checked_at: this.lastCheckedAt
+    };
+  }
+}
+
+// Export singleton instance
+const priceGuardService = new PriceGuardService();
+module.exports = priceGuardService;
@@ -0,0 +1,84 @@
+const axios = require('axios');
+
+/**
+ * CoinGecko price provider
+ * Fetches comprehensive Bitcoin market data from the CoinGecko REST API
+ */
+class CoinGeckoProvider {
+  constructor({ priority = 10, baseUrl = process.env.COINGECKO_API_URL || 'https://api.coingecko.com/api/v3' } = {}) {
+    this.name = 'coingecko';
+    this.priority = priority;
+    this.baseUrl = baseUrl;
+  }
+
+  // Fetch and normalize Bitcoin data into the bitcoin_data row shape
+  async fetchBitcoinData() {
+    const bitcoinResponse = await axios.get(
+      `${this.baseUrl}/coins/bitcoin`,
+      {
+        params: {
+          localization: false,
+          tickers: false,
+          market_data: true,
+          community_data: false,
+          developer_data: false,
+          sparkline: false
+        },
+        timeout: 15000,
+        headers: {
+          'User-Agent': 'BitTrade-App/1.0'
+        }
+      }
+    );
+
+    const data = bitcoinResponse.data;
+    const marketData = data.market_data;
+
+    if (!marketData || !marketData.current_price || !marketData.current_price.usd) {
+      throw new Error('Invalid response format from CoinGecko API');
+    }
+
+    return {
+      // Price data (rounded to integers for cleaner display)
+      btc_usd_price: Math.round(marketData.current_price.usd),
+      price_change_24h: marketData.price_change_24h ? Math.round(marketData.price_change_24h) : null,
+      price_change_24h_pct: marketData.price_change_percentage_24h || null,
+
+      // Market data
+      market_cap_usd: marketData.market_cap ? marketData.market_cap.usd : null,
+      volume_24h_usd: marketData.total_volume ? marketData.total_volume.usd : null,
+      high_24h_usd: marketData.high_24h ? Math.round(marketData.high_24h.usd) : null,
+      low_24h_usd: marketData.low_24h ? Math.round(marketData.low_24h.usd) : null,
+
+      // Price changes (all timeframes)
+      price_change_1h_pct: marketData.price_change_percentage_1h_in_currency ? marketData.price_change_percentage_1h_in_currency.usd : null,
+      price_change_7d_pct: marketData.price_change_percentage_7d || null,
+      price_change_30d_pct: marketData.price_change_percentage_30d || null,
+      price_change_60d_pct: marketData.price_change_percentage_60d || null,
+      price_change_200d_pct: marketData.price_change_percentage_200d || null,
+      price_change_1y_pct: marketData.price_change_percentage_1y || null,
+
+      // All-time records (rounded to integers)
+      ath_usd: marketData.ath ? Math.round(marketData.ath.usd) : null,
+      ath_date: marketData.ath_date ? marketData.ath_date.usd.split('T')[0] : null,
+      ath_change_pct: marketData.ath_change_percentage ? marketData.ath_change_percentage.usd : null,
+      atl_usd: marketData.atl ? Math.round(marketData.atl.usd) : null,
+      atl_date: marketData.atl_date ? marketData.atl_date.usd.split('T')[0] : null,
+      atl_change_pct: marketData.atl_change_percentage ? marketData.atl_change_percentage.usd : null
+    };
+  }
+
+  // Lightweight reachability check using the CoinGecko ping endpoint
+  async healthCheck() {
+    const response = await axios.get(`${this.baseUrl}/ping`, {
+      timeout: 5000,
+      headers: {
+        'User-Agent': 'BitTrade-App/1.0'
+      }
+    });
+
+    return response.status === 200;
+  }
+}
+
+module.exports = CoinGeckoProvider;
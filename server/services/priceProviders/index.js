@@ -0,0 +1,37 @@
+const PriceProviderRegistry = require('./priceProviderRegistry');
+const CoinGeckoProvider = require('./coinGeckoProvider');
+const LocalFileProvider = require('./localFileProvider');
+
+const PROVIDER_FACTORIES = {
+  coingecko: (priority) => new CoinGeckoProvider({ priority }),
+  local: (priority) => new LocalFileProvider({ priority })
+};
+
+/**
+ * Build the registry from PRICE_PROVIDERS (comma-separated, highest priority first).
+ * Defaults to CoinGecko only.
+ */
+const createPriceProviderRegistry = () => {
+  const registry = new PriceProviderRegistry();
+  const configured = (process.env.PRICE_PROVIDERS || 'coingecko')
+    .split(',')
+    .map(name => name.trim().toLowerCase())
+    .filter(Boolean);
+
+  configured.forEach((name, index) => {
+    const factory = PROVIDER_FACTORIES[name];
+    if (!factory) {
+      throw new Error(`Unknown price provider '${name}' in PRICE_PROVIDERS`);
+    }
+    registry.register(factory((index + 1) * 10));
+  });
+
+  return registry;
+};
+
+module.exports = {
+  PriceProviderRegistry,
+  CoinGeckoProvider,
+  LocalFileProvider,
+  createPriceProviderRegistry
+};
@@ -0,0 +1,58 @@
+const fs = require('fs');
+const path = require('path');
+
+const BITCOIN_DATA_FIELDS = [
+  'btc_usd_price', 'price_change_24h', 'price_change_24h_pct',
+  'market_cap_usd', 'volume_24h_usd', 'high_24h_usd', 'low_24h_usd',
+  'price_change_1h_pct', 'price_change_7d_pct', 'price_change_30d_pct',
+  'price_change_60d_pct', 'price_change_200d_pct', 'price_change_1y_pct',
+  'ath_usd', 'ath_date', 'ath_change_pct', 'atl_usd', 'atl_date', 'atl_change_pct'
+];
+
+/**
+ * Local file price provider
+ * Serves Bitcoin data from a JSON file for offline testing. The file may hold a
+ * single bitcoin_data object or an array of them, which is replayed one entry per tick.
+ */
+class LocalFileProvider {
+  constructor({ priority = 100, filePath = process.env.LOCAL_PRICE_FILE } = {}) {
+    this.name = 'local';
+    this.priority = priority;
+    this.filePath = path.resolve(filePath || path.join(__dirname, '../../data/local_bitcoin_data.json'));
+    this.tickIndex = 0;
+  }
+
+  async readEntries() {
+    const contents = await fs.promises.readFile(this.filePath, 'utf8');
+    const parsed = JSON.parse(contents);
+    const entries = Array.isArray(parsed) ? parsed : [parsed];
+
+    if (entries.length === 0) {
+      throw new Error(`Local price file ${this.filePath} contains no entries`);
+    }
+
+    return entries;
+  }
+
+  // Read the next entry from the file and normalize it into the bitcoin_data row shape
+  async fetchBitcoinData() {
+    const entries = await this.readEntries();
+    const entry = entries[this.tickIndex % entries.length];
+    this.tickIndex += 1;
+
+    const bitcoinData = {};
+    BITCOIN_DATA_FIELDS.forEach(field => {
+      bitcoinData[field] = entry[field] !== undefined ? entry[field] : null;
+    });
+    bitcoinData.btc_usd_price = Math.round(Number(entry.btc_usd_price));
+
+    return bitcoinData;
+  }
+
+  async healthCheck() {
+    await fs.promises.access(this.filePath, fs.constants.R_OK);
+    return true;
+  }
+}
+
+module.exports = LocalFileProvider;
@@ -0,0 +1,181 @@
+const { bitcoinDataLogger } = require('../../utils/logger');
+
+/**
+ * Price Provider Registry
+ * Holds the registered price sources ranked by priority (lowest number first),
+ * tracks their health and fails over to the next source when one errors.
+ * A provider's health follows its data fetches; health checks only record
+ * whether the source is reachable and can mark an unreachable one unhealthy.
+ *
+ * A provider is any object with:
+ *   - name: unique identifier
+ *   - priority: number, lower is preferred
+ *   - fetchBitcoinData(): resolves with a bitcoin_data shaped object
+ *   - healthCheck() (optional): resolves truthy when the source is reachable
+ */
+class PriceProviderRegistry {
+  constructor({ failureThreshold = 3, cooldownMs = 5 * 60 * 1000 } = {}) {
+    this.providers = [];
+    this.health = new Map();
+    this.failureThreshold = failureThreshold;
+    this.cooldownMs = cooldownMs;
+    this.lastProvider = null;
+    this.lastTickAt = null;
+  }
+
+  register(provider) {
+    if (!provider || !provider.name || typeof provider.fetchBitcoinData !== 'function') {
+      throw new Error('Price provider must have a name and a fetchBitcoinData() method');
+    }
+
+    // Re-registering a provider replaces the previous instance
+    this.providers = this.providers.filter(existing => existing.name !== provider.name);
+    this.providers.push(provider);
+    this.providers.sort((a, b) => (a.priority || 0) - (b.priority || 0));
+
+    this.health.set(provider.name, {
+      healthy: true,
+      consecutiveFailures: 0,
+      lastSuccessAt: null,
+      lastFailureAt: null,
+      lastError: null,
+      reachable: null,
+      lastCheckedAt: null
+    });
+
+    bitcoinDataLogger.info(`Price provider registered: ${provider.name} (priority ${provider.priority || 0})`);
+  }
+
+  unregister(name) {
+    this.providers = this.providers.filter(provider => provider.name !== name);
+    this.health.delete(name);
+  }
+
+  getProviders() {
+    return [...this.providers];
+  }
+
+  // Unhealthy providers are skipped until their cooldown elapses, then retried
+  isAvailable(name) {
+    const status = this.health.get(name);
+    if (!status || status.healthy) {
+      return true;
+    }
+    return Date.now() - status.lastFailureAt.getTime() >= this.cooldownMs;
+  }
+
+  markSuccess(name) {
+    this.health.set(name, {
+      ...this.health.get(name),
+      healthy: true,
+      consecutiveFailures: 0,
+      lastSuccessAt: new Date(),
+      lastError: null
+    });
+  }
+
+  markFailure(name, error) {
+    const status = this.health.get(name);
+    const consecutiveFailures = (status ? status.consecutiveFailures : 0) + 1;
+
+    this.health.set(name, {
+      ...status,
+      healthy: consecutiveFailures < this.failureThreshold,
+      consecutiveFailures,
+      lastFailureAt: new Date(),
+      lastError: error.message
+    });
+  }
+
+  // Try each available provider in priority order and return the first valid result
+  async fetchBitcoinData() {
+    if (this.providers.length === 0) {
+      throw new Error('No price providers registered');
+    }
+
+    const available = this.providers.filter(provider => this.isAvailable(provider.name));
+    // If every provider is cooling down, try them all rather than serving nothing
+    const candidates = available.length > 0 ? available : this.providers;
+    const errors = [];
+
+    for (const provider of candidates) {
+      try {
+        const data = await provider.fetchBitcoinData();
+
+        if (!data || !Number.isFinite(data.btc_usd_price) || data.btc_usd_price <= 0) {
+          throw new Error(`Invalid price data from provider ${provider.name}`);
+        }
+
+        this.markSuccess(provider.name);
+
+        if (this.lastProvider && this.lastProvider !== provider.name) {
+          bitcoinDataLogger.warn(`Price provider switched from ${this.lastProvider} to ${provider.name}`);
+        }
+
+        this.lastProvider = provider.name;
+        this.lastTickAt = new Date();
+
+        return { provider: provider.name, data };
+      } catch (error) {
+        this.markFailure(provider.name, error);
+        errors.push(`${provider.name}: ${error.message}`);
+        bitcoinDataLogger.warn(`Price provider ${provider.name} failed, trying next provider`, { error: error.message });
+      }
+    }
+
+    throw new Error(`All price providers failed (${errors.join('; ')})`);
+  }
+
+  // Run each provider's reachability check. Reaching a source does not make it healthy
+  // (its data fetches may still fail), but an unreachable source counts as a failure
+  async checkHealth() {
+    for (const provider of this.providers) {
+      if (typeof provider.healthCheck !== 'function') {
+        continue;
+      }
+
+      let reachable;
+      try {
+        reachable = Boolean(await provider.healthCheck());
+        if (!reachable) {
+          this.markFailure(provider.name, new Error('Health check failed'));
+        }
+      } catch (error) {
+        reachable = false;
+        this.markFailure(provider.name, error);
+      }
+
+      this.health.set(provider.name, {
+        ...this.health.get(provider.name),
+        reachable,
+        lastCheckedAt: new Date()
+      });
+    }
+
+    return this.getStatus({ includeErrors: true });
+  }
+
+  // Provider error messages are internal; only admin views ask for them
+  getStatus({ includeErrors = false } = {}) {
+    return {
+      active_provider: this.lastProvider,
+      last_tick_at: this.lastTickAt,
+      providers: this.providers.map(provider => {
+        const status = this.health.get(provider.name) || {};
+        return {
+          name: provider.name,
+          priority: provider.priority || 0,
+          healthy: status.healthy !== false,
+          consecutive_failures: status.consecutiveFailures || 0,
+          last_success_at: status.lastSuccessAt || null,
+          last_failure_at: status.lastFailureAt || null,
+          reachable: status.reachable ?? null,
+          last_checked_at: status.lastCheckedAt || null,
+          ...(includeErrors ? { last_error: status.lastError || null } : {})
+        };
+      })
+    };
+  }
+}
+
+module.exports = PriceProviderRegistry;
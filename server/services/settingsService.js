@@ -1,9 +1,22 @@
 const { query } = require('../config/database');
 
+// Settings that may hold fractions; every other setting is a whole number
+const DECIMAL_SETTINGS = ['price_max_deviation_pct'];
+
 /**
  * SettingsService - Manages application settings and configuration
  */
 const SettingsService = {
+  /**
+   * Convert a stored setting value to a number
+   * @param {string} key - Setting key
+   * @param {string|number} value - Stored value
+   * @returns {number} - Setting value
+   */
+  parseValue(key, value) {
+    return DECIMAL_SETTINGS.includes(key) ? parseFloat(value) : parseInt(value);
+  },
+
   /**
    * Get a setting value by key
    * @param {string} key - Setting key
@@ -17,7 +30,7 @@ const SettingsService = {
         throw new Error(`Setting '${key}' not found`);
       }
       
-      return parseInt(rows[0].value);
+      return this.parseValue(key, rows[0].value);
     } catch (error) {
       console.error(`Error getting setting '${key}':`, error);
       throw error;
@@ -52,7 +65,7 @@ const SettingsService = {
       
       const settings = {};
       rows.forEach(row => {
-        settings[row.key] = parseInt(row.value);
+        settings[row.key] = this.parseValue(row.key, row.value);
       });
       
       return settings;
@@ -0,0 +1,199 @@
+const { query } = require('../config/database');
+const portfolioService = require('./portfolioService');
+const { createTextPdf } = require('../utils/pdfDocument');
+
+const IST_OFFSET_MS = 330 * 60 * 1000;  // India Standard Time, UTC+05:30
+const VDA_TAX_RATE_PCT = 30;            // Section 115BBH flat rate on VDA transfers
+const TDS_RATE_PCT = 1;                 // Section 194S TDS on the sale consideration
+const COST_BASIS_METHOD = 'FIFO';
+
+/**
+ * Tax Report Service
+ * Builds per-financial-year reports for India's virtual digital asset (VDA) regime.
+ * Disposals come from the portfolio lot engine; each gain is taxed on its own at 30%
+ * because VDA losses cannot be set off, and 1% TDS is computed on every sale.
+ */
+class TaxReportService {
+  // Financial year containing the given date, e.g. '2025-26' (April to March, IST)
+  getFinancialYear(date = new Date()) {
+    const ist = new Date(date.getTime() + IST_OFFSET_MS);
+    const startYear = ist.getUTCMonth() >= 3 ? ist.getUTCFullYear() : ist.getUTCFullYear() - 1;
+    return `${startYear}-${String((startYear + 1) % 100).padStart(2, '0')}`;
+  }
+
+  // Accepts '2025-26' or '2025'; returns the UTC instants of 1 April 00:00 IST and the next 1 April
+  parseFinancialYear(financialYear) {
+    const match = /^(\d{4})(?:-(\d{2}))?$/.exec(String(financialYear));
+    if (!match) {
+      throw new Error('Invalid financial year');
+    }
+
+    const startYear = parseInt(match[1]);
+    const label = `${startYear}-${String((startYear + 1) % 100).padStart(2, '0')}`;
+    if (match[2] && label !== financialYear) {
+      throw new Error('Invalid financial year');
+    }
+
+    return {
+      label,
+      start: new Date(Date.UTC(startYear, 3, 1) - IST_OFFSET_MS),
+      end: new Date(Date.UTC(startYear + 1, 3, 1) - IST_OFFSET_MS)
+    };
+  }
+
+  formatIstDate(date) {
+    return new Date(new Date(date).getTime() + IST_OFFSET_MS).toISOString().slice(0, 10);
+  }
+
+  async generateReport(userId, financialYear = this.getFinancialYear()) {
+    const period = this.parseFinancialYear(financialYear);
+
+    const userRows = await query('SELECT name, email FROM users WHERE id = ?', [userId]);
+    if (userRows.length === 0) {
+      throw new Error('User not found');
+    }
+
+    const { disposals: allDisposals } = await portfolioService.replayLots(userId, COST_BASIS_METHOD);
+
+    // Withdrawals are transfers off the platform, not sales
+    const disposals = allDisposals
+      .filter(disposal => !disposal.isWithdrawal)
+      .filter(disposal => {
+        const disposedAt = new Date(disposal.disposedAt);
+        return disposedAt >= period.start && disposedAt < period.end;
+      })
+      .map(disposal => {
+        const acquisitionDates = disposal.lots.map(lot => this.formatIstDate(lot.acquiredAt)).sort();
+        return {
+          operation_id: disposal.operationId,
+          type: disposal.type,
+          date: this.formatIstDate(disposal.disposedAt),
+          btc_amount: disposal.btcAmount,
+          sale_consideration: disposal.proceeds,
+          cost_of_acquisition: disposal.costBasis,
+          gain: disposal.realizedProfit,
+          taxable_gain: Math.max(0, disposal.realizedProfit),
+          acquired_from: acquisitionDates[0] || null,
+          acquired_to: acquisitionDates[acquisitionDates.length - 1] || null
+        };
+      });
+
+    const sum = (field) => disposals.reduce((total, disposal) => total + disposal[field], 0);
+    const totalSaleConsideration = sum('sale_consideration');
+    const taxableGains = sum('taxable_gain');
+
+    return {
+      financial_year: period.label,
+      period_start: period.start.toISOString(),
+      period_end: period.end.toISOString(),
+      user: { name: userRows[0].name, email: userRows[0].email },
+      cost_basis_method: COST_BASIS_METHOD,
+      disposals,
+      summary: {
+        disposal_count: disposals.length,
+        total_sale_consideration: totalSaleConsideration,
+        total_cost_of_acquisition: sum('cost_of_acquisition'),
+        total_losses: disposals.reduce((total, disposal) => total + Math.min(0, disposal.gain), 0),
+        taxable_gains: taxableGains,
+        tax_rate_pct: VDA_TAX_RATE_PCT,
+        tax_payable: Math.round(taxableGains * VDA_TAX_RATE_PCT / 100),
+        tds_rate_pct: TDS_RATE_PCT,
+        tds_amount: Math.round(totalSaleConsideration * TDS_RATE_PCT / 100)
+      },
+      notes: [
+        `Gains on virtual digital assets are taxed at a flat ${VDA_TAX_RATE_PCT}% (section 115BBH); surcharge and 4% cess are not included.`,
+        'Losses cannot be set off against any gains or income, and cannot be carried forward; each disposal is taxed on its own.',
+        'No deduction other than the cost of acquisition is allowed.',
+        `Cost of acquisition uses ${COST_BASIS_METHOD} matching of executed buys, DCA buys and BTC deposits.`,
+        `TDS at ${TDS_RATE_PCT}% of the sale consideration (section 194S) is shown for reference; it can be claimed as credit against the tax payable.`,
+        'Liquidations of loan collateral are sales; BTC withdrawals are transfers and are not included.'
+      ]
+    };
+  }
+
+  toCsv(report) {
+    const header = 'Date (IST),Type,BTC Amount,Sale Consideration (INR),Cost of Acquisition (INR),Gain (INR),Taxable Gain (INR),Acquired From,Acquired To,Operation ID\n';
+    const rows = report.disposals.map(disposal => [
+      disposal.date,
+      disposal.type,
+      disposal.btc_amount.toFixed(8),
+      disposal.sale_consideration,
+      disposal.cost_of_acquisition,
+      disposal.gain,
+      disposal.taxable_gain,
+      disposal.acquired_from || '',
+      disposal.acquired_to || '',
+      disposal.operation_id
+    ].join(',')).join('\n');
+
+    const { summary } = report;
+    return `# ₿itTrade VDA Tax Report FY ${report.financial_year}\n`
+      + `# User: ${report.user.name} (${report.user.email})\n`
+      + `# Period: ${this.formatIstDate(report.period_start)} to ${this.formatIstDate(new Date(report.period_end).getTime() - 1)} (IST)\n`
+      + `# Generated: ${new Date().toISOString()}\n`
+      + `#\n`
+      + header
+      + rows
+      + `\n#\n`
+      + `# Total sale consideration,${summary.total_sale_consideration}\n`
+      + `# Total cost of acquisition,${summary.total_cost_of_acquisition}\n`
+      + `# Taxable gains,${summary.taxable_gains}\n`
+      + `# Losses (not set off),${summary.total_losses}\n`
+      + `# Tax payable @ ${summary.tax_rate_pct}%,${summary.tax_payable}\n`
+      + `# TDS @ ${summary.tds_rate_pct}%,${summary.tds_amount}\n`
+      + report.notes.map(note => `# ${note}`).join('\n')
+      + '\n';
+  }
+
+  toPdf(report) {
+    const { summary } = report;
+    const inr = (amount) => `Rs. ${Math.round(amount).toLocaleString('en-IN')}`;
+    const column = (value, width, alignRight = false) => {
+      const text = String(value);
+      return alignRight ? text.padStart(width) : text.padEnd(width);
+    };
+
+    const lines = [
+      { text: `BitTrade - VDA Tax Report FY ${report.financial_year}`, font: 'bold', size: 14 },
+      { text: `${report.user.name} (${report.user.email})` },
+      { text: `Period: ${this.formatIstDate(report.period_start)} to ${this.formatIstDate(new Date(report.period_end).getTime() - 1)} (IST)` },
+      { text: `Generated: ${new Date().toISOString()}` },
+      { text: '' },
+      { text: 'Summary', font: 'bold', size: 11 },
+      { text: `Disposals: ${summary.disposal_count}` },
+      { text: `Total sale consideration: ${inr(summary.total_sale_consideration)}` },
+      { text: `Total cost of acquisition: ${inr(summary.total_cost_of_acquisition)}` },
+      { text: `Taxable gains: ${inr(summary.taxable_gains)}` },
+      { text: `Losses (not set off): ${inr(summary.total_losses)}` },
+      { text: `Tax payable @ ${summary.tax_rate_pct}%: ${inr(summary.tax_payable)}`, font: 'bold' },
+      { text: `TDS @ ${summary.tds_rate_pct}% of sale consideration: ${inr(summary.tds_amount)}` },
+      { text: '' },
+      { text: 'Disposals', font: 'bold', size: 11 },
+      {
+        text: `${column('Date', 11)}${column('Type', 20)}${column('BTC', 12, true)}${column('Sale (Rs.)', 14, true)}${column('Cost (Rs.)', 14, true)}${column('Gain (Rs.)', 14, true)}`,
+        font: 'mono',
+        size: 8
+      }
+    ];
+
+    if (report.disposals.length === 0) {
+      lines.push({ text: 'No disposals in this financial year.' });
+    }
+    report.disposals.forEach(disposal => {
+      lines.push({
+        text: `${column(disposal.date, 11)}${column(disposal.type, 20)}${column(disposal.btc_amount.toFixed(8), 12, true)}${column(disposal.sale_consideration, 14, true)}${column(disposal.cost_of_acquisition, 14, true)}${column(disposal.gain, 14, true)}`,
+        font: 'mono',
+        size: 8
+      });
+    });
+
+    lines.push({ text: '' }, { text: 'Notes', font: 'bold', size: 11 });
+    report.notes.forEach(note => lines.push({ text: `- ${note}`, size: 8 }));
+
+    return createTextPdf(lines);
+  }
+}
+
+// Export singleton instance
+const taxReportService = new TaxReportService();
+module.exports = taxReportService;
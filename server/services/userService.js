@@ -1,13 +1,27 @@
 const { query, transaction } = require('../config/database');
 const { setCache, getCache, clearUserCache } = require('../config/redis');
 const bitcoinDataService = require('./bitcoinDataService');
+const priceGuardService = require('./priceGuardService');
+const limitOrderExecutionService = require('./limitOrderExecutionService');
+const dcaStrategyService = require('./dcaStrategyService');
+const dcaScheduleService = require('./dcaScheduleService');
+
+const DEFAULT_LIMIT_ORDER_TTL_HOURS = 24; // GTD expiry when the user does not pick one
+
+// A completed limit or stop order that filled in pieces is listed through its child fills,
+// so history does not show the same trade twice
+const EXCLUDE_SPLIT_ORDER_PARENTS = `AND NOT (operations.status = 'EXECUTED' AND EXISTS (
+  SELECT 1 FROM operations fill
+  WHERE fill.parent_id = operations.id AND fill.type = operations.type
+  AND fill.type IN ('LIMIT_BUY', 'LIMIT_SELL', 'STOP_LOSS_SELL', 'STOP_BUY', 'TRAILING_STOP_SELL', 'TRAILING_STOP_BUY')
+))`;
 
 class UserService {
-  async getUserBalances(userId) {
+  async getUserBalances(userId, { skipCache = false } = {}) {
     try {
       // Try cache first
       const cacheKey = `user:${userId}:balances`;
-      const cachedBalances = await getCache(cacheKey);
+      const cachedBalances = skipCache ? null : await getCache(cacheKey);
       if (cachedBalances) {
         return cachedBalances;
       }
@@ -47,7 +61,7 @@ class UserService {
 
       // Get recent operations (including pending limit orders)
       const operations = await query(
-        `SELECT id, type, status, inr_amount, btc_amount, execution_price, limit_price, loan_id, notes, executed_at, created_at FROM operations WHERE user_id = ? ORDER BY id DESC LIMIT ${parseInt(limit)}`,
+        `SELECT id, type, status, inr_amount, btc_amount, execution_price, limit_price, trail_percent, time_in_force, parent_id, oco_order_id, loan_id, notes, executed_at, expires_at, cancellation_reason, created_at FROM operations WHERE user_id = ? ${EXCLUDE_SPLIT_ORDER_PARENTS} ORDER BY id DESC LIMIT ${parseInt(limit)}`,
         [userId]
       );
 
@@ -72,14 +86,14 @@ class UserService {
     try {
       // Get total count for pagination
       const countResult = await query(
-        'SELECT COUNT(*) as total FROM operations WHERE user_id = ?',
+        `SELECT COUNT(*) as total FROM operations WHERE user_id = ? ${EXCLUDE_SPLIT_ORDER_PARENTS}`,
         [userId]
       );
       const totalCount = countResult[0].total;
 
       // Get operations (including pending limit orders)
       const operations = await query(
-        `SELECT id, type, status, inr_amount, btc_amount, execution_price, limit_price, loan_id, notes, executed_at, created_at FROM operations WHERE user_id = ? ORDER BY id DESC LIMIT ${parseInt(limit)} OFFSET ${parseInt(offset)}`,
+        `SELECT id, type, status, inr_amount, btc_amount, execution_price, limit_price, trail_percent, time_in_force, parent_id, oco_order_id, loan_id, notes, executed_at, expires_at, cancellation_reason, created_at FROM operations WHERE user_id = ? ${EXCLUDE_SPLIT_ORDER_PARENTS} ORDER BY id DESC LIMIT ${parseInt(limit)} OFFSET ${parseInt(offset)}`,
         [userId]
       );
       
@@ -124,8 +138,8 @@ class UserService {
           throw new Error('Insufficient INR balance');
         }
 
-        // Get current rates
-        const rates = await bitcoinDataService.getCalculatedRates();
+        // Get current rates (throws while the market is halted)
+        const rates = await priceGuardService.getValidatedRates();
         const btcAmount = Math.floor((inrAmount / rates.buyRate) * 100000000); // Convert to satoshis
 
         if (btcAmount <= 0) {
@@ -188,8 +202,8 @@ class UserService {
           throw new Error('Insufficient BTC balance');
         }
 
-        // Get current rates
-        const rates = await bitcoinDataService.getCalculatedRates();
+        // Get current rates (throws while the market is halted)
+        const rates = await priceGuardService.getValidatedRates();
         const inrAmount = Math.floor((btcAmount / 100000000) * rates.sellRate); // Convert from satoshis
 
         if (inrAmount <= 0) {
@@ -229,7 +243,7 @@ class UserService {
     }
   }
 
-  async placeLimitBuyOrder(userId, inrAmount, targetPrice) {
+  async placeLimitBuyOrder(userId, inrAmount, targetPrice, timeInForce = 'GTD', expiresAt = null) {
     try {
       if (inrAmount <= 0) {
         throw new Error('Amount must be greater than 0');
@@ -239,7 +253,9 @@ class UserService {
         throw new Error('Target price must be greater than 0');
       }
 
-      return await transaction(async (connection) => {
+      const expiry = this.getLimitOrderExpiry(timeInForce, expiresAt);
+
+      const order = await transaction(async (connection) => {
         // Get current balances
         const [userRows] = await connection.execute(
           'SELECT available_inr, available_btc, reserved_inr FROM users WHERE id = ?',
@@ -257,7 +273,7 @@ class UserService {
         }
 
         // Get current market price for validation
-        const rates = await bitcoinDataService.getCalculatedRates();
+        const rates = await priceGuardService.getValidatedRates();
         
         // Prevent placing buy orders too far above market price (protection)
         if (targetPrice > rates.buyRate * 1.5) {
@@ -281,10 +297,10 @@ class UserService {
           [newAvailableInr, newReservedInr, userId]
         );
 
-        // Create limit buy operation with 24-hour expiration
+        // Create limit buy operation; only GTD orders carry an expiry
         const [result] = await connection.execute(
-          'INSERT INTO operations (user_id, type, status, inr_amount, btc_amount, limit_price, expires_at) VALUES (?, ?, ?, ?, ?, ?, DATE_ADD(NOW(), INTERVAL 24 HOUR))',
-          [userId, 'LIMIT_BUY', 'PENDING', inrAmount, estimatedBtc, targetPrice]
+          'INSERT INTO operations (user_id, type, status, inr_amount, btc_amount, limit_price, time_in_force, expires_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?)',
+          [userId, 'LIMIT_BUY', 'PENDING', inrAmount, estimatedBtc, targetPrice, timeInForce, expiry]
         );
 
         // Clear user cache
@@ -295,17 +311,21 @@ class UserService {
           inrAmount,
           targetPrice,
           estimatedBtc,
+          timeInForce,
+          expiresAt: expiry,
           newAvailableBalance: newAvailableInr,
           currentBtcBalance: currentBalances.available_btc
         };
       });
+
+      return await this.runImmediateOrder(userId, order);
     } catch (error) {
       console.error('Error placing limit buy order:', error);
       throw error;
     }
   }
 
-  async placeLimitSellOrder(userId, btcAmount, targetPrice) {
+  async placeLimitSellOrder(userId, btcAmount, targetPrice, timeInForce = 'GTD', expiresAt = null) {
     try {
       if (btcAmount <= 0) {
         throw new Error('Amount must be greater than 0');
@@ -315,7 +335,9 @@ class UserService {
         throw new Error('Target price must be greater than 0');
       }
 
-      return await transaction(async (connection) => {
+      const expiry = this.getLimitOrderExpiry(timeInForce, expiresAt);
+
+      const order = await transaction(async (connection) => {
         // Get current balances
         const [userRows] = await connection.execute(
           'SELECT available_inr, available_btc, reserved_btc FROM users WHERE id = ?',
@@ -333,7 +355,7 @@ class UserService {
         }
 
         // Get current market price for validation
-        const rates = await bitcoinDataService.getCalculatedRates();
+        const rates = await priceGuardService.getValidatedRates();
         
         // Prevent placing sell orders too far below market price (protection)
         if (targetPrice < rates.sellRate * 0.5) {
@@ -357,10 +379,10 @@ class UserService {
           [newAvailableBtc, newReservedBtc, userId]
         );
 
-        // Create limit sell operation with 24-hour expiration
+        // Create limit sell operation; only GTD orders carry an expiry
         const [result] = await connection.execute(
-          'INSERT INTO operations (user_id, type, status, inr_amount, btc_amount, limit_price, expires_at) VALUES (?, ?, ?, ?, ?, ?, DATE_ADD(NOW(), INTERVAL 24 HOUR))',
-          [userId, 'LIMIT_SELL', 'PENDING', estimatedInr, btcAmount, targetPrice]
+          'INSERT INTO operations (user_id, type, status, inr_amount, btc_amount, limit_price, time_in_force, expires_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?)',
+          [userId, 'LIMIT_SELL', 'PENDING', estimatedInr, btcAmount, targetPrice, timeInForce, expiry]
         );
 
         // Clear user cache
@@ -371,16 +393,479 @@ class UserService {
           btcAmount,
           targetPrice,
           estimatedInr,
+          timeInForce,
+          expiresAt: expiry,
           newAvailableBalance: newAvailableBtc,
           currentInrBalance: currentBalances.available_inr
         };
       });
+
+      return await this.runImmediateOrder(userId, order);
     } catch (error) {
       console.error('Error placing limit sell order:', error);
       throw error;
     }
   }
 
+  // Amend a pending limit order's price, size (INR for buys, satoshis for sells) and/or expiry in place.
+  // The reservation is adjusted by the size difference and the order keeps its place in the queue.
+  async amendLimitOrder(userId, orderId, { targetPrice, amount, expiresAt }) {
+    try {
+      const rates = await priceGuardService.getValidatedRates();
+
+      return await transaction(async (connection) => {
+        // Lock the order first so the amounts and price the reserve delta is based on cannot change underneath
+        const [orderRows] = await connection.execute(
+          'SELECT * FROM operations WHERE id = ? AND user_id = ? FOR UPDATE',
+          [orderId, userId]
+        );
+
+        if (orderRows.length === 0 || orderRows[0].status !== 'PENDING') {
+          throw new Error('Pending order not found');
+        }
+
+        const order = orderRows[0];
+
+        if (order.type !== 'LIMIT_BUY' && order.type !== 'LIMIT_SELL') {
+          throw new Error('Only limit orders can be amended');
+        }
+
+        // Also locks an OCO leg and reports what has already filled
+        const current = await limitOrderExecutionService.getLockedOrderFills(connection, order);
+
+        if (current.oco_order_id) {
+          throw new Error('OCO orders cannot be amended');
+        }
+
+        if (expiresAt && (order.time_in_force || 'GTD') !== 'GTD') {
+          throw new Error('Expiry can only be set for GTD orders');
+        }
+
+        const isBuy = order.type === 'LIMIT_BUY';
+        const newPrice = targetPrice || order.limit_price;
+
+        // Same price protection as order placement
+        if (isBuy && newPrice > rates.buyRate * 1.5) {
+          throw new Error('Target price too high');
+        }
+
+        if (!isBuy && newPrice < rates.sellRate * 0.5) {
+          throw new Error('Target price too low');
+        }
+
+        const [userRows] = await connection.execute(
+          'SELECT available_inr, available_btc FROM users WHERE id = ? FOR UPDATE',
+          [userId]
+        );
+
+        if (userRows.length === 0) {
+          throw new Error('User not found');
+        }
+
+        const currentBalances = userRows[0];
+        let newInrAmount;
+        let newBtcAmount;
+        let reserveDelta;
+
+        if (isBuy) {
+          // Buy orders are sized in INR; BTC is re-estimated at the new price
+          newInrAmount = amount || order.inr_amount;
+          if (newInrAmount <= current.filled_inr) {
+            throw new Error('Amount must be greater than the already filled amount');
+          }
+
+          reserveDelta = newInrAmount - order.inr_amount;
+          if (reserveDelta > currentBalances.available_inr) {
+            throw new Error('Insufficient INR balance');
+          }
+
+          newBtcAmount = Math.floor((newInrAmount / newPrice) * 100000000);
+
+          await connection.execute(
+            'UPDATE users SET available_inr = available_inr - ?, reserved_inr = reserved_inr + ? WHERE id = ?',
+            [reserveDelta, reserveDelta, userId]
+          );
+        } else {
+          // Sell orders are sized in BTC; INR is re-estimated at the new price
+          newBtcAmount = amount || order.btc_amount;
+          if (newBtcAmount <= current.filled_btc) {
+            throw new Error('Amount must be greater than the already filled amount');
+          }
+
+          reserveDelta = newBtcAmount - order.btc_amount;
+          if (reserveDelta > currentBalances.available_btc) {
+            throw new Error('Insufficient BTC balance');
+          }
+
+          newInrAmount = Math.floor((newBtcAmount / 100000000) * newPrice);
+
+          await connection.execute(
+            'UPDATE users SET available_btc = available_btc - ?, reserved_btc = reserved_btc + ? WHERE id = ?',
+            [reserveDelta, reserveDelta, userId]
+          );
+        }
+
+        const newExpiry = expiresAt ? new Date(expiresAt) : order.expires_at;
+
+        if (newPrice === order.limit_price && reserveDelta === 0 && !expiresAt) {
+          throw new Error('No changes to apply');
+        }
+
+        await connection.execute(
+          'UPDATE operations SET limit_price = ?, inr_amount = ?, btc_amount = ?, expires_at = ? WHERE id = ?',
+          [newPrice, newInrAmount, newBtcAmount, newExpiry, orderId]
+        );
+
+        await connection.execute(
+          `INSERT INTO order_amendments 
+            (operation_id, user_id, old_limit_price, new_limit_price, old_inr_amount, new_inr_amount, old_btc_amount, new_btc_amount, old_expires_at, new_expires_at) 
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+          [orderId, userId, order.limit_price, newPrice, order.inr_amount, newInrAmount, order.btc_amount, newBtcAmount, order.expires_at, newExpiry]
+        );
+
+        // Clear user cache
+        await clearUserCache(userId);
+
+        return {
+          orderId: order.id,
+          type: order.type,
+          limitPrice: newPrice,
+          inrAmount: newInrAmount,
+          btcAmount: newBtcAmount,
+          expiresAt: newExpiry,
+          reserveDelta
+        };
+      });
+    } catch (error) {
+      console.error('Error amending limit order:', error);
+      throw error;
+    }
+  }
+
+  async getOrderAmendments(userId, orderId) {
+    try {
+      return await query(
+        'SELECT * FROM order_amendments WHERE operation_id = ? AND user_id = ? ORDER BY created_at DESC, id DESC',
+        [orderId, userId]
+      );
+    } catch (error) {
+      console.error('Error fetching order amendments:', error);
+      throw error;
+    }
+  }
+
+  // GTD orders expire at the chosen time (24 hours by default); GTC, IOC and FOK orders never expire
+  getLimitOrderExpiry(timeInForce, expiresAt) {
+    if (timeInForce !== 'GTD') {
+      return null;
+    }
+    return expiresAt ? new Date(expiresAt) : new Date(Date.now() + DEFAULT_LIMIT_ORDER_TTL_HOURS * 60 * 60 * 1000);
+  }
+
+  // IOC/FOK orders are matched once right after placement; the outcome replaces the pending state
+  async runImmediateOrder(userId, order) {
+    if (order.timeInForce !== 'IOC' && order.timeInForce !== 'FOK') {
+      return { ...order, status: 'PENDING' };
+    }
+
+    const outcome = await limitOrderExecutionService.executeImmediateOrder(userId, order.orderId);
+    await clearUserCache(userId);
+
+    return {
+      ...order,
+      status: outcome.status,
+      filledInr: outcome.filledInr,
+      filledBtc: outcome.filledBtc,
+      cancellationReason: outcome.cancellationReason
+    };
+  }
+
+  // OCO bracket: a take-profit limit sell and a stop-loss sell against the same reserved BTC.
+  // The legs link to each other via oco_order_id; whichever fills first cancels the other.
+  // The time in force (GTC or GTD) applies to the take-profit leg; if it expires the stop-loss leg stays open.
+  async placeOcoSellOrder(userId, btcAmount, targetPrice, stopPrice, timeInForce = 'GTC', expiresAt = null) {
+    try {
+      if (btcAmount <= 0) {
+        throw new Error('Amount must be greater than 0');
+      }
+
+      if (targetPrice <= 0 || stopPrice <= 0) {
+        throw new Error('Target and stop prices must be greater than 0');
+      }
+
+      if (timeInForce !== 'GTC' && timeInForce !== 'GTD') {
+        throw new Error('OCO orders must be GTC or GTD');
+      }
+
+      const expiry = this.getLimitOrderExpiry(timeInForce, expiresAt);
+
+      const rates = await priceGuardService.getValidatedRates();
+
+      // Either leg on the wrong side of the market would trigger immediately
+      if (targetPrice <= rates.sellRate) {
+        throw new Error('Target price must be above current sell rate');
+      }
+
+      if (stopPrice >= rates.sellRate) {
+        throw new Error('Stop price must be below current sell rate');
+      }
+
+      return await transaction(async (connection) => {
+        // Get current balances
+        const [userRows] = await connection.execute(
+          'SELECT available_inr, available_btc, reserved_btc FROM users WHERE id = ?',
+          [userId]
+        );
+
+        if (userRows.length === 0) {
+          throw new Error('User not found');
+        }
+
+        const currentBalances = userRows[0];
+
+        if (currentBalances.available_btc < btcAmount) {
+          throw new Error('Insufficient BTC balance');
+        }
+
+        // Estimated INR for each leg
+        const targetInr = Math.floor((btcAmount / 100000000) * targetPrice);
+        const stopInr = Math.floor((btcAmount / 100000000) * stopPrice);
+
+        if (stopInr <= 0) {
+          throw new Error('Estimated INR amount too small');
+        }
+
+        // Move BTC from available to reserved once for both legs
+        const newAvailableBtc = currentBalances.available_btc - btcAmount;
+        const newReservedBtc = currentBalances.reserved_btc + btcAmount;
+
+        await connection.execute(
+          'UPDATE users SET available_btc = ?, reserved_btc = ? WHERE id = ?',
+          [newAvailableBtc, newReservedBtc, userId]
+        );
+
+        const [targetResult] = await connection.execute(
+          'INSERT INTO operations (user_id, type, status, inr_amount, btc_amount, limit_price, time_in_force, expires_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?)',
+          [userId, 'LIMIT_SELL', 'PENDING', targetInr, btcAmount, targetPrice, timeInForce, expiry]
+        );
+
+        const [stopResult] = await connection.execute(
+          'INSERT INTO operations (user_id, type, status, inr_amount, btc_amount, limit_price, oco_order_id) VALUES (?, ?, ?, ?, ?, ?, ?)',
+          [userId, 'STOP_LOSS_SELL', 'PENDING', stopInr, btcAmount, stopPrice, targetResult.insertId]
+        );
+
+        await connection.execute(
+          'UPDATE operations SET oco_order_id = ? WHERE id = ?',
+          [stopResult.insertId, targetResult.insertId]
+        );
+
+        // Clear user cache
+        await clearUserCache(userId);
+
+        return {
+          targetOrderId: targetResult.insertId,
+          stopOrderId: stopResult.insertId,
+          btcAmount,
+          targetPrice,
+          stopPrice,
+          timeInForce,
+          expiresAt: expiry,
+          newAvailableBalance: newAvailableBtc,
+          currentInrBalance: currentBalances.available_inr
+        };
+      });
+    } catch (error) {
+      console.error('Error placing OCO sell order:', error);
+      throw error;
+    }
+  }
+
+  // Stop-loss sell: reserve BTC now, sell at market once the sell rate falls to the stop price
+  async placeStopLossSellOrder(userId, btcAmount, stopPrice) {
+    try {
+      if (btcAmount <= 0) {
+        throw new Error('Amount must be greater than 0');
+      }
+
+      if (stopPrice <= 0) {
+        throw new Error('Stop price must be greater than 0');
+      }
+
+      const rates = await priceGuardService.getValidatedRates();
+
+      // A stop at or above the market would trigger immediately
+      if (stopPrice >= rates.sellRate) {
+        throw new Error('Stop price must be below current sell rate');
+      }
+
+      return await this.reserveStopSellOrder(userId, 'STOP_LOSS_SELL', btcAmount, stopPrice, null);
+    } catch (error) {
+      console.error('Error placing stop-loss sell order:', error);
+      throw error;
+    }
+  }
+
+  // Stop buy: reserve INR now, buy at market once the buy rate rises to the stop price
+  async placeStopBuyOrder(userId, inrAmount, stopPrice) {
+    try {
+      if (inrAmount <= 0) {
+        throw new Error('Amount must be greater than 0');
+      }
+
+      if (stopPrice <= 0) {
+        throw new Error('Stop price must be greater than 0');
+      }
+
+      const rates = await priceGuardService.getValidatedRates();
+
+      // A stop at or below the market would trigger immediately
+      if (stopPrice <= rates.buyRate) {
+        throw new Error('Stop price must be above current buy rate');
+      }
+
+      return await this.reserveStopBuyOrder(userId, 'STOP_BUY', inrAmount, stopPrice, null);
+    } catch (error) {
+      console.error('Error placing stop buy order:', error);
+      throw error;
+    }
+  }
+
+  // Trailing stop: the stop price follows the market by trailPercent and triggers on a reversal
+  async placeTrailingStopOrder(userId, side, amount, trailPercent) {
+    try {
+      if (amount <= 0) {
+        throw new Error('Amount must be greater than 0');
+      }
+
+      if (trailPercent < 0.1 || trailPercent > 50) {
+        throw new Error('Trail percent must be between 0.1 and 50');
+      }
+
+      const rates = await priceGuardService.getValidatedRates();
+
+      if (side === 'SELL') {
+        const stopPrice = Math.floor(rates.sellRate * (1 - trailPercent / 100));
+        return await this.reserveStopSellOrder(userId, 'TRAILING_STOP_SELL', amount, stopPrice, trailPercent);
+      }
+
+      const stopPrice = Math.ceil(rates.buyRate * (1 + trailPercent / 100));
+      return await this.reserveStopBuyOrder(userId, 'TRAILING_STOP_BUY', amount, stopPrice, trailPercent);
+    } catch (error) {
+      console.error('Error placing trailing stop order:', error);
+      throw error;
+    }
+  }
+
+  // Reserve BTC for a sell-side stop order (same flow as placeLimitSellOrder, no expiry)
+  async reserveStopSellOrder(userId, type, btcAmount, stopPrice, trailPercent) {
+    return await transaction(async (connection) => {
+      const [userRows] = await connection.execute(
+        'SELECT available_inr, available_btc, reserved_btc FROM users WHERE id = ?',
+        [userId]
+      );
+
+      if (userRows.length === 0) {
+        throw new Error('User not found');
+      }
+
+      const currentBalances = userRows[0];
+
+      if (currentBalances.available_btc < btcAmount) {
+        throw new Error('Insufficient BTC balance');
+      }
+
+      // Calculate estimated INR amount at the stop price
+      const estimatedInr = Math.floor((btcAmount / 100000000) * stopPrice);
+
+      if (estimatedInr <= 0) {
+        throw new Error('Estimated INR amount too small');
+      }
+
+      // Move BTC from available to reserved
+      const newAvailableBtc = currentBalances.available_btc - btcAmount;
+      const newReservedBtc = currentBalances.reserved_btc + btcAmount;
+
+      await connection.execute(
+        'UPDATE users SET available_btc = ?, reserved_btc = ? WHERE id = ?',
+        [newAvailableBtc, newReservedBtc, userId]
+      );
+
+      // Stop orders stay open until triggered or cancelled
+      const [result] = await connection.execute(
+        'INSERT INTO operations (user_id, type, status, inr_amount, btc_amount, limit_price, trail_percent) VALUES (?, ?, ?, ?, ?, ?, ?)',
+        [userId, type, 'PENDING', estimatedInr, btcAmount, stopPrice, trailPercent]
+      );
+
+      await clearUserCache(userId);
+
+      return {
+        orderId: result.insertId,
+        type,
+        btcAmount,
+        stopPrice,
+        trailPercent,
+        estimatedInr,
+        newAvailableBalance: newAvailableBtc,
+        currentInrBalance: currentBalances.available_inr
+      };
+    });
+  }
+
+  // Reserve INR for a buy-side stop order (same flow as placeLimitBuyOrder, no expiry)
+  async reserveStopBuyOrder(userId, type, inrAmount, stopPrice, trailPercent) {
+    return await transaction(async (connection) => {
+      const [userRows] = await connection.execute(
+        'SELECT available_inr, available_btc, reserved_inr FROM users WHERE id = ?',
+        [userId]
+      );
+
+      if (userRows.length === 0) {
+        throw new Error('User not found');
+      }
+
+      const currentBalances = userRows[0];
+
+      if (currentBalances.available_inr < inrAmount) {
+        throw new Error('Insufficient INR balance');
+      }
+
+      // Calculate estimated BTC amount at the stop price
+      const estimatedBtc = Math.floor((inrAmount / stopPrice) * 100000000);
+
+      if (estimatedBtc <= 0) {
+        throw new Error('Estimated BTC amount too small');
+      }
+
+      // Move INR from available to reserved
+      const newAvailableInr = currentBalances.available_inr - inrAmount;
+      const newReservedInr = currentBalances.reserved_inr + inrAmount;
+
+      await connection.execute(
+        'UPDATE users SET available_inr = ?, reserved_inr = ? WHERE id = ?',
+        [newAvailableInr, newReservedInr, userId]
+      );
+
+      // Stop orders stay open until triggered or cancelled
+      const [result] = await connection.execute(
+        'INSERT INTO operations (user_id, type, status, inr_amount, btc_amount, limit_price, trail_percent) VALUES (?, ?, ?, ?, ?, ?, ?)',
+        [userId, type, 'PENDING', inrAmount, estimatedBtc, stopPrice, trailPercent]
+      );
+
+      await clearUserCache(userId);
+
+      return {
+        orderId: result.insertId,
+        type,
+        inrAmount,
+        stopPrice,
+        trailPercent,
+        estimatedBtc,
+        newAvailableBalance: newAvailableInr,
+        currentBtcBalance: currentBalances.available_btc
+      };
+    });
+  }
+
   formatBalancesForDisplay(balances) {
     return {
       inr: balances.inr_balance,
@@ -397,6 +882,12 @@ class UserService {
       btc_amount: transaction.btc_amount / 100000000, // Convert satoshis to BTC
       btc_price: transaction.btc_price,
       execution_price: transaction.execution_price,
+      trail_percent: transaction.trail_percent ? parseFloat(transaction.trail_percent) : null,
+      parent_id: transaction.parent_id,
+      oco_order_id: transaction.oco_order_id || null,
+      time_in_force: transaction.time_in_force || null,
+      expires_at: transaction.expires_at || null,
+      cancellation_reason: transaction.cancellation_reason || null,
       loan_id: transaction.loan_id,
       notes: transaction.notes,
       executed_at: transaction.executed_at,
@@ -632,7 +1123,13 @@ class UserService {
       frequency,
       totalExecutions,
       maxPrice,
-      minPrice
+      minPrice,
+      strategy,
+      catchUpPolicy,
+      schedule,
+      budgetLimit,
+      goalAmount,
+      endDate
     } = planConfig;
 
     // Validate price limits
@@ -640,6 +1137,10 @@ class UserService {
       throw new Error('Invalid price limits');
     }
 
+    const planSchedule = frequency === 'CUSTOM' ? dcaScheduleService.normalizeSchedule(schedule) : null;
+
+    const strategyColumns = dcaStrategyService.normalizeStrategy('DCA_BUY', amountPerExecution, strategy);
+
     try {
       return await transaction(async (connection) => {  
         const [userRows] = await connection.execute(
@@ -658,29 +1159,32 @@ class UserService {
           throw new Error('Insufficient INR balance for DCA plan');
         }
 
-        const nextExecutionAt = new Date();
-        if (frequency === 'HOURLY') {
-          nextExecutionAt.setHours(nextExecutionAt.getHours() + 1);
-        } else if (frequency === 'DAILY') {
-          nextExecutionAt.setDate(nextExecutionAt.getDate() + 1);
-        } else if (frequency === 'WEEKLY') {
-          nextExecutionAt.setDate(nextExecutionAt.getDate() + 7);
-        } else if (frequency === 'MONTHLY') {
-          nextExecutionAt.setMonth(nextExecutionAt.getMonth() + 1);
-        }
+        const now = new Date();
+        const nextExecutionAt = dcaScheduleService.getNextExecution({ frequency, schedule: planSchedule, created_at: now }, now);
 
         const [result] = await connection.execute(
-          'INSERT INTO active_plans (user_id, plan_type, status, frequency, amount_per_execution, next_execution_at, remaining_executions, max_price, min_price) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)',
+          'INSERT INTO active_plans (user_id, plan_type, status, frequency, amount_per_execution, strategy, va_target_growth, va_max_amount, dip_threshold_pct, dip_multiplier, dip_ma_days, next_execution_at, remaining_executions, max_price, min_price, catch_up_policy, schedule, budget_limit, goal_amount, end_date) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
           [
             userId, 
             'DCA_BUY', 
             'ACTIVE', 
             frequency, 
             amountPerExecution, 
+            strategyColumns.strategy,
+            strategyColumns.va_target_growth,
+            strategyColumns.va_max_amount,
+            strategyColumns.dip_threshold_pct,
+            strategyColumns.dip_multiplier,
+            strategyColumns.dip_ma_days,
             nextExecutionAt, 
             totalExecutions || null, 
             maxPrice || null, 
-            minPrice || null
+            minPrice || null,
+            catchUpPolicy || 'ONCE',
+            planSchedule ? JSON.stringify(planSchedule) : null,
+            budgetLimit ?? null,
+            goalAmount ?? null,
+            endDate ? new Date(endDate) : null
           ]
         );
 
@@ -690,6 +1194,8 @@ class UserService {
           planId: result.insertId,
           amountPerExecution,
           frequency,
+          strategy: strategyColumns.strategy,
+          schedule: planSchedule,
           nextExecutionAt,
         };
       });
@@ -705,7 +1211,12 @@ class UserService {
       frequency,
       totalExecutions,
       maxPrice,
-      minPrice
+      minPrice,
+      catchUpPolicy,
+      schedule,
+      budgetLimit,
+      goalAmount,
+      endDate
     } = planConfig;
 
     // Validate price limits
@@ -713,6 +1224,8 @@ class UserService {
       throw new Error('Invalid price limits');
     }
 
+    const planSchedule = frequency === 'CUSTOM' ? dcaScheduleService.normalizeSchedule(schedule) : null;
+
     try {
       return await transaction(async (connection) => {  
         const [userRows] = await connection.execute(
@@ -731,19 +1244,11 @@ class UserService {
           throw new Error('Insufficient BTC balance for DCA plan');
         }
 
-        const nextExecutionAt = new Date();
-        if (frequency === 'HOURLY') {
-          nextExecutionAt.setHours(nextExecutionAt.getHours() + 1);
-        } else if (frequency === 'DAILY') {
-          nextExecutionAt.setDate(nextExecutionAt.getDate() + 1);
-        } else if (frequency === 'WEEKLY') {
-          nextExecutionAt.setDate(nextExecutionAt.getDate() + 7);
-        } else if (frequency === 'MONTHLY') {
-          nextExecutionAt.setMonth(nextExecutionAt.getMonth() + 1);
-        }
+        const now = new Date();
+        const nextExecutionAt = dcaScheduleService.getNextExecution({ frequency, schedule: planSchedule, created_at: now }, now);
 
         const [result] = await connection.execute(
-          'INSERT INTO active_plans (user_id, plan_type, status, frequency, amount_per_execution, next_execution_at, remaining_executions, max_price, min_price) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)',
+          'INSERT INTO active_plans (user_id, plan_type, status, frequency, amount_per_execution, next_execution_at, remaining_executions, max_price, min_price, catch_up_policy, schedule, budget_limit, goal_amount, end_date) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
           [
             userId, 
             'DCA_SELL', 
@@ -753,7 +1258,12 @@ class UserService {
             nextExecutionAt, 
             totalExecutions || null, 
             maxPrice || null, 
-            minPrice || null
+            minPrice || null,
+            catchUpPolicy || 'ONCE',
+            planSchedule ? JSON.stringify(planSchedule) : null,
+            budgetLimit ?? null,
+            goalAmount ?? null,
+            endDate ? new Date(endDate) : null
           ]
         );
 
@@ -763,6 +1273,7 @@ class UserService {
           planId: result.insertId,
           amountPerExecution,
           frequency,
+          schedule: planSchedule,
           nextExecutionAt,
         };
       });
@@ -771,6 +1282,151 @@ class UserService {
       throw error;
     }
   }
+
+  /**
+   * Edit an active or paused DCA plan in place, keeping its execution history
+   * @param {number} userId - Plan owner
+   * @param {number} planId - Plan ID
+   * @param {Object} changes - { amountPerExecution, frequency, schedule, maxPrice, minPrice, remainingExecutions };
+   *   undefined leaves a field as it is, null clears a price bound or makes the plan unlimited
+   * @returns {Promise<Object>} - Plan values after the edit; rescheduled is true when the next run moved
+   */
+  async amendDcaPlan(userId, planId, changes) {
+    try {
+      return await transaction(async (connection) => {
+        const [planRows] = await connection.execute(
+          'SELECT * FROM active_plans WHERE id = ? AND user_id = ? AND status IN ("ACTIVE", "PAUSED") FOR UPDATE',
+          [planId, userId]
+        );
+
+        if (planRows.length === 0) {
+          throw new Error('DCA plan not found');
+        }
+
+        const plan = planRows[0];
+        const isBuy = plan.plan_type === 'DCA_BUY';
+        const oldSchedule = typeof plan.schedule === 'string' ? JSON.parse(plan.schedule) : plan.schedule;
+
+        const newAmount = changes.amountPerExecution ?? plan.amount_per_execution;
+        const newFrequency = changes.frequency ?? plan.frequency;
+        const newMaxPrice = changes.maxPrice !== undefined ? changes.maxPrice : plan.max_price;
+        const newMinPrice = changes.minPrice !== undefined ? changes.minPrice : plan.min_price;
+        const newRemaining = changes.remainingExecutions !== undefined ? changes.remainingExecutions : plan.remaining_executions;
+
+        // A new schedule is only needed when switching to CUSTOM or replacing the current rule
+        let newSchedule = null;
+        if (newFrequency === 'CUSTOM') {
+          if (changes.schedule !== undefined) {
+            newSchedule = dcaScheduleService.normalizeSchedule(changes.schedule);
+          } else if (plan.frequency === 'CUSTOM') {
+            newSchedule = oldSchedule;
+          } else {
+            throw new Error('Custom frequency requires a schedule');
+          }
+        }
+
+        if (newMaxPrice && newMinPrice && newMaxPrice <= newMinPrice) {
+          throw new Error('Invalid price limits');
+        }
+
+        // Stored JSON comes back with its keys reordered, so compare canonical forms
+        const scheduleChanged = newFrequency !== plan.frequency || (newFrequency === 'CUSTOM' && changes.schedule !== undefined &&
+          JSON.stringify(newSchedule) !== JSON.stringify(dcaScheduleService.normalizeSchedule(oldSchedule)));
+
+        if (newAmount === plan.amount_per_execution && !scheduleChanged && newMaxPrice === plan.max_price &&
+          newMinPrice === plan.min_price && newRemaining === plan.remaining_executions) {
+          throw new Error('No changes to apply');
+        }
+
+        // Same balance check as plan creation: enough for at least one execution
+        if (newAmount > plan.amount_per_execution) {
+          const [userRows] = await connection.execute(
+            'SELECT available_inr, available_btc FROM users WHERE id = ?',
+            [userId]
+          );
+          if (isBuy && userRows[0].available_inr < newAmount) {
+            throw new Error('Insufficient INR balance for DCA plan');
+          }
+          if (!isBuy && userRows[0].available_btc < newAmount) {
+            throw new Error('Insufficient BTC balance for DCA plan');
+          }
+        }
+
+        // Value averaging targets are set relative to the base amount, so they scale with it
+        let newTargetGrowth = plan.va_target_growth;
+        let newVaMaxAmount = plan.va_max_amount;
+        if (plan.strategy === 'VALUE_AVERAGING' && newAmount !== plan.amount_per_execution) {
+          const scale = newAmount / plan.amount_per_execution;
+          newTargetGrowth = Math.max(Math.round(Number(plan.va_target_growth) * scale), 1);
+          newVaMaxAmount = Math.max(Math.round(Number(plan.va_max_amount) * scale), newTargetGrowth);
+        }
+
+        // Active plans run one new period from now, or at the new schedule's next run;
+        // paused plans get their next run when they are resumed
+        const newNextExecutionAt = scheduleChanged && plan.status === 'ACTIVE'
+          ? dcaScheduleService.getNextExecution({ ...plan, frequency: newFrequency, schedule: newSchedule }, new Date())
+          : plan.next_execution_at;
+
+        await connection.execute(
+          'UPDATE active_plans SET amount_per_execution = ?, va_target_growth = ?, va_max_amount = ?, frequency = ?, schedule = ?, max_price = ?, min_price = ?, remaining_executions = ?, next_execution_at = ? WHERE id = ?',
+          [newAmount, newTargetGrowth, newVaMaxAmount, newFrequency, newSchedule ? JSON.stringify(newSchedule) : null, newMaxPrice, newMinPrice, newRemaining, newNextExecutionAt, plan.id]
+        );
+
+        await connection.execute(
+          `INSERT INTO dca_plan_changes
+            (plan_id, user_id, old_amount_per_execution, new_amount_per_execution, old_frequency, new_frequency, old_schedule, new_schedule, old_max_price, new_max_price, old_min_price, new_min_price, old_remaining_executions, new_remaining_executions, old_next_execution_at, new_next_execution_at)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+          [
+            plan.id, userId,
+            plan.amount_per_execution, newAmount,
+            plan.frequency, newFrequency,
+            oldSchedule ? JSON.stringify(oldSchedule) : null, newSchedule ? JSON.stringify(newSchedule) : null,
+            plan.max_price, newMaxPrice,
+            plan.min_price, newMinPrice,
+            plan.remaining_executions, newRemaining,
+            plan.next_execution_at, newNextExecutionAt
+          ]
+        );
+
+        await clearUserCache(userId);
+
+        return {
+          planId: plan.id,
+          planType: plan.plan_type,
+          status: plan.status,
+          amountPerExecution: newAmount,
+          vaTargetGrowth: newTargetGrowth,
+          vaMaxAmount: newVaMaxAmount,
+          frequency: newFrequency,
+          schedule: newSchedule,
+          maxPrice: newMaxPrice,
+          minPrice: newMinPrice,
+          remainingExecutions: newRemaining,
+          nextExecutionAt: newNextExecutionAt,
+          rescheduled: new Date(newNextExecutionAt).getTime() !== new Date(plan.next_execution_at).getTime()
+        };
+      });
+    } catch (error) {
+      console.error('Error amending DCA plan:', error);
+      throw error;
+    }
+  }
+
+  async getDcaPlanChanges(userId, planId) {
+    try {
+      return await query(
+        `SELECT c.*, ap.plan_type
+         FROM dca_plan_changes c
+         JOIN active_plans ap ON ap.id = c.plan_id
+         WHERE c.plan_id = ? AND c.user_id = ?
+         ORDER BY c.created_at DESC, c.id DESC`,
+        [planId, userId]
+      );
+    } catch (error) {
+      console.error('Error fetching DCA plan changes:', error);
+      throw error;
+    }
+  }
 }
 
 // Export singleton instance
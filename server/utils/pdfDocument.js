@@ -0,0 +1,93 @@
+// Minimal PDF writer for plain-text reports. Uses the standard Helvetica and Courier
+// fonts, which every PDF reader ships, so nothing has to be embedded.
+
+const PAGE_WIDTH = 595;   // A4 in points
+const PAGE_HEIGHT = 842;
+const MARGIN = 40;
+const DEFAULT_FONT_SIZE = 9;
+
+const FONTS = {
+  regular: { key: 'F1', name: 'Helvetica' },
+  bold: { key: 'F2', name: 'Helvetica-Bold' },
+  mono: { key: 'F3', name: 'Courier' }
+};
+
+// Only printable ASCII is safe with the standard fonts' default encoding
+const escapeText = (text) => String(text)
+  .replace(/[^\x20-\x7e]/g, '?')
+  .replace(/([\\()])/g, '\\$1');
+
+// Split lines into pages, top to bottom
+const paginate = (lines) => {
+  const pages = [];
+  let current = [];
+  let y = PAGE_HEIGHT - MARGIN;
+
+  lines.forEach(line => {
+    const size = line.size || DEFAULT_FONT_SIZE;
+    const leading = size + 4;
+    if (y - leading < MARGIN) {
+      pages.push(current);
+      current = [];
+      y = PAGE_HEIGHT - MARGIN;
+    }
+    y -= leading;
+    current.push({ ...line, size, y });
+  });
+  pages.push(current);
+
+  return pages;
+};
+
+/**
+ * Build a PDF from lines of text.
+ * @param {Array<{text: string, font?: 'regular'|'bold'|'mono', size?: number}>} lines
+ * @returns {Buffer}
+ */
+const createTextPdf = (lines) => {
+  const pages = paginate(lines);
+  const fontIds = { regular: 3, bold: 4, mono: 5 };
+  const firstPageId = 6;
+
+  const objects = [];
+  objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+  objects[2] = `<< /Type /Pages /Kids [${pages.map((page, index) => `${firstPageId + index * 2} 0 R`).join(' ')}] /Count ${pages.length} >>`;
+  Object.entries(fontIds).forEach(([font, id]) => {
+    objects[id] = `<< /Type /Font /Subtype /Type1 /BaseFont /${FONTS[font].name} >>`;
+  });
+
+  const fontResources = Object.entries(fontIds)
+    .map(([font, id]) => `/${FONTS[font].key} ${id} 0 R`)
+    .join(' ');
+
+  pages.forEach((page, index) => {
+    const pageId = firstPageId + index * 2;
+    const contentId = pageId + 1;
+    const stream = page
+      .map(line => `BT /${FONTS[line.font || 'regular'].key} ${line.size} Tf ${MARGIN} ${line.y} Td (${escapeText(line.text)}) Tj ET`)
+      .join('\n');
+
+    objects[pageId] = `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Resources << /Font << ${fontResources} >> >> /Contents ${contentId} 0 R >>`;
+    objects[contentId] = `<< /Length ${Buffer.byteLength(stream, 'latin1')} >>\nstream\n${stream}\nendstream`;
+  });
+
+  let output = '%PDF-1.4\n';
+  const offsets = [];
+  for (let id = 1; id < objects.length; id++) {
+    offsets[id] = Buffer.byteLength(output, 'latin1');
+    output += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+  }
+
+  const xrefOffset = Buffer.byteLength(output, 'latin1');
+  output += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+  for (let id = 1; id < objects.length; id++) {
+    output += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+  }
+  output += `trailer\n<< /Size ${objects.length} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Buffer.from(output, 'latin1');
+};
+
+module.exports = {
+  createTextPdf
+};